@@ -0,0 +1,140 @@
+/**
+ * Local backlink index stand-in for PurpleSky.
+ *
+ * Serves the Constellation routes the app uses from fixture records, so
+ * votes, reply counts and references can be worked on offline:
+ *   GET /links?target&collection&path[&limit][&cursor]   → { total, linking_records, cursor }
+ *   GET /links/count?target&collection&path              → { total }
+ *   GET /links/count/distinct-dids?target&collection&path → { total }
+ *
+ * Usage:
+ *   node scripts/backlinks-server.mjs [--port 6789] [--fixtures scripts/fixtures/backlinks.json]
+ *   VITE_CONSTELLATION_URL=http://127.0.0.1:6789 npm run dev
+ * (or enter the URL under Account menu → Backlink index…)
+ *
+ * Fixtures are { records: [{ uri, value }] }; later records count as newer.
+ * The file is reloaded when it changes, so new records show up without a
+ * restart (handy for checking the app after the "indexing delay").
+ */
+
+import { createServer } from 'node:http';
+import { readFileSync, watch } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+}
+
+const port = Number(arg('port', 6789));
+const host = arg('host', '127.0.0.1');
+const fixturesPath = resolve(arg('fixtures', resolve(__dirname, 'fixtures/backlinks.json')));
+const DEFAULT_LIMIT = 16;
+const MAX_LIMIT = 100;
+
+// ── Fixtures ──────────────────────────────────────────────────────────────
+
+/** @type {Array<{ did: string; collection: string; rkey: string; value: unknown }>} */
+let records = [];
+
+function loadFixtures() {
+  try {
+    const data = JSON.parse(readFileSync(fixturesPath, 'utf-8'));
+    records = (data.records ?? []).flatMap((r) => {
+      const m = /^at:\/\/([^/]+)\/([^/]+)\/(.+)$/.exec(r.uri ?? '');
+      if (!m) {
+        console.warn('Skipping record with bad uri:', r.uri);
+        return [];
+      }
+      return [{ did: m[1], collection: m[2], rkey: m[3], value: r.value }];
+    });
+    console.log(`Loaded ${records.length} records from ${fixturesPath}`);
+  } catch (err) {
+    console.error('Could not read fixtures:', err.message);
+  }
+}
+
+/**
+ * Values at a Constellation path: ".subject.uri" walks objects; a "[]"
+ * suffix (".facets[].features[].did") walks every array element.
+ */
+function valuesAt(value, path) {
+  let current = [value];
+  for (const part of path.split('.').filter(Boolean)) {
+    const isArray = part.endsWith('[]');
+    const key = isArray ? part.slice(0, -2) : part;
+    current = current.flatMap((v) => {
+      const next = v && typeof v === 'object' ? v[key] : undefined;
+      if (isArray) return Array.isArray(next) ? next : [];
+      return next === undefined ? [] : [next];
+    });
+  }
+  return current;
+}
+
+/** Records linking to target, newest first. */
+function linking(target, collection, path) {
+  return records
+    .filter((r) => r.collection === collection && valuesAt(r.value, path).includes(target))
+    .reverse();
+}
+
+// ── Server ────────────────────────────────────────────────────────────────
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  const url = new URL(req.url ?? '/', `http://${host}`);
+  const q = url.searchParams;
+  if (url.pathname === '/') {
+    return send(res, 200, { service: 'purplesky backlinks stand-in', records: records.length });
+  }
+  const target = q.get('target');
+  const collection = q.get('collection');
+  const path = q.get('path');
+  if (!target || !collection || !path) {
+    return send(res, 400, { error: 'target, collection and path are required' });
+  }
+  const found = linking(target, collection, path);
+
+  switch (url.pathname) {
+    case '/links': {
+      const limit = Math.min(MAX_LIMIT, Math.max(1, Number(q.get('limit')) || DEFAULT_LIMIT));
+      const offset = Number(q.get('cursor')) || 0;
+      const page = found.slice(offset, offset + limit);
+      return send(res, 200, {
+        total: found.length,
+        linking_records: page.map(({ did, collection: c, rkey }) => ({ did, collection: c, rkey })),
+        cursor: offset + limit < found.length ? String(offset + limit) : null,
+      });
+    }
+    case '/links/count':
+      return send(res, 200, { total: found.length });
+    case '/links/count/distinct-dids':
+      return send(res, 200, { total: new Set(found.map((r) => r.did)).size });
+    default:
+      return send(res, 404, { error: `No route ${url.pathname}` });
+  }
+});
+
+loadFixtures();
+let reloadTimer = null;
+watch(fixturesPath, () => {
+  // Editors fire several events per save
+  clearTimeout(reloadTimer);
+  reloadTimer = setTimeout(loadFixtures, 100);
+});
+server.listen(port, host, () => {
+  console.log(`Backlink stand-in on http://${host}:${port}`);
+});
@@ -0,0 +1,192 @@
+/**
+ * WASM transfer benchmark for PurpleSky.
+ *
+ * Times the hot paths (sorting, feed remix, masonry append) through the
+ * JSON exports and through the packed typed-array exports (wasm-packed.ts),
+ * including encoding, the copy into the worker (structuredClone, transferring
+ * typed arrays like wasm-bridge.ts does) and decoding. Also checks that both
+ * paths give the same result.
+ *
+ * Usage:
+ *   npm run build:wasm
+ *   node scripts/bench-wasm.mjs [sizes…]     e.g. node scripts/bench-wasm.mjs 1000 20000
+ *
+ * The packing helpers are bundled from src/lib with esbuild (comes with Vite).
+ */
+
+import { readFileSync, existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { resolve, join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+const pkgDir = join(root, 'src/wasm-pkg');
+const sizes = process.argv.slice(2).map(Number).filter((n) => n > 0);
+if (sizes.length === 0) sizes.push(1000, 5000, 10000);
+const RUNS = 15;
+const NOW = Date.UTC(2025, 5, 1);
+
+// ── Setup ─────────────────────────────────────────────────────────────────
+
+async function loadModules() {
+  if (!existsSync(join(pkgDir, 'purplesky_wasm.js'))) {
+    console.error('WASM package not found at', pkgDir, '– run npm run build:wasm first');
+    process.exit(1);
+  }
+  const wasm = await import(pathToFileURL(join(pkgDir, 'purplesky_wasm.js')).href);
+  wasm.initSync({ module: readFileSync(join(pkgDir, 'purplesky_wasm_bg.wasm')) });
+
+  const outDir = mkdtempSync(join(tmpdir(), 'purplesky-bench-'));
+  try {
+    const outfile = join(outDir, 'wasm-packed.mjs');
+    await build({
+      entryPoints: [join(root, 'src/lib/wasm-packed.ts')],
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      outfile,
+      logLevel: 'warning',
+    });
+    const packed = await import(pathToFileURL(outfile).href);
+    return { wasm, packed };
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+/** Deterministic PRNG so runs are comparable. */
+function rng(seed) {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function makePosts(n, seed) {
+  const rand = rng(seed);
+  const int = (max) => Math.floor(rand() * max);
+  return Array.from({ length: n }, (_, i) => ({
+    uri: `at://did:plc:${int(n / 4).toString(36)}/app.bsky.feed.post/${i.toString(36)}`,
+    created_at: new Date(NOW - int(7 * 24 * 3600_000)).toISOString(),
+    like_count: int(500),
+    downvote_count: int(40),
+    reply_count: int(60),
+    repost_count: int(120),
+    source_index: 0,
+    author: `did:plc:${int(Math.max(1, n / 20)).toString(36)}`,
+    ...(rand() < 0.2 ? { reposted_by: `did:plc:r${int(30)}` } : {}),
+    has_media: rand() < 0.6,
+    media_aspect_ratio: rand() < 0.8 ? 0.5 + rand() * 1.5 : null,
+    text_length: int(300),
+    image_count: 1 + int(4),
+    measured_height: rand() < 0.3 ? 200 + int(400) : null,
+  }));
+}
+
+/** The worker hop: strings are copied, typed arrays are transferred. */
+function hop(value) {
+  const list = Array.isArray(value) ? value : [value];
+  return structuredClone(value, { transfer: list.filter(ArrayBuffer.isView).map((v) => v.buffer) });
+}
+
+function median(fn) {
+  const times = [];
+  let out;
+  for (let i = 0; i < RUNS; i++) {
+    const t = performance.now();
+    out = fn();
+    times.push(performance.now() - t);
+  }
+  times.sort((a, b) => a - b);
+  return { ms: times[Math.floor(times.length / 2)], out };
+}
+
+// ── Cases ─────────────────────────────────────────────────────────────────
+
+function cases(wasm, packed, posts) {
+  const sortable = posts.map(({ uri, created_at, like_count, downvote_count, reply_count, repost_count }) =>
+    ({ uri, created_at, like_count, downvote_count, reply_count, repost_count }));
+  const third = Math.ceil(posts.length / 3);
+  const feeds = [0, 1, 2].map((f) => ({
+    percent: [50, 30, 20][f],
+    items: posts.slice(f * third, (f + 1) * third).map(({ uri, created_at, author, reposted_by }) =>
+      ({ uri, created_at, source_index: f, author, ...(reposted_by ? { reposted_by } : {}) })),
+  }));
+  const opts = { maxAuthorPercent: 10, repostPolicy: 'collapse', halfLifeHours: 24 };
+  const layout = posts.map(({ uri, has_media, media_aspect_ratio, text_length, image_count, measured_height }) =>
+    ({ uri, has_media, media_aspect_ratio, text_length, image_count, measured_height }));
+  const limit = Math.floor(posts.length / 2);
+
+  return [
+    {
+      name: 'sort (trending)',
+      json: () => JSON.parse(hop(wasm.sort_by_trending(hop(JSON.stringify(sortable)), NOW))).map((p) => p.uri),
+      packed: () => {
+        const order = hop(wasm.sort_posts_packed(packed.PACKED_SORT_MODES.trending, ...hop(packed.packSortPosts(sortable)), NOW));
+        return Array.from(order, (i) => sortable[i].uri);
+      },
+    },
+    {
+      name: 'sort (newest)',
+      json: () => JSON.parse(hop(wasm.sort_by_newest(hop(JSON.stringify(sortable))))).map((p) => p.uri),
+      packed: () => {
+        const order = hop(wasm.sort_posts_packed(packed.PACKED_SORT_MODES.newest, ...hop(packed.packSortPosts(sortable)), NOW));
+        return Array.from(order, (i) => sortable[i].uri);
+      },
+    },
+    {
+      name: 'remix (3 feeds)',
+      json: () => JSON.parse(hop(wasm.remix_feeds_with_options(hop(JSON.stringify(feeds)), limit, JSON.stringify(opts), NOW)))
+        .map((i) => i.uri),
+      packed: () => {
+        const items = feeds.flatMap((f) => f.items);
+        const picks = hop(wasm.remix_feeds_packed(
+          ...hop(packed.packRemixFeeds(feeds)), limit, opts.maxAuthorPercent,
+          packed.PACKED_REPOST_POLICIES[opts.repostPolicy], opts.halfLifeHours, NOW,
+        ));
+        return Array.from(picks, (i) => items[i].uri);
+      },
+    },
+    {
+      name: 'masonry append',
+      json: () => JSON.parse(hop(wasm.append_masonry(JSON.stringify([0, 0, 0, 0]), hop(JSON.stringify(layout)), 280, 12)))
+        .placements.map((p) => `${p.column}@${p.top.toFixed(3)}`),
+      packed: () => {
+        const out = hop(wasm.append_masonry_packed(new Float64Array(4), ...hop(packed.packMasonryPosts(layout)), 280, 12));
+        return packed.unpackMasonryRows(out, layout.length).rows.map((r) => `${r.column}@${r.top.toFixed(3)}`);
+      },
+    },
+  ];
+}
+
+// ── Run ───────────────────────────────────────────────────────────────────
+
+async function main() {
+  const { wasm, packed } = await loadModules();
+  let mismatches = 0;
+  for (const n of sizes) {
+    console.log(`\n${n} posts (median of ${RUNS} runs)`);
+    for (const c of cases(wasm, packed, makePosts(n, n))) {
+      const json = median(c.json);
+      const pk = median(c.packed);
+      const same = json.out.length === pk.out.length && json.out.every((v, i) => v === pk.out[i]);
+      if (!same) mismatches++;
+      console.log(
+        `  ${c.name.padEnd(16)} json ${json.ms.toFixed(2).padStart(8)} ms   packed ${pk.ms.toFixed(2).padStart(8)} ms   `
+        + `×${(json.ms / Math.max(pk.ms, 1e-6)).toFixed(1)}${same ? '' : '   RESULTS DIFFER'}`,
+      );
+    }
+  }
+  if (mismatches > 0) {
+    console.error(`\n${mismatches} case(s) gave different results on the two paths`);
+    process.exit(1);
+  }
+}
+
+main();
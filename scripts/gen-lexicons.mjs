@@ -0,0 +1,156 @@
+/**
+ * Lexicon codegen for PurpleSky.
+ *
+ * Reads every schema in /lexicons and writes src/lib/lexicon-records.ts:
+ *   - an interface per definition (the record itself is `<Name>Record`,
+ *     other defs `<Name>Record<Def>`), with the lexicon descriptions as
+ *     doc comments
+ *   - a typed collection per record lexicon (`<name>Records`, see
+ *     src/lib/records.ts) with create/get/list/put/delete
+ * Names drop the app.purplesky. / app.artsky. prefix:
+ * app.purplesky.forum.post → ForumPostRecord, forumPostRecords.
+ *
+ * Usage:
+ *   node scripts/gen-lexicons.mjs           write the file
+ *   node scripts/gen-lexicons.mjs --check   exit 1 if it's out of date
+ */
+
+import { readdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+const lexiconDir = resolve(root, 'lexicons');
+const outPath = resolve(root, 'src/lib/lexicon-records.ts');
+const PREFIXES = ['app.purplesky.', 'app.artsky.'];
+
+const docs = readdirSync(lexiconDir)
+  .filter((f) => f.endsWith('.json'))
+  .sort()
+  .map((f) => JSON.parse(readFileSync(resolve(lexiconDir, f), 'utf-8')));
+const byId = new Map(docs.map((d) => [d.id, d]));
+
+// ── Names ─────────────────────────────────────────────────────────────────
+
+const pascal = (s) => s.charAt(0).toUpperCase() + s.slice(1);
+
+function baseName(nsid) {
+  const prefix = PREFIXES.find((p) => nsid.startsWith(p));
+  return (prefix ? nsid.slice(prefix.length) : nsid).split('.').map(pascal).join('');
+}
+
+function typeName(nsid, def) {
+  return `${baseName(nsid)}Record${def === 'main' ? '' : pascal(def)}`;
+}
+
+function collectionName(nsid) {
+  const base = baseName(nsid);
+  return `${base.charAt(0).toLowerCase()}${base.slice(1)}Records`;
+}
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+function docComment(text, indent) {
+  if (!text) return '';
+  return `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n`;
+}
+
+function refName(nsid, ref) {
+  const [target, def] = ref.startsWith('#') ? [nsid, ref.slice(1)] : [ref.split('#')[0], ref.split('#')[1] ?? 'main'];
+  if (!byId.get(target)?.defs[def]) throw new Error(`${nsid}: unknown ref ${ref}`);
+  return typeName(target, def);
+}
+
+const quote = (v) => (typeof v === 'string' ? `'${v.replace(/'/g, "\\'")}'` : String(v));
+
+function tsType(nsid, def, indent) {
+  switch (def.type) {
+    case 'string':
+      if (def.const !== undefined) return quote(def.const);
+      if (def.enum) return def.enum.map(quote).join(' | ');
+      // Known values are suggestions; other strings are still valid
+      if (def.knownValues) return `${def.knownValues.map(quote).join(' | ')} | (string & {})`;
+      return 'string';
+    case 'integer':
+      return def.const !== undefined ? String(def.const) : def.enum ? def.enum.join(' | ') : 'number';
+    case 'boolean':
+      return def.const !== undefined ? String(def.const) : 'boolean';
+    case 'array': {
+      const item = tsType(nsid, def.items, indent);
+      return /[|&{]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'ref':
+      return refName(nsid, def.ref);
+    case 'union': {
+      const refs = def.refs.map((r) => refName(nsid, r));
+      return (def.closed ? refs : [...refs, '{ $type: string }']).join(' | ');
+    }
+    case 'object':
+      return objectBody(nsid, def, indent);
+    case 'unknown':
+      return 'Record<string, unknown>';
+    default:
+      // blob, bytes, cid-link
+      return 'unknown';
+  }
+}
+
+function objectBody(nsid, def, indent, extra = []) {
+  const inner = `${indent}  `;
+  const required = new Set(def.required ?? []);
+  const nullable = new Set(def.nullable ?? []);
+  const lines = [...extra.map((l) => `${inner}${l}\n`)];
+  for (const [key, prop] of Object.entries(def.properties ?? {})) {
+    const type = tsType(nsid, prop, inner) + (nullable.has(key) ? ' | null' : '');
+    lines.push(`${docComment(prop.description, inner)}${inner}${key}${required.has(key) ? '' : '?'}: ${type};\n`);
+  }
+  return `{\n${lines.join('')}${indent}}`;
+}
+
+// ── Output ────────────────────────────────────────────────────────────────
+
+const out = [];
+out.push(`/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Lexicon Records – GENERATED by scripts/gen-lexicons.mjs, do not edit
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Record types and typed collections for every schema in /lexicons.
+ *
+ * HOW TO EDIT:
+ *  - Change the JSON in /lexicons, then run \`npm run gen:lexicons\`
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { defineCollection } from './records';
+`);
+
+for (const doc of docs) {
+  out.push(`\n// ── ${doc.id} ${'─'.repeat(Math.max(3, 72 - doc.id.length))}\n`);
+  for (const [name, def] of Object.entries(doc.defs)) {
+    const tn = typeName(doc.id, name);
+    const description = def.description ?? (name === 'main' ? doc.description : undefined);
+    if (def.type === 'record') {
+      out.push(`\n${docComment(description, '')}export interface ${tn} ${objectBody(doc.id, def.record, '', [`$type?: '${doc.id}';`])}\n`);
+      out.push(`\nexport const ${collectionName(doc.id)} = defineCollection<${tn}>('${doc.id}');\n`);
+    } else if (def.type === 'object') {
+      out.push(`\n${docComment(description, '')}export interface ${tn} ${objectBody(doc.id, def, '')}\n`);
+    } else {
+      out.push(`\n${docComment(description, '')}export type ${tn} = ${tsType(doc.id, def, '')};\n`);
+    }
+  }
+}
+
+const source = out.join('');
+if (process.argv.includes('--check')) {
+  const current = existsSync(outPath) ? readFileSync(outPath, 'utf-8') : '';
+  if (current !== source) {
+    console.error('src/lib/lexicon-records.ts is out of date: run npm run gen:lexicons');
+    process.exit(1);
+  }
+  console.log('src/lib/lexicon-records.ts is up to date');
+} else {
+  writeFileSync(outPath, source);
+  console.log(`Wrote ${outPath} (${docs.length} lexicons)`);
+}
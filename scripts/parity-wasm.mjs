@@ -0,0 +1,418 @@
+/**
+ * Rust/JS parity suite for PurpleSky's WASM bridge.
+ *
+ * Every wrapper in src/lib/wasm-bridge.ts has a hand-written JS fallback.
+ * This runs the same fixtures and randomly generated inputs through each
+ * wrapper three ways and reports any divergence:
+ *   - js      WASM unavailable (the fallbacks)
+ *   - json    WASM with only the JSON exports
+ *   - packed  WASM with the typed-array exports too (what the app uses)
+ *
+ * Usage:
+ *   npm run build:wasm
+ *   node scripts/parity-wasm.mjs [--runs N] [--seed S] [--pkg dir]
+ *
+ * Random cases come from a seeded PRNG; a failure prints the seed and case
+ * number so it can be replayed. Exit code 1 when anything diverges.
+ * The bridge is bundled from src/lib with esbuild (comes with Vite).
+ */
+
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { resolve, join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+}
+
+const RUNS = Number(arg('runs', 200));
+const SEED = Number(arg('seed', 1));
+const pkgDir = resolve(arg('pkg', join(root, 'src/wasm-pkg')));
+const NOW = Date.UTC(2025, 5, 1, 12);
+/** Floats may differ in the last bits (Math.pow vs powf, JSON round trips). */
+const EPSILON = 1e-9;
+
+// The sort wrappers read the clock themselves
+Date.now = () => NOW;
+
+// ── Loading the Bridge ────────────────────────────────────────────────────
+
+/**
+ * Bundle wasm-bridge.ts with its WASM import replaced by a module exposing
+ * the exports this variant should see.
+ */
+async function bundleBridge(variant, exportNames, outDir) {
+  const pkgFile = pathToFileURL(join(pkgDir, 'purplesky_wasm.js')).href;
+  const wasmFile = join(pkgDir, 'purplesky_wasm_bg.wasm');
+  const names = exportNames.filter((n) => variant === 'packed' || !n.endsWith('_packed'));
+  const shim = variant === 'js'
+    ? 'export {};'
+    : [
+      `import * as wasm from ${JSON.stringify(pkgFile)};`,
+      `import { readFileSync, existsSync } from 'node:fs';`,
+      `if (typeof wasm.initSync === 'function' && existsSync(${JSON.stringify(wasmFile)})) {`,
+      `  wasm.initSync({ module: readFileSync(${JSON.stringify(wasmFile)}) });`,
+      '}',
+      ...names.map((n) => `export const ${n} = wasm.${n};`),
+    ].join('\n');
+
+  const outfile = join(outDir, `bridge-${variant}.mjs`);
+  await build({
+    entryPoints: [join(root, 'src/lib/wasm-bridge.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile,
+    logLevel: 'error',
+    plugins: [{
+      name: 'wasm-pkg',
+      setup(b) {
+        b.onResolve({ filter: /wasm-pkg\/purplesky_wasm\.js$/ }, () => ({ path: 'wasm-pkg', namespace: 'parity' }));
+        // The real package stays external: all variants share one WASM instance
+        b.onResolve({ filter: /^file:/ }, (a) => ({ path: a.path, external: true }));
+        b.onLoad({ filter: /.*/, namespace: 'parity' }, () => ({ contents: shim, resolveDir: root }));
+      },
+    }],
+  });
+  return import(pathToFileURL(outfile).href);
+}
+
+async function loadBridges() {
+  const pkgFile = join(pkgDir, 'purplesky_wasm.js');
+  if (!existsSync(pkgFile)) {
+    console.error('WASM package not found at', pkgDir, '– run npm run build:wasm first');
+    process.exit(1);
+  }
+  const wasm = await import(pathToFileURL(pkgFile).href);
+  const exportNames = Object.keys(wasm).filter((n) => n !== 'default' && n !== 'initSync' && typeof wasm[n] === 'function');
+  const outDir = mkdtempSync(join(tmpdir(), 'purplesky-parity-'));
+  try {
+    return {
+      js: await bundleBridge('js', exportNames, outDir),
+      json: await bundleBridge('json', exportNames, outDir),
+      packed: await bundleBridge('packed', exportNames, outDir),
+    };
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+// ── Random Inputs ─────────────────────────────────────────────────────────
+
+/** mulberry32 */
+function rng(seed) {
+  let s = seed >>> 0;
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max) => Math.floor(next() * max);
+  return {
+    next,
+    int,
+    pick: (list) => list[int(list.length)],
+    chance: (p) => next() < p,
+  };
+}
+
+/** ISO timestamps, mostly valid, with collisions and a few odd formats. */
+function randomIso(r) {
+  if (r.chance(0.03)) return r.pick(['', 'not a date', '2025-06-01', '2025-06-01T10:00:00+02:00']);
+  const ms = NOW - r.int(30 * 24) * 3600_000 - r.pick([0, 0, r.int(3600_000)]);
+  return new Date(ms).toISOString();
+}
+
+function randomPosts(r, n) {
+  const times = Array.from({ length: Math.max(1, r.int(n)) }, () => randomIso(r));
+  return Array.from({ length: n }, (_, i) => ({
+    uri: `at://did:plc:p${i}/app.bsky.feed.post/${i}`,
+    created_at: r.pick(times),
+    like_count: r.chance(0.2) ? 0 : r.int(r.pick([5, 50, 5000])),
+    downvote_count: r.chance(0.5) ? 0 : r.int(r.pick([5, 50])),
+    reply_count: r.int(40),
+    repost_count: r.chance(0.3) ? 0 : r.int(200),
+  }));
+}
+
+function randomFeeds(r) {
+  const uris = Math.max(1, r.int(80));
+  return Array.from({ length: 1 + r.int(4) }, (_, f) => ({
+    percent: r.chance(0.1) ? 0 : r.int(100),
+    items: Array.from({ length: r.int(50) }, () => ({
+      uri: `at://u/${r.int(uris)}`,
+      created_at: randomIso(r),
+      source_index: f,
+      ...(r.chance(0.15) ? {} : { author: `did:a${r.int(8)}` }),
+      ...(r.chance(0.25) ? { reposted_by: r.pick(['did:r1', 'did:r2', 'did:a1', '']) } : {}),
+    })),
+  }));
+}
+
+function randomRemixOptions(r) {
+  return {
+    maxAuthorPercent: r.pick([undefined, 0, 5, 10, 33.5, 50, 100]),
+    repostPolicy: r.pick([undefined, 'keep', 'collapse', 'hide']),
+    halfLifeHours: r.pick([undefined, 0, 1, 6, 48, 0.25]),
+  };
+}
+
+function randomVotes(r) {
+  const users = 1 + r.int(25);
+  const statements = 1 + r.int(12);
+  return Array.from({ length: r.int(users * statements) }, () => ({
+    user_id: `u${r.int(users)}`,
+    statement_id: `s${r.int(statements)}`,
+    value: r.pick([1, 1, -1, 0]),
+  }));
+}
+
+function randomLayout(r, n) {
+  return Array.from({ length: n }, (_, i) => ({
+    uri: `at://m/${i}`,
+    has_media: r.chance(0.6),
+    media_aspect_ratio: r.chance(0.2) ? null : r.pick([0.1, 0.5, 0.75, 1, 1.5, 16 / 9, 4]),
+    text_length: r.int(r.pick([10, 300, 2000])),
+    image_count: r.int(5),
+    measured_height: r.chance(0.7) ? null : r.pick([0, 120, 333.5, 640]),
+  }));
+}
+
+function randomThreads(r, n) {
+  return Array.from({ length: n }, (_, i) => ({
+    id: `t${i}`,
+    created_at: randomIso(r),
+    reply_count: r.chance(0.3) ? 0 : r.int(60),
+    like_count: r.int(30),
+    last_reply_at: r.chance(0.4) ? null : randomIso(r),
+    is_pinned: r.chance(0.1),
+  }));
+}
+
+// ── Fixtures ──────────────────────────────────────────────────────────────
+
+const post = (uri, created_at, like_count = 0, downvote_count = 0, repost_count = 0) =>
+  ({ uri, created_at, like_count, downvote_count, reply_count: 0, repost_count });
+
+const FIXTURE_POSTS = [
+  [],
+  [post('a', '2025-06-01T00:00:00.000Z')],
+  // Ties everywhere: order must stay as given
+  [post('a', '2025-05-01T00:00:00Z', 3, 1), post('b', '2025-05-01T00:00:00Z', 3, 1), post('c', '2025-05-01T00:00:00Z', 3, 1)],
+  // Wilson vs net score disagree; controversial prefers the 50/50 split
+  [post('few', '2025-05-31T00:00:00Z', 2, 0), post('many', '2025-05-30T00:00:00Z', 90, 10), post('split', '2025-05-29T00:00:00Z', 50, 50)],
+  // Same instant written differently, and an unparseable date
+  [post('z', '2025-06-01T10:00:00Z', 5), post('offset', '2025-06-01T12:00:00+02:00', 5), post('bad', 'yesterday', 5)],
+  // Newer than "now" (age clamps to one hour)
+  [post('future', '2025-06-02T00:00:00Z', 10), post('now', '2025-06-01T12:00:00Z', 10)],
+];
+
+const FIXTURE_REMIX = [
+  { configs: [], limit: 10, options: {} },
+  { configs: [{ percent: 0, items: [{ uri: 'x', created_at: '2025-01-01', source_index: 0 }] }], limit: 10, options: {} },
+  // Same post in two feeds: first feed wins
+  {
+    configs: [
+      { percent: 50, items: [{ uri: 'dup', created_at: '2025-05-01T00:00:00Z', source_index: 0, author: 'did:a' }] },
+      { percent: 50, items: [{ uri: 'dup', created_at: '2025-05-01T00:00:00Z', source_index: 1, author: 'did:a' }] },
+    ],
+    limit: 10,
+    options: {},
+  },
+  // Even shares (ties go to the first feed) and a fractional author percent
+  {
+    configs: [0, 1].map((f) => ({
+      percent: 50,
+      items: Array.from({ length: 5 }, (_, i) => ({ uri: `f${f}-${i}`, created_at: `2025-05-0${i + 1}T00:00:00Z`, source_index: f, author: `did:${i % 2}` })),
+    })),
+    limit: 5,
+    options: { maxAuthorPercent: 33.9, halfLifeHours: 12 },
+  },
+  // Reposts: empty reposter DID still counts as a repost
+  {
+    configs: [{
+      percent: 100,
+      items: [
+        { uri: 'r1', created_at: '2025-05-01T00:00:00Z', source_index: 0, author: 'did:a', reposted_by: '' },
+        { uri: 'r2', created_at: '2025-05-02T00:00:00Z', source_index: 0, author: 'did:b', reposted_by: '' },
+        { uri: 'p', created_at: '2025-05-03T00:00:00Z', source_index: 0, author: 'did:c' },
+      ],
+    }],
+    limit: 10,
+    options: { repostPolicy: 'collapse' },
+  },
+];
+
+const FIXTURE_VOTES = [
+  [],
+  [{ user_id: 'u', statement_id: 's', value: 0 }],
+  // Later vote replaces an earlier one; perfectly split statement
+  [
+    { user_id: 'a', statement_id: 's', value: 1 },
+    { user_id: 'a', statement_id: 's', value: -1 },
+    { user_id: 'b', statement_id: 's', value: 1 },
+    { user_id: 'c', statement_id: 't', value: -1 },
+  ],
+];
+
+// ── Comparison ────────────────────────────────────────────────────────────
+
+/** First difference between two values as a path + both sides, or null. */
+function diff(a, b, path = '$') {
+  if (typeof a === 'number' && typeof b === 'number') {
+    if (Number.isNaN(a) && Number.isNaN(b)) return null;
+    const scale = Math.max(1, Math.abs(a), Math.abs(b));
+    return Math.abs(a - b) <= EPSILON * scale ? null : { path, a, b };
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b)) return { path, a, b };
+    if (a.length !== b.length) return { path: `${path}.length`, a: a.length, b: b.length };
+    for (let i = 0; i < a.length; i++) {
+      const d = diff(a[i], b[i], `${path}[${i}]`);
+      if (d) return d;
+    }
+    return null;
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const k of keys) {
+      // A missing optional field and null/undefined are the same thing
+      if (a[k] == null && b[k] == null) continue;
+      const d = diff(a[k], b[k], `${path}.${k}`);
+      if (d) return d;
+    }
+    return null;
+  }
+  return Object.is(a, b) || (a == null && b == null) ? null : { path, a, b };
+}
+
+/** Consensus output has no defined order (Rust iterates hash sets); normalise it. */
+function normaliseConsensus(res) {
+  return {
+    ...res,
+    statements: [...res.statements].sort((x, y) => (x.statementId < y.statementId ? -1 : 1)),
+    clusters: res.clusters.map((c) => ({ ...c, memberIds: [...c.memberIds].sort() })),
+  };
+}
+
+const uris = (list) => list.map((p) => p.uri);
+
+// ── Checks ────────────────────────────────────────────────────────────────
+
+/**
+ * Each check turns an input into a comparable result via one bridge.
+ * `fixtures` are fixed inputs; `random(r)` makes a new one.
+ */
+const CHECKS = [
+  ...[
+    ['sortByNewest', 'newest'],
+    ['sortByTrending', 'trending'],
+    ['sortByWilsonScore', 'Wilson score'],
+    ['sortByScore', 'net score'],
+    ['sortByControversial', 'controversial'],
+  ].map(([fn, label]) => ({
+    name: `sort: ${label}`,
+    fixtures: FIXTURE_POSTS,
+    random: (r) => randomPosts(r, r.int(60)),
+    run: async (bridge, posts) => uris(await bridge[fn](posts)),
+  })),
+  {
+    name: 'remix',
+    fixtures: FIXTURE_REMIX,
+    random: (r) => ({ configs: randomFeeds(r), limit: r.int(60), options: randomRemixOptions(r) }),
+    run: (bridge, c) => bridge.remixFeeds(c.configs, c.limit, c.options, NOW),
+  },
+  {
+    name: 'consensus',
+    fixtures: FIXTURE_VOTES,
+    random: randomVotes,
+    run: async (bridge, votes) => normaliseConsensus(await bridge.analyzeConsensus(votes)),
+  },
+  {
+    name: 'masonry: distribute',
+    fixtures: [{ posts: [], columns: 3 }, { posts: randomLayout(rng(7), 5), columns: 0 }],
+    random: (r) => ({ posts: randomLayout(r, r.int(40)), columns: 1 + r.int(6) }),
+    run: (bridge, c) => bridge.distributeMasonry(c.posts, c.columns),
+  },
+  {
+    name: 'masonry: append',
+    fixtures: [{ heights: [], posts: [], width: 0, gap: 0 }, { heights: [0, 0], posts: randomLayout(rng(3), 6), width: -5, gap: 8 }],
+    random: (r) => ({
+      heights: Array.from({ length: r.int(6) }, () => (r.chance(0.3) ? 0 : r.int(5000) + r.next())),
+      posts: randomLayout(r, r.int(40)),
+      width: r.pick([0, 180, 240.5, 320, 600]),
+      gap: r.pick([0, 8, 12]),
+    }),
+    run: (bridge, c) => bridge.appendMasonry(c.heights, c.posts, c.width, c.gap),
+  },
+  {
+    name: 'masonry: reflow',
+    fixtures: [{ cards: [], columns: 0, gap: 8, skew: 400 }],
+    random: (r) => ({
+      cards: Array.from({ length: r.int(40) }, (_, i) => ({ uri: `c${i}`, column: r.int(7), height: 50 + r.int(600) })),
+      columns: 1 + r.int(6),
+      gap: r.pick([0, 12]),
+      skew: r.pick([0, 100, 400]),
+    }),
+    run: (bridge, c) => bridge.reflowMasonry(c.cards, c.columns, c.gap, c.skew),
+  },
+  {
+    name: 'forum threads',
+    fixtures: [[]],
+    random: (r) => randomThreads(r, r.int(30)),
+    run: async (bridge, threads) => (await bridge.sortForumThreads(threads, NOW)).map((t) => t.id),
+  },
+];
+
+// ── Run ───────────────────────────────────────────────────────────────────
+
+function short(value) {
+  const s = JSON.stringify(value);
+  return s && s.length > 400 ? `${s.slice(0, 400)}…` : s;
+}
+
+async function main() {
+  const bridges = await loadBridges();
+  let failures = 0;
+  for (const check of CHECKS) {
+    const r = rng(SEED);
+    const inputs = [
+      ...check.fixtures.map((input, i) => ({ input, label: `fixture ${i}` })),
+      ...Array.from({ length: RUNS }, (_, i) => ({ input: check.random(r), label: `random case ${i} (seed ${SEED})` })),
+    ];
+    const problems = [];
+    for (const { input, label } of inputs) {
+      // structuredClone: no path may see another's mutations
+      const expected = await check.run(bridges.js, structuredClone(input));
+      for (const variant of ['json', 'packed']) {
+        const actual = await check.run(bridges[variant], structuredClone(input));
+        const d = diff(actual, expected);
+        if (d) problems.push({ label, variant, d, input });
+      }
+    }
+    if (problems.length === 0) {
+      console.log(`  ok    ${check.name} (${inputs.length} inputs)`);
+      continue;
+    }
+    failures++;
+    const { label, variant, d, input } = problems[0];
+    console.log(`  FAIL  ${check.name}: ${problems.length} divergence(s)`);
+    console.log(`        first: ${label}, ${variant} vs js at ${d.path}: ${short(d.a)} vs ${short(d.b)}`);
+    console.log(`        input: ${short(input)}`);
+  }
+  if (failures > 0) {
+    console.error(`\n${failures} check(s) diverged between WASM and the JS fallbacks`);
+    process.exit(1);
+  }
+  console.log('\nWASM and JS fallbacks agree');
+}
+
+main();
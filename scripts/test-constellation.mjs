@@ -0,0 +1,142 @@
+/**
+ * Offline checks for src/lib/constellation.ts against the backlink stand-in
+ * (scripts/backlinks-server.mjs) and its fixtures: counts, linking records
+ * and references come back as the app reads them.
+ *
+ * Usage:
+ *   node scripts/test-constellation.mjs [--port 6790]
+ *
+ * Exit code 1 when a check fails. The client is bundled from src/lib with
+ * esbuild (comes with Vite), with VITE_CONSTELLATION_URL pointing at the
+ * stand-in, which this script starts and stops.
+ */
+
+import { spawn } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { resolve, join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { isDeepStrictEqual } from 'node:util';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+}
+
+const PORT = Number(arg('port', 6790));
+const BASE = `http://127.0.0.1:${PORT}`;
+
+/** Start the stand-in; resolves once it listens. */
+function startServer() {
+  const child = spawn(process.execPath, [join(__dirname, 'backlinks-server.mjs'), '--port', String(PORT)], {
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  return new Promise((resolvePromise, reject) => {
+    const timer = setTimeout(() => { child.kill(); reject(new Error('backlinks server did not start')); }, 10_000);
+    child.stdout.on('data', (chunk) => {
+      if (String(chunk).includes('Backlink stand-in on')) {
+        clearTimeout(timer);
+        resolvePromise(child);
+      }
+    });
+    child.on('exit', (code) => { clearTimeout(timer); reject(new Error(`backlinks server exited (${code})`)); });
+  });
+}
+
+async function loadConstellation() {
+  const outDir = mkdtempSync(join(tmpdir(), 'purplesky-constellation-'));
+  const outfile = join(outDir, 'constellation.mjs');
+  try {
+    await build({
+      entryPoints: [join(root, 'src/lib/constellation.ts')],
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      outfile,
+      logLevel: 'error',
+      define: { 'import.meta.env': JSON.stringify({ VITE_CONSTELLATION_URL: BASE }) },
+    });
+    return await import(pathToFileURL(outfile).href);
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+// ── Checks (scripts/fixtures/backlinks.json) ──────────────────────────────
+
+const POST1 = 'at://did:plc:demoartist/app.bsky.feed.post/3kdemopost1';
+const POST2 = 'at://did:plc:demoartist/app.bsky.feed.post/3kdemopost2';
+const FORUM_POST = 'at://did:plc:demoartist/app.purplesky.forum.post/ma4lm2o0-f1';
+
+const CHECKS = [
+  {
+    name: 'downvote counts (one per account)',
+    async run(c) {
+      // did:plc:demodave downvoted POST1 twice
+      const counts = await c.getDownvoteCounts([POST1, POST2]);
+      return isDeepStrictEqual(counts, { [POST1]: 1, [POST2]: 1 }) ? null : `got ${JSON.stringify(counts)}`;
+    },
+  },
+  {
+    name: 'linking records',
+    async run(c) {
+      const { total, records } = await c.getLinkingRecords(POST1, 'app.artsky.graph.upVote', '.subject.uri');
+      const dids = records.map((r) => r.did).sort();
+      return total === 3 && isDeepStrictEqual(dids, ['did:plc:demoalice', 'did:plc:demobob', 'did:plc:democarol'])
+        ? null : `got ${total} ${JSON.stringify(records)}`;
+    },
+  },
+  {
+    name: 'references are at:// URIs',
+    async run(c) {
+      const refs = (await c.getReferences(FORUM_POST, 'app.purplesky.forum.reply', '.subject')).sort();
+      const expected = [
+        'at://did:plc:demoalice/app.purplesky.forum.reply/ma4lm2o0-r1',
+        'at://did:plc:demobob/app.purplesky.forum.reply/ma6kcdc0-r2',
+      ];
+      return isDeepStrictEqual(refs, expected) ? null : `got ${JSON.stringify(refs)}`;
+    },
+  },
+];
+
+// ── Run ───────────────────────────────────────────────────────────────────
+
+async function main() {
+  const server = await startServer();
+  let failures = 0;
+  try {
+    const constellation = await loadConstellation();
+    for (const check of CHECKS) {
+      let problem;
+      try {
+        problem = await check.run(constellation);
+      } catch (err) {
+        problem = `threw ${err?.stack ?? err}`;
+      }
+      if (problem) {
+        failures++;
+        console.log(`  FAIL  ${check.name}: ${problem}`);
+      } else {
+        console.log(`  ok    ${check.name}`);
+      }
+    }
+    const error = constellation.lastConstellationError();
+    if (error) console.log(`  (last Constellation error: ${error.message})`);
+  } finally {
+    server.removeAllListeners('exit');
+    server.kill();
+  }
+  if (failures > 0) {
+    console.error(`\n${failures} Constellation check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nConstellation checks passed');
+  // The client's health check timer would keep Node running for minutes
+  process.exit(0);
+}
+
+main();
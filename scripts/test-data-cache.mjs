@@ -0,0 +1,201 @@
+/**
+ * Checks for src/lib/data-cache.ts against a mocked agent (no network, no
+ * IndexedDB): reads by handle and by DID share one entry, the invalidate*
+ * functions make the next read refetch, and only a missing record reads as
+ * null (a failed read throws).
+ *
+ * Usage:
+ *   node scripts/test-data-cache.mjs
+ *
+ * Exit code 1 when a check fails. The cache is bundled from src/lib with
+ * esbuild (comes with Vite); lib/bsky.ts is replaced by a stub session.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { resolve, join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+
+const BSKY_STUB = `
+export const agent = null;
+export const publicAgent = null;
+export const getSession = () => ({ did: 'did:plc:viewer' });
+export function parseAtUri(uri) {
+  if (!uri.startsWith('at://')) return null;
+  const parts = uri.slice(5).split('/');
+  return parts.length < 3 ? null : { did: parts[0], collection: parts[1], rkey: parts.slice(2).join('/') };
+}
+`;
+
+async function loadCache() {
+  const outDir = mkdtempSync(join(tmpdir(), 'purplesky-data-cache-'));
+  const outfile = join(outDir, 'data-cache.mjs');
+  try {
+    await build({
+      entryPoints: [join(root, 'src/lib/data-cache.ts')],
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      outfile,
+      logLevel: 'error',
+      plugins: [{
+        name: 'bsky-stub',
+        setup(b) {
+          b.onResolve({ filter: /^\.\/bsky$/ }, () => ({ path: 'bsky', namespace: 'stub' }));
+          b.onLoad({ filter: /.*/, namespace: 'stub' }, () => ({ contents: BSKY_STUB, resolveDir: root }));
+        },
+      }],
+    });
+    return await import(pathToFileURL(outfile).href);
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+// ── Mocked Agent ──────────────────────────────────────────────────────────
+
+/** A server whose data the checks change; counts calls per method */
+function mockAgent() {
+  const state = {
+    calls: { getProfiles: 0, getPosts: 0, getRecord: 0 },
+    following: false,
+    likes: 0,
+    text: 'first',
+    /** 'missing' answers RecordNotFound, 'down' fails like an outage */
+    record: 'ok',
+  };
+  const profile = () => ({
+    did: 'did:plc:alice',
+    handle: 'alice.test',
+    viewer: state.following ? { following: 'at://did:plc:viewer/app.bsky.graph.follow/1' } : {},
+  });
+  const client = {
+    async getProfiles({ actors }) {
+      state.calls.getProfiles++;
+      const p = profile();
+      return { data: { profiles: actors.some((a) => a === p.did || a.toLowerCase() === p.handle) ? [p] : [] } };
+    },
+    async getPosts({ uris }) {
+      state.calls.getPosts++;
+      return { data: { posts: uris.map((uri) => ({ uri, likeCount: state.likes })) } };
+    },
+    com: { atproto: { repo: {
+      async getRecord({ repo, collection, rkey }) {
+        state.calls.getRecord++;
+        if (state.record === 'missing') throw Object.assign(new Error('Could not locate record'), { status: 400, error: 'RecordNotFound' });
+        if (state.record === 'down') throw Object.assign(new Error('Bad Gateway'), { status: 502 });
+        return { data: { uri: `at://${repo}/${collection}/${rkey}`, value: { text: state.text } } };
+      },
+    } } },
+  };
+  return { state, client };
+}
+
+// ── Checks ────────────────────────────────────────────────────────────────
+
+const POST = 'at://did:plc:alice/app.bsky.feed.post/1';
+const RECORD = 'at://did:plc:alice/app.purplesky.forum.post/1';
+
+const CHECKS = [
+  {
+    name: 'handle and DID reads share one profile',
+    async run(cache, { state }) {
+      await cache.getCachedProfile('Alice.test');
+      await cache.getCachedProfile('did:plc:alice');
+      await cache.getCachedProfile('alice.test');
+      return state.calls.getProfiles === 1 ? null : `${state.calls.getProfiles} getProfiles calls`;
+    },
+  },
+  {
+    name: 'following invalidates reads by handle',
+    async run(cache, { state }) {
+      const before = await cache.getCachedProfile('alice.test');
+      if (before?.viewer?.following) return 'followed before following';
+      state.following = true;
+      cache.invalidateProfile('did:plc:alice');
+      const after = await cache.getCachedProfile('alice.test');
+      return after?.viewer?.following ? null : 'handle read still shows the old viewer state';
+    },
+  },
+  {
+    name: 'unfollowing invalidates reads by DID',
+    async run(cache, { state }) {
+      state.following = true;
+      await cache.getCachedProfile('did:plc:alice');
+      state.following = false;
+      cache.invalidateProfile('did:plc:alice');
+      const after = await cache.getCachedProfile('did:plc:alice');
+      return after?.viewer?.following ? 'DID read still shows the old viewer state' : null;
+    },
+  },
+  {
+    name: 'invalidatePost refetches',
+    async run(cache, { state }) {
+      await cache.getCachedPost(POST);
+      state.likes = 1;
+      if ((await cache.getCachedPost(POST))?.likeCount !== 0) return 'cached read refetched';
+      cache.invalidatePost(POST);
+      return (await cache.getCachedPost(POST))?.likeCount === 1 ? null : 'old post after invalidation';
+    },
+  },
+  {
+    name: 'invalidateRecord refetches',
+    async run(cache, { state }) {
+      await cache.getCachedRecord(RECORD);
+      state.text = 'second';
+      cache.invalidateRecord(RECORD);
+      return (await cache.getCachedRecord(RECORD))?.value.text === 'second' ? null : 'old record after invalidation';
+    },
+  },
+  {
+    name: 'missing records read as null',
+    async run(cache, { state }) {
+      state.record = 'missing';
+      return (await cache.getCachedRecord(RECORD, { fresh: true })) === null ? null : 'got a record';
+    },
+  },
+  {
+    name: 'failed reads throw',
+    async run(cache, { state }) {
+      state.record = 'down';
+      const result = await cache.getCachedRecord(RECORD, { fresh: true }).then((r) => r, (err) => err);
+      return result instanceof Error ? null : `resolved with ${JSON.stringify(result)}`;
+    },
+  },
+];
+
+// ── Run ───────────────────────────────────────────────────────────────────
+
+async function main() {
+  const cache = await loadCache();
+  let failures = 0;
+  for (const check of CHECKS) {
+    const mock = mockAgent();
+    cache.setDataCacheClient(mock.client);
+    await cache.clearDataCache();
+    let problem;
+    try {
+      problem = await check.run(cache, mock);
+    } catch (err) {
+      problem = `threw ${err?.stack ?? err}`;
+    }
+    if (problem) {
+      failures++;
+      console.log(`  FAIL  ${check.name}: ${problem}`);
+    } else {
+      console.log(`  ok    ${check.name}`);
+    }
+  }
+  cache.setDataCacheClient(null);
+  if (failures > 0) {
+    console.error(`\n${failures} data cache check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nData cache checks passed');
+}
+
+main();
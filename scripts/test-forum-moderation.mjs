@@ -0,0 +1,228 @@
+/**
+ * Checks for forum moderation (src/lib/forum-moderation.ts and the reply
+ * filtering in src/lib/forum.ts) against in-memory repos: whose hide and
+ * lock records count, what the community log lists, and which replies a
+ * locked thread shows.
+ *
+ * Usage:
+ *   node scripts/test-forum-moderation.mjs
+ *
+ * Exit code 1 when a check fails. The modules are bundled from src/lib with
+ * esbuild (comes with Vite); lib/bsky.ts is replaced by a mocked agent that
+ * serves the repos below, and lib/constellation.ts by backlinks computed
+ * from them.
+ */
+
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { resolve, join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+
+// ── Repos ─────────────────────────────────────────────────────────────────
+
+const NOW = Date.now();
+const iso = (ms) => new Date(ms).toISOString();
+const rkeyAt = (ms) => `${ms.toString(36)}-test`;
+/** TID rkey for `ms` (microseconds << 10, clock id 0), as other clients write */
+function tidAt(ms) {
+  let n = BigInt(ms) * 1000n << 10n;
+  let s = '';
+  for (let i = 0; i < 13; i++, n >>= 5n) s = '234567abcdefghijklmnopqrstuvwxyz'[Number(n & 31n)] + s;
+  return s;
+}
+const LOCKED_AT = NOW - 3600_000;
+
+const COMMUNITY = 'at://did:plc:owner/app.purplesky.forum.community/cats';
+const THREAD = 'at://did:plc:alice/app.purplesky.forum.post/t1';
+const OUTSIDE = 'at://did:plc:mallory/app.purplesky.forum.post/t2';
+
+/** uri → record value; the mocked agent and backlinks read from here */
+const RECORDS = {
+  [COMMUNITY]: { name: 'Cats', owner: 'did:plc:owner', moderators: ['did:plc:mod'], createdAt: iso(NOW - 9e8) },
+  [THREAD]: { title: 'Hello', body: 'Thread in the community', community: COMMUNITY, createdAt: iso(NOW - 9e7) },
+  // Claims the community but isn't posted in it
+  [OUTSIDE]: { title: 'Elsewhere', body: 'Not in the community', createdAt: iso(NOW - 9e7) },
+};
+
+function moderation(did, rkey, action, subject, thread, createdAt) {
+  RECORDS[`at://${did}/app.purplesky.forum.moderation/${rkey}`] = {
+    action, subject, thread, community: COMMUNITY, createdAt: iso(createdAt),
+  };
+  return `at://${did}/app.purplesky.forum.moderation/${rkey}`;
+}
+
+function reply(did, rkey, createdAt) {
+  RECORDS[`at://${did}/app.purplesky.forum.reply/${rkey}`] = { subject: THREAD, text: 'hi', createdAt: iso(createdAt) };
+  return `at://${did}/app.purplesky.forum.reply/${rkey}`;
+}
+
+const EARLY = reply('did:plc:bob', rkeyAt(LOCKED_AT - 60_000), LOCKED_AT - 60_000);
+const LATE = reply('did:plc:carol', rkeyAt(LOCKED_AT + 60_000), LOCKED_AT + 60_000);
+/** createdAt claims before the lock; the rkey says after */
+const BACKDATED = reply('did:plc:dave', rkeyAt(LOCKED_AT + 60_000), LOCKED_AT - 60_000);
+/** The same with a TID rkey */
+const BACKDATED_TID = reply('did:plc:erin', tidAt(LOCKED_AT + 60_000), LOCKED_AT - 60_000);
+const EARLY_TID = reply('did:plc:erin', tidAt(LOCKED_AT - 60_000), LOCKED_AT - 60_000);
+
+const ACTIONS = {
+  modHide: moderation('did:plc:mod', 'm1', 'hide', EARLY, THREAD, NOW - 7200_000),
+  authorLock: moderation('did:plc:alice', 'a1', 'lock', THREAD, THREAD, LOCKED_AT),
+  report: moderation('did:plc:bob', 'b1', 'report', THREAD, THREAD, NOW - 600_000),
+  strangerHide: moderation('did:plc:mallory', 'x1', 'hide', LATE, THREAD, NOW - 500_000),
+  outsideLock: moderation('did:plc:mallory', 'x2', 'lock', OUTSIDE, OUTSIDE, NOW - 400_000),
+  outsideReport: moderation('did:plc:mallory', 'x3', 'report', OUTSIDE, OUTSIDE, NOW - 300_000),
+};
+
+// ── Stubs ─────────────────────────────────────────────────────────────────
+
+const BSKY_STUB = `
+const RECORDS = ${JSON.stringify(RECORDS)};
+export function parseAtUri(uri) {
+  if (!uri.startsWith('at://')) return null;
+  const parts = uri.slice(5).split('/');
+  return parts.length < 3 ? null : { did: parts[0], collection: parts[1], rkey: parts.slice(2).join('/') };
+}
+export const getSession = () => ({ did: 'did:plc:viewer' });
+const repo = {
+  async getRecord({ repo, collection, rkey }) {
+    const uri = 'at://' + repo + '/' + collection + '/' + rkey;
+    if (!RECORDS[uri]) throw Object.assign(new Error('Could not locate record'), { status: 400, error: 'RecordNotFound' });
+    return { data: { uri, cid: 'cid', value: { $type: collection, ...RECORDS[uri] } } };
+  },
+  async listRecords({ repo, collection }) {
+    const records = Object.entries(RECORDS)
+      .filter(([uri]) => uri.startsWith('at://' + repo + '/' + collection + '/'))
+      .map(([uri, value]) => ({ uri, cid: 'cid', value: { $type: collection, ...value } }));
+    return { data: { records } };
+  },
+};
+export const agent = {
+  com: { atproto: { repo } },
+  async getProfiles({ actors }) {
+    return { data: { profiles: actors.map((did) => ({ did, handle: did.slice(8) + '.test' })) } };
+  },
+};
+export const publicAgent = agent;
+`;
+
+const CONSTELLATION_STUB = `
+const RECORDS = ${JSON.stringify(RECORDS)};
+export async function getLinkingRecords(target, collection, path) {
+  const field = path.slice(1);
+  const records = Object.entries(RECORDS)
+    .filter(([uri, value]) => uri.includes('/' + collection + '/') && value[field] === target)
+    .map(([uri]) => { const [did, , rkey] = uri.slice(5).split('/'); return { did, collection, rkey }; });
+  return { records, total: records.length };
+}
+`;
+
+/** What Vite's import.meta.glob gives lib/lexicons.ts */
+function lexiconGlob() {
+  const dir = join(root, 'lexicons');
+  const mods = Object.fromEntries(readdirSync(dir).filter((f) => f.endsWith('.json'))
+    .map((f) => [`../../lexicons/${f}`, { default: JSON.parse(readFileSync(join(dir, f), 'utf8')) }]));
+  return `const __lexiconGlob = () => (${JSON.stringify(mods)});`;
+}
+
+async function loadForum() {
+  const outDir = mkdtempSync(join(tmpdir(), 'purplesky-moderation-'));
+  const outfile = join(outDir, 'forum.mjs');
+  const stubs = { bsky: BSKY_STUB, constellation: CONSTELLATION_STUB };
+  try {
+    await build({
+      stdin: {
+        contents: [
+          "export * from './src/lib/forum-moderation.ts';",
+          "export { getForumCommunity, getForumPost, listForumReplies } from './src/lib/forum.ts';",
+        ].join('\n'),
+        resolveDir: root,
+      },
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      outfile,
+      logLevel: 'error',
+      define: { 'import.meta.glob': '__lexiconGlob' },
+      banner: { js: lexiconGlob() },
+      plugins: [{
+        name: 'stubs',
+        setup(b) {
+          b.onResolve({ filter: /^\.\/(bsky|constellation)$/ }, (a) => ({ path: a.path.slice(2), namespace: 'stub' }));
+          b.onLoad({ filter: /.*/, namespace: 'stub' }, (a) => ({ contents: stubs[a.path], resolveDir: root }));
+        },
+      }],
+    });
+    return await import(pathToFileURL(outfile).href);
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+// ── Checks ────────────────────────────────────────────────────────────────
+
+function sameSet(actual, expected) {
+  const a = [...actual].sort();
+  const e = [...expected].sort();
+  return a.length === e.length && a.every((x, i) => x === e[i]) ? null : `got ${JSON.stringify(a)}`;
+}
+
+const CHECKS = [
+  {
+    name: 'thread moderation counts moderators and the author',
+    async run(forum) {
+      const post = await forum.getForumPost(THREAD);
+      const m = await forum.loadThreadModeration(post);
+      return sameSet(m.actions.map((a) => a.uri), [ACTIONS.modHide, ACTIONS.authorLock, ACTIONS.report])
+        ?? sameSet(Object.keys(m.hiddenReplies), [EARLY])
+        ?? sameSet(m.locks.map((l) => l.uri), [ACTIONS.authorLock]);
+    },
+  },
+  {
+    name: 'community log only lists threads in the community',
+    async run(forum) {
+      const community = await forum.getForumCommunity(COMMUNITY);
+      const log = await forum.loadCommunityModerationLog(community);
+      return sameSet(log.map((a) => a.uri), [ACTIONS.modHide, ACTIONS.authorLock, ACTIONS.report]);
+    },
+  },
+  {
+    name: 'locked threads leave out later replies',
+    async run(forum) {
+      const dids = ['did:plc:bob', 'did:plc:carol', 'did:plc:dave', 'did:plc:erin'];
+      const replies = await forum.listForumReplies(THREAD, dids, { includeHidden: true });
+      return sameSet(replies.map((r) => r.uri), [EARLY, EARLY_TID]);
+    },
+  },
+];
+
+// ── Run ───────────────────────────────────────────────────────────────────
+
+async function main() {
+  const forum = await loadForum();
+  let failures = 0;
+  for (const check of CHECKS) {
+    let problem;
+    try {
+      problem = await check.run(forum);
+    } catch (err) {
+      problem = `threw ${err?.stack ?? err}`;
+    }
+    if (problem) {
+      failures++;
+      console.log(`  FAIL  ${check.name}: ${problem}`);
+    } else {
+      console.log(`  ok    ${check.name}`);
+    }
+  }
+  if (failures > 0) {
+    console.error(`\n${failures} moderation check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nModeration checks passed');
+}
+
+main();
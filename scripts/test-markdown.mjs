@@ -0,0 +1,128 @@
+/**
+ * Checks for src/lib/markdown.ts: what the parser produces for the syntax
+ * forum posts rely on, that unsafe links stay text, and that crafted input
+ * (deep nesting, unclosed delimiters) parses within a time budget.
+ *
+ * Usage:
+ *   node scripts/test-markdown.mjs [--budget ms]
+ *
+ * Exit code 1 when a check fails. The parser is bundled from src/lib with
+ * esbuild (comes with Vite).
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { resolve, join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { isDeepStrictEqual } from 'node:util';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+}
+
+/** Per crafted input; generous so slow machines pass but quadratic scans don't */
+const BUDGET_MS = Number(arg('budget', 250));
+const CID = 'bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy';
+
+async function loadMarkdown() {
+  const outDir = mkdtempSync(join(tmpdir(), 'purplesky-markdown-'));
+  const outfile = join(outDir, 'markdown.mjs');
+  try {
+    await build({
+      entryPoints: [join(root, 'src/lib/markdown.ts')],
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      outfile,
+      logLevel: 'error',
+    });
+    return await import(pathToFileURL(outfile).href);
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+const text = (t) => ({ type: 'text', text: t });
+
+// ── Output ────────────────────────────────────────────────────────────────
+
+/** [name, input, expected] for parseInline */
+const INLINE = [
+  ['emphasis', '**a** *b* ~~c~~', [
+    { type: 'strong', children: [text('a')] }, text(' '),
+    { type: 'em', children: [text('b')] }, text(' '),
+    { type: 'del', children: [text('c')] },
+  ]],
+  ['snake_case stays text', 'a_b_c', [text('a_b_c')]],
+  ['code span', 'x `a*b*` y', [text('x '), { type: 'code', text: 'a*b*' }, text(' y')]],
+  ['link', '[site](https://example.com)', [{ type: 'link', href: 'https://example.com', children: [text('site')] }]],
+  ['nested brackets in a label', '[a [b] c](/x)', [{ type: 'link', href: '/x', children: [text('a [b] c')] }]],
+  ['escaped bracket', '[a \\] b](/x)', [{ type: 'link', href: '/x', children: [text('a ] b')] }]],
+  ['unclosed bracket before a link', '[ [a](/x)', [text('[ '), { type: 'link', href: '/x', children: [text('a')] }]],
+  ['javascript: link stays text', '[x](javascript:alert(1))', [text('[x](javascript:alert(1))')]],
+  ['anchor gets the heading prefix', '[x](#intro)', [{ type: 'link', href: '#md-intro', children: [text('x')] }]],
+  ['blob image', `![cat](blob:${CID})`, [{ type: 'image', cid: CID, alt: 'cat' }]],
+  ['html stays text', '<b>x</b>', [text('<b>x</b>')]],
+];
+
+/** [name, input, block types] for parseMarkdown */
+const BLOCKS = [
+  ['heading and paragraph', '# Title\n\ntext', ['heading', 'paragraph']],
+  ['lists', '- a\n- b\n\n1. c', ['list', 'list']],
+  ['fenced code', '```js\nlet a;\n```', ['code']],
+  ['quote and rule', '> q\n\n---', ['quote', 'rule']],
+  ['table', '| a | b |\n|---|:-:|\n| 1 | 2 |', ['table']],
+];
+
+// ── Crafted Input ─────────────────────────────────────────────────────────
+
+const N = 20000;
+const CRAFTED = [
+  ['nested brackets', '['.repeat(N) + ']'.repeat(N)],
+  ['unclosed brackets', '[a '.repeat(N)],
+  ['unclosed images', '![a '.repeat(N)],
+  ['brackets without targets', '[a] '.repeat(N)],
+  ['unclosed emphasis', '*a _b ~~c **d '.repeat(N / 4)],
+  ['unclosed code spans', '`a ``b '.repeat(N / 2)],
+  ['deep quotes', '>'.repeat(N) + ' x'],
+  ['deep lists', Array.from({ length: 300 }, (_, i) => `${'  '.repeat(i)}- x`).join('\n')],
+];
+
+// ── Run ───────────────────────────────────────────────────────────────────
+
+async function main() {
+  const md = await loadMarkdown();
+  let failures = 0;
+  const report = (name, problem) => {
+    if (problem) failures++;
+    console.log(problem ? `  FAIL  ${name}: ${problem}` : `  ok    ${name}`);
+  };
+
+  for (const [name, input, expected] of INLINE) {
+    const actual = md.parseInline(input);
+    report(name, isDeepStrictEqual(actual, expected) ? null : `got ${JSON.stringify(actual)}`);
+  }
+  for (const [name, input, expected] of BLOCKS) {
+    const actual = md.parseMarkdown(input).map((b) => b.type);
+    report(name, isDeepStrictEqual(actual, expected) ? null : `got ${JSON.stringify(actual)}`);
+  }
+  for (const [name, input] of CRAFTED) {
+    const start = performance.now();
+    md.parseMarkdown(input);
+    const ms = performance.now() - start;
+    report(`${name} (${input.length} chars, ${ms.toFixed(0)} ms)`, ms > BUDGET_MS ? `over ${BUDGET_MS} ms` : null);
+  }
+
+  if (failures > 0) {
+    console.error(`\n${failures} markdown check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nMarkdown checks passed');
+}
+
+main();
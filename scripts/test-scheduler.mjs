@@ -0,0 +1,162 @@
+/**
+ * Checks for src/lib/request-scheduler.ts against a stubbed fetch().
+ *
+ * Covers what breaks quietly in the browser: Request bodies being sent as
+ * streams, identical reads not sharing one request, and one caller's abort
+ * cancelling a read another caller still waits for.
+ *
+ * Usage:
+ *   node scripts/test-scheduler.mjs
+ *
+ * Exit code 1 when a check fails. The scheduler is bundled from src/lib with
+ * esbuild (comes with Vite).
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { resolve, join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+
+async function loadScheduler() {
+  const outDir = mkdtempSync(join(tmpdir(), 'purplesky-scheduler-'));
+  const outfile = join(outDir, 'scheduler.mjs');
+  try {
+    await build({
+      entryPoints: [join(root, 'src/lib/request-scheduler.ts')],
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      outfile,
+      logLevel: 'error',
+    });
+    return await import(pathToFileURL(outfile).href);
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+// ── Stubbed fetch ─────────────────────────────────────────────────────────
+
+/** Records calls; each response waits until release() */
+function stubFetch() {
+  const calls = [];
+  let open = [];
+  globalThis.fetch = (url, init = {}) => new Promise((resolve, reject) => {
+    calls.push({ url, init });
+    const pending = { respond: () => resolve(new Response('ok', { status: 200 })) };
+    open.push(pending);
+    init.signal?.addEventListener('abort', () => reject(init.signal.reason), { once: true });
+  });
+  return {
+    calls,
+    release() {
+      for (const p of open) p.respond();
+      open = [];
+    },
+  };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+// ── Checks ────────────────────────────────────────────────────────────────
+
+const CHECKS = [
+  {
+    name: 'Request bodies are buffered',
+    async run({ scheduledFetch }) {
+      const net = stubFetch();
+      const req = new Request('https://pds.test/xrpc/com.atproto.repo.createRecord', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{"a":1}',
+      });
+      const done = scheduledFetch(req);
+      await tick();
+      net.release();
+      const res = await done;
+      const body = net.calls[0]?.init.body;
+      if (res.status !== 200) return `status ${res.status}`;
+      if (!(body instanceof ArrayBuffer)) return `body sent as ${Object.prototype.toString.call(body)}`;
+      if (new TextDecoder().decode(body) !== '{"a":1}') return 'body changed';
+      return null;
+    },
+  },
+  {
+    name: 'identical reads share one request',
+    async run({ scheduledFetch }) {
+      const net = stubFetch();
+      // Requests always carry a signal; that must not stop coalescing
+      const a = scheduledFetch(new Request('https://api.test/xrpc/app.bsky.actor.getProfile?actor=a'));
+      const b = scheduledFetch(new Request('https://api.test/xrpc/app.bsky.actor.getProfile?actor=a'));
+      await tick();
+      net.release();
+      const [ra, rb] = await Promise.all([a, b]);
+      if (net.calls.length !== 1) return `${net.calls.length} requests sent`;
+      if ((await ra.text()) !== 'ok' || (await rb.text()) !== 'ok') return 'response bodies not cloned';
+      return null;
+    },
+  },
+  {
+    name: 'one caller aborting leaves the others',
+    async run({ scheduledFetch }) {
+      const net = stubFetch();
+      const ac = new AbortController();
+      const a = scheduledFetch('https://api.test/xrpc/app.bsky.feed.getTimeline', { signal: ac.signal });
+      const b = scheduledFetch('https://api.test/xrpc/app.bsky.feed.getTimeline');
+      await tick();
+      ac.abort(new Error('left'));
+      const aborted = await a.then(() => false, () => true);
+      net.release();
+      const rb = await b.catch((err) => err);
+      if (!aborted) return 'aborted caller resolved';
+      if (!(rb instanceof Response)) return `other caller failed: ${rb}`;
+      if (net.calls[0]?.init.signal?.aborted) return 'shared request was aborted';
+      return null;
+    },
+  },
+  {
+    name: 'the last caller aborting cancels the request',
+    async run({ scheduledFetch }) {
+      const net = stubFetch();
+      const ac = new AbortController();
+      const a = scheduledFetch('https://api.test/xrpc/app.bsky.feed.getFeed', { signal: ac.signal });
+      await tick();
+      ac.abort(new Error('left'));
+      await a.catch(() => {});
+      if (!net.calls[0]?.init.signal?.aborted) return 'request kept running';
+      return null;
+    },
+  },
+];
+
+// ── Run ───────────────────────────────────────────────────────────────────
+
+async function main() {
+  const scheduler = await loadScheduler();
+  let failures = 0;
+  for (const check of CHECKS) {
+    let problem;
+    try {
+      problem = await check.run(scheduler);
+    } catch (err) {
+      problem = `threw ${err?.stack ?? err}`;
+    }
+    if (problem) {
+      failures++;
+      console.log(`  FAIL  ${check.name}: ${problem}`);
+    } else {
+      console.log(`  ok    ${check.name}`);
+    }
+  }
+  if (failures > 0) {
+    console.error(`\n${failures} scheduler check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nScheduler checks passed');
+}
+
+main();
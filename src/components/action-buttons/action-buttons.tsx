@@ -64,6 +64,9 @@ export const LikeButton = component$<LikeButtonProps>(
           likeCount.value++;
           createdLikeUri.value = res.data.uri;
         }
+        // Cached post views carry the like count and viewer.like
+        const { invalidatePost } = await import('~/lib/data-cache');
+        invalidatePost(subjectUri);
       } catch (err) {
         console.error('Like failed:', err);
       }
@@ -129,7 +132,7 @@ export const DownvoteButton = component$<DownvoteButtonProps>(
           const uri = initialDownvoteRecordUri ?? createdDownvoteUri.value;
           if (uri) {
             const { deleteDownvote } = await import('~/lib/bsky');
-            await deleteDownvote(uri);
+            await deleteDownvote(uri, subjectUri);
             createdDownvoteUri.value = undefined;
           }
         }
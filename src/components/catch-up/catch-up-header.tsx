@@ -0,0 +1,85 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CatchUpHeader – "Since Your Last Visit" Summary
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Shown above the feed in catch-up mode: how many unseen posts arrived since
+ * the watermark, per source and per followed author, with actions to mark
+ * everything scrolled past as seen or go back to the normal feed. Loading lives in
+ * ~/lib/catch-up.
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { component$, type QRL } from '@builder.io/qwik';
+import type { CatchUpCount } from '~/lib/catch-up';
+
+import './catch-up-header.css';
+
+interface CatchUpHeaderProps {
+  /** Watermark (ms since epoch) */
+  since: number;
+  /** Unseen posts still in the window */
+  remaining: number;
+  bySource: CatchUpCount[];
+  byAuthor: CatchUpCount[];
+  loading: boolean;
+  /** False when paging stopped before reaching the watermark on some source */
+  complete: boolean;
+  onMarkAllSeen$: QRL<() => void>;
+  onExit$: QRL<() => void>;
+}
+
+/** Max followed authors listed in the summary. */
+const MAX_AUTHORS = 8;
+
+function formatSince(ms: number): string {
+  const hours = Math.round((Date.now() - ms) / 3600_000);
+  if (hours < 1) return 'less than an hour ago';
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)} days ago`;
+}
+
+export const CatchUpHeader = component$<CatchUpHeaderProps>((props) => {
+  const { since, remaining, bySource, byAuthor, loading, complete } = props;
+  return (
+    <div class="catch-up-header glass-strong">
+      <h3 class="catch-up-title">
+        {loading
+          ? 'Catching up…'
+          : remaining === 0
+            ? <span class="catch-up-done">You're all caught up ✓</span>
+            : `${remaining} new post${remaining === 1 ? '' : 's'}`}
+      </h3>
+      <p class="catch-up-since">
+        Since your last visit ({formatSince(since)}){!loading && !complete ? ' · showing the most recent' : ''}
+      </p>
+
+      {!loading && remaining > 0 && (
+        <>
+          <ul class="catch-up-counts" aria-label="Per feed">
+            {bySource.filter((s) => s.count > 0).map((s) => (
+              <li key={s.key} class="catch-up-count">{s.label} <strong>{s.count}</strong></li>
+            ))}
+          </ul>
+          {byAuthor.length > 0 && (
+            <ul class="catch-up-counts" aria-label="Per followed author">
+              {byAuthor.slice(0, MAX_AUTHORS).map((a) => (
+                <li key={a.key} class="catch-up-count">{a.label} <strong>{a.count}</strong></li>
+              ))}
+              {byAuthor.length > MAX_AUTHORS && (
+                <li class="catch-up-count">+{byAuthor.length - MAX_AUTHORS} more</li>
+              )}
+            </ul>
+          )}
+        </>
+      )}
+
+      <div class="catch-up-actions">
+        {!loading && remaining > 0 && (
+          <button type="button" class="btn" onClick$={props.onMarkAllSeen$}>Mark everything above as seen</button>
+        )}
+        <button type="button" class="btn-ghost" onClick$={props.onExit$}>Back to feed</button>
+      </div>
+    </div>
+  );
+});
@@ -10,9 +10,13 @@
  *  - Author avatar and handle
  *  - Time ago formatting
  *  - Depth-based indentation (max 5 levels)
+ *  - Long or multi-line replies rendered as Markdown, short ones as RichText
+ *  - Moderation: Hide/Unhide for thread moderators (hidden replies are shown
+ *    dimmed to them), Report for everyone, no inline replies when locked
  *
  * HOW TO EDIT:
  *  - To change max nesting depth, edit MAX_DEPTH
+ *  - To change when a reply counts as long (Markdown), edit isLongReply()
  *  - To change the indentation per level, edit the paddingLeft calc
  *  - To add new reply actions (edit, delete), add buttons to the action row
  * ═══════════════════════════════════════════════════════════════════════════
@@ -25,11 +29,18 @@ import { withBase } from '~/lib/path';
 import { ActionBar } from '~/components/action-buttons/action-buttons';
 import { FollowBell } from '~/components/follow-bell/follow-bell';
 import { RichText } from '~/components/rich-text/rich-text';
+import { Markdown } from '~/components/markdown/markdown';
 import { Link } from '@builder.io/qwik-city';
 
 import './comment-thread.css';
 
 const MAX_DEPTH = 5;
+/** Replies longer than this (or with line breaks) are rendered as Markdown */
+const LONG_REPLY_CHARS = 280;
+
+function isLongReply(text: string): boolean {
+  return text.length > LONG_REPLY_CHARS || text.includes('\n');
+}
 
 export type CommentSortMode = 'newest' | 'oldest' | 'best' | 'controversial' | 'replies';
 
@@ -46,10 +57,16 @@ interface CommentThreadProps {
   myDownvoteUris?: Record<string, string>;
   /** Called after user downvotes/undoes: (uri, action) so parent can refresh maps and counts */
   onDownvoteChange$?: (uri: string, action: 'downvote' | 'undo') => void;
+  /** Thread is locked: no inline reply forms */
+  locked?: boolean;
+  /** Set for thread moderators: hide (true) or unhide (false) a reply */
+  onHide$?: (uri: string, hide: boolean) => void;
+  /** Report a reply (opens the parent's report form) */
+  onReport$?: (uri: string) => void;
 }
 
 export const CommentThread = component$<CommentThreadProps>(
-  ({ replies, postUri, parentUri, depth = 0, sortOrder = 'best', downvoteCounts = {}, myDownvoteUris = {}, onDownvoteChange$ }) => {
+  ({ replies, postUri, parentUri, depth = 0, sortOrder = 'best', downvoteCounts = {}, myDownvoteUris = {}, onDownvoteChange$, locked, onHide$, onReport$ }) => {
     // Filter replies for this level
     let levelReplies = replies.filter((r) => {
       if (depth === 0) return !r.replyTo;
@@ -92,6 +109,9 @@ export const CommentThread = component$<CommentThreadProps>(
             downvoteCounts={downvoteCounts}
             myDownvoteUris={myDownvoteUris}
             onDownvoteChange$={onDownvoteChange$}
+            locked={locked}
+            onHide$={onHide$}
+            onReport$={onReport$}
           />
         ))}
       </div>
@@ -110,7 +130,10 @@ const CommentNode = component$<{
   downvoteCounts?: Record<string, number>;
   myDownvoteUris?: Record<string, string>;
   onDownvoteChange$?: (uri: string, action: 'downvote' | 'undo') => void;
-}>(({ reply, allReplies, postUri, depth, sortOrder = 'best', downvoteCounts = {}, myDownvoteUris = {}, onDownvoteChange$ }) => {
+  locked?: boolean;
+  onHide$?: (uri: string, hide: boolean) => void;
+  onReport$?: (uri: string) => void;
+}>(({ reply, allReplies, postUri, depth, sortOrder = 'best', downvoteCounts = {}, myDownvoteUris = {}, onDownvoteChange$, locked, onHide$, onReport$ }) => {
   const collapsed = useSignal(false);
   const showReply = useSignal(false);
   const replyText = useSignal('');
@@ -143,7 +166,7 @@ const CommentNode = component$<{
   });
 
   return (
-    <div class="ct-node" style={{ marginBottom: 'var(--space-xs)' }}>
+    <div class="ct-node" style={{ marginBottom: 'var(--space-xs)', opacity: reply.isHidden ? 0.5 : undefined }}>
       {/* Two-column layout: left gutter (collapse) | right content */}
       <div style={{ display: 'flex', gap: 0, alignItems: 'stretch' }}>
         {/* ── Left gutter: collapse button + full-height bar ── */}
@@ -191,6 +214,7 @@ const CommentNode = component$<{
                 compact
               />
               <span style={{ fontSize: 'var(--font-xs)', color: 'var(--muted)' }}>{timeAgo}</span>
+              {reply.isHidden && <span class="badge" style={{ fontSize: '10px' }}>Hidden</span>}
               {collapsed.value && childCount > 0 && (
                 <span style={{ fontSize: 'var(--font-xs)', color: 'var(--accent)', marginLeft: 'auto' }}>
                   +{childCount} {childCount === 1 ? 'reply' : 'replies'}
@@ -202,9 +226,13 @@ const CommentNode = component$<{
             {!collapsed.value && (
               <>
                 {/* Reply text */}
-                <p style={{ fontSize: 'var(--font-sm)', lineHeight: '1.5' }}>
-                  <RichText text={reply.record?.text ?? ''} />
-                </p>
+                {isLongReply(reply.record?.text ?? '') ? (
+                  <Markdown text={reply.record?.text ?? ''} did={reply.author.did} class="ct-markdown" />
+                ) : (
+                  <p style={{ fontSize: 'var(--font-sm)', lineHeight: '1.5' }}>
+                    <RichText text={reply.record?.text ?? ''} />
+                  </p>
+                )}
 
                 {/* Actions: Like, Downvote, Reply (reusable ActionBar) */}
                 <div style={{ marginTop: 'var(--space-xs)' }}>
@@ -221,13 +249,23 @@ const CommentNode = component$<{
                     onUndoDownvote$={onDownvoteChange$ ? $(() => { onDownvoteChange$(reply.uri, 'undo'); }) : undefined}
                     replyCount={childCount}
                     replyHref={depth >= MAX_DEPTH ? withBase(`/forum/${encodeURIComponent(postUri)}/`) : undefined}
-                    onReplyClick$={depth < MAX_DEPTH ? () => { showReply.value = !showReply.value; } : undefined}
+                    onReplyClick$={depth < MAX_DEPTH && !locked ? () => { showReply.value = !showReply.value; } : undefined}
                     compact
                   />
+                  {(onHide$ || onReport$) && (
+                    <div class="ct-mod-actions">
+                      {onHide$ && (
+                        <button type="button" onClick$={() => onHide$(reply.uri, !reply.isHidden)}>
+                          {reply.isHidden ? 'Unhide' : 'Hide'}
+                        </button>
+                      )}
+                      {onReport$ && <button type="button" onClick$={() => onReport$(reply.uri)}>Report</button>}
+                    </div>
+                  )}
                 </div>
 
                 {/* Inline reply form */}
-                {showReply.value && (
+                {showReply.value && !locked && (
                   <div style={{ display: 'flex', gap: 'var(--space-sm)', marginTop: 'var(--space-sm)' }}>
                     <input
                       type="text"
@@ -256,6 +294,9 @@ const CommentNode = component$<{
               downvoteCounts={downvoteCounts}
               myDownvoteUris={myDownvoteUris}
               onDownvoteChange$={onDownvoteChange$}
+              locked={locked}
+              onHide$={onHide$}
+              onReport$={onReport$}
             />
           )}
         </div>
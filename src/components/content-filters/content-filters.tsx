@@ -0,0 +1,170 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * ContentFilters – Manage Mute Words and Feed Filter Rules
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Lists the rules in app.contentRules and lets users add, toggle, change the
+ * action of, and remove them. Each rule can expire after a set time.
+ * Matching itself lives in ~/lib/content-filters.
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { component$, useSignal, $, type QRL } from '@builder.io/qwik';
+import { useAppState } from '~/context/app-context';
+import type { ContentRule, ContentRuleAction, ContentRuleKind } from '~/lib/types';
+import {
+  createContentRule, describeContentRule, saveContentRules, validateContentRule, VALUELESS_RULE_KINDS,
+} from '~/lib/content-filters';
+
+import './content-filters.css';
+
+interface ContentFiltersProps {
+  onClose$: QRL<() => void>;
+}
+
+const KIND_OPTIONS: Array<{ value: ContentRuleKind; label: string; placeholder: string }> = [
+  { value: 'word', label: 'Word or phrase', placeholder: 'e.g. spoiler' },
+  { value: 'regex', label: 'Regex', placeholder: 'e.g. \\bgiveaway\\b' },
+  { value: 'hashtag', label: 'Hashtag', placeholder: 'e.g. #nft' },
+  { value: 'author', label: 'Author', placeholder: 'handle or DID' },
+  { value: 'label', label: 'Label', placeholder: 'e.g. spam' },
+  { value: 'language', label: 'Language', placeholder: 'e.g. ja' },
+  { value: 'repost', label: 'Reposts', placeholder: '' },
+  { value: 'reply', label: 'Replies', placeholder: '' },
+];
+
+const ACTION_OPTIONS: Array<{ value: ContentRuleAction; label: string }> = [
+  { value: 'hide', label: 'Hide' },
+  { value: 'collapse', label: 'Collapse' },
+  { value: 'blur', label: 'Blur' },
+];
+
+const EXPIRY_OPTIONS: Array<{ value: string; label: string; ms?: number }> = [
+  { value: 'never', label: 'Forever' },
+  { value: '1d', label: '24 hours', ms: 24 * 3600_000 },
+  { value: '7d', label: '7 days', ms: 7 * 24 * 3600_000 },
+  { value: '30d', label: '30 days', ms: 30 * 24 * 3600_000 },
+];
+
+function expiryLabel(rule: ContentRule): string {
+  if (!rule.expiresAt) return '';
+  const ms = new Date(rule.expiresAt).getTime() - Date.now();
+  if (ms <= 0) return 'expired';
+  const hours = Math.ceil(ms / 3600_000);
+  return hours < 48 ? `${hours}h left` : `${Math.ceil(hours / 24)}d left`;
+}
+
+export const ContentFilters = component$<ContentFiltersProps>(({ onClose$ }) => {
+  const app = useAppState();
+  const kind = useSignal<ContentRuleKind>('word');
+  const value = useSignal('');
+  const action = useSignal<ContentRuleAction>('hide');
+  const expiry = useSignal('never');
+  const error = useSignal('');
+
+  const setRules = $((rules: ContentRule[]) => {
+    app.contentRules = rules;
+    saveContentRules(rules);
+  });
+
+  const addRule = $(async () => {
+    const problem = validateContentRule({ kind: kind.value, value: value.value });
+    if (problem) {
+      error.value = problem;
+      return;
+    }
+    const rule = createContentRule({
+      kind: kind.value,
+      value: value.value,
+      action: action.value,
+      ttlMs: EXPIRY_OPTIONS.find((o) => o.value === expiry.value)?.ms,
+    });
+    await setRules([...app.contentRules, rule]);
+    value.value = '';
+    error.value = '';
+  });
+
+  const needsValue = !VALUELESS_RULE_KINDS.includes(kind.value);
+
+  return (
+    <div class="content-filters glass-strong">
+      <div class="flex-between content-filters-header">
+        <h3 class="content-filters-title">Filters</h3>
+        <button class="icon-btn content-filters-close" onClick$={onClose$} aria-label="Close">✕</button>
+      </div>
+
+      {app.contentRules.length === 0 ? (
+        <p class="content-filters-muted">No filters yet. Muted words, tags and authors you add here apply to your feeds.</p>
+      ) : (
+        <ul class="content-filters-list">
+          {app.contentRules.map((rule) => (
+            <li key={rule.id} class={`content-filters-rule ${rule.enabled ? '' : 'content-filters-rule-off'}`}>
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                aria-label="Enabled"
+                onChange$={(_, el) => setRules(app.contentRules.map((r) => (r.id === rule.id ? { ...r, enabled: el.checked } : r)))}
+              />
+              <span class="content-filters-rule-label truncate">{describeContentRule(rule)}</span>
+              {rule.expiresAt && <span class="content-filters-muted">{expiryLabel(rule)}</span>}
+              <select
+                value={rule.action}
+                class="content-filters-select"
+                aria-label="Action"
+                onChange$={(_, el) => setRules(app.contentRules.map((r) => (r.id === rule.id ? { ...r, action: el.value as ContentRuleAction } : r)))}
+              >
+                {ACTION_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              <button
+                class="icon-btn content-filters-remove"
+                aria-label="Remove filter"
+                onClick$={() => setRules(app.contentRules.filter((r) => r.id !== rule.id))}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Add rule */}
+      <form class="content-filters-add" preventdefault:submit onSubmit$={addRule}>
+        <select
+          value={kind.value}
+          class="content-filters-select"
+          aria-label="Filter type"
+          onChange$={(_, el) => { kind.value = el.value as ContentRuleKind; error.value = ''; }}
+        >
+          {KIND_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        {needsValue && (
+          <input
+            type="text"
+            class="content-filters-input"
+            placeholder={KIND_OPTIONS.find((o) => o.value === kind.value)?.placeholder}
+            value={value.value}
+            onInput$={(_, el) => { value.value = el.value; }}
+          />
+        )}
+        <select
+          value={action.value}
+          class="content-filters-select"
+          aria-label="Action"
+          onChange$={(_, el) => { action.value = el.value as ContentRuleAction; }}
+        >
+          {ACTION_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <select
+          value={expiry.value}
+          class="content-filters-select"
+          aria-label="Expires"
+          onChange$={(_, el) => { expiry.value = el.value; }}
+        >
+          {EXPIRY_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <button type="submit" class="btn content-filters-add-btn">Add</button>
+      </form>
+      {error.value && <p class="content-filters-error">{error.value}</p>}
+    </div>
+  );
+});
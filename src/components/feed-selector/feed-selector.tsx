@@ -4,25 +4,51 @@
  * ═══════════════════════════════════════════════════════════════════════════
  *
  * Lets users mix multiple Bluesky feeds with percentage weights.
- * Includes Following (timeline), Add from saved, Manage saved feeds (edit list
- * on PDS), and Discover feeds.
+ * Includes Following (timeline), Add from saved, Add source (hashtag, search,
+ * author or list – no feed generator needed), Diversity options (per-author
+ * cap, reposts, recency half-life), a per-session share report with the
+ * provenance toggle, Presets (named mixes saved as
+ * app.purplesky.feed.mix records, importable by at:// URI), Manage saved
+ * feeds (edit list on PDS), and Discover feeds.
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
 import { component$, useVisibleTask$, useSignal, $, type QRL } from '@builder.io/qwik';
 import { useAppState } from '~/context/app-context';
 import type { SavedFeedItem } from '~/lib/bsky';
+import type { FeedKind, FeedMixPreset, FeedSource, RepostPolicy } from '~/lib/types';
+import { feedSourceKey, type MixShare } from '~/lib/feed-mix';
 
 interface FeedSelectorProps {
   onClose$: QRL<() => void>;
+  /** Configured vs actual share per source this session (from the feed page) */
+  sessionShares?: MixShare[];
 }
 
+type AddableKind = Extract<FeedKind, 'hashtag' | 'search' | 'author' | 'list'>;
+
+const SOURCE_KIND_OPTIONS: Array<{ value: AddableKind; label: string; placeholder: string }> = [
+  { value: 'hashtag', label: 'Hashtag', placeholder: '#blender' },
+  { value: 'search', label: 'Search', placeholder: 'search words' },
+  { value: 'author', label: 'Author', placeholder: '@handle or DID' },
+  { value: 'list', label: 'List', placeholder: 'at:// URI or bsky.app list link' },
+];
+
+const AUTHOR_CAP_OPTIONS = [0, 10, 20, 34, 50];
+const HALF_LIFE_OPTIONS: Array<{ hours: number; label: string }> = [
+  { hours: 0, label: 'Off' },
+  { hours: 6, label: '6h' },
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '1 week' },
+];
+
 function savedFeedLabel(f: SavedFeedItem): string {
   if (f.type === 'timeline') return 'Following';
   return f.value.split('/').pop() ?? f.value;
 }
 
-export const FeedSelector = component$<FeedSelectorProps>(({ onClose$ }) => {
+export const FeedSelector = component$<FeedSelectorProps>(({ onClose$, sessionShares = [] }) => {
   const app = useAppState();
   /** Local copy of percents so the % label updates live when dragging the slider */
   const percentValues = useSignal<number[]>([]);
@@ -31,6 +57,18 @@ export const FeedSelector = component$<FeedSelectorProps>(({ onClose$ }) => {
   const suggestedFeeds = useSignal<Array<{ uri: string; displayName?: string; description?: string }>>([]);
   const loadingSuggested = useSignal(false);
   const manageError = useSignal('');
+  const sourceKind = useSignal<AddableKind>('hashtag');
+  const sourceInput = useSignal('');
+  const sourceMediaOnly = useSignal(false);
+  const addingSource = useSignal(false);
+  const addSourceError = useSignal('');
+  const presets = useSignal<FeedMixPreset[]>([]);
+  const activePresetUri = useSignal<string | null>(null);
+  const presetName = useSignal('');
+  const importUri = useSignal('');
+  const presetBusy = useSignal(false);
+  const presetError = useSignal('');
+  const copiedPresetUri = useSignal<string | null>(null);
 
   useVisibleTask$(({ track }) => {
     track(() => app.feedMix.map((e) => e.percent));
@@ -45,8 +83,97 @@ export const FeedSelector = component$<FeedSelectorProps>(({ onClose$ }) => {
     } catch { /* ignore */ }
   });
 
+  const refreshPresets = $(async () => {
+    if (!app.session.isLoggedIn) return;
+    const { listFeedMixPresets } = await import('~/lib/feed-mix-presets');
+    presets.value = await listFeedMixPresets();
+  });
+
   useVisibleTask$(async () => {
-    await refreshSavedFeeds();
+    await Promise.all([refreshSavedFeeds(), refreshPresets()]);
+  });
+
+  const applyPreset = $((preset: FeedMixPreset) => {
+    app.feedMix = preset.entries.map((e) => ({ source: { ...e.source }, percent: e.percent }));
+    app.feedMixOptions = { ...preset.options };
+    activePresetUri.value = preset.uri;
+    presetName.value = preset.name;
+    presetError.value = '';
+  });
+
+  const savePreset = $(async (asNew: boolean) => {
+    if (app.feedMix.length === 0) return;
+    presetBusy.value = true;
+    presetError.value = '';
+    try {
+      const { saveFeedMixPreset } = await import('~/lib/feed-mix-presets');
+      const current = asNew ? undefined : presets.value.find((p) => p.uri === activePresetUri.value);
+      const saved = await saveFeedMixPreset({
+        name: presetName.value,
+        entries: app.feedMix,
+        options: app.feedMixOptions,
+        uri: current?.uri,
+        createdAt: current?.createdAt,
+      });
+      activePresetUri.value = saved.uri;
+      await refreshPresets();
+    } catch (e) {
+      presetError.value = e instanceof Error ? e.message : 'Failed to save mix';
+    }
+    presetBusy.value = false;
+  });
+
+  const importPreset = $(async () => {
+    if (!importUri.value.trim()) return;
+    presetBusy.value = true;
+    presetError.value = '';
+    try {
+      const { getFeedMixPreset } = await import('~/lib/feed-mix-presets');
+      const preset = await getFeedMixPreset(importUri.value);
+      await applyPreset(preset);
+      importUri.value = '';
+    } catch (e) {
+      presetError.value = e instanceof Error ? e.message : 'Failed to import mix';
+    }
+    presetBusy.value = false;
+  });
+
+  const addSource = $(async () => {
+    const input = sourceInput.value.trim();
+    if (!input) return;
+    addingSource.value = true;
+    addSourceError.value = '';
+    try {
+      let source: FeedSource;
+      if (sourceKind.value === 'hashtag') {
+        const tag = input.replace(/^#/, '');
+        source = { kind: 'hashtag', label: `#${tag}`, query: tag };
+      } else if (sourceKind.value === 'search') {
+        source = { kind: 'search', label: `“${input}”`, query: input };
+      } else if (sourceKind.value === 'author') {
+        const actor = input.replace(/^@/, '').replace(/^https?:\/\/bsky\.app\/profile\//, '').split('/')[0];
+        source = {
+          kind: 'author',
+          label: sourceMediaOnly.value ? `@${actor} (media)` : `@${actor}`,
+          actor,
+          mediaOnly: sourceMediaOnly.value,
+        };
+      } else {
+        const { resolveListSource } = await import('~/lib/bsky');
+        const list = await resolveListSource(input);
+        source = { kind: 'list', label: list.name, uri: list.uri };
+      }
+      const key = feedSourceKey(source);
+      if (app.feedMix.some((m) => feedSourceKey(m.source) === key)) {
+        addSourceError.value = 'Already in the mix';
+      } else {
+        app.feedMix = [...app.feedMix, { source, percent: 20 }];
+        sourceInput.value = '';
+      }
+    } catch (e) {
+      addSourceError.value = e instanceof Error ? e.message : 'Failed to add source';
+    }
+    addingSource.value = false;
   });
 
   return (
@@ -56,6 +183,85 @@ export const FeedSelector = component$<FeedSelectorProps>(({ onClose$ }) => {
         <button class="icon-btn feed-selector-close" onClick$={onClose$} aria-label="Close">✕</button>
       </div>
 
+      {/* Presets: switch, save current mix, import by at:// URI */}
+      <div class="feed-selector-presets">
+        {presets.value.length > 0 && (
+          <div class="feed-selector-add-btns">
+            {presets.value.map((p) => (
+              <span key={p.uri} class={`feed-selector-preset ${activePresetUri.value === p.uri ? 'feed-selector-preset-active' : ''}`}>
+                <button type="button" class="btn-ghost feed-selector-add-btn" title={p.description} onClick$={() => applyPreset(p)}>
+                  {p.name}
+                </button>
+                {activePresetUri.value === p.uri && (
+                  <>
+                    <button
+                      type="button"
+                      class="btn-ghost feed-selector-add-btn"
+                      title={p.uri}
+                      onClick$={async () => {
+                        try {
+                          await navigator.clipboard.writeText(p.uri);
+                          copiedPresetUri.value = p.uri;
+                        } catch { /* ignore */ }
+                      }}
+                    >
+                      {copiedPresetUri.value === p.uri ? 'Copied' : 'Share'}
+                    </button>
+                    <button
+                      type="button"
+                      class="btn-ghost feed-selector-remove-saved"
+                      onClick$={$(async () => {
+                        try {
+                          const { deleteFeedMixPreset } = await import('~/lib/feed-mix-presets');
+                          await deleteFeedMixPreset(p.uri);
+                          activePresetUri.value = null;
+                          await refreshPresets();
+                        } catch (e) {
+                          presetError.value = e instanceof Error ? e.message : 'Failed to delete mix';
+                        }
+                      })}
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+        {app.session.isLoggedIn && (
+          <form class="feed-selector-source-row" preventdefault:submit onSubmit$={() => savePreset(false)}>
+            <input
+              type="text"
+              class="feed-selector-source-input"
+              placeholder="Mix name"
+              maxLength={256}
+              value={presetName.value}
+              onInput$={(_, el) => { presetName.value = el.value; }}
+            />
+            <button type="submit" class="btn-ghost feed-selector-add-btn" disabled={presetBusy.value || app.feedMix.length === 0}>
+              {activePresetUri.value && presets.value.some((p) => p.uri === activePresetUri.value) ? 'Update' : 'Save mix'}
+            </button>
+            {activePresetUri.value && presets.value.some((p) => p.uri === activePresetUri.value) && (
+              <button type="button" class="btn-ghost feed-selector-add-btn" disabled={presetBusy.value} onClick$={() => savePreset(true)}>
+                Save as new
+              </button>
+            )}
+          </form>
+        )}
+        <form class="feed-selector-source-row" preventdefault:submit onSubmit$={importPreset}>
+          <input
+            type="text"
+            class="feed-selector-source-input"
+            placeholder="Import mix (at://…/app.purplesky.feed.mix/…)"
+            value={importUri.value}
+            onInput$={(_, el) => { importUri.value = el.value; }}
+          />
+          <button type="submit" class="btn-ghost feed-selector-add-btn" disabled={presetBusy.value}>Import</button>
+        </form>
+        {presetError.value && <p class="feed-selector-error">{presetError.value}</p>}
+      </div>
+
       {/* Current mix entries */}
       {app.feedMix.map((entry, i) => (
         <div key={i} class="feed-mix-entry">
@@ -124,6 +330,42 @@ export const FeedSelector = component$<FeedSelectorProps>(({ onClose$ }) => {
         </div>
       </div>
 
+      {/* Add a hashtag, search, author or list source */}
+      <form class="feed-selector-source" preventdefault:submit onSubmit$={addSource}>
+        <p class="feed-selector-add-label">Add source:</p>
+        <div class="feed-selector-source-row">
+          <select
+            value={sourceKind.value}
+            class="feed-selector-source-kind"
+            aria-label="Source type"
+            onChange$={(_, el) => { sourceKind.value = el.value as AddableKind; addSourceError.value = ''; }}
+          >
+            {SOURCE_KIND_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <input
+            type="text"
+            class="feed-selector-source-input"
+            placeholder={SOURCE_KIND_OPTIONS.find((o) => o.value === sourceKind.value)?.placeholder}
+            value={sourceInput.value}
+            onInput$={(_, el) => { sourceInput.value = el.value; }}
+          />
+          <button type="submit" class="btn-ghost feed-selector-add-btn" disabled={addingSource.value}>
+            {addingSource.value ? '…' : 'Add'}
+          </button>
+        </div>
+        {sourceKind.value === 'author' && (
+          <label class="feed-selector-source-media">
+            <input
+              type="checkbox"
+              checked={sourceMediaOnly.value}
+              onChange$={(_, el) => { sourceMediaOnly.value = el.checked; }}
+            />
+            Media only
+          </label>
+        )}
+        {addSourceError.value && <p class="feed-selector-error">{addSourceError.value}</p>}
+      </form>
+
       {/* Manage saved feeds (edit list on PDS) */}
       <div class="feed-selector-manage">
         <button
@@ -217,6 +459,84 @@ export const FeedSelector = component$<FeedSelectorProps>(({ onClose$ }) => {
         )}
       </div>
 
+      {/* Diversity: per-author cap, reposts, recency half-life */}
+      <div class="feed-selector-options">
+        <label class="feed-selector-option">
+          <span>Max per author</span>
+          <select
+            value={String(app.feedMixOptions.maxAuthorPercent ?? 0)}
+            class="feed-selector-source-kind"
+            onChange$={(_, el) => {
+              const pct = parseInt(el.value, 10) || 0;
+              app.feedMixOptions = { ...app.feedMixOptions, maxAuthorPercent: pct || undefined };
+            }}
+          >
+            {AUTHOR_CAP_OPTIONS.map((pct) => (
+              <option key={pct} value={String(pct)}>{pct ? `${pct}%` : 'No limit'}</option>
+            ))}
+          </select>
+        </label>
+        <label class="feed-selector-option">
+          <span>Reposts</span>
+          <select
+            value={app.feedMixOptions.repostPolicy ?? 'keep'}
+            class="feed-selector-source-kind"
+            onChange$={(_, el) => {
+              app.feedMixOptions = { ...app.feedMixOptions, repostPolicy: el.value as RepostPolicy };
+            }}
+          >
+            <option value="keep">Show all</option>
+            <option value="collapse">One per reposter</option>
+            <option value="hide">Hide</option>
+          </select>
+        </label>
+        <label class="feed-selector-option">
+          <span>Prefer recent</span>
+          <select
+            value={String(app.feedMixOptions.halfLifeHours ?? 0)}
+            class="feed-selector-source-kind"
+            title="Half-life: older posts in each feed are shown later"
+            onChange$={(_, el) => {
+              const hours = parseInt(el.value, 10) || 0;
+              app.feedMixOptions = { ...app.feedMixOptions, halfLifeHours: hours || undefined };
+            }}
+          >
+            {HALF_LIFE_OPTIONS.map((o) => <option key={o.hours} value={String(o.hours)}>{o.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {/* This session: actual share per source vs configured percent */}
+      {sessionShares.some((sh) => sh.taken > 0) && (
+        <div class="feed-selector-session">
+          <p class="feed-selector-add-label">This session (shown / configured):</p>
+          <ul class="feed-selector-saved-list">
+            {sessionShares.map((sh) => (
+              <li key={sh.key} class="feed-selector-saved-item">
+                <span class="feed-selector-saved-label">{sh.label}</span>
+                <span
+                  class={`feed-selector-share ${Math.abs(sh.actual - sh.configured) >= 10 ? 'feed-selector-share-off' : ''}`}
+                  title={`${sh.taken} posts shown`}
+                >
+                  {sh.actual}% / {sh.configured}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <label class="feed-selector-option feed-selector-provenance-toggle">
+        <span>Show why I'm seeing each post</span>
+        <input
+          type="checkbox"
+          checked={app.showFeedProvenance}
+          onChange$={(_, el) => {
+            app.showFeedProvenance = el.checked;
+            try { localStorage.setItem('purplesky-show-provenance', el.checked ? '1' : '0'); } catch { /* ignore */ }
+          }}
+        />
+      </label>
+
       {/* Balance button */}
       <button
         class="btn feed-selector-balance"
@@ -243,6 +563,20 @@ export const FeedSelector = component$<FeedSelectorProps>(({ onClose$ }) => {
         .feed-selector-add-label { font-size: var(--font-xs); color: var(--muted); margin: 0 0 var(--space-xs); }
         .feed-selector-add-btns { display: flex; flex-wrap: wrap; gap: var(--space-xs); }
         .feed-selector-add-btn { font-size: var(--font-xs); padding: 2px 6px; }
+        .feed-selector-presets { display: flex; flex-direction: column; gap: var(--space-xs); margin-bottom: var(--space-sm); padding-bottom: var(--space-sm); border-bottom: 1px solid var(--border); }
+        .feed-selector-preset { display: inline-flex; gap: 2px; border-radius: 6px; }
+        .feed-selector-preset-active { outline: 1px solid var(--accent); }
+        .feed-selector-source { margin-top: var(--space-sm); }
+        .feed-selector-source-row { display: flex; align-items: center; gap: var(--space-xs); }
+        .feed-selector-source-kind, .feed-selector-source-input { font-size: var(--font-xs); padding: 2px 6px; border-radius: 6px; background: var(--glass-highlight); border: 1px solid var(--glass-border); color: var(--text); }
+        .feed-selector-source-input { flex: 1; min-width: 0; }
+        .feed-selector-source-media { display: flex; align-items: center; gap: var(--space-xs); margin-top: var(--space-xs); font-size: var(--font-xs); color: var(--muted); }
+        .feed-selector-options { margin-top: var(--space-sm); display: flex; flex-direction: column; gap: var(--space-xs); }
+        .feed-selector-option { display: flex; align-items: center; justify-content: space-between; gap: var(--space-sm); font-size: var(--font-xs); color: var(--muted); }
+        .feed-selector-session { margin-top: var(--space-sm); padding-top: var(--space-xs); border-top: 1px solid var(--border); }
+        .feed-selector-share { font-size: var(--font-xs); font-weight: 700; color: var(--accent); white-space: nowrap; }
+        .feed-selector-share-off { color: var(--danger); }
+        .feed-selector-provenance-toggle { margin-top: var(--space-xs); }
         .feed-selector-balance { margin-top: var(--space-sm); width: 100%; justify-content: center; font-size: var(--font-sm); padding: var(--space-xs) var(--space-sm); }
         .feed-selector-manage { margin-top: var(--space-sm); }
         .feed-selector-manage-btn { font-size: var(--font-xs); padding: 2px 6px; }
@@ -124,7 +124,7 @@ export const FollowBell = component$<FollowBellProps>(({
     try {
       if (following.value) {
         const { unfollowUser } = await import('~/lib/bsky');
-        await unfollowUser(following.value);
+        await unfollowUser(following.value, authorDid);
         following.value = '';
       } else {
         const { followUser } = await import('~/lib/bsky');
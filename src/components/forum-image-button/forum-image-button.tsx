@@ -0,0 +1,40 @@
+/**
+ * "Add image" button for forum post composers: uploads the picked image as a
+ * blob (uploadForumImage in lib/forum.ts) and hands back the Markdown that
+ * shows it, for the composer to insert into the body.
+ */
+
+import { component$, useSignal, $ } from '@builder.io/qwik';
+
+interface ForumImageButtonProps {
+  /** Called with ![alt](blob:<cid>) once the upload is done */
+  onInsert$: (markdown: string) => void;
+}
+
+export const ForumImageButton = component$<ForumImageButtonProps>(({ onInsert$ }) => {
+  const uploading = useSignal(false);
+  const error = useSignal('');
+
+  const handleFile = $(async (_: Event, el: HTMLInputElement) => {
+    const file = el.files?.[0];
+    el.value = '';
+    if (!file) return;
+    uploading.value = true;
+    error.value = '';
+    try {
+      const { uploadForumImage } = await import('~/lib/forum');
+      onInsert$(await uploadForumImage(file, file.name.replace(/\.[^.]+$/, '')));
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Upload failed';
+    }
+    uploading.value = false;
+  });
+
+  return (
+    <label class="btn-ghost" style={{ cursor: 'pointer', display: 'inline-flex', alignItems: 'center', gap: 'var(--space-xs)' }}>
+      <input type="file" accept="image/*" style={{ display: 'none' }} onChange$={handleFile} disabled={uploading.value} />
+      {uploading.value ? 'Uploading…' : 'Add image'}
+      {error.value && <span style={{ color: 'var(--danger)', fontSize: 'var(--font-xs)' }}>{error.value}</span>}
+    </label>
+  );
+});
@@ -0,0 +1,119 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * ForumRevisions – Edit History of a Forum Post
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Lists the edits of a post (lib/forum-revisions.ts), newest first. Opening
+ * one shows what that edit changed: title, tags and a word diff of the body,
+ * inline (removed and added text in one column) or side by side.
+ *
+ * HOW TO EDIT:
+ *  - Diff colours: forum-revisions.css
+ *  - Diff granularity: tokenize() in lib/text-diff.ts
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { component$, useSignal, useVisibleTask$ } from '@builder.io/qwik';
+import { diffWords, hasChanges } from '~/lib/text-diff';
+import type { DiffPart } from '~/lib/text-diff';
+import type { ForumPost, ForumPostVersion } from '~/lib/types';
+
+import './forum-revisions.css';
+
+interface ForumRevisionsProps {
+  post: ForumPost;
+}
+
+function renderParts(parts: DiffPart[], show: DiffPart['type'][] = ['same', 'removed', 'added']) {
+  return parts.filter((p) => show.includes(p.type)).map((p, i) => {
+    if (p.type === 'removed') return <del key={i}>{p.text}</del>;
+    if (p.type === 'added') return <ins key={i}>{p.text}</ins>;
+    return <span key={i}>{p.text}</span>;
+  });
+}
+
+export const ForumRevisions = component$<ForumRevisionsProps>(({ post }) => {
+  /** Current version first, then older ones */
+  const versions = useSignal<ForumPostVersion[]>([]);
+  const loading = useSignal(true);
+  /** Index of the older version of the open edit (versions[open] → versions[open - 1]) */
+  const open = useSignal(1);
+  const sideBySide = useSignal(false);
+
+  useVisibleTask$(async () => {
+    try {
+      const { listForumPostVersions } = await import('~/lib/forum-revisions');
+      versions.value = await listForumPostVersions(post);
+    } catch (err) {
+      console.error('Failed to load revisions:', err);
+    }
+    loading.value = false;
+  });
+
+  if (loading.value) {
+    return <div class="flex-center" style={{ padding: 'var(--space-md)' }}><div class="spinner" /></div>;
+  }
+
+  const list = versions.value;
+  const oldest = list[list.length - 1];
+  // Edited before revisions were kept: the original text is gone
+  const missingEarlier = !!oldest && !!post.createdAt && oldest.writtenAt !== post.createdAt;
+  const before = list[open.value];
+  const after = list[open.value - 1];
+  const titleDiff = before && after ? diffWords(before.title, after.title) : [];
+  const tagsDiff = before && after ? diffWords((before.tags ?? []).join(', '), (after.tags ?? []).join(', ')) : [];
+  const bodyDiff = before && after ? diffWords(before.body, after.body) : [];
+
+  return (
+    <div class="forum-revisions glass">
+      {list.length < 2 ? (
+        <p style={{ color: 'var(--muted)', fontSize: 'var(--font-sm)' }}>No earlier versions were saved for this post.</p>
+      ) : (
+        <>
+          <ol class="forum-revisions-list">
+            {list.slice(1).map((v, i) => (
+              <li key={v.uri}>
+                <button
+                  class={open.value === i + 1 ? 'active' : ''}
+                  onClick$={() => { open.value = i + 1; }}
+                >
+                  Edited {new Date(v.replacedAt ?? '').toLocaleString()}
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          {before && after && (
+            <div class="forum-revisions-diff">
+              <div class="flex-between" style={{ marginBottom: 'var(--space-sm)', fontSize: 'var(--font-xs)', color: 'var(--muted)' }}>
+                <span>
+                  Version of {new Date(before.writtenAt).toLocaleString()} → {open.value === 1 ? 'current' : new Date(after.writtenAt).toLocaleString()}
+                </span>
+                <button class="btn-ghost" style={{ fontSize: 'var(--font-xs)' }} onClick$={() => { sideBySide.value = !sideBySide.value; }}>
+                  {sideBySide.value ? 'Inline' : 'Side by side'}
+                </button>
+              </div>
+              {hasChanges(titleDiff) && <h3>{renderParts(titleDiff)}</h3>}
+              {hasChanges(tagsDiff) && <p class="forum-revisions-tags">Tags: {renderParts(tagsDiff)}</p>}
+              {!hasChanges(bodyDiff) ? (
+                <p style={{ color: 'var(--muted)', fontSize: 'var(--font-sm)' }}>The body did not change.</p>
+              ) : sideBySide.value ? (
+                <div class="forum-revisions-columns">
+                  <div class="forum-revisions-text">{renderParts(bodyDiff, ['same', 'removed'])}</div>
+                  <div class="forum-revisions-text">{renderParts(bodyDiff, ['same', 'added'])}</div>
+                </div>
+              ) : (
+                <div class="forum-revisions-text">{renderParts(bodyDiff)}</div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+      {missingEarlier && (
+        <p style={{ color: 'var(--muted)', fontSize: 'var(--font-xs)', marginTop: 'var(--space-sm)' }}>
+          Versions from before {new Date(oldest.writtenAt).toLocaleString()} were not saved.
+        </p>
+      )}
+    </div>
+  );
+});
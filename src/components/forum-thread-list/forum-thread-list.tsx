@@ -0,0 +1,79 @@
+/**
+ * Forum thread list: one card per post with badges, author, reply and vote
+ * counts, where the post was found and its community. Used by the forum
+ * index and the community pages.
+ */
+
+import { component$ } from '@builder.io/qwik';
+import { Link } from '@builder.io/qwik-city';
+import { withBase } from '~/lib/path';
+import type { ForumDiscoveryOrigin, ForumPost } from '~/lib/types';
+
+const ORIGIN_LABELS: Record<ForumDiscoveryOrigin, string> = {
+  self: 'yours',
+  community: 'community',
+  follow: 'following',
+  participant: 'from replies',
+  tag: 'by tag',
+};
+
+interface ForumThreadListProps {
+  posts: ForumPost[];
+  /** Community names by URI; posts in a listed community link to it */
+  communityNames?: Record<string, string>;
+  /** Hide the "found via" label (e.g. on a community page) */
+  hideOrigin?: boolean;
+}
+
+export const ForumThreadList = component$<ForumThreadListProps>(({ posts, communityNames, hideOrigin }) => (
+  <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-sm)' }}>
+    {posts.map((post) => (
+      <div
+        key={post.uri}
+        class="glass"
+        style={{
+          padding: 'var(--space-md)', color: 'var(--text)',
+          transition: 'transform var(--transition-fast)',
+          border: post.isPinned ? '1px solid var(--accent)' : undefined,
+        }}
+      >
+        <Link
+          href={withBase(`/forum/${encodeURIComponent(post.uri)}/`)}
+          style={{ display: 'block', textDecoration: 'none', color: 'inherit' }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-sm)', marginBottom: 'var(--space-xs)' }}>
+            {post.isPinned && <span class="badge">Pinned</span>}
+            {post.isWiki && <span class="badge-success badge">Wiki</span>}
+            <h3 class="truncate" style={{ fontSize: 'var(--font-base)', fontWeight: '600' }}>
+              {post.title || 'Untitled'}
+            </h3>
+          </div>
+          {post.body && (
+            <p class="truncate" style={{ fontSize: 'var(--font-sm)', color: 'var(--muted)' }}>
+              {post.body.slice(0, 120)}
+            </p>
+          )}
+        </Link>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-md)', marginTop: 'var(--space-xs)', fontSize: 'var(--font-xs)', color: 'var(--muted)' }}>
+          {post.authorHandle && <span>@{post.authorHandle}</span>}
+          {!hideOrigin && post.discoveredVia && post.discoveredVia !== 'self' && <span>{ORIGIN_LABELS[post.discoveredVia]}</span>}
+          {post.community && communityNames?.[post.community] && (
+            <Link
+              href={withBase(`/forum/community/${encodeURIComponent(post.community)}/`)}
+              style={{ color: 'var(--accent)', textDecoration: 'none' }}
+            >
+              in {communityNames[post.community]}
+            </Link>
+          )}
+          {post.createdAt && <span>{new Date(post.createdAt).toLocaleDateString()}</span>}
+          <span>{post.replyCount ?? 0} {post.replyCount === 1 ? 'reply' : 'replies'}</span>
+          {(post.upvoteCount || post.downvoteCount) ? <span>{(post.upvoteCount ?? 0) - (post.downvoteCount ?? 0)} votes</span> : null}
+          {post.lastReplyAt && <span>last reply {new Date(post.lastReplyAt).toLocaleDateString()}</span>}
+          {post.tags?.map((tag) => (
+            <span key={tag} class="badge" style={{ fontSize: '10px' }}>#{tag}</span>
+          ))}
+        </div>
+      </div>
+    ))}
+  </div>
+));
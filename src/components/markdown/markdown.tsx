@@ -0,0 +1,138 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Markdown – Renders Forum Bodies, Wiki Pages and Long Replies
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Renders the tree from parseMarkdown() (lib/markdown.ts) as JSX; nothing
+ * is ever set as raw HTML, so text from other users' records stays text.
+ * Plain text goes through RichText, so @mentions, #tags and %forumtags
+ * still link. Blob images load from `did`'s repo (the record's author);
+ * without a did only their alt text is shown.
+ *
+ * HOW TO EDIT:
+ *  - Styles: markdown.css (everything is scoped under .markdown)
+ *  - New node types: add them in lib/markdown.ts, then to renderBlock() or
+ *    renderInline() below
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { component$ } from '@builder.io/qwik';
+import type { JSXOutput } from '@builder.io/qwik';
+import { Link } from '@builder.io/qwik-city';
+import { RichText } from '~/components/rich-text/rich-text';
+import { blobImageUrl, parseMarkdown } from '~/lib/markdown';
+import type { MdBlock, MdInline } from '~/lib/markdown';
+import { withBase } from '~/lib/path';
+
+import './markdown.css';
+
+export interface MarkdownProps {
+  text: string;
+  /** DID of the repo that blob images (![alt](blob:<cid>)) belong to */
+  did?: string;
+  class?: string;
+}
+
+function renderInline(node: MdInline, key: number, did?: string): JSXOutput {
+  switch (node.type) {
+    case 'text':
+      return <RichText key={key} text={node.text} />;
+    case 'code':
+      return <code key={key}>{node.text}</code>;
+    case 'strong':
+      return <strong key={key}>{node.children.map((c, i) => renderInline(c, i, did))}</strong>;
+    case 'em':
+      return <em key={key}>{node.children.map((c, i) => renderInline(c, i, did))}</em>;
+    case 'del':
+      return <del key={key}>{node.children.map((c, i) => renderInline(c, i, did))}</del>;
+    case 'image':
+      return did
+        ? <img key={key} src={blobImageUrl(did, node.cid)} alt={node.alt} loading="lazy" width={600} height={400} />
+        : <span key={key} class="markdown-missing-image">[{node.alt || 'image'}]</span>;
+    case 'link': {
+      const children = node.children.map((c, i) => (c.type === 'text' ? c.text : renderInline(c, i, did)));
+      if (node.href.startsWith('/')) {
+        return <Link key={key} href={withBase(node.href)} class="rich-text-link">{children}</Link>;
+      }
+      if (node.href.startsWith('#')) {
+        return <a key={key} href={node.href} class="rich-text-link">{children}</a>;
+      }
+      return (
+        <a key={key} href={node.href} target="_blank" rel="noopener noreferrer nofollow" class="rich-text-link">
+          {children}
+        </a>
+      );
+    }
+  }
+}
+
+function renderInlines(nodes: MdInline[], did?: string): JSXOutput[] {
+  return nodes.map((n, i) => renderInline(n, i, did));
+}
+
+function renderBlock(block: MdBlock, key: number, did?: string): JSXOutput {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return (
+        <Tag key={key} id={block.id}>
+          {renderInlines(block.children, did)}
+          <a href={`#${block.id}`} class="markdown-anchor" aria-label="Link to this section">#</a>
+        </Tag>
+      );
+    }
+    case 'paragraph':
+      return <p key={key}>{renderInlines(block.children, did)}</p>;
+    case 'code':
+      return (
+        <pre key={key} data-lang={block.lang}>
+          {block.lang && <span class="markdown-code-lang">{block.lang}</span>}
+          <code class={block.lang ? `language-${block.lang}` : undefined}>{block.text}</code>
+        </pre>
+      );
+    case 'quote':
+      return <blockquote key={key}>{block.children.map((b, i) => renderBlock(b, i, did))}</blockquote>;
+    case 'list': {
+      const items = block.items.map((item, i) => (
+        <li key={i}>{item.map((b, j) => renderBlock(b, j, did))}</li>
+      ));
+      return block.ordered
+        ? <ol key={key} start={block.start}>{items}</ol>
+        : <ul key={key}>{items}</ul>;
+    }
+    case 'table':
+      return (
+        <div key={key} class="markdown-table">
+          <table>
+            <thead>
+              <tr>
+                {block.head.map((cell, i) => (
+                  <th key={i} style={block.align[i] ? { textAlign: block.align[i]! } : undefined}>{renderInlines(cell, did)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, i) => (
+                    <td key={i} style={block.align[i] ? { textAlign: block.align[i]! } : undefined}>{renderInlines(cell, did)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={key} />;
+  }
+}
+
+export const Markdown = component$<MarkdownProps>(({ text, did, class: className }) => {
+  const blocks = parseMarkdown(text);
+  return (
+    <div class={['markdown', className].filter(Boolean).join(' ')}>
+      {blocks.map((b, i) => renderBlock(b, i, did))}
+    </div>
+  );
+});
@@ -10,6 +10,8 @@
  *  - Action row: like, downvote, repost, comment, save to collection
  *  - Seen tracking: when scrolled past, marked as seen
  *  - NSFW blur overlay
+ *  - Content filter notice (blur / collapse from the user's filter rules)
+ *  - Provenance chip ("why am I seeing this") for mixed-feed items
  *  - Collection indicator (outline when saved)
  *
  * HOW TO EDIT:
@@ -22,8 +24,9 @@
 
 import { component$, useSignal, useVisibleTask$, type QRL } from '@builder.io/qwik';
 import { Link, useNavigate } from '@builder.io/qwik-city';
-import type { TimelineItem, CardViewMode } from '~/lib/types';
+import type { TimelineItem, CardViewMode, ContentRuleAction } from '~/lib/types';
 import { withBase } from '~/lib/path';
+import { describeProvenance } from '~/lib/feed-mix';
 import { resizedAvatarUrl } from '~/lib/image-utils';
 import { ActionBar } from '~/components/action-buttons/action-buttons';
 import { FollowBell } from '~/components/follow-bell/follow-bell';
@@ -45,6 +48,11 @@ interface PostCardProps {
   /** When true, show NSFW blur overlay until user taps (parent tracks unblurred) */
   nsfwBlurred?: boolean;
   onNsfwUnblur$?: QRL<() => void>;
+  /** Set when a content filter rule matched with blur/collapse (parent tracks revealed) */
+  filterNotice?: { action: ContentRuleAction; reason: string };
+  onFilterReveal$?: QRL<() => void>;
+  /** Show the provenance chip (source, rank, via) when the item has one */
+  showProvenance?: boolean;
   /** Number of downvotes (for score display). From constellation when available. */
   downvoteCount?: number;
   /** If set, current user has downvoted this post (value = downvote record URI to undo) */
@@ -67,6 +75,9 @@ export const PostCard = component$<PostCardProps>(({
   cardViewMode = 'full',
   nsfwBlurred = false,
   onNsfwUnblur$,
+  filterNotice,
+  onFilterReveal$,
+  showProvenance = false,
   downvoteCount = 0,
   myDownvoteUri,
   onDownvote$,
@@ -93,6 +104,10 @@ export const PostCard = component$<PostCardProps>(({
   const images = (embed?.images as Array<{ thumb: string; fullsize: string; aspectRatio?: { width: number; height: number } }>) ?? [];
   const videoThumb = (embed?.thumbnail as string) ?? (mediaEmbed?.thumbnail as string) ?? undefined;
   const videoPlaylist = (embed?.playlist as string) ?? (mediaEmbed?.playlist as string) ?? undefined;
+  // Reserve the video box up front so the masonry column doesn't jump on load
+  const videoRatio = (embed?.aspectRatio ?? mediaEmbed?.aspectRatio) as { width: number; height: number } | undefined;
+  const videoRatioStyle = videoRatio?.width && videoRatio?.height
+    ? `${videoRatio.width} / ${videoRatio.height}` : undefined;
   const hasMedia = isImage || isVideo || !!(embed?.media as Record<string, unknown>);
   const videoRef = useSignal<HTMLVideoElement>();
 
@@ -246,7 +261,7 @@ export const PostCard = component$<PostCardProps>(({
   return (
     <article
       ref={cardRef}
-      class={`post-card glass post-card-${cardViewMode} ${isSeen ? 'post-card-seen' : ''} ${isInAnyArtboard ? 'post-card-in-collection' : ''} ${isSelected ? 'post-card-selected' : ''} ${isMouseOver ? 'post-card-mouse-over' : ''}`}
+      class={`post-card glass post-card-${cardViewMode} ${isSeen ? 'post-card-seen' : ''} ${isInAnyArtboard ? 'post-card-in-collection' : ''} ${isSelected ? 'post-card-selected' : ''} ${isMouseOver ? 'post-card-mouse-over' : ''} ${filterNotice ? `post-card-filter-${filterNotice.action}` : ''}`}
       data-post-uri={post.uri}
       onClick$={(e) => {
         const ev = e as MouseEvent;
@@ -265,6 +280,34 @@ export const PostCard = component$<PostCardProps>(({
         nav(postPathForNav); // full path with base so GitHub Pages stays under /repo/
       }}
     >
+      {/* ── Content filter notice (CSS hides or blurs the rest of the card) ── */}
+      {filterNotice && (
+        <div class="post-filter-notice" data-action="filter-reveal">
+          <span class="truncate">{filterNotice.reason}</span>
+          <button
+            type="button"
+            class="btn-ghost post-filter-reveal"
+            onClick$={(e) => { e.stopPropagation(); onFilterReveal$?.(); }}
+          >
+            Show
+          </button>
+        </div>
+      )}
+
+      {/* ── Provenance chip: which mixed source this came from, and why ── */}
+      {showProvenance && item._feedSource && item._provenance && (
+        <div class="post-provenance">
+          <span
+            class={`post-provenance-chip post-provenance-${item._provenance.via}`}
+            title={describeProvenance(item)}
+            tabIndex={0}
+            data-action="provenance"
+          >
+            {item._provenance.via === 'repost' ? '↻ ' : ''}{item._feedSource.label} · #{item._provenance.rank}
+          </span>
+        </div>
+      )}
+
       {/* ── Media ────────────────────────────────────────────────────── */}
       {hasMedia && (
         <div class="post-media-link post-media-wrap-outer">
@@ -296,11 +339,17 @@ export const PostCard = component$<PostCardProps>(({
                     playsInline
                     autoPlay
                     poster={videoThumb}
-                    style={{ width: '100%', maxHeight: '500px', objectFit: 'contain', background: '#000' }}
+                    style={{ width: '100%', maxHeight: '500px', objectFit: 'contain', background: '#000', aspectRatio: videoRatioStyle }}
                   />
                 ) : videoThumb ? (
                   <>
-                    <img src={videoThumb} alt="" class="post-media-img" loading="lazy" />
+                    <img
+                      src={videoThumb}
+                      alt=""
+                      class="post-media-img"
+                      loading="lazy"
+                      style={videoRatioStyle ? { aspectRatio: videoRatioStyle } : undefined}
+                    />
                     <div class="post-video-play">▶</div>
                   </>
                 ) : null}
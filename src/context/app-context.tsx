@@ -7,9 +7,9 @@
  *  - Session: current user's DID, handle, avatar, login status
  *  - Theme: light/dark/system/high-contrast mode
  *  - View: number of masonry columns
- *  - Feed mix: which feeds to show and at what percentages
+ *  - Feed mix: which feeds to show, at what percentages, and diversity options
  *  - Seen posts: track which posts have been scrolled past
- *  - Filters: art-only, media-only, NSFW mode
+ *  - Filters: art-only, media-only, NSFW mode, content filter rules
  *
  * HOW TO EDIT:
  *  - To add new global state, add it to the AppStore interface
@@ -21,7 +21,7 @@
  */
 
 import { createContextId, useContext, useContextProvider, useStore } from '@builder.io/qwik';
-import type { ThemeMode, ViewColumns, FeedMixEntry, CardViewMode } from '~/lib/types';
+import type { ThemeMode, ViewColumns, FeedMixEntry, FeedMixOptions, CardViewMode, ContentRule } from '~/lib/types';
 
 // ── Store Shape ───────────────────────────────────────────────────────────
 
@@ -39,6 +39,10 @@ export interface AppStore {
   viewColumns: ViewColumns;
   /** Feed mixing configuration */
   feedMix: FeedMixEntry[];
+  /** Per-author cap, repost policy and recency half-life for the mix */
+  feedMixOptions: FeedMixOptions;
+  /** Show the "why am I seeing this" chip on mixed-feed cards */
+  showFeedProvenance: boolean;
   /** Whether to hide seen posts */
   hideSeenPosts: boolean;
   /** Art-only filter */
@@ -49,6 +53,8 @@ export interface AppStore {
   nsfwMode: 'hide' | 'blur' | 'show';
   /** Card view: full, mini, art */
   cardViewMode: CardViewMode;
+  /** Client-side mute / filter rules (persisted to localStorage) */
+  contentRules: ContentRule[];
   /** Notification count */
   unreadCount: number;
   /** Login modal visibility */
@@ -84,11 +90,14 @@ export function useAppProvider() {
         percent: 50,
       },
     ],
+    feedMixOptions: {},
+    showFeedProvenance: false,
     hideSeenPosts: false,
     artOnly: false,
     mediaOnly: false,
     nsfwMode: 'blur',
     cardViewMode: 'full',
+    contentRules: [],
     unreadCount: 0,
     showLoginModal: false,
     showComposeModal: false,
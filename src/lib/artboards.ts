@@ -9,16 +9,17 @@
  *
  * HOW TO EDIT:
  *  - To change the localStorage key, edit ARTBOARDS_KEY
- *  - To change the PDS collection name, edit COLLECTION
+ *  - PDS records go through artboardRecords (lexicons/app.artsky.artboard.json)
  *  - Each artboard is an array of saved posts with cached metadata
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
 import type { Artboard, ArtboardPost } from './types';
-import { agent, getSession, parseAtUri } from './bsky';
+import { getSession, parseAtUri } from './bsky';
+import { artboardRecords } from './lexicon-records';
+import { truncateBytes } from './lexicons';
 
 const ARTBOARDS_KEY = 'purplesky-artboards';
-const COLLECTION = 'app.artsky.artboard';
 
 // ── Local Storage ─────────────────────────────────────────────────────────
 
@@ -107,35 +108,23 @@ export function replaceAllArtboards(boards: Artboard[]): void { save(boards); }
 export async function listArtboardsFromPds(): Promise<Artboard[]> {
   const session = getSession();
   if (!session?.did) return [];
-  const res = await agent.com.atproto.repo.listRecords({
-    repo: session.did, collection: COLLECTION, limit: 100,
-  });
-  return (res.data.records ?? []).map((r: { uri: string; value: Record<string, unknown> }) => {
-    const rkey = r.uri.split('/').pop() ?? r.uri;
-    const v = r.value as { name?: string; posts?: ArtboardPost[]; createdAt?: string };
-    return {
-      id: rkey, name: v.name ?? 'Untitled',
-      posts: Array.isArray(v.posts) ? v.posts : [],
-      createdAt: v.createdAt ?? new Date().toISOString(),
-    };
-  }).sort((a: Artboard, b: Artboard) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const { records } = await artboardRecords.list(session.did, { limit: 100 });
+  return records
+    .map(({ rkey, value: v }): Artboard => ({ id: rkey, name: v.name || 'Untitled', posts: v.posts, createdAt: v.createdAt }))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
 }
 
 /** Push a single artboard to the PDS. */
 export async function syncBoardToPds(board: Artboard): Promise<void> {
   const session = getSession();
   if (!session?.did) return;
-  await agent.com.atproto.repo.putRecord({
-    repo: session.did, collection: COLLECTION, rkey: board.id,
-    record: {
-      name: board.name,
-      posts: board.posts.map((p) => ({
-        uri: p.uri, cid: p.cid, authorHandle: p.authorHandle,
-        text: p.text?.slice(0, 2000), thumb: p.thumb, thumbs: p.thumbs,
-      })),
-      createdAt: board.createdAt,
-    },
-    validate: false,
+  await artboardRecords.put(board.id, {
+    name: board.name,
+    posts: board.posts.map((p) => ({
+      uri: p.uri, cid: p.cid, authorHandle: p.authorHandle,
+      text: p.text && truncateBytes(p.text, 2000), thumb: p.thumb, thumbs: p.thumbs,
+    })),
+    createdAt: board.createdAt,
   });
 }
 
@@ -143,7 +132,5 @@ export async function syncBoardToPds(board: Artboard): Promise<void> {
 export async function deleteArtboardFromPds(rkey: string): Promise<void> {
   const session = getSession();
   if (!session?.did) return;
-  await agent.com.atproto.repo.deleteRecord({
-    repo: session.did, collection: COLLECTION, rkey,
-  });
+  await artboardRecords.delete(rkey);
 }
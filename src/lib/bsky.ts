@@ -18,6 +18,8 @@
  *  - Always use getAgent() to get the current authenticated agent
  *  - For public (logged-out) reads, use publicAgent
  *  - Session data is stored in localStorage for persistence
+ *  - All agents send requests through request-scheduler.ts (per-host limits,
+ *    429 retries). Background calls pass priorityOptions('prefetch')
  *
  * IMPORTANT: This file runs in the browser only (uses localStorage, fetch).
  * In Qwik, import these functions inside useVisibleTask$() or event handlers.
@@ -26,7 +28,13 @@
 
 import { Agent, AtpAgent, RichText } from '@atproto/api';
 import type { AtpSessionData, AtpSessionEvent } from '@atproto/api';
-import type { TimelineItem, PostView, PostMediaInfo, FeedMixEntry } from './types';
+import type { TimelineItem, PostView, PostMediaInfo, FeedMixEntry, FeedMixOptions, FeedSource } from './types';
+import {
+  ensureFeedMixState, feedSourceKey, itemCreatedAt, mixHasMore, planMixDemand, recencyOrder, tagProvenance,
+  takeMixedPage,
+} from './feed-mix';
+import type { FeedMixState } from './feed-mix';
+import { priorityOptions, scheduledFetch, scheduleFetchHandler } from './request-scheduler';
 
 // ── Constants ─────────────────────────────────────────────────────────────
 
@@ -37,9 +45,6 @@ const ACCOUNTS_KEY = 'purplesky-accounts';
 const OAUTH_ACCOUNTS_KEY = 'purplesky-oauth-accounts';
 const ACCOUNT_PROFILES_KEY = 'purplesky-account-profiles';
 
-/** Collection name for downvotes (stored in user's repo, syncs via AT Protocol). */
-const DOWNVOTE_COLLECTION = 'app.artsky.feed.downvote';
-
 // ── Types ─────────────────────────────────────────────────────────────────
 
 type AccountsStore = {
@@ -122,10 +127,10 @@ function persistSession(_evt: AtpSessionEvent, session: AtpSessionData | undefin
 // ── Agents ────────────────────────────────────────────────────────────────
 
 /** Credential-based agent (app passwords). */
-const credentialAgent = new AtpAgent({ service: BSKY_SERVICE, persistSession });
+const credentialAgent = new AtpAgent({ service: BSKY_SERVICE, persistSession, fetch: scheduledFetch });
 
 /** Agent for unauthenticated reads (works without login). */
-export const publicAgent = new AtpAgent({ service: PUBLIC_BSKY });
+export const publicAgent = new AtpAgent({ service: PUBLIC_BSKY, fetch: scheduledFetch });
 
 /** Get the current active agent (OAuth if set, else credential). */
 export function getAgent(): AtpAgent | Agent {
@@ -139,6 +144,20 @@ export const agent = new Proxy(credentialAgent, {
   },
 });
 
+/**
+ * Agent for an OAuth session whose requests go through the request scheduler.
+ * Use this instead of `new Agent(session)`.
+ */
+export function createOAuthAgent(session: {
+  did: string;
+  fetchHandler(pathname: string, init?: RequestInit): Promise<Response>;
+}): Agent {
+  return new Agent({
+    did: session.did,
+    fetchHandler: scheduleFetchHandler((url, init) => session.fetchHandler(url, init), `pds:${session.did}`, session.did),
+  });
+}
+
 /** Set the OAuth agent (after OAuth callback). Pass null to clear. */
 export function setOAuthAgent(
   agentInstance: Agent | null,
@@ -322,62 +341,99 @@ export async function getFeed(
   return { feed: res.data.feed as TimelineItem[], cursor: res.data.cursor };
 }
 
-/** Fetch and merge multiple feeds by percentage. When usePublic is true (e.g. logged out), uses publicAgent and skips timeline (auth-only) entries. */
+/**
+ * Fetch one page from any feed source. Search-based sources (hashtag, search)
+ * return bare posts, which are wrapped as timeline items. Returns null when the
+ * source can't be fetched (e.g. timeline while logged out, missing uri).
+ */
+export async function getFeedSourcePage(
+  source: FeedSource,
+  limit = 50,
+  cursor?: string,
+  usePublic = false,
+): Promise<{ feed: TimelineItem[]; cursor?: string } | null> {
+  const api = usePublic ? publicAgent : agent;
+  switch (source.kind) {
+    case 'timeline':
+      return usePublic ? null : getTimeline(limit, cursor);
+    case 'custom': {
+      if (!source.uri) return null;
+      const res = await api.app.bsky.feed.getFeed({ feed: source.uri, limit, cursor });
+      return { feed: res.data.feed as TimelineItem[], cursor: res.data.cursor };
+    }
+    case 'list': {
+      if (!source.uri) return null;
+      const res = await api.app.bsky.feed.getListFeed({ list: source.uri, limit, cursor });
+      return { feed: res.data.feed as TimelineItem[], cursor: res.data.cursor };
+    }
+    case 'author': {
+      if (!source.actor) return null;
+      const res = await api.app.bsky.feed.getAuthorFeed({
+        actor: source.actor, limit, cursor,
+        filter: source.mediaOnly ? 'posts_with_media' : 'posts_no_replies',
+      });
+      return { feed: res.data.feed as TimelineItem[], cursor: res.data.cursor };
+    }
+    case 'hashtag':
+    case 'search': {
+      if (!source.query) return null;
+      const res = source.kind === 'hashtag'
+        ? await searchPostsByTag(source.query, cursor, limit)
+        : await searchPostsByQuery(source.query, cursor, limit);
+      return { feed: res.posts.map((post) => ({ post })), cursor: res.cursor };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Fetch and merge multiple feeds by percentage. Pass the `state` returned by
+ * the previous page to continue the mix: items that didn't fit are buffered
+ * and shown next, so the percentages hold across pages (see feed-mix.ts).
+ * Omit it (or change the mix) to start over. When usePublic is true (e.g.
+ * logged out), uses publicAgent and skips timeline (auth-only) entries.
+ * `options` adds a per-author cap, repost policy and recency half-life.
+ * Every item carries `_feedSource` and `_provenance` (source rank, via).
+ */
 export async function getMixedFeed(
   entries: FeedMixEntry[],
   limit: number,
-  cursors?: Record<string, string>,
+  state?: FeedMixState | null,
   usePublic = false,
-): Promise<{ feed: TimelineItem[]; cursors: Record<string, string> }> {
+  options: FeedMixOptions = {},
+): Promise<{ feed: TimelineItem[]; state: FeedMixState; hasMore: boolean }> {
+  const mix = ensureFeedMixState(entries, state, options);
   const totalPercent = entries.reduce((s, e) => s + e.percent, 0);
-  if (!entries.length || totalPercent <= 0) return { feed: [], cursors: {} };
+  if (!entries.length || totalPercent <= 0) return { feed: [], state: mix, hasMore: false };
 
-  const api = usePublic ? publicAgent : agent;
-  const fetchLimit = Math.max(limit, 50);
-  const results = await Promise.all(
+  const fetchLimit = Math.min(100, Math.max(limit, 50));
+  const demand = planMixDemand(mix, entries, limit);
+  await Promise.all(
     entries.map(async (entry) => {
-      const key = entry.source.kind === 'timeline' ? 'timeline' : (entry.source.uri ?? '');
-      const cursor = cursors?.[key];
+      const key = feedSourceKey(entry.source);
+      const src = mix.sources[key];
+      // Only fetch sources whose buffer can't cover their share of this page
+      if (!src || src.exhausted || src.buffer.length >= (demand[key] ?? 0)) return;
       try {
-        if (entry.source.kind === 'timeline') {
-          if (usePublic) return { key, feed: [] as TimelineItem[], nextCursor: undefined };
-          const res = await agent.getTimeline({ limit: fetchLimit, cursor });
-          return { key, feed: res.data.feed as TimelineItem[], nextCursor: res.data.cursor };
-        }
-        if (entry.source.uri) {
-          const res = await api.app.bsky.feed.getFeed({ feed: entry.source.uri, limit: fetchLimit, cursor });
-          return { key, feed: res.data.feed as TimelineItem[], nextCursor: res.data.cursor };
+        const res = await getFeedSourcePage(entry.source, fetchLimit, src.cursor, usePublic);
+        if (!res) {
+          src.exhausted = true;
+          return;
         }
-      } catch { /* ignore failed feed */ }
-      return { key, feed: [] as TimelineItem[], nextCursor: undefined };
+        const tagged = tagProvenance(res.feed, entry.source, src.fetched + 1);
+        src.fetched += tagged.length;
+        // With a half-life, older posts in this page are considered later
+        const order = recencyOrder(tagged.map(itemCreatedAt), options.halfLifeHours, Date.now());
+        src.buffer.push(...order.map((i) => tagged[i]));
+        src.cursor = res.cursor;
+        if (!res.cursor || res.feed.length === 0) src.exhausted = true;
+      } catch { /* ignore failed feed; retried on the next page */ }
     }),
   );
 
-  // Take proportional items from each feed
-  const combined: TimelineItem[] = [];
-  const seen = new Set<string>();
-  results.forEach((r, i) => {
-    const pct = entries[i]?.percent ?? 0;
-    const take = Math.round((limit * pct) / totalPercent);
-    for (let j = 0; j < take && j < r.feed.length; j++) {
-      const item = r.feed[j];
-      if (item?.post?.uri && !seen.has(item.post.uri)) {
-        seen.add(item.post.uri);
-        combined.push(item);
-      }
-    }
-  });
-
-  // Sort by date, newest first
-  combined.sort((a, b) => {
-    const ta = new Date((a.post.record as { createdAt?: string })?.createdAt ?? 0).getTime();
-    const tb = new Date((b.post.record as { createdAt?: string })?.createdAt ?? 0).getTime();
-    return tb - ta;
-  });
-
-  const nextCursors: Record<string, string> = {};
-  results.forEach((r) => { if (r.nextCursor) nextCursors[r.key] = r.nextCursor; });
-  return { feed: combined.slice(0, limit), cursors: nextCursors };
+  const feed = takeMixedPage(mix, entries, limit);
+  return { feed, state: mix, hasMore: mixHasMore(mix) };
 }
 
 // ── Post Media Helpers ────────────────────────────────────────────────────
@@ -392,29 +448,33 @@ export function getPostMediaInfo(post: PostView): PostMediaInfo | null {
     images?: Array<{ thumb: string; fullsize: string; aspectRatio?: { width: number; height: number } }>;
     thumbnail?: string;
     playlist?: string;
+    aspectRatio?: { width: number; height: number };
     media?: Record<string, unknown>;
   };
+  const ratioOf = (r?: { width: number; height: number }) =>
+    r?.width && r?.height ? r.width / r.height : undefined;
 
   if (e.$type === 'app.bsky.embed.images#view' && e.images?.length) {
     const img = e.images[0];
-    const ar = img.aspectRatio?.width && img.aspectRatio?.height
-      ? img.aspectRatio.width / img.aspectRatio.height : undefined;
-    return { url: img.fullsize ?? img.thumb, type: 'image', imageCount: e.images.length, aspectRatio: ar };
+    return { url: img.fullsize ?? img.thumb, type: 'image', imageCount: e.images.length, aspectRatio: ratioOf(img.aspectRatio) };
   }
   if (e.$type === 'app.bsky.embed.video#view') {
-    return { url: (e.thumbnail as string) ?? '', type: 'video', videoPlaylist: e.playlist };
+    return { url: (e.thumbnail as string) ?? '', type: 'video', videoPlaylist: e.playlist, aspectRatio: ratioOf(e.aspectRatio) };
   }
   // Handle recordWithMedia
   const media = e.media as typeof e | undefined;
   if (media?.$type === 'app.bsky.embed.images#view' && (media.images as unknown[])?.length) {
     const imgs = media.images as Array<{ fullsize?: string; thumb?: string; aspectRatio?: { width: number; height: number } }>;
     const img = imgs[0];
-    const ar = img.aspectRatio?.width && img.aspectRatio?.height
-      ? img.aspectRatio.width / img.aspectRatio.height : undefined;
-    return { url: img.fullsize ?? img.thumb ?? '', type: 'image', imageCount: imgs.length, aspectRatio: ar };
+    return { url: img.fullsize ?? img.thumb ?? '', type: 'image', imageCount: imgs.length, aspectRatio: ratioOf(img.aspectRatio) };
   }
   if (media?.$type === 'app.bsky.embed.video#view') {
-    return { url: (media.thumbnail as string) ?? '', type: 'video', videoPlaylist: media.playlist as string };
+    return {
+      url: (media.thumbnail as string) ?? '',
+      type: 'video',
+      videoPlaylist: media.playlist as string,
+      aspectRatio: ratioOf(media.aspectRatio),
+    };
   }
   return null;
 }
@@ -508,45 +568,43 @@ export async function deletePost(uri: string): Promise<void> {
 
 /** Create a downvote record for a post. Returns the record URI. */
 export async function createDownvote(subjectUri: string, subjectCid: string): Promise<string> {
-  const session = getSession();
-  if (!session?.did) throw new Error('Not logged in');
-  const res = await agent.com.atproto.repo.createRecord({
-    repo: session.did, collection: DOWNVOTE_COLLECTION,
-    record: {
-      $type: DOWNVOTE_COLLECTION,
-      subject: { uri: subjectUri, cid: subjectCid },
-      createdAt: new Date().toISOString(),
-    },
-  });
-  return res.data.uri;
+  const { feedDownvoteRecords } = await import('./lexicon-records');
+  // Downvote rkeys are TIDs (like Bluesky likes), so the PDS picks them
+  const res = await feedDownvoteRecords.create({
+    subject: { uri: subjectUri, cid: subjectCid },
+    createdAt: new Date().toISOString(),
+  }, { tid: true });
+  const { noteDownvoteChange } = await import('./constellation');
+  noteDownvoteChange(subjectUri, 1);
+  return res.uri;
 }
 
-/** Remove a downvote. */
-export async function deleteDownvote(downvoteUri: string): Promise<void> {
-  const session = getSession();
-  if (!session?.did) throw new Error('Not logged in');
+/**
+ * Remove a downvote. Pass the downvoted post's URI so its count drops
+ * right away instead of after Constellation catches up.
+ */
+export async function deleteDownvote(downvoteUri: string, subjectUri?: string): Promise<void> {
   const parsed = parseAtUri(downvoteUri);
   if (!parsed) throw new Error('Invalid URI');
-  await agent.com.atproto.repo.deleteRecord({
-    repo: session.did, collection: DOWNVOTE_COLLECTION, rkey: parsed.rkey,
-  });
+  const { feedDownvoteRecords } = await import('./lexicon-records');
+  await feedDownvoteRecords.delete(parsed.rkey);
+  if (subjectUri) {
+    const { noteDownvoteChange } = await import('./constellation');
+    noteDownvoteChange(subjectUri, -1);
+  }
 }
 
 /** List current user's downvotes. Returns map: post URI -> downvote record URI. */
 export async function listMyDownvotes(): Promise<Record<string, string>> {
   const session = getSession();
   if (!session?.did) return {};
+  const { feedDownvoteRecords } = await import('./lexicon-records');
   const out: Record<string, string> = {};
   let cursor: string | undefined;
   do {
-    const res = await agent.com.atproto.repo.listRecords({
-      repo: session.did, collection: DOWNVOTE_COLLECTION, limit: 100, cursor,
-    });
-    for (const r of res.data.records ?? []) {
-      const value = r.value as { subject?: { uri?: string } };
-      if (value?.subject?.uri) out[value.subject.uri] = r.uri;
-    }
-    cursor = res.data.cursor;
+    const page = await feedDownvoteRecords.list(session.did, { limit: 100, cursor });
+    for (const r of page.records) out[r.value.subject.uri] = r.uri;
+    cursor = page.cursor;
   } while (cursor);
   return out;
 }
@@ -554,23 +612,23 @@ export async function listMyDownvotes(): Promise<Record<string, string>> {
 // ── Search ────────────────────────────────────────────────────────────────
 
 /** Search posts by hashtag. */
-export async function searchPostsByTag(tag: string, cursor?: string) {
+export async function searchPostsByTag(tag: string, cursor?: string, limit = 30) {
   const normalized = tag.replace(/^#/, '').trim();
   if (!normalized) return { posts: [] as PostView[], cursor: undefined };
   const api = getSession() ? agent : publicAgent;
   const res = await api.app.bsky.feed.searchPosts({
-    q: normalized, tag: [normalized], limit: 30, sort: 'latest', cursor,
+    q: normalized, tag: [normalized], limit, sort: 'latest', cursor,
   });
   return { posts: (res.data.posts ?? []) as PostView[], cursor: res.data.cursor };
 }
 
 /** Search posts by query text. */
-export async function searchPostsByQuery(q: string, cursor?: string) {
+export async function searchPostsByQuery(q: string, cursor?: string, limit = 30) {
   const term = q.trim();
   if (!term) return { posts: [] as PostView[], cursor: undefined };
   const api = getSession() ? agent : publicAgent;
   const res = await api.app.bsky.feed.searchPosts({
-    q: term, limit: 30, sort: 'latest', cursor,
+    q: term, limit, sort: 'latest', cursor,
   });
   return { posts: (res.data.posts ?? []) as PostView[], cursor: res.data.cursor };
 }
@@ -596,8 +654,10 @@ export async function getSuggestedFollows(
   maxSuggestions = 15,
 ): Promise<SuggestedFollow[]> {
   const client = getAgent() as AtpAgent;
+  // Suggestions are a sidebar extra: keep them behind feed and user requests
+  const prefetch = priorityOptions('prefetch');
   // Get people you follow
-  const followRes = await client.app.bsky.graph.getFollows({ actor: currentUserDid, limit: 80 });
+  const followRes = await client.app.bsky.graph.getFollows({ actor: currentUserDid, limit: 80 }, prefetch);
   const myFollows = (followRes.data.follows ?? []).map((f: { did: string }) => f.did);
   const myFollowSet = new Set([...myFollows, currentUserDid]);
 
@@ -607,7 +667,7 @@ export async function getSuggestedFollows(
 
   for (const did of sample) {
     try {
-      const res = await client.app.bsky.graph.getFollows({ actor: did, limit: 50 });
+      const res = await client.app.bsky.graph.getFollows({ actor: did, limit: 50 }, prefetch);
       for (const f of res.data.follows ?? []) {
         if (!myFollowSet.has(f.did)) {
           countByDid.set(f.did, (countByDid.get(f.did) ?? 0) + 1);
@@ -624,7 +684,7 @@ export async function getSuggestedFollows(
   const results: SuggestedFollow[] = [];
   for (const [did, count] of sorted) {
     try {
-      const profile = await client.getProfile({ actor: did });
+      const profile = await client.getProfile({ actor: did }, prefetch);
       const d = profile.data as { handle?: string; displayName?: string; avatar?: string };
       results.push({ did, handle: d.handle ?? did, displayName: d.displayName, avatar: d.avatar, count });
     } catch {
@@ -649,11 +709,16 @@ export async function followUser(did: string): Promise<string> {
       createdAt: new Date().toISOString(),
     },
   });
+  const { invalidateProfile } = await import('./data-cache');
+  invalidateProfile(did);
   return res.data.uri;
 }
 
-/** Unfollow a user by deleting the follow record. */
-export async function unfollowUser(followUri: string): Promise<void> {
+/**
+ * Unfollow a user by deleting the follow record. Pass their DID so their
+ * cached profile (viewer.following) is refreshed.
+ */
+export async function unfollowUser(followUri: string, did?: string): Promise<void> {
   const session = getSession();
   if (!session?.did) throw new Error('Not logged in');
   const parsed = parseAtUri(followUri);
@@ -663,6 +728,10 @@ export async function unfollowUser(followUri: string): Promise<void> {
     collection: 'app.bsky.graph.follow',
     rkey: parsed.rkey,
   });
+  if (did) {
+    const { invalidateProfile } = await import('./data-cache');
+    invalidateProfile(did);
+  }
 }
 
 // ── Notifications ─────────────────────────────────────────────────────────
@@ -718,6 +787,25 @@ export async function getSuggestedFeeds(limit = 20, cursor?: string): Promise<{
   return { feeds, cursor: res.data.cursor };
 }
 
+/**
+ * Resolve a list for the feed mixer from an at:// URI or a bsky.app list URL
+ * (https://bsky.app/profile/<handle or did>/lists/<rkey>). Returns the list's
+ * at:// URI and display name.
+ */
+export async function resolveListSource(input: string): Promise<{ uri: string; name: string }> {
+  const trimmed = input.trim();
+  let uri = trimmed;
+  const match = trimmed.match(/\/profile\/([^/]+)\/lists\/([^/?#]+)/);
+  if (match) {
+    const did = await resolveDid(decodeURIComponent(match[1]));
+    uri = `at://${did}/app.bsky.graph.list/${match[2]}`;
+  }
+  if (parseAtUri(uri)?.collection !== 'app.bsky.graph.list') throw new Error('Not a list URI or link');
+  const api = getSession() ? agent : publicAgent;
+  const res = await api.app.bsky.graph.getList({ list: uri, limit: 1 });
+  return { uri, name: res.data.list.name };
+}
+
 // ── Utility ───────────────────────────────────────────────────────────────
 
 /** Parse an at:// URI into { did, collection, rkey }. */
@@ -727,3 +815,11 @@ export function parseAtUri(uri: string): { did: string; collection: string; rkey
   if (parts.length < 3) return null;
   return { did: parts[0], collection: parts[1], rkey: parts.slice(2).join('/') };
 }
+
+/** DID for a handle (with or without @); DIDs are returned as they are. */
+export async function resolveDid(actor: string): Promise<string> {
+  const trimmed = actor.trim().replace(/^@/, '');
+  if (trimmed.startsWith('did:')) return trimmed;
+  const res = await publicAgent.com.atproto.identity.resolveHandle({ handle: trimmed });
+  return res.data.did;
+}
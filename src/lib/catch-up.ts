@@ -0,0 +1,152 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Catch-Up Mode – Everything Since Your Last Visit, Then Stop
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Instead of an endless mixed feed, catch-up pages back through every source
+ * in the mix until it passes the last-visit watermark, keeps the unseen posts
+ * from that window and summarises them per source and per followed author.
+ *
+ * HOW IT WORKS:
+ *  - The watermark is the time of the previous visit (LAST_VISIT_KEY). The
+ *    home page reads it once per session (getCatchUpWatermark) and records the
+ *    current time when the page is hidden (recordVisit)
+ *  - loadCatchUp() fetches each source with getFeedSourcePage() until its
+ *    oldest item is older than the watermark, the source runs out, or
+ *    MAX_PAGES_PER_SOURCE is reached (ranked feeds never "end")
+ *  - Reposts count by when they were reposted, not when the post was made
+ *  - "Mark everything above as seen" marks the posts scrolled past as seen;
+ *    once none are left unseen the watermark moves to now
+ *
+ * HOW TO EDIT:
+ *  - To go further back for busy timelines, raise MAX_PAGES_PER_SOURCE
+ *  - Without a previous visit, catch-up covers DEFAULT_WINDOW_MS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { getFeedSourcePage } from './bsky';
+import { feedSourceKey, itemCreatedAt, tagProvenance } from './feed-mix';
+import { isPostSeen } from './seen-posts';
+import type { FeedMixEntry, TimelineItem } from './types';
+
+const LAST_VISIT_KEY = 'purplesky-last-visit';
+const MAX_PAGES_PER_SOURCE = 8;
+const PAGE_SIZE = 100;
+/** First visit: catch up on the last 24 hours. */
+const DEFAULT_WINDOW_MS = 24 * 3600_000;
+
+/** Watermark for this page session (read once so recordVisit() doesn't move it). */
+let sessionWatermark: number | null = null;
+
+/** One row of the catch-up summary. */
+export interface CatchUpCount {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export interface CatchUpResult {
+  /** Unseen posts since the watermark, newest first */
+  items: TimelineItem[];
+  /** Watermark used (ms since epoch) */
+  since: number;
+  /** Unseen posts per source in the mix */
+  bySource: CatchUpCount[];
+  /** Unseen posts per followed author, most first */
+  byAuthor: CatchUpCount[];
+  /** False if some source still had newer posts when paging stopped */
+  complete: boolean;
+}
+
+// ── Watermark ─────────────────────────────────────────────────────────────
+
+/** Time of the previous visit (stable for this page session). */
+export function getCatchUpWatermark(now = Date.now()): number {
+  if (sessionWatermark !== null) return sessionWatermark;
+  let last = 0;
+  try { last = parseInt(localStorage.getItem(LAST_VISIT_KEY) ?? '', 10) || 0; } catch { /* ignore */ }
+  sessionWatermark = last > 0 && last < now ? last : now - DEFAULT_WINDOW_MS;
+  return sessionWatermark;
+}
+
+/** Record "now" as the last visit (next session catches up from here). */
+export function recordVisit(now = Date.now()): void {
+  try { localStorage.setItem(LAST_VISIT_KEY, String(now)); } catch { /* ignore */ }
+}
+
+/** Move the watermark to now (after marking the window as seen). */
+export function markCaughtUp(now = Date.now()): void {
+  sessionWatermark = now;
+  recordVisit(now);
+}
+
+/** When an item arrived in the feed: repost time for reposts, else post time. */
+export function itemActivityAt(item: TimelineItem): number {
+  const at = item.reason?.indexedAt ?? itemCreatedAt(item);
+  const ms = new Date(at).getTime();
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+// ── Loading ───────────────────────────────────────────────────────────────
+
+/** Page back through every source until the watermark; keep unseen posts. */
+export async function loadCatchUp(
+  entries: FeedMixEntry[],
+  since: number,
+  usePublic = false,
+): Promise<CatchUpResult> {
+  const active = entries.filter((e) => e.percent > 0);
+  let complete = true;
+  const perSource = await Promise.all(active.map(async (entry) => {
+    const collected: TimelineItem[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_PAGES_PER_SOURCE; page++) {
+      let res: Awaited<ReturnType<typeof getFeedSourcePage>>;
+      try {
+        res = await getFeedSourcePage(entry.source, PAGE_SIZE, cursor, usePublic);
+      } catch { break; }
+      if (!res || res.feed.length === 0) return collected;
+      collected.push(...tagProvenance(res.feed, entry.source, collected.length + 1));
+      const oldest = Math.min(...res.feed.map(itemActivityAt));
+      if (oldest < since || !res.cursor) return collected;
+      cursor = res.cursor;
+    }
+    complete = false;
+    return collected;
+  }));
+
+  const seen = new Set<string>();
+  const items: TimelineItem[] = [];
+  for (const item of perSource.flat()) {
+    const uri = item.post.uri;
+    if (seen.has(uri) || itemActivityAt(item) < since || isPostSeen(uri)) continue;
+    seen.add(uri);
+    items.push(item);
+  }
+  items.sort((a, b) => itemActivityAt(b) - itemActivityAt(a));
+  return { items, since, ...summarizeCatchUp(items, active), complete };
+}
+
+/** Count items per source and per followed author. */
+export function summarizeCatchUp(
+  items: TimelineItem[],
+  entries: FeedMixEntry[],
+): { bySource: CatchUpCount[]; byAuthor: CatchUpCount[] } {
+  const bySource = new Map<string, CatchUpCount>(
+    entries.map((e) => [feedSourceKey(e.source), { key: feedSourceKey(e.source), label: e.source.label, count: 0 }]),
+  );
+  const byAuthor = new Map<string, CatchUpCount>();
+  for (const item of items) {
+    const src = item._provenance ? bySource.get(item._provenance.sourceKey) : undefined;
+    if (src) src.count++;
+    const author = item.post.author;
+    if (!author.viewer?.following) continue;
+    const row = byAuthor.get(author.did) ?? { key: author.did, label: author.displayName || author.handle, count: 0 };
+    row.count++;
+    byAuthor.set(author.did, row);
+  }
+  return {
+    bySource: [...bySource.values()],
+    byAuthor: [...byAuthor.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+  };
+}
@@ -18,18 +18,16 @@
  *
  * HOW TO EDIT:
  *  - To add a new project type, add it to ProjectType in types.ts
- *  - To add new metadata fields, update the record schema below
+ *  - To add new metadata fields, add them to
+ *    lexicons/app.purplesky.collab.project.json and run `npm run gen:lexicons`
  *  - Kanban boards are stored in localStorage (could be synced to PDS)
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
-import { agent, getSession, parseAtUri, publicAgent } from './bsky';
+import { getSession, parseAtUri } from './bsky';
+import { collabAnnotationRecords, collabProjectRecords } from './lexicon-records';
 import type { CollabProject, KanbanBoard, KanbanCard, ProjectType } from './types';
 
-// ── Collection Names ──────────────────────────────────────────────────────
-
-const PROJECT_COLLECTION = 'app.purplesky.collab.project';
-const ANNOTATION_COLLECTION = 'app.purplesky.collab.annotation';
 const KANBAN_KEY = 'purplesky-kanban';
 
 // ── Projects ──────────────────────────────────────────────────────────────
@@ -47,27 +45,18 @@ export async function createProject(opts: {
 }): Promise<{ uri: string; cid: string }> {
   const session = getSession();
   if (!session?.did) throw new Error('Not logged in');
-  const rkey = `proj-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
-  const res = await agent.com.atproto.repo.putRecord({
-    repo: session.did,
-    collection: PROJECT_COLLECTION,
-    rkey,
-    record: {
-      $type: PROJECT_COLLECTION,
-      name: opts.name.trim(),
-      description: opts.description.trim(),
-      type: opts.type,
-      tags: opts.tags ?? [],
-      version: opts.version ?? '0.1.0',
-      externalUrl: opts.externalUrl,
-      magnetLink: opts.magnetLink,
-      previewUrl: opts.previewUrl,
-      owner: session.did,
-      createdAt: new Date().toISOString(),
-    },
-    validate: false,
-  });
-  return { uri: res.data.uri, cid: res.data.cid };
+  return collabProjectRecords.create({
+    name: opts.name.trim(),
+    description: opts.description.trim(),
+    type: opts.type,
+    tags: opts.tags ?? [],
+    version: opts.version ?? '0.1.0',
+    externalUrl: opts.externalUrl,
+    magnetLink: opts.magnetLink,
+    previewUrl: opts.previewUrl,
+    owner: session.did,
+    createdAt: new Date().toISOString(),
+  }, { rkeyPrefix: 'proj' });
 }
 
 /** List projects from a user's repo. */
@@ -75,21 +64,9 @@ export async function listProjects(
   did: string,
   opts?: { limit?: number; cursor?: string },
 ): Promise<{ projects: CollabProject[]; cursor?: string }> {
-  const client = getSession() ? agent : publicAgent;
   try {
-    const res = await client.com.atproto.repo.listRecords({
-      repo: did,
-      collection: PROJECT_COLLECTION,
-      limit: opts?.limit ?? 30,
-      cursor: opts?.cursor,
-    });
-    const projects: CollabProject[] = (res.data.records ?? []).map(
-      (r: { uri: string; value: Record<string, unknown> }) => {
-        const v = r.value as CollabProject;
-        return { ...v, uri: r.uri };
-      },
-    );
-    return { projects, cursor: res.data.cursor };
+    const { records, cursor } = await collabProjectRecords.list(did, { limit: opts?.limit ?? 30, cursor: opts?.cursor });
+    return { projects: records.map((r) => ({ ...r.value, uri: r.uri })), cursor };
   } catch {
     return { projects: [], cursor: undefined };
   }
@@ -97,18 +74,8 @@ export async function listProjects(
 
 /** Get a single project by URI. */
 export async function getProject(uri: string): Promise<CollabProject | null> {
-  const parsed = parseAtUri(uri);
-  if (!parsed) return null;
-  const client = getSession() ? agent : publicAgent;
-  try {
-    const res = await client.com.atproto.repo.getRecord({
-      repo: parsed.did, collection: PROJECT_COLLECTION, rkey: parsed.rkey,
-    });
-    const v = res.data.value as CollabProject;
-    return { ...v, uri: res.data.uri as string };
-  } catch {
-    return null;
-  }
+  const res = await collabProjectRecords.get(uri);
+  return res ? { ...res.value, uri: res.uri } : null;
 }
 
 /** Update project metadata. */
@@ -116,24 +83,11 @@ export async function updateProject(
   uri: string,
   updates: Partial<Omit<CollabProject, 'uri' | 'owner' | 'createdAt'>>,
 ): Promise<void> {
-  const project = await getProject(uri);
+  const project = await collabProjectRecords.get(uri, { fresh: true });
   if (!project) throw new Error('Project not found');
-  const session = getSession();
-  if (!session?.did) throw new Error('Not logged in');
   const parsed = parseAtUri(uri);
   if (!parsed) throw new Error('Invalid URI');
-  await agent.com.atproto.repo.putRecord({
-    repo: session.did,
-    collection: PROJECT_COLLECTION,
-    rkey: parsed.rkey,
-    record: {
-      $type: PROJECT_COLLECTION,
-      ...project,
-      ...updates,
-      uri: undefined, // Don't store uri in the record
-    },
-    validate: false,
-  });
+  await collabProjectRecords.put(parsed.rkey, { ...project.value, ...updates });
 }
 
 // ── Annotations (Feedback on Assets) ──────────────────────────────────────
@@ -145,24 +99,13 @@ export async function createAnnotation(opts: {
   text: string;
   replyToUri?: string;
 }): Promise<{ uri: string; cid: string }> {
-  const session = getSession();
-  if (!session?.did) throw new Error('Not logged in');
-  const rkey = `ann-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
-  const res = await agent.com.atproto.repo.putRecord({
-    repo: session.did,
-    collection: ANNOTATION_COLLECTION,
-    rkey,
-    record: {
-      $type: ANNOTATION_COLLECTION,
-      project: opts.projectUri,
-      target: opts.target,
-      text: opts.text.trim(),
-      replyTo: opts.replyToUri,
-      createdAt: new Date().toISOString(),
-    },
-    validate: false,
-  });
-  return { uri: res.data.uri, cid: res.data.cid };
+  return collabAnnotationRecords.create({
+    project: opts.projectUri,
+    target: opts.target,
+    text: opts.text.trim(),
+    replyTo: opts.replyToUri,
+    createdAt: new Date().toISOString(),
+  }, { rkeyPrefix: 'ann' });
 }
 
 // ── Kanban Boards (Local Storage) ─────────────────────────────────────────
@@ -14,12 +14,29 @@
  *
  * HOW TO EDIT:
  *  - To add a new collection type, add a new function following the pattern
- *  - The CONSTELLATION_BASE URL points to the public API
- *  - New downvotes may take a few seconds to appear (firehose indexing delay)
+ *  - The endpoint is, in order: the URL saved in settings
+ *    (setConstellationEndpoint), VITE_CONSTELLATION_URL at build time, then
+ *    the public API (DEFAULT_CONSTELLATION_BASE). Unreachable ones are skipped
+ *    after a health check, so a dead custom endpoint falls back to the next
+ *  - For offline work, run the stand-in from scripts/backlinks-server.mjs
+ *  - New downvotes may take a few seconds to appear (firehose indexing delay);
+ *    noteDownvoteChange() keeps our own votes in the counts meanwhile
+ *  - Counts are cached for COUNT_TTL_MS and identical lookups share one
+ *    request; to change how many run at once, edit HOST_LIMITS in
+ *    request-scheduler.ts
+ *  - Requests go through the request scheduler; pass priority 'prefetch'
+ *    for background lookups so they don't hold up what the user is viewing
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
-const CONSTELLATION_BASE = 'https://constellation.microcosm.blue';
+import { scheduledFetch } from './request-scheduler';
+import type { RequestPriority } from './request-scheduler';
+
+export const DEFAULT_CONSTELLATION_BASE = 'https://constellation.microcosm.blue';
+const ENDPOINT_KEY = 'purplesky-constellation-url';
+/** How long a health check result is trusted. */
+const HEALTH_TTL_MS = 5 * 60_000;
+const HEALTH_TIMEOUT_MS = 4000;
 
 /** Collection name for ArtSky/PurpleSky downvotes. */
 const DOWNVOTE_COLLECTION = 'app.artsky.feed.downvote';
@@ -29,27 +46,237 @@ const DOWNVOTE_PATH = '.subject.uri';
 const UPVOTE_COLLECTION = 'app.artsky.graph.upVote';
 const UPVOTE_PATH = '.subject.uri';
 
+// ── Endpoint ──────────────────────────────────────────────────────────────
+
+/** Health check results by base URL. */
+const health = new Map<string, { ok: boolean; checkedAt: number }>();
+let activeBase: Promise<string> | null = null;
+
+function normalizeBase(url: string): string | null {
+  try {
+    const u = new URL(url.trim());
+    if (u.protocol !== 'https:' && u.protocol !== 'http:') return null;
+    return u.href.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+/** Endpoint saved in settings, or null when using the default. */
+export function getConstellationEndpoint(): string | null {
+  try { return localStorage.getItem(ENDPOINT_KEY); } catch { return null; }
+}
+
 /**
- * Get the number of distinct users who have downvoted a post.
- * Uses Constellation's distinct-dids endpoint for accurate counts.
+ * Save a backlink index URL (null or '' restores the default). Throws on a
+ * URL that isn't http(s). Cached counts from the old endpoint are dropped.
  */
-export async function getDownvoteCount(postUri: string): Promise<number> {
+export function setConstellationEndpoint(url: string | null): void {
+  const base = url ? normalizeBase(url) : null;
+  if (url && !base) throw new Error('Enter an http(s) URL');
+  try {
+    if (base) localStorage.setItem(ENDPOINT_KEY, base);
+    else localStorage.removeItem(ENDPOINT_KEY);
+  } catch { /* ignore */ }
+  activeBase = null;
+  health.clear();
+  counts.clear();
+}
+
+/** Endpoints to try, in order (settings, build-time, public). */
+function candidateBases(): string[] {
+  const buildBase = import.meta.env?.VITE_CONSTELLATION_URL as string | undefined;
+  const list = [getConstellationEndpoint(), buildBase, DEFAULT_CONSTELLATION_BASE]
+    .map((u) => (u ? normalizeBase(u) : null))
+    .filter((u): u is string => !!u);
+  return [...new Set(list)];
+}
+
+/** Whether a backlink index answers a count query within HEALTH_TIMEOUT_MS. */
+export async function checkConstellationHealth(base: string): Promise<boolean> {
   const params = new URLSearchParams({
-    target: postUri,
+    target: 'at://did:plc:healthcheck/app.bsky.feed.post/0',
     collection: DOWNVOTE_COLLECTION,
     path: DOWNVOTE_PATH,
   });
+  let ok = false;
   try {
-    const res = await fetch(
-      `${CONSTELLATION_BASE}/links/count/distinct-dids?${params}`,
-      { headers: { Accept: 'application/json' } },
+    const res = await scheduledFetch(
+      `${base}/links/count/distinct-dids?${params}`,
+      { headers: { Accept: 'application/json' }, signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) },
+      { priority: 'user' },
     );
-    if (!res.ok) return 0;
-    const data = (await res.json()) as { total?: number };
-    return typeof data.total === 'number' ? data.total : 0;
-  } catch {
-    return 0;
+    ok = res.ok && typeof ((await res.json()) as { total?: unknown }).total === 'number';
+  } catch { /* unreachable */ }
+  health.set(base, { ok, checkedAt: Date.now() });
+  return ok;
+}
+
+async function isHealthy(base: string): Promise<boolean> {
+  const known = health.get(base);
+  if (known && Date.now() - known.checkedAt < HEALTH_TTL_MS) return known.ok;
+  return checkConstellationHealth(base);
+}
+
+/**
+ * The endpoint requests go to: the first healthy candidate, or the first
+ * candidate if none answer (so errors are reported against it).
+ */
+export function getActiveConstellationBase(): Promise<string> {
+  if (!activeBase) {
+    activeBase = (async () => {
+      const bases = candidateBases();
+      if (bases.length === 1) return bases[0];
+      for (const base of bases) if (await isHealthy(base)) return base;
+      return bases[0];
+    })();
+    // Re-pick after the health results expire
+    const picked = activeBase;
+    setTimeout(() => { if (activeBase === picked) activeBase = null; }, HEALTH_TTL_MS);
   }
+  return activeBase;
+}
+
+/**
+ * GET a Constellation route on the active endpoint. A network error marks
+ * the endpoint unhealthy so the next call falls back to another one.
+ */
+async function constellationGet(
+  route: string,
+  params: URLSearchParams,
+  priority: RequestPriority,
+): Promise<Response> {
+  const base = await getActiveConstellationBase();
+  try {
+    return await scheduledFetch(`${base}${route}?${params}`, { headers: { Accept: 'application/json' } }, { priority });
+  } catch (err) {
+    health.set(base, { ok: false, checkedAt: Date.now() });
+    activeBase = null;
+    throw err;
+  }
+}
+
+// ── Count Cache ───────────────────────────────────────────────────────────
+
+/** Counts are reused for this long before asking Constellation again. */
+const COUNT_TTL_MS = 60_000;
+/** How long our own vote changes are shown while Constellation catches up. */
+const OPTIMISTIC_TTL_MS = 2 * 60_000;
+
+interface CountEntry {
+  count: number;
+  fetchedAt: number;
+}
+
+/** A vote we just made or removed, not yet visible in Constellation. */
+interface PendingChange {
+  /** Count Constellation reported when we made the change (null = unknown) */
+  base: number | null;
+  delta: number;
+  until: number;
+}
+
+const counts = new Map<string, CountEntry>();
+const countRequests = new Map<string, Promise<number>>();
+const pendingChanges = new Map<string, PendingChange>();
+let lastError: { message: string; at: number } | null = null;
+
+function countKey(target: string, collection: string, path: string): string {
+  return `${collection}|${path}|${target}`;
+}
+
+/** The last failed Constellation request (null if none yet). */
+export function lastConstellationError(): { message: string; at: number } | null {
+  return lastError;
+}
+
+function reportError(message: string): void {
+  lastError = { message, at: Date.now() };
+}
+
+/** Apply a pending change to a fetched count, dropping it once it's indexed. */
+function withPending(key: string, fetched: number): number {
+  const change = pendingChanges.get(key);
+  if (!change) return fetched;
+  // Expired, or Constellation's count moved since: assume it now includes our change
+  if (Date.now() > change.until || (change.base !== null && fetched !== change.base)) {
+    pendingChanges.delete(key);
+    return fetched;
+  }
+  return Math.max(0, fetched + change.delta);
+}
+
+async function fetchDistinctDids(
+  target: string,
+  collection: string,
+  path: string,
+  priority: RequestPriority,
+): Promise<number> {
+  const params = new URLSearchParams({ target, collection, path });
+  const res = await constellationGet('/links/count/distinct-dids', params, priority);
+  if (!res.ok) throw new Error(`distinct-dids ${collection} failed: HTTP ${res.status}`);
+  const data = (await res.json()) as { total?: number };
+  return typeof data.total === 'number' ? data.total : 0;
+}
+
+/**
+ * Distinct DIDs linking to `target` from `collection` at `path`, cached for
+ * COUNT_TTL_MS (one request per target at a time; the request scheduler caps
+ * how many run in parallel). On failure the last known count is returned
+ * (0 if none) and the error is kept for lastConstellationError().
+ */
+async function getDistinctDidCount(
+  target: string,
+  collection: string,
+  path: string,
+  priority: RequestPriority,
+): Promise<number> {
+  const key = countKey(target, collection, path);
+  const cached = counts.get(key);
+  if (cached && Date.now() - cached.fetchedAt < COUNT_TTL_MS) return withPending(key, cached.count);
+  let request = countRequests.get(key);
+  if (!request) {
+    request = fetchDistinctDids(target, collection, path, priority)
+      .then((count) => {
+        counts.set(key, { count, fetchedAt: Date.now() });
+        return count;
+      })
+      .finally(() => countRequests.delete(key));
+    countRequests.set(key, request);
+  }
+  try {
+    return withPending(key, await request);
+  } catch (err) {
+    reportError(err instanceof Error ? err.message : String(err));
+    return withPending(key, cached?.count ?? 0);
+  }
+}
+
+/**
+ * Record our own downvote (+1) or its removal (-1) so counts include it
+ * until Constellation indexes the change. Called by createDownvote and
+ * deleteDownvote in bsky.ts.
+ */
+export function noteDownvoteChange(postUri: string, delta: 1 | -1): void {
+  const key = countKey(postUri, DOWNVOTE_COLLECTION, DOWNVOTE_PATH);
+  const existing = pendingChanges.get(key);
+  const base = existing ? existing.base : counts.get(key)?.count ?? null;
+  const total = (existing?.delta ?? 0) + delta;
+  if (total === 0) {
+    pendingChanges.delete(key);
+    return;
+  }
+  pendingChanges.set(key, { base, delta: total, until: Date.now() + OPTIMISTIC_TTL_MS });
+}
+
+// ── Vote Counts ───────────────────────────────────────────────────────────
+
+/**
+ * Get the number of distinct users who have downvoted a post.
+ * Uses Constellation's distinct-dids endpoint for accurate counts.
+ */
+export function getDownvoteCount(postUri: string, priority: RequestPriority = 'normal'): Promise<number> {
+  return getDistinctDidCount(postUri, DOWNVOTE_COLLECTION, DOWNVOTE_PATH, priority);
 }
 
 /**
@@ -58,10 +285,11 @@ export async function getDownvoteCount(postUri: string): Promise<number> {
  */
 export async function getDownvoteCounts(
   postUris: string[],
+  priority: RequestPriority = 'normal',
 ): Promise<Record<string, number>> {
   const unique = [...new Set(postUris)];
   const results = await Promise.all(
-    unique.map(async (uri) => ({ uri, count: await getDownvoteCount(uri) })),
+    unique.map(async (uri) => ({ uri, count: await getDownvoteCount(uri, priority) })),
   );
   const out: Record<string, number> = {};
   for (const { uri, count } of results) out[uri] = count;
@@ -72,23 +300,8 @@ export async function getDownvoteCounts(
  * Get upvote count from Microcosm constellation.
  * Upvotes are referenced as app.artsky.graph.upVote on app.bsky.feed.post.
  */
-export async function getUpvoteCount(postUri: string): Promise<number> {
-  const params = new URLSearchParams({
-    target: postUri,
-    collection: UPVOTE_COLLECTION,
-    path: UPVOTE_PATH,
-  });
-  try {
-    const res = await fetch(
-      `${CONSTELLATION_BASE}/links/count/distinct-dids?${params}`,
-      { headers: { Accept: 'application/json' } },
-    );
-    if (!res.ok) return 0;
-    const data = (await res.json()) as { total?: number };
-    return typeof data.total === 'number' ? data.total : 0;
-  } catch {
-    return 0;
-  }
+export function getUpvoteCount(postUri: string, priority: RequestPriority = 'normal'): Promise<number> {
+  return getDistinctDidCount(postUri, UPVOTE_COLLECTION, UPVOTE_PATH, priority);
 }
 
 /**
@@ -97,33 +310,61 @@ export async function getUpvoteCount(postUri: string): Promise<number> {
  */
 export async function getVoteCounts(
   postUri: string,
+  priority: RequestPriority = 'normal',
 ): Promise<{ upvotes: number; downvotes: number; netScore: number }> {
   const [upvotes, downvotes] = await Promise.all([
-    getUpvoteCount(postUri),
-    getDownvoteCount(postUri),
+    getUpvoteCount(postUri, priority),
+    getDownvoteCount(postUri, priority),
   ]);
   return { upvotes, downvotes, netScore: upvotes - downvotes };
 }
 
+/** A record that links to a target (as returned by Constellation's /links). */
+export interface LinkingRecord {
+  did: string;
+  collection: string;
+  rkey: string;
+}
+
+/**
+ * Records in `collection` whose `path` field points at the target, plus the
+ * total count (the list holds at most `limit`, newest first). Pass the
+ * returned `cursor` to get the next page.
+ */
+export async function getLinkingRecords(
+  target: string,
+  collection: string,
+  path: string,
+  limit = 100,
+  priority: RequestPriority = 'normal',
+  cursor?: string,
+): Promise<{ total: number; records: LinkingRecord[]; cursor?: string }> {
+  const params = new URLSearchParams({ target, collection, path, limit: String(limit) });
+  if (cursor) params.set('cursor', cursor);
+  try {
+    const res = await constellationGet('/links', params, priority);
+    if (!res.ok) {
+      reportError(`links ${collection} failed: HTTP ${res.status}`);
+      return { total: 0, records: [] };
+    }
+    const data = (await res.json()) as { total?: number; linking_records?: LinkingRecord[]; cursor?: string | null };
+    const records = data.linking_records ?? [];
+    return { total: typeof data.total === 'number' ? data.total : records.length, records, cursor: data.cursor ?? undefined };
+  } catch (err) {
+    reportError(err instanceof Error ? err.message : String(err));
+    return { total: 0, records: [] };
+  }
+}
+
 /**
  * Query cross-references between records (for graph visualizations).
- * Returns list of referencing record URIs.
+ * Returns the at:// URIs of the referencing records.
  */
 export async function getReferences(
   targetUri: string,
   collection: string,
   path: string,
 ): Promise<string[]> {
-  const params = new URLSearchParams({ target: targetUri, collection, path });
-  try {
-    const res = await fetch(
-      `${CONSTELLATION_BASE}/links?${params}`,
-      { headers: { Accept: 'application/json' } },
-    );
-    if (!res.ok) return [];
-    const data = (await res.json()) as { links?: Array<{ uri: string }> };
-    return (data.links ?? []).map((l) => l.uri);
-  } catch {
-    return [];
-  }
+  const { records } = await getLinkingRecords(targetUri, collection, path);
+  return records.map((r) => `at://${r.did}/${r.collection}/${r.rkey}`);
 }
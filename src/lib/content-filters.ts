@@ -0,0 +1,238 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Content Filter Rules – Client-Side Mute Words and Feed Filters
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Rules run over TimelineItems before sorting and masonry layout. Unlike
+ * Bluesky's server-side mute words, each rule has its own action and can
+ * use regular expressions:
+ *  - word:     muted word or phrase (case-insensitive, whole words)
+ *  - regex:    JavaScript regular expression over the post text
+ *  - hashtag:  muted hashtag (from facets, record tags or #text)
+ *  - author:   muted author (DID or handle)
+ *  - label:    moderation / self label value (e.g. "spam")
+ *  - repost:   any reposted item
+ *  - reply:    any reply
+ *  - language: posts in this language (record.langs, e.g. "ja")
+ *
+ * Actions: hide (removed from the feed), collapse (one-line placeholder) and
+ * blur (card blurred until tapped). When several rules match, the strongest
+ * action wins: hide > collapse > blur.
+ *
+ * HOW TO EDIT:
+ *  - To add a rule kind, add it to ContentRuleKind in types.ts, then handle
+ *    it in matchesRule() and describeContentRule()
+ *  - Rules are stored in localStorage under RULES_KEY (see layout.tsx)
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import type { ContentRule, ContentRuleAction, ContentRuleKind, TimelineItem } from './types';
+
+const RULES_KEY = 'purplesky-content-rules';
+
+/** Higher wins when several rules match the same item. */
+const ACTION_RANK: Record<ContentRuleAction, number> = { blur: 1, collapse: 2, hide: 3 };
+
+/** Rule kinds that match without a value. */
+export const VALUELESS_RULE_KINDS: ContentRuleKind[] = ['repost', 'reply'];
+
+/** Result of running the rules over one item. */
+export interface ContentFilterDecision {
+  action: ContentRuleAction;
+  /** Short human-readable reason (e.g. 'Muted word "spoiler"'). */
+  reason: string;
+  ruleId: string;
+}
+
+// ── Persistence ───────────────────────────────────────────────────────────
+
+/** Load rules from localStorage, dropping expired ones. */
+export function loadContentRules(now = Date.now()): ContentRule[] {
+  try {
+    const raw = localStorage.getItem(RULES_KEY);
+    const rules = raw ? (JSON.parse(raw) as ContentRule[]) : [];
+    return Array.isArray(rules) ? rules.filter((r) => !isRuleExpired(r, now)) : [];
+  } catch { return []; }
+}
+
+/** Save rules to localStorage. */
+export function saveContentRules(rules: ContentRule[]): void {
+  try { localStorage.setItem(RULES_KEY, JSON.stringify(rules)); } catch { /* ignore */ }
+}
+
+/** Create a rule with a fresh ID. `ttlMs` sets an expiry relative to now. */
+export function createContentRule(opts: {
+  kind: ContentRuleKind;
+  value?: string;
+  action: ContentRuleAction;
+  ttlMs?: number;
+}): ContentRule {
+  return {
+    id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    kind: opts.kind,
+    value: normalizeRuleValue(opts.kind, opts.value ?? ''),
+    action: opts.action,
+    enabled: true,
+    expiresAt: opts.ttlMs ? new Date(Date.now() + opts.ttlMs).toISOString() : undefined,
+  };
+}
+
+/** Return an error message if the rule can't be used, or null. */
+export function validateContentRule(rule: Pick<ContentRule, 'kind' | 'value'>): string | null {
+  if (VALUELESS_RULE_KINDS.includes(rule.kind)) return null;
+  if (!rule.value.trim()) return 'Enter a value for this rule';
+  if (rule.kind === 'regex') {
+    try { new RegExp(rule.value, 'iu'); } catch (err) {
+      return err instanceof Error ? err.message : 'Invalid regular expression';
+    }
+  }
+  return null;
+}
+
+function normalizeRuleValue(kind: ContentRuleKind, value: string): string {
+  const v = value.trim();
+  if (kind === 'hashtag') return v.replace(/^#/, '').toLowerCase();
+  if (kind === 'author') return v.replace(/^@/, '').toLowerCase();
+  if (kind === 'label' || kind === 'language') return v.toLowerCase();
+  if (VALUELESS_RULE_KINDS.includes(kind)) return '';
+  return v;
+}
+
+export function isRuleExpired(rule: ContentRule, now = Date.now()): boolean {
+  return !!rule.expiresAt && new Date(rule.expiresAt).getTime() <= now;
+}
+
+// ── Matching ──────────────────────────────────────────────────────────────
+
+/** Compiled regexes by rule (word rules compile to whole-word patterns). */
+const regexCache = new Map<string, RegExp | null>();
+
+function ruleRegex(rule: ContentRule): RegExp | null {
+  const cacheKey = `${rule.kind}:${rule.value}`;
+  if (regexCache.has(cacheKey)) return regexCache.get(cacheKey) ?? null;
+  let re: RegExp | null = null;
+  try {
+    if (rule.kind === 'regex') {
+      re = new RegExp(rule.value, 'iu');
+    } else {
+      const escaped = rule.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+      re = new RegExp(`(^|[^\\p{L}\\p{N}_])${escaped}(?=$|[^\\p{L}\\p{N}_])`, 'iu');
+    }
+  } catch { re = null; }
+  regexCache.set(cacheKey, re);
+  return re;
+}
+
+type PostRecord = {
+  text?: string;
+  langs?: string[];
+  tags?: string[];
+  reply?: unknown;
+  facets?: Array<{ features?: Array<{ $type?: string; tag?: string }> }>;
+  labels?: { values?: Array<{ val: string }> };
+};
+
+/** Post text plus image alt text (so muted words in alt text also match). */
+function searchableText(item: TimelineItem): string {
+  const record = item.post.record as PostRecord;
+  const embed = item.post.embed as { images?: Array<{ alt?: string }>; media?: { images?: Array<{ alt?: string }> } } | undefined;
+  const alts = [...(embed?.images ?? []), ...(embed?.media?.images ?? [])].map((i) => i.alt ?? '');
+  return [record?.text ?? '', ...alts].join('\n');
+}
+
+function postHashtags(item: TimelineItem): string[] {
+  const record = item.post.record as PostRecord;
+  const tags = new Set<string>();
+  for (const t of record?.tags ?? []) tags.add(t.toLowerCase());
+  for (const facet of record?.facets ?? []) {
+    for (const f of facet.features ?? []) {
+      if (f.$type === 'app.bsky.richtext.facet#tag' && f.tag) tags.add(f.tag.toLowerCase());
+    }
+  }
+  for (const m of (record?.text ?? '').matchAll(/#([\p{L}\p{N}_]+)/gu)) tags.add(m[1].toLowerCase());
+  return [...tags];
+}
+
+function matchesRule(item: TimelineItem, rule: ContentRule): boolean {
+  const post = item.post;
+  const record = post.record as PostRecord;
+  switch (rule.kind) {
+    case 'word':
+    case 'regex': {
+      const re = ruleRegex(rule);
+      return !!re && re.test(searchableText(item));
+    }
+    case 'hashtag':
+      return postHashtags(item).includes(rule.value);
+    case 'author':
+      return post.author.did.toLowerCase() === rule.value || post.author.handle.toLowerCase() === rule.value;
+    case 'label': {
+      const selfLabels = record?.labels?.values ?? [];
+      return [...(post.labels ?? []), ...selfLabels].some((l) => l.val.toLowerCase() === rule.value);
+    }
+    case 'repost':
+      return item.reason?.$type === 'app.bsky.feed.defs#reasonRepost';
+    case 'reply':
+      return !!record?.reply;
+    case 'language':
+      return (record?.langs ?? []).some((l) => l.toLowerCase() === rule.value || l.toLowerCase().startsWith(`${rule.value}-`));
+    default:
+      return false;
+  }
+}
+
+/** Human-readable description of a rule (used for reasons and the rules list). */
+export function describeContentRule(rule: ContentRule): string {
+  switch (rule.kind) {
+    case 'word': return `Muted word "${rule.value}"`;
+    case 'regex': return `Muted pattern /${rule.value}/`;
+    case 'hashtag': return `Muted tag #${rule.value}`;
+    case 'author': return `Muted author @${rule.value}`;
+    case 'label': return `Label "${rule.value}"`;
+    case 'repost': return 'Reposts';
+    case 'reply': return 'Replies';
+    case 'language': return `Language "${rule.value}"`;
+    default: return 'Filter rule';
+  }
+}
+
+// ── Evaluation ────────────────────────────────────────────────────────────
+
+/** Run all active rules over one item. Returns the strongest match, or null. */
+export function evaluateContentRules(
+  item: TimelineItem,
+  rules: ContentRule[],
+  now = Date.now(),
+): ContentFilterDecision | null {
+  let best: ContentFilterDecision | null = null;
+  for (const rule of rules) {
+    if (!rule.enabled || isRuleExpired(rule, now)) continue;
+    if (best && ACTION_RANK[rule.action] <= ACTION_RANK[best.action]) continue;
+    if (!matchesRule(item, rule)) continue;
+    best = { action: rule.action, reason: describeContentRule(rule), ruleId: rule.id };
+    if (rule.action === 'hide') break;
+  }
+  return best;
+}
+
+/**
+ * Run the rules over a list of items. Hidden items are removed; blur and
+ * collapse decisions are returned by post URI for the card to render.
+ */
+export function applyContentRules(
+  items: TimelineItem[],
+  rules: ContentRule[],
+  now = Date.now(),
+): { items: TimelineItem[]; decisions: Record<string, ContentFilterDecision> } {
+  const active = rules.filter((r) => r.enabled && !isRuleExpired(r, now));
+  if (active.length === 0) return { items, decisions: {} };
+  const kept: TimelineItem[] = [];
+  const decisions: Record<string, ContentFilterDecision> = {};
+  for (const item of items) {
+    const decision = evaluateContentRules(item, active, now);
+    if (decision?.action === 'hide') continue;
+    if (decision) decisions[item.post.uri] = decision;
+    kept.push(item);
+  }
+  return { items: kept, decisions };
+}
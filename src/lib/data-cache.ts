@@ -0,0 +1,433 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Data Cache – Stale-While-Revalidate Store for Profiles, Posts and Records
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * App-level cache in IndexedDB (plus an in-memory copy) so the same profile
+ * isn't fetched for every forum reply and pages open with data right away.
+ * (The service worker's API cache only helps offline.)
+ *
+ * HOW IT WORKS:
+ *  - Each kind has a TTL: entries younger than `fresh` are returned as is;
+ *    older ones up to `max` are returned immediately and refreshed in the
+ *    background (onUpdate gets the new value); older ones are refetched
+ *  - Profile and post reads made in the same tick are coalesced into
+ *    getProfiles / getPosts calls of up to BATCH_SIZE (BATCH_DELAY_MS window)
+ *  - Profiles and posts carry viewer state (following, liked), so their keys
+ *    include the logged-in DID. Records are public and shared
+ *  - Profiles are stored by DID; a handle maps to its DID (a shared entry),
+ *    so invalidating the DID also covers reads by handle
+ *  - Our own writes call the invalidate* functions so the next read refetches
+ *  - Profile and record reads return null only when the server says there
+ *    is no such profile or record; other failures (network, 5xx) throw, so
+ *    callers don't mistake an outage for "missing" and overwrite data
+ *  - Without IndexedDB (e.g. Node) the cache is memory-only
+ *
+ * HOW TO EDIT:
+ *  - To keep a kind longer, edit TTLS
+ *  - Call setDataCacheClient(mock) to run against a mocked agent with no
+ *    network (it only needs getProfiles, getPosts and com.atproto.repo.getRecord)
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { agent, publicAgent, getSession, parseAtUri } from './bsky';
+import { priorityOptions } from './request-scheduler';
+import type { PostView, ProfileView } from './types';
+
+const DB_NAME = 'purplesky-cache';
+const STORE = 'entries';
+
+export type CacheKind = 'profile' | 'post' | 'record';
+
+const TTLS: Record<CacheKind, { fresh: number; max: number }> = {
+  profile: { fresh: 10 * 60_000, max: 7 * 24 * 3600_000 },
+  post: { fresh: 60_000, max: 24 * 3600_000 },
+  record: { fresh: 5 * 60_000, max: 7 * 24 * 3600_000 },
+};
+
+const MEMORY_MAX = 2000;
+const BATCH_SIZE = 25;
+const BATCH_DELAY_MS = 10;
+
+interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  value: unknown;
+  storedAt: number;
+}
+
+/** A PDS record as returned by com.atproto.repo.getRecord. */
+export interface CachedRecord<T = Record<string, unknown>> {
+  uri: string;
+  cid?: string;
+  value: T;
+}
+
+/** The agent calls the cache needs (a real agent, or a mock). */
+export interface DataCacheClient {
+  getProfiles(params: { actors: string[] }, opts?: { headers?: Record<string, string> }): Promise<{ data: { profiles: unknown[] } }>;
+  getPosts(params: { uris: string[] }, opts?: { headers?: Record<string, string> }): Promise<{ data: { posts: unknown[] } }>;
+  com: { atproto: { repo: {
+    getRecord(params: { repo: string; collection: string; rkey: string }, opts?: { headers?: Record<string, string> }):
+      Promise<{ data: { uri: string; cid?: string; value: unknown } }>;
+  } } };
+}
+
+const memory = new Map<string, CacheEntry>();
+/** Refreshes in progress, by key */
+const refreshing = new Map<string, Promise<unknown>>();
+/** Bumped by invalidation so refreshes started earlier don't write back old data */
+const generations = new Map<string, number>();
+/** Bumped by invalidateProfile (handle lookups don't know the DID key up front) */
+let profileInvalidations = 0;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let clientOverride: DataCacheClient | null = null;
+
+/** Use a different client (e.g. a mocked agent); null restores the default. */
+export function setDataCacheClient(client: DataCacheClient | null): void {
+  clientOverride = client;
+}
+
+function client(): DataCacheClient {
+  return clientOverride ?? ((getSession() ? agent : publicAgent) as unknown as DataCacheClient);
+}
+
+function viewerScope(): string {
+  return getSession()?.did ?? 'anon';
+}
+
+// ── IndexedDB ─────────────────────────────────────────────────────────────
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') { resolve(null); return; }
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: 'key' });
+      store.createIndex('storedAt', 'storedAt');
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Drop entries too old to be served even as stale
+      try {
+        const cutoff = Date.now() - Math.max(...Object.values(TTLS).map((t) => t.max));
+        const tx = db.transaction(STORE, 'readwrite');
+        const cursorReq = tx.objectStore(STORE).index('storedAt').openCursor(IDBKeyRange.upperBound(cutoff));
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (cursor) { cursor.delete(); cursor.continue(); }
+        };
+      } catch { /* ignore */ }
+      resolve(db);
+    };
+    req.onerror = () => resolve(null);
+  });
+  return dbPromise;
+}
+
+function remember(entry: CacheEntry): void {
+  memory.delete(entry.key);
+  memory.set(entry.key, entry);
+  // Map keeps insertion order: the first key is the least recently stored
+  if (memory.size > MEMORY_MAX) memory.delete(memory.keys().next().value!);
+}
+
+async function readEntry(key: string): Promise<CacheEntry | null> {
+  const hit = memory.get(key);
+  if (hit) return hit;
+  const db = await openDb();
+  if (!db) return null;
+  try {
+    const entry = await requestToPromise(
+      db.transaction(STORE, 'readonly').objectStore(STORE).get(key) as IDBRequest<CacheEntry | undefined>,
+    );
+    if (entry) remember(entry);
+    return entry ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function writeEntry(entry: CacheEntry): void {
+  remember(entry);
+  openDb().then((db) => {
+    if (db) db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry);
+  }).catch(() => { /* ignore */ });
+}
+
+function deleteEntries(keys: string[]): void {
+  for (const key of keys) {
+    memory.delete(key);
+    generations.set(key, (generations.get(key) ?? 0) + 1);
+  }
+  openDb().then((db) => {
+    if (!db) return;
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    for (const key of keys) store.delete(key);
+  }).catch(() => { /* ignore */ });
+}
+
+// ── Stale-While-Revalidate ────────────────────────────────────────────────
+
+/** Fetch and store a value (one fetch per key at a time). */
+function refresh<T>(kind: CacheKind, key: string, load: () => Promise<T>): Promise<T> {
+  const running = refreshing.get(key);
+  if (running) return running as Promise<T>;
+  const generation = generations.get(key) ?? 0;
+  const p = load().then((value) => {
+    if ((generations.get(key) ?? 0) === generation) writeEntry({ key, kind, value, storedAt: Date.now() });
+    return value;
+  }).finally(() => refreshing.delete(key));
+  refreshing.set(key, p);
+  return p;
+}
+
+/**
+ * Read `key` with stale-while-revalidate. `load` fetches the value when it's
+ * missing or stale; `onUpdate` is called if a stale value was returned and
+ * the background refresh brought a new one.
+ */
+export async function cachedRead<T>(
+  kind: CacheKind,
+  key: string,
+  load: (background: boolean) => Promise<T>,
+  onUpdate?: (value: T) => void,
+): Promise<T> {
+  const entry = await readEntry(key);
+  const age = entry ? Date.now() - entry.storedAt : Infinity;
+  if (entry && age < TTLS[kind].fresh) return entry.value as T;
+  if (entry && age < TTLS[kind].max) {
+    refresh(kind, key, () => load(true))
+      .then((value) => { if (JSON.stringify(value) !== JSON.stringify(entry.value)) onUpdate?.(value); })
+      .catch(() => { /* keep the stale value */ });
+    return entry.value as T;
+  }
+  return refresh(kind, key, () => load(false));
+}
+
+// ── Not Found ─────────────────────────────────────────────────────────────
+
+/** A batched read the server answered without the requested id. */
+class NotFoundError extends Error {
+  constructor(id: string) {
+    super(`Not found: ${id}`);
+  }
+}
+
+/**
+ * Whether a read failed because the thing doesn't exist: a batch came back
+ * without it, the PDS answered RecordNotFound, or a 400 (unknown repo or
+ * actor). Anything else is a failed read.
+ */
+function isNotFound(err: unknown): boolean {
+  if (err instanceof NotFoundError) return true;
+  const e = err as { error?: string; status?: number } | null;
+  return e?.error === 'RecordNotFound' || e?.status === 400;
+}
+
+// ── Batching ──────────────────────────────────────────────────────────────
+
+interface Batch<T> {
+  waiting: Map<string, Array<{ resolve: (v: T) => void; reject: (e: unknown) => void }>>;
+  background: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Coalesce single-id loads made within BATCH_DELAY_MS into calls of up to
+ * BATCH_SIZE ids. `fetchMany` returns the values it found by id.
+ */
+function createBatcher<T>(
+  fetchMany: (ids: string[], background: boolean) => Promise<Map<string, T>>,
+): (id: string, background: boolean) => Promise<T> {
+  const batch: Batch<T> = { waiting: new Map(), background: true, timer: null };
+  const flush = () => {
+    const waiting = batch.waiting;
+    const background = batch.background;
+    batch.waiting = new Map();
+    batch.background = true;
+    batch.timer = null;
+    const ids = [...waiting.keys()];
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      const chunk = ids.slice(i, i + BATCH_SIZE);
+      fetchMany(chunk, background).then((found) => {
+        for (const id of chunk) {
+          const value = found.get(id);
+          for (const w of waiting.get(id) ?? []) {
+            if (value !== undefined) w.resolve(value);
+            else w.reject(new NotFoundError(id));
+          }
+        }
+      }, (err) => {
+        for (const id of chunk) for (const w of waiting.get(id) ?? []) w.reject(err);
+      });
+    }
+  };
+  return (id, background) => new Promise<T>((resolve, reject) => {
+    const list = batch.waiting.get(id) ?? [];
+    list.push({ resolve, reject });
+    batch.waiting.set(id, list);
+    // One foreground request makes the whole batch foreground
+    batch.background = batch.background && background;
+    if (!batch.timer) batch.timer = setTimeout(flush, BATCH_DELAY_MS);
+  });
+}
+
+function callOptions(background: boolean) {
+  return background ? priorityOptions('prefetch') : undefined;
+}
+
+const loadProfile = createBatcher<ProfileView>(async (actors, background) => {
+  const res = await client().getProfiles({ actors }, callOptions(background));
+  const found = new Map<string, ProfileView>();
+  for (const p of res.data.profiles as ProfileView[]) {
+    found.set(p.did, p);
+    found.set(p.handle.toLowerCase(), p);
+  }
+  return new Map(actors.map((a) => [a, found.get(a.startsWith('did:') ? a : a.toLowerCase())!] as const).filter(([, p]) => p));
+});
+
+const loadPost = createBatcher<PostView>(async (uris, background) => {
+  const res = await client().getPosts({ uris }, callOptions(background));
+  return new Map((res.data.posts as PostView[]).map((p) => [p.uri, p]));
+});
+
+// ── Profiles ──────────────────────────────────────────────────────────────
+
+function profileKey(did: string): string {
+  return `profile:${viewerScope()}:${did}`;
+}
+
+/** Handles map to DIDs (public, not per viewer); profiles are stored by DID only */
+function handleKey(handle: string): string {
+  return `handle:${handle.toLowerCase()}`;
+}
+
+/** DID for a handle, storing the profile found on the way under its DID key. */
+function resolveHandle(handle: string): Promise<string> {
+  return cachedRead('profile', handleKey(handle), async (bg) => {
+    const invalidated = profileInvalidations;
+    const profile = await loadProfile(handle, bg);
+    if (profileInvalidations === invalidated) {
+      writeEntry({ key: profileKey(profile.did), kind: 'profile', value: profile, storedAt: Date.now() });
+    }
+    return profile.did;
+  });
+}
+
+/** Profile by DID or handle, or null if there is none. Throws if the read fails. */
+export async function getCachedProfile(
+  actor: string,
+  onUpdate?: (profile: ProfileView) => void,
+): Promise<ProfileView | null> {
+  try {
+    const did = actor.startsWith('did:') ? actor : await resolveHandle(actor);
+    return await cachedRead('profile', profileKey(did), (bg) => loadProfile(did, bg), onUpdate);
+  } catch (err) {
+    if (isNotFound(err)) return null;
+    throw err;
+  }
+}
+
+/**
+ * Profiles for many actors at once (missing and failed ones are left out).
+ * Reads that miss the cache are sent as getProfiles batches.
+ */
+export async function getCachedProfiles(
+  actors: string[],
+  onUpdate?: (profile: ProfileView) => void,
+): Promise<Record<string, ProfileView>> {
+  const unique = [...new Set(actors)];
+  const profiles = await Promise.all(unique.map((a) => getCachedProfile(a, onUpdate).catch(() => null)));
+  const out: Record<string, ProfileView> = {};
+  unique.forEach((a, i) => { if (profiles[i]) out[a] = profiles[i]; });
+  return out;
+}
+
+/** Forget a profile (e.g. after following or unfollowing it). */
+export function invalidateProfile(did: string): void {
+  // Reads by handle go through the DID key too, so this covers them
+  profileInvalidations++;
+  deleteEntries([profileKey(did)]);
+}
+
+// ── Posts ─────────────────────────────────────────────────────────────────
+
+function postKey(uri: string): string {
+  return `post:${viewerScope()}:${uri}`;
+}
+
+/** A post view, or null if it can't be loaded. */
+export async function getCachedPost(uri: string, onUpdate?: (post: PostView) => void): Promise<PostView | null> {
+  try {
+    return await cachedRead('post', postKey(uri), (bg) => loadPost(uri, bg), onUpdate);
+  } catch {
+    return null;
+  }
+}
+
+/** Post views for many URIs (missing ones are left out). */
+export async function getCachedPosts(uris: string[]): Promise<Record<string, PostView>> {
+  const unique = [...new Set(uris)];
+  const posts = await Promise.all(unique.map((u) => getCachedPost(u)));
+  const out: Record<string, PostView> = {};
+  unique.forEach((u, i) => { if (posts[i]) out[u] = posts[i]; });
+  return out;
+}
+
+/** Forget a post view (e.g. after liking or reposting it). */
+export function invalidatePost(uri: string): void {
+  deleteEntries([postKey(uri)]);
+}
+
+// ── Records ───────────────────────────────────────────────────────────────
+
+/**
+ * A PDS record by at:// URI, or null if missing; throws if the read fails.
+ * Pass `fresh` to skip the cache (e.g. before rewriting the record).
+ */
+export async function getCachedRecord<T = Record<string, unknown>>(
+  uri: string,
+  opts: { fresh?: boolean; onUpdate?: (record: CachedRecord<T>) => void } = {},
+): Promise<CachedRecord<T> | null> {
+  const parsed = parseAtUri(uri);
+  if (!parsed) return null;
+  const key = `record:${uri}`;
+  const load = async (background: boolean): Promise<CachedRecord<T>> => {
+    const res = await client().com.atproto.repo.getRecord(
+      { repo: parsed.did, collection: parsed.collection, rkey: parsed.rkey },
+      callOptions(background),
+    );
+    return { uri: res.data.uri, cid: res.data.cid, value: res.data.value as T };
+  };
+  try {
+    if (opts.fresh) return await refresh('record', key, () => load(false));
+    return await cachedRead('record', key, load, opts.onUpdate);
+  } catch (err) {
+    if (isNotFound(err)) return null;
+    throw err;
+  }
+}
+
+/** Forget a record (call after putRecord / deleteRecord on it). */
+export function invalidateRecord(uri: string): void {
+  deleteEntries([`record:${uri}`]);
+}
+
+/** Empty the whole cache (memory and IndexedDB). */
+export async function clearDataCache(): Promise<void> {
+  deleteEntries([...memory.keys()]);
+  const db = await openDb();
+  if (db) {
+    try { await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).clear()); } catch { /* ignore */ }
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Feed Mix Presets – Named Mixes Stored on the PDS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * A preset is an app.purplesky.feed.mix record: a name plus the sources and
+ * percentages from the feed mixer. Presets live in the user's repo, so they
+ * follow the account across devices and anyone can load a published mix by
+ * its at:// URI (e.g. a studio sharing its curated mix).
+ *
+ * HOW TO EDIT:
+ *  - To change the record schema, edit lexicons/app.purplesky.feed.mix.json
+ *    and the record built in saveFeedMixPreset()
+ *  - Records from other users are untrusted; readEntries() drops anything
+ *    that isn't a valid source before it reaches the mixer
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { getSession, parseAtUri } from './bsky';
+import { feedMixRecords } from './lexicon-records';
+import type { FeedMixRecord } from './lexicon-records';
+import { truncateBytes } from './lexicons';
+import type { FeedKind, FeedMixEntry, FeedMixOptions, FeedMixPreset, FeedSource, RepostPolicy } from './types';
+
+const COLLECTION = feedMixRecords.nsid;
+
+const FEED_KINDS: FeedKind[] = ['timeline', 'custom', 'list', 'author', 'hashtag', 'search'];
+const REPOST_POLICIES: RepostPolicy[] = ['keep', 'collapse', 'hide'];
+
+/** Max sources per preset (matches the lexicon). */
+const MAX_ENTRIES = 20;
+
+// ── Record Parsing ────────────────────────────────────────────────────────
+
+/** Keep only well-formed entries from a record value. */
+function readEntries(value: unknown): FeedMixEntry[] {
+  if (!Array.isArray(value)) return [];
+  const entries: FeedMixEntry[] = [];
+  for (const raw of value.slice(0, MAX_ENTRIES)) {
+    const s = (raw as { source?: Partial<FeedSource> })?.source;
+    if (!s || !FEED_KINDS.includes(s.kind as FeedKind)) continue;
+    const source: FeedSource = { kind: s.kind as FeedKind, label: String(s.label ?? s.kind).slice(0, 256) };
+    if (typeof s.uri === 'string') source.uri = s.uri;
+    if (typeof s.actor === 'string') source.actor = s.actor;
+    if (s.mediaOnly === true) source.mediaOnly = true;
+    if (typeof s.query === 'string') source.query = s.query.slice(0, 640);
+    // Drop sources missing the field they fetch from
+    if ((source.kind === 'custom' || source.kind === 'list') && !source.uri?.startsWith('at://')) continue;
+    if (source.kind === 'author' && !source.actor) continue;
+    if ((source.kind === 'hashtag' || source.kind === 'search') && !source.query) continue;
+    const percent = Math.round(Number((raw as { percent?: unknown }).percent));
+    entries.push({ source, percent: Number.isFinite(percent) ? Math.min(100, Math.max(0, percent)) : 0 });
+  }
+  return entries;
+}
+
+/** Keep only known option values (whole numbers, known repost policy). */
+function readOptions(value: unknown): FeedMixOptions | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const v = value as Record<string, unknown>;
+  const options: FeedMixOptions = {};
+  const pct = Math.floor(Number(v.maxAuthorPercent));
+  if (pct > 0 && pct < 100) options.maxAuthorPercent = pct;
+  if (REPOST_POLICIES.includes(v.repostPolicy as RepostPolicy)) options.repostPolicy = v.repostPolicy as RepostPolicy;
+  const halfLife = Math.floor(Number(v.halfLifeHours));
+  if (halfLife > 0) options.halfLifeHours = halfLife;
+  return options;
+}
+
+function toPreset(uri: string, value: FeedMixRecord): FeedMixPreset {
+  return {
+    uri,
+    name: value.name || 'Untitled mix',
+    description: value.description,
+    entries: readEntries(value.entries),
+    options: readOptions(value.options),
+    createdAt: value.createdAt,
+    updatedAt: value.updatedAt,
+  };
+}
+
+// ── Read ──────────────────────────────────────────────────────────────────
+
+/** List presets from a repo (defaults to the logged-in user). */
+export async function listFeedMixPresets(did?: string): Promise<FeedMixPreset[]> {
+  const repo = did ?? getSession()?.did;
+  if (!repo) return [];
+  try {
+    const { records } = await feedMixRecords.list(repo, { limit: 100 });
+    return records
+      .map((r) => toPreset(r.uri, r.value))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load a published preset by at:// URI (anyone's repo). Throws with a
+ * readable message if the URI is wrong or the record can't be found.
+ */
+export async function getFeedMixPreset(uri: string): Promise<FeedMixPreset> {
+  const parsed = parseAtUri(uri.trim());
+  if (!parsed || parsed.collection !== COLLECTION) {
+    throw new Error(`Not a feed mix URI (expected at://…/${COLLECTION}/…)`);
+  }
+  const res = await feedMixRecords.get(uri.trim());
+  if (!res) throw new Error('Feed mix not found, or the record is malformed');
+  const preset = toPreset(uri.trim(), res.value);
+  if (preset.entries.length === 0) throw new Error('This feed mix has no usable sources');
+  return preset;
+}
+
+// ── Write ─────────────────────────────────────────────────────────────────
+
+/**
+ * Save a mix as a preset. Pass `uri` of one of your own presets to
+ * overwrite it; otherwise a new record is created.
+ */
+export async function saveFeedMixPreset(opts: {
+  name: string;
+  entries: FeedMixEntry[];
+  options?: FeedMixOptions;
+  description?: string;
+  uri?: string;
+  createdAt?: string;
+}): Promise<FeedMixPreset> {
+  const session = getSession();
+  if (!session?.did) throw new Error('Not logged in');
+  const parsed = opts.uri ? parseAtUri(opts.uri) : null;
+  const existing = parsed && parsed.did === session.did ? parsed : null;
+  const now = new Date().toISOString();
+  const record: FeedMixRecord = {
+    name: truncateBytes(opts.name.trim(), 256) || 'Untitled mix',
+    description: opts.description?.trim() || undefined,
+    entries: opts.entries.slice(0, MAX_ENTRIES).map((e) => ({
+      source: {
+        kind: e.source.kind,
+        label: truncateBytes(e.source.label, 256),
+        uri: e.source.uri,
+        actor: e.source.actor,
+        mediaOnly: e.source.mediaOnly || undefined,
+        query: e.source.query,
+      },
+      percent: Math.round(e.percent),
+    })),
+    options: opts.options && {
+      maxAuthorPercent: opts.options.maxAuthorPercent ? Math.floor(opts.options.maxAuthorPercent) : undefined,
+      repostPolicy: opts.options.repostPolicy,
+      halfLifeHours: opts.options.halfLifeHours ? Math.floor(opts.options.halfLifeHours) : undefined,
+    },
+    createdAt: (existing && opts.createdAt) || now,
+    updatedAt: now,
+  };
+  const res = existing
+    ? await feedMixRecords.put(existing.rkey, record)
+    : await feedMixRecords.create(record, { rkeyPrefix: 'mix' });
+  return toPreset(res.uri, record);
+}
+
+/** Delete one of your presets. */
+export async function deleteFeedMixPreset(uri: string): Promise<void> {
+  const session = getSession();
+  const parsed = parseAtUri(uri);
+  if (!session?.did || !parsed || parsed.did !== session.did) return;
+  await feedMixRecords.delete(parsed.rkey);
+}
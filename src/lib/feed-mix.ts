@@ -0,0 +1,402 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Feed Mix Engine – Ratio-Preserving Interleaving Across Pages
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * getMixedFeed() fetches a page from each source in the mix, but only some of
+ * those items fit into the current page. This engine keeps the leftovers in a
+ * per-source buffer so they are shown on the next page instead of being
+ * skipped, and tracks how many items each source has contributed so far so the
+ * configured percentages hold across the whole session (not just one page).
+ *
+ * HOW IT WORKS:
+ *  1. Each source has a buffer, a cursor and a running "taken" count
+ *  2. planMixDemand() simulates the next page to find how many items each
+ *     source needs; getMixedFeed() only fetches sources whose buffer is short
+ *  3. takeMixedPage() fills the page slot by slot, always picking the source
+ *     that is furthest behind its target share (ties go to the earlier entry),
+ *     skipping URIs that were already shown
+ *  4. FeedMixOptions add diversity: a per-author cap per page, a repost policy
+ *     and a recency half-life (fetched pages are reordered by recencyOrder())
+ *  5. The slot filling itself is fillMixedPage(), which remixFeeds()
+ *     (wasm-bridge.ts) uses as its fallback for one-shot remixes and
+ *     remix_core in lib.rs mirrors; the parity suite checks they agree
+ *
+ * HOW TO EDIT:
+ *  - The state object is plain data; keep it in module scope (see feedCache
+ *    in routes/index.tsx), not in a Qwik store
+ *  - To change how sources are keyed for cursors, edit feedSourceKey()
+ *  - To change how a page is filled, edit fillMixedPage() and remix_core in
+ *    wasm/src/lib.rs together, then run `npm run test:parity`
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import type { FeedMixEntry, FeedMixOptions, FeedProvenance, FeedSource, TimelineItem } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+/** Buffered items and paging state for one source in the mix. */
+export interface MixSourceState {
+  /** Fetched items not yet shown (in source order). */
+  buffer: TimelineItem[];
+  /** Cursor for the next fetch from this source. */
+  cursor?: string;
+  /** True once the source returned no cursor (nothing more to fetch). */
+  exhausted: boolean;
+  /** Items this source has contributed since the mix started. */
+  taken: number;
+  /** Items fetched from this source so far (for provenance ranks). */
+  fetched: number;
+}
+
+/** Engine state carried between pages of one mix. */
+export interface FeedMixState {
+  /** Mix signature (sources + percents); state is reset when it changes. */
+  signature: string;
+  /** Per-source state, keyed by feedSourceKey(). */
+  sources: Record<string, MixSourceState>;
+  /** URIs already emitted (for dedupe across sources and pages). */
+  seenUris: Set<string>;
+  /** Total items emitted since the mix started. */
+  emitted: number;
+  /** Diversity options this state was built with. */
+  options: FeedMixOptions;
+}
+
+// ── Keys & Signatures ─────────────────────────────────────────────────────
+
+/** Stable key for a feed source (used for cursors and buffers). */
+export function feedSourceKey(source: FeedSource): string {
+  switch (source.kind) {
+    case 'timeline': return 'timeline';
+    case 'author': return `author:${(source.actor ?? '').toLowerCase()}${source.mediaOnly ? ':media' : ''}`;
+    case 'hashtag': return `hashtag:${(source.query ?? '').toLowerCase()}`;
+    case 'search': return `search:${source.query ?? ''}`;
+    default: return source.uri ?? '';
+  }
+}
+
+/** Signature of a mix; any change to sources, percents or options starts a new state. */
+export function mixSignature(entries: FeedMixEntry[], options: FeedMixOptions = {}): string {
+  const sig = entries.map((e) => `${feedSourceKey(e.source)}=${e.percent}`).join('|');
+  const { maxAuthorPercent, repostPolicy, halfLifeHours } = options;
+  if (!maxAuthorPercent && (!repostPolicy || repostPolicy === 'keep') && !halfLifeHours) return sig;
+  return `${sig}#${maxAuthorPercent ?? 0},${repostPolicy ?? 'keep'},${halfLifeHours ?? 0}`;
+}
+
+/** The sources in a mix, sorted; unlike mixSignature() it ignores percents and options. */
+export function mixSourcesKey(entries: FeedMixEntry[]): string {
+  return entries.map((e) => feedSourceKey(e.source)).sort().join('|');
+}
+
+/** Create a fresh state for a mix. */
+export function createFeedMixState(entries: FeedMixEntry[], options: FeedMixOptions = {}): FeedMixState {
+  const sources: Record<string, MixSourceState> = {};
+  for (const entry of entries) {
+    sources[feedSourceKey(entry.source)] = { buffer: [], exhausted: false, taken: 0, fetched: 0 };
+  }
+  return { signature: mixSignature(entries, options), sources, seenUris: new Set(), emitted: 0, options: { ...options } };
+}
+
+/** Reuse `state` if it belongs to this mix, otherwise start over. */
+export function ensureFeedMixState(
+  entries: FeedMixEntry[],
+  state?: FeedMixState | null,
+  options: FeedMixOptions = {},
+): FeedMixState {
+  if (state && state.signature === mixSignature(entries, options)) return state;
+  return createFeedMixState(entries, options);
+}
+
+// ── Diversity & Decay ─────────────────────────────────────────────────────
+// These mirror remix_feeds_with_options in wasm/src/lib.rs exactly (same
+// rough timestamp parser, integer weights) so the Rust and JS paths agree.
+
+/** Rough ISO timestamp → ms, identical to parse_iso_to_ms in lib.rs. */
+export function isoToMsRough(iso: string): number {
+  const parts = iso.split(/[^0-9]/);
+  const get = (i: number): number => {
+    const n = parseInt(parts[i] ?? '', 10);
+    return Number.isNaN(n) ? 0 : n;
+  };
+  return ((get(0) - 1970) * 365.25 * 24 * 3600
+    + (get(1) - 1) * 30.44 * 24 * 3600
+    + (get(2) - 1) * 24 * 3600
+    + get(3) * 3600
+    + get(4) * 60
+    + get(5)) * 1000;
+}
+
+/** Recency weight in millionths: 0.5^(age_hours / halfLifeHours), rounded. */
+export function recencyWeight(createdAt: string, halfLifeHours: number, nowMs: number): number {
+  const ageHours = Math.max(0, nowMs - isoToMsRough(createdAt)) / 3_600_000;
+  return Math.round(Math.pow(0.5, ageHours / halfLifeHours) * 1_000_000);
+}
+
+/**
+ * Order in which to consider a feed's items: feed order without a half-life,
+ * otherwise highest weight / (rank + 1) first (ties keep feed order).
+ */
+export function recencyOrder(createdAts: string[], halfLifeHours: number | undefined, nowMs: number): number[] {
+  const order = createdAts.map((_, i) => i);
+  if (!halfLifeHours || halfLifeHours <= 0) return order;
+  const weights = createdAts.map((c) => recencyWeight(c, halfLifeHours, nowMs));
+  // a before b when w[a] / (a + 1) > w[b] / (b + 1), compared without division
+  return order.sort((a, b) => weights[b] * (a + 1) - weights[a] * (b + 1));
+}
+
+/** Max items one author may fill in a page of `limit` (Infinity = no cap). */
+export function authorCap(limit: number, maxAuthorPercent: number | undefined): number {
+  if (!maxAuthorPercent || maxAuthorPercent <= 0 || maxAuthorPercent >= 100) return Infinity;
+  return Math.max(1, Math.floor((limit * Math.floor(maxAuthorPercent)) / 100));
+}
+
+/** Post creation time for ordering (record createdAt, else indexedAt). */
+export function itemCreatedAt(item: TimelineItem): string {
+  return ((item.post.record as { createdAt?: string })?.createdAt ?? item.post.indexedAt ?? '');
+}
+
+/** DID of the reposter when the item is a repost. */
+export function itemRepostedBy(item: TimelineItem): string | undefined {
+  return item.reason?.$type === 'app.bsky.feed.defs#reasonRepost' ? item.reason.by?.did : undefined;
+}
+
+// ── Interleaving ──────────────────────────────────────────────────────────
+
+/**
+ * Pick the lane that is furthest behind its share after `emitted + 1` items.
+ * Returns -1 when no eligible lane remains.
+ */
+function pickNext(
+  percents: number[],
+  taken: number[],
+  emitted: number,
+  totalPercent: number,
+  eligible: (i: number) => boolean,
+): number {
+  let best = -1;
+  let bestDeficit = -Infinity;
+  for (let i = 0; i < percents.length; i++) {
+    if (percents[i] <= 0 || !eligible(i)) continue;
+    const deficit = ((emitted + 1) * percents[i]) / totalPercent - taken[i];
+    if (deficit > bestDeficit) {
+      bestDeficit = deficit;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * How many items each entry would contribute to the next page of `limit`
+ * items, assuming every source has enough buffered. Keyed by feedSourceKey().
+ */
+export function planMixDemand(
+  state: FeedMixState,
+  entries: FeedMixEntry[],
+  limit: number,
+): Record<string, number> {
+  const percents = entries.map((e) => Math.max(0, e.percent));
+  const totalPercent = percents.reduce((s, p) => s + p, 0);
+  const demand: Record<string, number> = {};
+  for (const entry of entries) demand[feedSourceKey(entry.source)] = 0;
+  if (totalPercent <= 0) return demand;
+
+  const keys = entries.map((e) => feedSourceKey(e.source));
+  const taken = keys.map((k) => state.sources[k]?.taken ?? 0);
+  // An exhausted source can only supply what is already buffered
+  const canSupply = (j: number): boolean => {
+    const src = state.sources[keys[j]];
+    if (!src) return false;
+    return !src.exhausted || src.buffer.length > demand[keys[j]];
+  };
+  let emitted = state.emitted;
+  for (let slot = 0; slot < limit; slot++) {
+    const i = pickNext(percents, taken, emitted, totalPercent, canSupply);
+    if (i < 0) break;
+    taken[i]++;
+    emitted++;
+    demand[keys[i]]++;
+  }
+  return demand;
+}
+
+/** What fillMixedPage() needs to know about an item. */
+export interface MixCandidate {
+  uri: string;
+  /** Author DID; empty = not counted against the author cap */
+  author: string;
+  /** Reposter DID when the item is a repost */
+  repostedBy?: string;
+}
+
+/** One source for fillMixedPage(): its percent, items so far, and candidates in the order to try them. */
+export interface MixLane {
+  percent: number;
+  taken: number;
+  items: MixCandidate[];
+}
+
+/**
+ * The page filling shared by takeMixedPage() and remixFeeds() (wasm-bridge.ts),
+ * mirrored by remix_core in lib.rs. Slot by slot, picks the lane furthest
+ * behind its share (ties go to the earlier lane) among those with an item
+ * that fits the page: not on it yet, within the author cap and allowed by
+ * the repost policy. Takes that lane's first such item. `emitted` is how
+ * many items the mix has shown before this page. Returns [lane, item index]
+ * pairs in page order.
+ */
+export function fillMixedPage(
+  lanes: MixLane[],
+  emitted: number,
+  limit: number,
+  options: FeedMixOptions,
+): Array<[number, number]> {
+  const percents = lanes.map((l) => Math.max(0, l.percent));
+  const totalPercent = percents.reduce((s, p) => s + p, 0);
+  const picks: Array<[number, number]> = [];
+  if (totalPercent <= 0) return picks;
+
+  const { repostPolicy = 'keep', maxAuthorPercent } = options;
+  const cap = authorCap(limit, maxAuthorPercent);
+  const taken = lanes.map((l) => l.taken);
+  const onPage = new Set<string>();
+  const authorCounts = new Map<string, number>();
+  const reposters = new Set<string>();
+
+  const fits = (c: MixCandidate): boolean => {
+    if (onPage.has(c.uri)) return false;
+    if (c.repostedBy !== undefined) {
+      if (repostPolicy === 'hide') return false;
+      if (repostPolicy === 'collapse' && reposters.has(c.repostedBy)) return false;
+    }
+    return !c.author || (authorCounts.get(c.author) ?? 0) < cap;
+  };
+  const nextIndex = (i: number): number => lanes[i].items.findIndex(fits);
+
+  while (picks.length < limit) {
+    const i = pickNext(percents, taken, emitted + picks.length, totalPercent, (j) => nextIndex(j) >= 0);
+    if (i < 0) break;
+    const j = nextIndex(i);
+    const c = lanes[i].items[j];
+    onPage.add(c.uri);
+    if (c.author) authorCounts.set(c.author, (authorCounts.get(c.author) ?? 0) + 1);
+    if (c.repostedBy !== undefined) reposters.add(c.repostedBy);
+    taken[i]++;
+    picks.push([i, j]);
+  }
+  return picks;
+}
+
+/**
+ * Fill one page of up to `limit` items from the buffers, in a stable
+ * interleaved order (see fillMixedPage). Mutates `state` (buffers, counts,
+ * seen URIs); items that don't fit this page wait for the next.
+ */
+export function takeMixedPage(
+  state: FeedMixState,
+  entries: FeedMixEntry[],
+  limit: number,
+): TimelineItem[] {
+  const keys = entries.map((e) => feedSourceKey(e.source));
+  const hideReposts = state.options.repostPolicy === 'hide';
+  // Already-shown items (and reposts, when hidden) never fit a page
+  for (const key of keys) {
+    const src = state.sources[key];
+    if (!src) continue;
+    src.buffer = src.buffer.filter((item) => {
+      const uri = item?.post?.uri;
+      if (!uri || state.seenUris.has(uri)) return false;
+      return !(hideReposts && itemRepostedBy(item));
+    });
+  }
+
+  const lanes: MixLane[] = entries.map((e, i) => ({
+    percent: e.percent,
+    taken: state.sources[keys[i]]?.taken ?? 0,
+    items: (state.sources[keys[i]]?.buffer ?? []).map((item) => ({
+      uri: item.post.uri,
+      author: item.post.author.did,
+      repostedBy: itemRepostedBy(item),
+    })),
+  }));
+  const picks = fillMixedPage(lanes, state.emitted, limit, state.options);
+
+  const page = picks.map(([i, j]) => state.sources[keys[i]].buffer[j]);
+  for (const [i] of picks) state.sources[keys[i]].taken++;
+  for (const item of page) state.seenUris.add(item.post.uri);
+  state.emitted += page.length;
+  // The picked items, and copies of them in other buffers, are shown now
+  for (const key of keys) {
+    const src = state.sources[key];
+    if (src) src.buffer = src.buffer.filter((item) => !state.seenUris.has(item.post.uri));
+  }
+  return page;
+}
+
+// ── Provenance ────────────────────────────────────────────────────────────
+
+/**
+ * Tag freshly fetched items with their source and provenance. `firstRank`
+ * is the 1-based rank of the first item (continues across pages).
+ */
+export function tagProvenance(items: TimelineItem[], source: FeedSource, firstRank: number): TimelineItem[] {
+  const sourceKey = feedSourceKey(source);
+  const ruleBased = source.kind === 'hashtag' || source.kind === 'search';
+  return items.map((item, i) => {
+    const reposted = !!itemRepostedBy(item);
+    const provenance: FeedProvenance = {
+      sourceKey,
+      rank: firstRank + i,
+      via: reposted ? 'repost' : ruleBased ? 'rule' : 'feed',
+      reposter: reposted ? item.reason?.by?.handle : undefined,
+    };
+    return { ...item, _feedSource: source, _provenance: provenance };
+  });
+}
+
+/** Tooltip text explaining why an item is in the mix. */
+export function describeProvenance(item: TimelineItem): string {
+  const source = item._feedSource;
+  const p = item._provenance;
+  if (!source || !p) return '';
+  const lines = [`From ${source.label} (#${p.rank} in that ${source.kind === 'timeline' ? 'timeline' : 'source'})`];
+  if (p.via === 'repost') lines.push(`Reposted by @${p.reposter ?? 'someone'}`);
+  if (p.via === 'rule') {
+    lines.push(source.kind === 'hashtag' ? `Matched tag #${source.query}` : `Matched search "${source.query}"`);
+  }
+  return lines.join('\n');
+}
+
+/** Configured vs actual share of one source over the session. */
+export interface MixShare {
+  key: string;
+  label: string;
+  /** Configured share, normalized to 0–100 */
+  configured: number;
+  /** Share of items actually shown so far, 0–100 */
+  actual: number;
+  /** Items shown from this source so far */
+  taken: number;
+}
+
+/** Compare each source's actual contribution with its configured percent. */
+export function mixShareReport(state: FeedMixState | null, entries: FeedMixEntry[]): MixShare[] {
+  const totalPercent = entries.reduce((s, e) => s + Math.max(0, e.percent), 0);
+  return entries.map((e) => {
+    const key = feedSourceKey(e.source);
+    const taken = state?.sources[key]?.taken ?? 0;
+    return {
+      key,
+      label: e.source.label,
+      configured: totalPercent > 0 ? Math.round((Math.max(0, e.percent) * 100) / totalPercent) : 0,
+      actual: state && state.emitted > 0 ? Math.round((taken * 100) / state.emitted) : 0,
+      taken,
+    };
+  });
+}
+
+/** True if any source still has buffered items or a cursor to fetch. */
+export function mixHasMore(state: FeedMixState): boolean {
+  return Object.values(state.sources).some((s) => s.buffer.length > 0 || !s.exhausted);
+}
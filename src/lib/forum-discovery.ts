@@ -0,0 +1,333 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Forum Discovery – Forum Posts from Across the Network
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Forum posts live in each author's repo, so there is no single list to
+ * read. This module gathers app.purplesky.forum.post records from several
+ * sources and merges them into one newest-first stream:
+ *  - repos: the viewer's own, the known community repos (see
+ *    getCommunityRepos) and the accounts the viewer follows
+ *  - participants: accounts that replied to a thread already shown
+ *    (replyDids from loadForumThreadStats)
+ *  - tags: posts whose tagLinks point at forumTagLink(tag), via Constellation
+ *    backlinks; their authors are added as repo sources too
+ * A state can also be scoped to one community (routes/forum/community):
+ * then only posts whose `community` is its URI are kept, and the sources are
+ * the community's backlinks, its owner and moderators, and the viewer.
+ *
+ * HOW IT WORKS:
+ *  1. Each source has a buffer, a cursor and an exhausted flag (like the feed
+ *     mix engine in feed-mix.ts); follows are added FOLLOW_BATCH at a time
+ *     once fewer than FETCH_BUDGET sources are left to try
+ *  2. discoverForumPosts() refills empty buffers (at most FETCH_BUDGET
+ *     requests per round), then takes the newest buffered post until the
+ *     page is full. A source that runs dry mid-page ends the page, so its
+ *     older posts are fetched before anything older is shown
+ *  3. URIs already shown are skipped, so a post found by tag and by repo
+ *     appears once
+ *  4. A failed fetch (a source, or the next batch of follows) keeps its
+ *     cursor and is retried after RETRY_MS, doubling per failure in a row;
+ *     only after MAX_FAILURES in a row is it given up
+ *
+ * HOW TO EDIT:
+ *  - The state object is plain data; keep it in module scope (see
+ *    forumCache in routes/forum/index.tsx), not in a Qwik store
+ *  - New kinds of source: add a DiscoverySourceKind, a key and a branch in
+ *    fetchSource()
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { agent, getSession, publicAgent } from './bsky';
+import { getLinkingRecords } from './constellation';
+import { getCachedProfiles } from './data-cache';
+import { forumTagLink, getForumPost, listForumPosts } from './forum';
+import { forumPostRecords } from './lexicon-records';
+import type { ForumCommunity, ForumDiscoveryOrigin, ForumPost } from './types';
+
+const COMMUNITIES_KEY = 'purplesky-forum-communities';
+const PAGE_SIZE = 30;
+const REPO_PAGE = 20;
+const TAG_PAGE = 25;
+/** Max sources fetched per round */
+const FETCH_BUDGET = 12;
+/** Follows added per getFollows call */
+const FOLLOW_BATCH = 50;
+/** Fetch rounds per page before showing what we have */
+const MAX_ROUNDS = 3;
+/** Constellation path of a post's tag links */
+const TAG_LINK_PATH = '.tagLinks[]';
+/** Constellation path of a post's community */
+const COMMUNITY_PATH = '.community';
+/** Wait after a failed fetch (doubles per failure in a row) */
+const RETRY_MS = 15_000;
+/** Failures in a row before a source (or the follows) is given up */
+const MAX_FAILURES = 4;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export type DiscoverySourceKind = 'repo' | 'tag' | 'community';
+
+/** Backoff after failed fetches. */
+export interface DiscoveryRetry {
+  /** Failed fetches in a row */
+  failures: number;
+  /** Don't fetch again before this time (ms) */
+  retryAt: number;
+}
+
+/** Buffered posts and paging state for one source. */
+export interface DiscoverySourceState {
+  kind: DiscoverySourceKind;
+  origin: ForumDiscoveryOrigin;
+  /** Repo DID/handle, the tag, or the community URI */
+  target: string;
+  /** Fetched posts not yet shown, newest first */
+  buffer: ForumPost[];
+  /** Cursor for the next fetch from this source */
+  cursor?: string;
+  /** Pages fetched so far */
+  fetched: number;
+  /** True once the source has nothing more to fetch (or failed MAX_FAILURES times) */
+  exhausted: boolean;
+  retry: DiscoveryRetry;
+}
+
+/** Discovery state carried between pages. */
+export interface ForumDiscoveryState {
+  /** Viewer + community repos (or community); state is reset when it changes */
+  signature: string;
+  viewerDid: string | null;
+  /** When set, only posts in this community (its at:// URI) are kept */
+  community: string | null;
+  /** Per-source state, keyed `repo:<did>` / `tag:<tag>` / `community:<uri>` */
+  sources: Record<string, DiscoverySourceState>;
+  /** URIs already emitted (for dedupe across sources and pages) */
+  seenUris: Set<string>;
+  /** Cursor for the next page of the viewer's follows */
+  followCursor?: string;
+  /** True once all follows were added (or there is no viewer) */
+  followsExhausted: boolean;
+  followRetry: DiscoveryRetry;
+}
+
+// ── Community Repos ───────────────────────────────────────────────────────
+
+function parseRepoList(raw: string): string[] {
+  const list = raw.split(/[\s,]+/).map((s) => s.trim().replace(/^@/, '')).filter(Boolean);
+  return [...new Set(list)];
+}
+
+/**
+ * Repos (DIDs or handles) read for every visitor: the list saved on this
+ * device, else VITE_FORUM_COMMUNITY_REPOS (comma-separated) from the build.
+ */
+export function getCommunityRepos(): string[] {
+  try {
+    const saved = localStorage.getItem(COMMUNITIES_KEY);
+    if (saved !== null) return parseRepoList(saved);
+  } catch { /* ignore */ }
+  const buildList = import.meta.env?.VITE_FORUM_COMMUNITY_REPOS as string | undefined;
+  return buildList ? parseRepoList(buildList) : [];
+}
+
+/** Save the community repos for this device; null goes back to the build default. */
+export function setCommunityRepos(repos: string[] | null): void {
+  try {
+    if (repos) localStorage.setItem(COMMUNITIES_KEY, parseRepoList(repos.join(',')).join(','));
+    else localStorage.removeItem(COMMUNITIES_KEY);
+  } catch { /* ignore */ }
+}
+
+// ── State ─────────────────────────────────────────────────────────────────
+
+function discoverySignature(viewerDid: string | null, community?: ForumCommunity | null): string {
+  return `${viewerDid ?? ''}|${community ? community.uri : getCommunityRepos().join(',')}`;
+}
+
+function addSource(
+  state: ForumDiscoveryState,
+  kind: DiscoverySourceKind,
+  target: string,
+  origin: ForumDiscoveryOrigin,
+): void {
+  const key = `${kind}:${target.toLowerCase()}`;
+  if (state.sources[key]) return;
+  state.sources[key] = { kind, origin, target, buffer: [], fetched: 0, exhausted: false, retry: { failures: 0, retryAt: 0 } };
+}
+
+/**
+ * Create a fresh state for a viewer (null when logged out), for the whole
+ * network or for one community.
+ */
+export function createForumDiscoveryState(
+  viewerDid: string | null,
+  community?: ForumCommunity | null,
+): ForumDiscoveryState {
+  const state: ForumDiscoveryState = {
+    signature: discoverySignature(viewerDid, community),
+    viewerDid,
+    community: community?.uri ?? null,
+    sources: {},
+    seenUris: new Set(),
+    followsExhausted: !viewerDid || !!community,
+    followRetry: { failures: 0, retryAt: 0 },
+  };
+  if (viewerDid) addSource(state, 'repo', viewerDid, 'self');
+  if (community) {
+    addSource(state, 'community', community.uri, 'community');
+    for (const did of [community.owner, ...(community.moderators ?? [])]) addSource(state, 'repo', did, 'community');
+  } else {
+    for (const repo of getCommunityRepos()) addSource(state, 'repo', repo, 'community');
+  }
+  return state;
+}
+
+/** Reuse `state` if it belongs to this viewer and scope, otherwise start over. */
+export function ensureForumDiscoveryState(
+  viewerDid: string | null,
+  state?: ForumDiscoveryState | null,
+  community?: ForumCommunity | null,
+): ForumDiscoveryState {
+  if (state && state.signature === discoverySignature(viewerDid, community)) return state;
+  return createForumDiscoveryState(viewerDid, community);
+}
+
+/** Also find posts carrying `tag` (via Constellation). */
+export function addForumTagSource(state: ForumDiscoveryState, tag: string): void {
+  const clean = tag.trim().replace(/^[#%]/, '').toLowerCase();
+  if (clean) addSource(state, 'tag', clean, 'tag');
+}
+
+/** Add everyone who replied to these threads as repo sources. */
+export function addForumParticipants(state: ForumDiscoveryState, posts: ForumPost[]): void {
+  for (const post of posts) {
+    for (const did of post.replyDids ?? []) addSource(state, 'repo', did, 'participant');
+  }
+}
+
+/** Whether another page may hold posts. */
+export function hasMoreForumPosts(state: ForumDiscoveryState): boolean {
+  if (!state.followsExhausted) return true;
+  return Object.values(state.sources).some((s) => s.buffer.length > 0 || !s.exhausted);
+}
+
+// ── Fetching ──────────────────────────────────────────────────────────────
+
+function newestFirst(a: ForumPost, b: ForumPost): number {
+  return (b.createdAt ?? '').localeCompare(a.createdAt ?? '');
+}
+
+/** Note a failed fetch; true once it has failed MAX_FAILURES times in a row. */
+function noteFailure(retry: DiscoveryRetry): boolean {
+  retry.failures++;
+  retry.retryAt = Date.now() + RETRY_MS * 2 ** (retry.failures - 1);
+  return retry.failures >= MAX_FAILURES;
+}
+
+/** Add the next batch of the viewer's follows as repo sources. */
+async function expandFollows(state: ForumDiscoveryState): Promise<void> {
+  if (state.followsExhausted || !state.viewerDid || Date.now() < state.followRetry.retryAt) return;
+  try {
+    const client = getSession() ? agent : publicAgent;
+    const res = await client.app.bsky.graph.getFollows({
+      actor: state.viewerDid, limit: FOLLOW_BATCH, cursor: state.followCursor,
+    });
+    for (const follow of res.data.follows) addSource(state, 'repo', follow.did, 'follow');
+    state.followCursor = res.data.cursor;
+    state.followsExhausted = !res.data.cursor || res.data.follows.length === 0;
+    state.followRetry.failures = 0;
+  } catch {
+    // Same cursor next time
+    if (noteFailure(state.followRetry)) state.followsExhausted = true;
+  }
+}
+
+/** Whether a post belongs in this state's stream (not shown yet, in scope). */
+function wanted(state: ForumDiscoveryState, post: ForumPost): boolean {
+  return !state.seenUris.has(post.uri) && (!state.community || post.community === state.community);
+}
+
+async function fetchSource(state: ForumDiscoveryState, source: DiscoverySourceState): Promise<void> {
+  if (source.kind === 'repo') {
+    const { posts, cursor } = await listForumPosts(source.target, {
+      limit: REPO_PAGE, cursor: source.cursor, reverse: false,
+    });
+    source.buffer.push(...posts.filter((p) => wanted(state, p)).sort(newestFirst));
+    source.cursor = cursor;
+    source.exhausted = !cursor || posts.length < REPO_PAGE;
+  } else {
+    const [target, path] = source.kind === 'tag'
+      ? [forumTagLink(source.target), TAG_LINK_PATH]
+      : [source.target, COMMUNITY_PATH];
+    const res = await getLinkingRecords(target, forumPostRecords.nsid, path, TAG_PAGE, 'normal', source.cursor);
+    const posts = await Promise.all(res.records
+      .map((r) => `at://${r.did}/${r.collection}/${r.rkey}`)
+      .filter((uri) => !state.seenUris.has(uri))
+      .map((uri) => getForumPost(uri)));
+    const found = posts.filter((p): p is ForumPost => !!p && wanted(state, p));
+    // Authors found this way likely have other threads worth showing
+    for (const post of found) addSource(state, 'repo', post.did, source.origin);
+    source.buffer.push(...found.sort(newestFirst));
+    source.cursor = res.cursor;
+    source.exhausted = !res.cursor || res.records.length < TAG_PAGE;
+  }
+  source.fetched++;
+  source.retry.failures = 0;
+}
+
+function bufferedCount(state: ForumDiscoveryState): number {
+  return Object.values(state.sources).reduce((n, s) => n + s.buffer.length, 0);
+}
+
+// ── Paging ────────────────────────────────────────────────────────────────
+
+/**
+ * Next page of forum posts from all sources, newest first and without
+ * repeats. Each post carries `discoveredVia` (the source that found it).
+ */
+export async function discoverForumPosts(
+  state: ForumDiscoveryState,
+  limit = PAGE_SIZE,
+): Promise<{ posts: ForumPost[]; hasMore: boolean }> {
+  for (let round = 0; round < MAX_ROUNDS && bufferedCount(state) < limit; round++) {
+    const now = Date.now();
+    const waiting = () => Object.values(state.sources)
+      .filter((s) => !s.exhausted && s.buffer.length === 0 && s.retry.retryAt <= now);
+    if (waiting().length < FETCH_BUDGET) await expandFollows(state);
+    // Sources already read from come first: their next posts may be newer
+    // than anything buffered, so they must be refilled before merging
+    const due = waiting().sort((a, b) => b.fetched - a.fetched).slice(0, FETCH_BUDGET);
+    if (due.length === 0) break;
+    // A failed source keeps its cursor and is retried later
+    await Promise.all(due.map((s) => fetchSource(state, s).catch(() => { if (noteFailure(s.retry)) s.exhausted = true; })));
+  }
+
+  const posts: ForumPost[] = [];
+  while (posts.length < limit) {
+    let best: DiscoverySourceState | null = null;
+    for (const source of Object.values(state.sources)) {
+      while (source.buffer.length > 0 && state.seenUris.has(source.buffer[0].uri)) source.buffer.shift();
+      if (source.buffer.length > 0 && (!best || newestFirst(source.buffer[0], best.buffer[0]) < 0)) best = source;
+    }
+    if (!best) break;
+    const post = best.buffer.shift()!;
+    state.seenUris.add(post.uri);
+    posts.push({ ...post, discoveredVia: best.origin });
+    if (best.buffer.length === 0 && !best.exhausted) break;
+  }
+
+  // Profiles for posts that came without one (repo listings)
+  const missing = posts.filter((p) => !p.authorHandle).map((p) => p.did);
+  if (missing.length > 0) {
+    const profiles = await getCachedProfiles(missing);
+    for (const post of posts) {
+      const profile = profiles[post.did];
+      if (profile && !post.authorHandle) {
+        post.authorHandle = profile.handle;
+        post.authorAvatar = profile.avatar;
+      }
+    }
+  }
+  return { posts, hasMore: hasMoreForumPosts(state) };
+}
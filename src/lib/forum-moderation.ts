@@ -0,0 +1,176 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Forum Moderation – Hidden Replies, Locked Threads, Reports
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Moderation actions are app.purplesky.forum.moderation records in the repo
+ * of whoever took them, pointing at the thread (and its community):
+ *  - hide: hide a reply (listForumReplies leaves it out)
+ *  - lock: no new replies (createForumReply refuses; listForumReplies leaves
+ *    out replies written after the lock)
+ *  - report: flag a post or reply, with a reason
+ * Deleting the record undoes the action.
+ *
+ * HOW IT WORKS:
+ *  - Records are found in the moderators' own repos and through
+ *    Constellation backlinks on `.thread` / `.community`, so reports from
+ *    anyone show up too
+ *  - hide and lock only count when made by the thread's author or the
+ *    community's owner or moderators; reports always count. A thread stays
+ *    locked while any valid lock record exists
+ *  - "Written after the lock" goes by the reply's createdAt and rkey time,
+ *    both chosen by the replier's client, so a lock only holds against
+ *    honest clients (see writtenAfter in forum.ts)
+ *  - The moderation log (routes/forum/moderation) lists the same actions
+ *    per thread or per community (only for threads posted in it)
+ *
+ * HOW TO EDIT:
+ *  - New action kinds: add them to the lexicon's knownValues, then to
+ *    counts() and loadThreadModeration()
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { getSession, parseAtUri } from './bsky';
+import { getLinkingRecords } from './constellation';
+import { getForumCommunity } from './forum';
+import { forumModerationRecords, forumPostRecords } from './lexicon-records';
+import type { ForumModerationRecord } from './lexicon-records';
+import type { StoredRecord } from './records';
+import type { ForumCommunity, ForumModerationAction, ForumPost, ThreadModeration } from './types';
+
+const COLLECTION = forumModerationRecords.nsid;
+/** Records read per repo and per backlink lookup */
+const LOG_LIMIT = 100;
+
+// ── Reading ───────────────────────────────────────────────────────────────
+
+function toAction(r: StoredRecord<ForumModerationRecord>): ForumModerationAction {
+  const { $type, ...value } = r.value;
+  return { uri: r.uri, did: r.did, ...value };
+}
+
+/**
+ * Whether an action takes effect: reports always, hide/lock only from the
+ * given moderators or the author of the thread it is about.
+ */
+function counts(action: ForumModerationAction, moderators: string[]): boolean {
+  if (action.action === 'report') return true;
+  if (action.action !== 'hide' && action.action !== 'lock') return false;
+  return moderators.includes(action.did) || parseAtUri(action.thread)?.did === action.did;
+}
+
+/**
+ * Moderation records whose `field` is `target`, from these repos and from
+ * Constellation backlinks. Newest first, without duplicates.
+ */
+async function collectActions(
+  target: string,
+  field: 'thread' | 'community',
+  repos: string[],
+): Promise<ForumModerationAction[]> {
+  const byUri = new Map<string, ForumModerationAction>();
+  const lists = await Promise.all(repos.map((did) =>
+    forumModerationRecords.list(did, { limit: LOG_LIMIT }).catch(() => ({ records: [] }))));
+  for (const { records } of lists) {
+    for (const r of records) if (r.value[field] === target) byUri.set(r.uri, toAction(r));
+  }
+
+  const links = await getLinkingRecords(target, COLLECTION, `.${field}`, LOG_LIMIT);
+  const missing = links.records
+    .map((l) => `at://${l.did}/${l.collection}/${l.rkey}`)
+    .filter((uri) => !byUri.has(uri));
+  const fetched = await Promise.all(missing.map((uri) => forumModerationRecords.get(uri).catch(() => null)));
+  for (const r of fetched) if (r && r.value[field] === target) byUri.set(r.uri, toAction(r));
+
+  return [...byUri.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function communityModerators(community: ForumCommunity | null): string[] {
+  return community ? [community.owner, ...(community.moderators ?? [])] : [];
+}
+
+/** Who may hide replies in and lock a thread: its author and its community's owner and moderators. */
+export async function getThreadModerators(post: ForumPost): Promise<string[]> {
+  const community = post.community ? await getForumCommunity(post.community) : null;
+  return [...new Set([post.did, ...communityModerators(community)])];
+}
+
+/** Moderation state of a thread: valid actions and reports, hidden replies, locks. */
+export async function loadThreadModeration(post: ForumPost): Promise<ThreadModeration> {
+  const moderators = await getThreadModerators(post);
+  const actions = (await collectActions(post.uri, 'thread', moderators)).filter((a) => counts(a, moderators));
+  const hiddenReplies: Record<string, string> = {};
+  const locks: ForumModerationAction[] = [];
+  for (const a of actions) {
+    if (a.action === 'hide' && !hiddenReplies[a.subject]) hiddenReplies[a.subject] = a.uri;
+    if (a.action === 'lock' && a.subject === post.uri) locks.push(a);
+  }
+  return { moderators, actions, hiddenReplies, locks };
+}
+
+/**
+ * Moderation log of a community: valid actions and reports in its threads,
+ * newest first. An action's `community` is whatever its author wrote, so
+ * only actions on threads that really are in the community are kept.
+ */
+export async function loadCommunityModerationLog(community: ForumCommunity): Promise<ForumModerationAction[]> {
+  const moderators = communityModerators(community);
+  const actions = await collectActions(community.uri, 'community', moderators);
+  const threads = [...new Set(actions.map((a) => a.thread))];
+  const posts = await Promise.all(threads.map((uri) => forumPostRecords.get(uri).catch(() => null)));
+  const inCommunity = new Set(threads.filter((_, i) => posts[i]?.value.community === community.uri));
+  return actions.filter((a) => inCommunity.has(a.thread) && counts(a, moderators));
+}
+
+// ── Writing ───────────────────────────────────────────────────────────────
+
+async function assertThreadModerator(post: ForumPost): Promise<void> {
+  const did = getSession()?.did;
+  if (!did) throw new Error('Not logged in');
+  if (!(await getThreadModerators(post)).includes(did)) {
+    throw new Error('Only the thread author or community moderators can do this');
+  }
+}
+
+async function createAction(
+  post: ForumPost,
+  action: ForumModerationRecord['action'],
+  subject: string,
+  reason?: string,
+): Promise<string> {
+  const res = await forumModerationRecords.create({
+    action,
+    subject,
+    thread: post.uri,
+    community: post.community,
+    reason: reason?.trim() || undefined,
+    createdAt: new Date().toISOString(),
+  }, { tid: true });
+  return res.uri;
+}
+
+/** Hide a reply in a thread you moderate. Returns the moderation record URI. */
+export async function hideForumReply(post: ForumPost, replyUri: string, reason?: string): Promise<string> {
+  await assertThreadModerator(post);
+  return createAction(post, 'hide', replyUri, reason);
+}
+
+/** Lock a thread you moderate. Returns the moderation record URI. */
+export async function lockForumThread(post: ForumPost, reason?: string): Promise<string> {
+  await assertThreadModerator(post);
+  return createAction(post, 'lock', post.uri, reason);
+}
+
+/** Report a thread or one of its replies to its moderators. */
+export async function reportForumPost(post: ForumPost, subjectUri: string, reason: string): Promise<string> {
+  if (!reason.trim()) throw new Error('Say what is wrong with it');
+  if (!getSession()?.did) throw new Error('Not logged in');
+  return createAction(post, 'report', subjectUri, reason);
+}
+
+/** Undo one of your own moderation actions (unhide, unlock, withdraw a report). */
+export async function deleteModerationAction(uri: string): Promise<void> {
+  const parsed = parseAtUri(uri);
+  if (!parsed || parsed.did !== getSession()?.did) throw new Error('Not authorized');
+  await forumModerationRecords.delete(parsed.rkey);
+}
@@ -0,0 +1,93 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Forum Revisions – Earlier Versions of Edited Posts
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Each edit of a forum post (editForumPost in forum.ts) first saves the text
+ * it replaces as an app.purplesky.forum.revision record in the author's
+ * repo, so readers can see what changed after the fact (the thread page's
+ * "edited" link and components/forum-revisions).
+ *
+ * HOW IT WORKS:
+ *  - Revisions are found in the author's repo (the newest LIST_PAGES pages)
+ *    and through Constellation backlinks on `.post`, for older ones
+ *  - Only revisions in the post author's own repo count; nobody else can
+ *    add versions to someone's post
+ *  - Revisions keep the blobs their body shows (`images`), so pictures
+ *    removed by a later edit still load in the history
+ *
+ * HOW TO EDIT:
+ *  - To keep more fields per version, add them to the revision lexicon,
+ *    saveForumRevision() and ForumPostVersion in types.ts
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { getLinkingRecords } from './constellation';
+import { forumRevisionRecords } from './lexicon-records';
+import type { ForumPostRecord, ForumRevisionRecord } from './lexicon-records';
+import type { StoredRecord } from './records';
+import type { ForumPost, ForumPostVersion } from './types';
+
+/** Pages of the author's revisions read (newest first) */
+const LIST_PAGES = 2;
+const PAGE_SIZE = 100;
+
+function toVersion(r: StoredRecord<ForumRevisionRecord>): ForumPostVersion {
+  const { title, body, tags, cid, writtenAt, createdAt } = r.value;
+  return { uri: r.uri, cid, title, body, tags, writtenAt, replacedAt: createdAt };
+}
+
+/** Save the version of a post that an edit is about to replace. */
+export async function saveForumRevision(post: StoredRecord<ForumPostRecord>, replacedAt: string): Promise<void> {
+  await forumRevisionRecords.create({
+    post: post.uri,
+    cid: post.cid || undefined,
+    title: post.value.title,
+    body: post.value.body,
+    tags: post.value.tags,
+    images: post.value.images,
+    writtenAt: post.value.editedAt ?? post.value.createdAt,
+    createdAt: replacedAt,
+  }, { tid: true });
+}
+
+/** Saved revisions of a post from its author's repo, newest first. */
+async function listRevisions(post: ForumPost): Promise<ForumPostVersion[]> {
+  const byUri = new Map<string, StoredRecord<ForumRevisionRecord>>();
+  let cursor: string | undefined;
+  for (let page = 0; page < LIST_PAGES; page++) {
+    try {
+      const res = await forumRevisionRecords.list(post.did, { limit: PAGE_SIZE, cursor });
+      for (const r of res.records) if (r.value.post === post.uri) byUri.set(r.uri, r);
+      cursor = res.cursor;
+    } catch {
+      break;
+    }
+    if (!cursor) break;
+  }
+
+  const links = await getLinkingRecords(post.uri, forumRevisionRecords.nsid, '.post', PAGE_SIZE);
+  const missing = links.records
+    .filter((l) => l.did === post.did)
+    .map((l) => `at://${l.did}/${l.collection}/${l.rkey}`)
+    .filter((uri) => !byUri.has(uri));
+  const fetched = await Promise.all(missing.map((uri) => forumRevisionRecords.get(uri).catch(() => null)));
+  for (const r of fetched) if (r && r.did === post.did && r.value.post === post.uri) byUri.set(r.uri, r);
+
+  return [...byUri.values()]
+    .filter((r) => r.did === post.did)
+    .map(toVersion)
+    .sort((a, b) => (b.replacedAt ?? '').localeCompare(a.replacedAt ?? ''));
+}
+
+/** Every known version of a post, the current one first, then older ones. */
+export async function listForumPostVersions(post: ForumPost): Promise<ForumPostVersion[]> {
+  const current: ForumPostVersion = {
+    cid: post.cid,
+    title: post.title ?? '',
+    body: post.body ?? '',
+    tags: post.tags,
+    writtenAt: post.editedAt ?? post.createdAt ?? '',
+  };
+  return [current, ...(await listRevisions(post))];
+}
@@ -5,11 +5,25 @@
  *
  * This module handles forum-specific operations:
  *  - Creating and listing forum posts (app.purplesky.forum.post)
+ *  - Communities (app.purplesky.forum.community): named sub-forums with
+ *    rules, moderators and allowed tags; posts join one via `community`
+ *  - Replies honour moderation (forum-moderation.ts): hidden replies are
+ *    left out and locked threads take no new replies
  *  - Threaded replies (app.purplesky.forum.reply)
+ *  - Edits keep the replaced version as a revision (forum-revisions.ts)
+ *  - Images in post bodies: uploadForumImage() stores a blob and returns
+ *    ![alt](blob:<cid>) Markdown; saving a post lists the blobs its body
+ *    uses in `images` (bodies render through components/markdown)
  *  - Pinning posts
+ *  - Reply counts, latest reply and votes per thread (Constellation), and
+ *    the index sort modes (sortForumPosts)
  *  - Wiki-style pages promoted from threads
  *  - Draft posts saved locally
  *  - Integration with standard.site documents for long-form content
+ *  - Records are read and written through the generated collections in
+ *    lexicon-records.ts: writes are checked against /lexicons and invalidate
+ *    the cached copy, reads are sanitised (malformed records are skipped)
+ *  - Author profiles are read through data-cache.ts
  *
  * HOW TO EDIT:
  *  - The forum uses custom AT Protocol lexicons defined in /lexicons/
@@ -18,41 +32,108 @@
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
-import { agent, getSession, parseAtUri, publicAgent } from './bsky';
-import type { ForumPost, ForumReply } from './types';
+import { agent, getSession, parseAtUri } from './bsky';
+import { getCachedProfile, getCachedProfiles } from './data-cache';
+import { markdownBlobCids } from './markdown';
+import { forumCommunityRecords, forumPostRecords, forumReplyRecords, forumWikiRecords } from './lexicon-records';
+import type { ForumCommunityRecord, ForumPostRecord } from './lexicon-records';
+import type { StoredRecord } from './records';
+import type { ForumCommunity, ForumPost, ForumReply, ForumSortMode, ThreadModeration } from './types';
 
-// ── Collection Names (AT Protocol Lexicons) ───────────────────────────────
-
-const FORUM_POST_COLLECTION = 'app.purplesky.forum.post';
-const FORUM_REPLY_COLLECTION = 'app.purplesky.forum.reply';
-const FORUM_WIKI_COLLECTION = 'app.purplesky.forum.wiki';
 const DRAFTS_KEY = 'purplesky-forum-drafts';
+/** Tag link prefix (see tagLinks in the forum.post lexicon). */
+const TAG_LINK_BASE = 'https://purplesky.app/tag/';
+
+/**
+ * The URL a post links to for each of its tags, so Constellation can find
+ * posts by tag (forum-discovery.ts).
+ */
+export function forumTagLink(tag: string): string {
+  return `${TAG_LINK_BASE}${encodeURIComponent(tag.trim().replace(/^[#%]/, '').toLowerCase())}`;
+}
+
+function tagLinks(tags: string[]): string[] {
+  return [...new Set(tags.map(forumTagLink))];
+}
+
+/** Tag as compared against a community's allowedTags. */
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^[#%]/, '').toLowerCase();
+}
+
+function toForumPost(r: StoredRecord<ForumPostRecord>): ForumPost {
+  const { $type, ...value } = r.value;
+  return { uri: r.uri, cid: r.cid, did: r.did, rkey: r.rkey, ...value };
+}
+
+/** Read one of the user's own posts from the PDS before rewriting it. */
+async function getOwnPostRecord(uri: string): Promise<StoredRecord<ForumPostRecord>> {
+  const post = await forumPostRecords.get(uri, { fresh: true });
+  if (!post) throw new Error('Post not found');
+  if (getSession()?.did !== post.did) throw new Error('Not authorized');
+  return post;
+}
+
+// ── Images ────────────────────────────────────────────────────────────────
+
+/** Blobs uploaded this session by CID, until a post that uses them is saved */
+const uploadedImages = new Map<string, unknown>();
+
+/** CID of a blob ref, whether a BlobRef instance or its JSON form. */
+function blobCid(blob: unknown): string | undefined {
+  const ref = (blob as { ref?: { $link?: string; toString(): string } } | null)?.ref;
+  if (!ref) return undefined;
+  return typeof ref.$link === 'string' ? ref.$link : ref.toString();
+}
+
+/**
+ * Upload an image for a forum post body. Returns the Markdown that shows it
+ * (![alt](blob:<cid>)); the post lists the blob when it is saved.
+ */
+export async function uploadForumImage(file: File, alt = ''): Promise<string> {
+  if (!getSession()?.did) throw new Error('Not logged in');
+  if (!file.type.startsWith('image/')) throw new Error('Only images can be added');
+  const { data } = await agent.uploadBlob(file, { encoding: file.type });
+  const cid = blobCid(data.blob);
+  if (!cid) throw new Error('Upload failed');
+  uploadedImages.set(cid, data.blob);
+  return `![${alt.replace(/[[\]\\]/g, '')}](blob:${cid})`;
+}
+
+/** The blobs a body shows: from the post's earlier images or this session's uploads. */
+function bodyImages(body: string, existing: unknown[] = []): unknown[] {
+  const known = new Map(existing.map((b) => [blobCid(b), b]));
+  return markdownBlobCids(body)
+    .map((cid) => known.get(cid) ?? uploadedImages.get(cid))
+    .filter((b) => b !== undefined)
+    .slice(0, 20);
+}
 
 // ── Forum Posts ───────────────────────────────────────────────────────────
 
-/** Create a new forum post. Returns the created record URI and CID. */
+/**
+ * Create a new forum post, optionally in a community (its at:// URI; the
+ * tags must be ones it allows). Returns the created record URI and CID.
+ */
 export async function createForumPost(opts: {
   title: string;
   body: string;
   tags?: string[];
+  community?: string;
 }): Promise<{ uri: string; cid: string }> {
-  const session = getSession();
-  if (!session?.did) throw new Error('Not logged in');
-  const rkey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
-  const res = await agent.com.atproto.repo.putRecord({
-    repo: session.did,
-    collection: FORUM_POST_COLLECTION,
-    rkey,
-    record: {
-      $type: FORUM_POST_COLLECTION,
-      title: opts.title.trim(),
-      body: opts.body.trim(),
-      tags: opts.tags ?? [],
-      createdAt: new Date().toISOString(),
-    },
-    validate: false,
+  const tags = opts.tags ?? [];
+  if (opts.community) await checkCommunityTags(opts.community, tags);
+  const body = opts.body.trim();
+  const images = bodyImages(body);
+  return forumPostRecords.create({
+    title: opts.title.trim(),
+    body,
+    images: images.length ? images : undefined,
+    tags,
+    tagLinks: tagLinks(tags),
+    community: opts.community,
+    createdAt: new Date().toISOString(),
   });
-  return { uri: res.data.uri, cid: res.data.cid };
 }
 
 /** Suggest forum tags (from app.purplesky.forum.post lexicon) for composer % trigger. */
@@ -71,161 +152,258 @@ export async function suggestForumTags(prefix: string, limit = 15): Promise<stri
   return Array.from(tagSet).sort().slice(0, limit);
 }
 
-/** List forum posts from a user's repo. */
+/** List forum posts from a user's repo (oldest first; `reverse: false` for newest first). */
 export async function listForumPosts(
   did: string,
-  opts?: { limit?: number; cursor?: string },
+  opts?: { limit?: number; cursor?: string; reverse?: boolean },
 ): Promise<{ posts: ForumPost[]; cursor?: string }> {
-  const client = getSession() ? agent : publicAgent;
   try {
-    const res = await client.com.atproto.repo.listRecords({
-      repo: did,
-      collection: FORUM_POST_COLLECTION,
-      limit: opts?.limit ?? 30,
-      cursor: opts?.cursor,
-      reverse: true,
+    const { records, cursor } = await forumPostRecords.list(did, {
+      limit: opts?.limit ?? 30, cursor: opts?.cursor, reverse: opts?.reverse ?? true,
     });
-    const posts: ForumPost[] = (res.data.records ?? []).map(
-      (r: { uri: string; cid: string; value: Record<string, unknown> }) => {
-        const v = r.value as {
-          title?: string; body?: string; tags?: string[];
-          createdAt?: string; isPinned?: boolean; isWiki?: boolean;
-        };
-        const rkey = r.uri.split('/').pop() ?? '';
-        return {
-          uri: r.uri, cid: r.cid, did, rkey,
-          title: v.title, body: v.body, tags: v.tags,
-          createdAt: v.createdAt, isPinned: v.isPinned, isWiki: v.isWiki,
-        };
-      },
-    );
-    return { posts, cursor: res.data.cursor };
+    return { posts: records.map(toForumPost), cursor };
   } catch {
     return { posts: [], cursor: undefined };
   }
 }
 
-/** Get a single forum post by URI. */
-export async function getForumPost(uri: string): Promise<ForumPost | null> {
-  const parsed = parseAtUri(uri);
-  if (!parsed) return null;
-  const client = getSession() ? agent : publicAgent;
+/**
+ * Get a single forum post by URI (cached). Pass `fresh` to read it from the
+ * PDS, e.g. before writing an updated copy.
+ */
+export async function getForumPost(uri: string, opts: { fresh?: boolean } = {}): Promise<ForumPost | null> {
   try {
-    const res = await client.com.atproto.repo.getRecord({
-      repo: parsed.did, collection: FORUM_POST_COLLECTION, rkey: parsed.rkey,
-    });
-    const v = res.data.value as {
-      title?: string; body?: string; tags?: string[];
-      createdAt?: string; isPinned?: boolean; isWiki?: boolean;
-    };
-    // Resolve author profile
-    let authorHandle: string | undefined;
-    let authorAvatar: string | undefined;
-    try {
-      const profile = await client.getProfile({ actor: parsed.did });
-      const d = profile.data as { handle?: string; avatar?: string };
-      authorHandle = d.handle;
-      authorAvatar = d.avatar;
-    } catch { /* ignore */ }
-    return {
-      uri: res.data.uri as string, cid: res.data.cid as string,
-      did: parsed.did, rkey: parsed.rkey,
-      title: v.title, body: v.body, tags: v.tags,
-      createdAt: v.createdAt, isPinned: v.isPinned, isWiki: v.isWiki,
-      authorHandle, authorAvatar,
-    };
+    const res = await forumPostRecords.get(uri, opts);
+    if (!res) return null;
+    // Resolve author profile (the post still shows if that fails)
+    const profile = await getCachedProfile(res.did).catch(() => null);
+    return { ...toForumPost(res), authorHandle: profile?.handle, authorAvatar: profile?.avatar };
   } catch {
     return null;
   }
 }
 
-/** Edit a forum post. Only the author can edit. */
+/**
+ * Edit a forum post. Only the author can edit. The version it replaces is
+ * kept as a revision (forum-revisions.ts); edits that change nothing are
+ * not saved.
+ */
 export async function editForumPost(uri: string, opts: {
   title?: string;
   body?: string;
   tags?: string[];
 }): Promise<void> {
-  const post = await getForumPost(uri);
-  if (!post) throw new Error('Post not found');
-  const session = getSession();
-  if (!session?.did || session.did !== post.did) throw new Error('Not authorized');
-  await agent.com.atproto.repo.putRecord({
-    repo: session.did, collection: FORUM_POST_COLLECTION, rkey: post.rkey,
-    record: {
-      $type: FORUM_POST_COLLECTION,
-      title: (opts.title ?? post.title ?? '').trim(),
-      body: (opts.body ?? post.body ?? '').trim(),
-      tags: opts.tags ?? post.tags ?? [],
-      createdAt: post.createdAt,
-      isPinned: post.isPinned,
-      isWiki: post.isWiki,
-      editedAt: new Date().toISOString(),
-    },
-    validate: false,
+  const post = await getOwnPostRecord(uri);
+  if (opts.tags && post.value.community) await checkCommunityTags(post.value.community, opts.tags);
+  const title = (opts.title ?? post.value.title).trim();
+  const body = (opts.body ?? post.value.body).trim();
+  const tags = opts.tags ?? post.value.tags ?? [];
+  if (title === post.value.title && body === post.value.body && tags.join('\n') === (post.value.tags ?? []).join('\n')) return;
+
+  const now = new Date().toISOString();
+  const { saveForumRevision } = await import('./forum-revisions');
+  await saveForumRevision(post, now);
+  const images = bodyImages(body, post.value.images);
+  await forumPostRecords.put(post.rkey, {
+    ...post.value,
+    title,
+    body,
+    images: images.length ? images : undefined,
+    tags,
+    tagLinks: tagLinks(tags),
+    editedAt: now,
   });
 }
 
 /** Delete a forum post. Only the author can delete. */
 export async function deleteForumPost(uri: string): Promise<void> {
-  const session = getSession();
-  if (!session?.did) throw new Error('Not logged in');
   const parsed = parseAtUri(uri);
   if (!parsed) throw new Error('Invalid URI');
-  await agent.com.atproto.repo.deleteRecord({
-    repo: session.did, collection: FORUM_POST_COLLECTION, rkey: parsed.rkey,
-  });
+  await forumPostRecords.delete(parsed.rkey);
 }
 
 /** Toggle pin status for a forum post (update record). */
 export async function togglePinForumPost(uri: string, isPinned: boolean): Promise<void> {
-  const post = await getForumPost(uri);
-  if (!post) throw new Error('Post not found');
+  const post = await getOwnPostRecord(uri);
+  await forumPostRecords.put(post.rkey, { ...post.value, isPinned });
+}
+
+// ── Communities ───────────────────────────────────────────────────────────
+
+function toForumCommunity(r: StoredRecord<ForumCommunityRecord>): ForumCommunity | null {
+  // Only the owner's own repo can define a community
+  if (r.value.owner !== r.did) return null;
+  const { $type, ...value } = r.value;
+  return { uri: r.uri, did: r.did, rkey: r.rkey, ...value };
+}
+
+/** Rules, moderators and tags trimmed and deduplicated for writing. */
+function cleanCommunityFields(owner: string, opts: {
+  rules?: string[];
+  moderators?: string[];
+  allowedTags?: string[];
+}): Pick<ForumCommunityRecord, 'rules' | 'moderators' | 'allowedTags'> {
+  return {
+    rules: opts.rules?.map((r) => r.trim()).filter(Boolean),
+    moderators: opts.moderators && [...new Set(opts.moderators.map((d) => d.trim()))].filter((d) => d && d !== owner),
+    allowedTags: opts.allowedTags && [...new Set(opts.allowedTags.map(normalizeTag))].filter(Boolean),
+  };
+}
+
+/** Slug for a community name ("Godot Help" → "godot-help"); it is the record key. */
+export function forumCommunitySlug(name: string): string {
+  return name.normalize('NFKD').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 64);
+}
+
+/** Whether `did` owns or moderates the community. */
+export function isForumModerator(community: ForumCommunity, did: string | null | undefined): boolean {
+  return !!did && (community.owner === did || (community.moderators ?? []).includes(did));
+}
+
+/** Tags the community doesn't allow (none when it has no allowedTags). */
+export function disallowedForumTags(community: ForumCommunity, tags: string[]): string[] {
+  const allowed = community.allowedTags ?? [];
+  if (allowed.length === 0) return [];
+  return tags.filter((t) => !allowed.includes(normalizeTag(t)));
+}
+
+async function checkCommunityTags(communityUri: string, tags: string[]): Promise<void> {
+  const community = await getForumCommunity(communityUri);
+  if (!community) throw new Error('Community not found');
+  const bad = disallowedForumTags(community, tags);
+  if (bad.length > 0) throw new Error(`${community.name} doesn't allow these tags: ${bad.join(', ')}`);
+}
+
+/** Get a community by URI (cached; `fresh` reads it from the PDS). */
+export async function getForumCommunity(uri: string, opts: { fresh?: boolean } = {}): Promise<ForumCommunity | null> {
+  try {
+    const res = await forumCommunityRecords.get(uri, opts);
+    return res ? toForumCommunity(res) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Communities defined in a repo, by name. */
+export async function listForumCommunities(did: string): Promise<ForumCommunity[]> {
+  try {
+    const { records } = await forumCommunityRecords.list(did, { limit: 100 });
+    return records
+      .flatMap((r) => toForumCommunity(r) ?? [])
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch {
+    return [];
+  }
+}
+
+/** Create a community in the user's repo; its slug comes from the name. */
+export async function createForumCommunity(opts: {
+  name: string;
+  description?: string;
+  rules?: string[];
+  moderators?: string[];
+  allowedTags?: string[];
+}): Promise<ForumCommunity> {
   const session = getSession();
-  if (!session?.did || session.did !== post.did) throw new Error('Not authorized');
-  await agent.com.atproto.repo.putRecord({
-    repo: session.did, collection: FORUM_POST_COLLECTION, rkey: post.rkey,
-    record: {
-      $type: FORUM_POST_COLLECTION,
-      title: post.title, body: post.body, tags: post.tags,
-      createdAt: post.createdAt, isPinned, isWiki: post.isWiki,
-    },
-    validate: false,
-  });
+  if (!session?.did) throw new Error('Not logged in');
+  const slug = forumCommunitySlug(opts.name);
+  if (!slug) throw new Error('The name needs at least one letter or digit');
+  const existing = await forumCommunityRecords.get(`at://${session.did}/${forumCommunityRecords.nsid}/${slug}`, { fresh: true });
+  if (existing) throw new Error(`You already have a community at "${slug}"`);
+  const record: ForumCommunityRecord = {
+    name: opts.name.trim(),
+    description: opts.description?.trim() || undefined,
+    owner: session.did,
+    ...cleanCommunityFields(session.did, opts),
+    createdAt: new Date().toISOString(),
+  };
+  const res = await forumCommunityRecords.put(slug, record);
+  return { uri: res.uri, did: session.did, rkey: slug, ...record };
+}
+
+/** Update a community. Only the owner can edit. */
+export async function updateForumCommunity(uri: string, opts: {
+  name?: string;
+  description?: string;
+  rules?: string[];
+  moderators?: string[];
+  allowedTags?: string[];
+}): Promise<ForumCommunity> {
+  const current = await forumCommunityRecords.get(uri, { fresh: true });
+  if (!current) throw new Error('Community not found');
+  if (getSession()?.did !== current.did) throw new Error('Not authorized');
+  const cleaned = cleanCommunityFields(current.did, opts);
+  const record: ForumCommunityRecord = {
+    ...current.value,
+    name: (opts.name ?? current.value.name).trim(),
+    description: opts.description !== undefined ? opts.description.trim() || undefined : current.value.description,
+    rules: cleaned.rules ?? current.value.rules,
+    moderators: cleaned.moderators ?? current.value.moderators,
+    allowedTags: cleaned.allowedTags ?? current.value.allowedTags,
+    owner: current.did,
+    updatedAt: new Date().toISOString(),
+  };
+  await forumCommunityRecords.put(current.rkey, record);
+  return { uri: current.uri, did: current.did, rkey: current.rkey, ...record };
 }
 
 // ── Forum Replies (Threaded) ──────────────────────────────────────────────
 
-/** Create a reply to a forum post (or to another reply for threading). */
+/** Moderation state of a thread, or null if the thread can't be read. */
+async function threadModeration(postUri: string): Promise<ThreadModeration | null> {
+  const post = await getForumPost(postUri);
+  if (!post) return null;
+  const { loadThreadModeration } = await import('./forum-moderation');
+  return loadThreadModeration(post);
+}
+
+/**
+ * Create a reply to a forum post (or to another reply for threading).
+ * Throws if the thread is locked.
+ */
 export async function createForumReply(opts: {
   postUri: string;
   text: string;
   replyToUri?: string;
 }): Promise<{ uri: string; cid: string }> {
-  const session = getSession();
-  if (!session?.did) throw new Error('Not logged in');
-  const rkey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
-  const res = await agent.com.atproto.repo.putRecord({
-    repo: session.did,
-    collection: FORUM_REPLY_COLLECTION,
-    rkey,
-    record: {
-      $type: FORUM_REPLY_COLLECTION,
-      subject: opts.postUri,
-      replyTo: opts.replyToUri,
-      text: opts.text.trim(),
-      createdAt: new Date().toISOString(),
-    },
-    validate: false,
+  const moderation = await threadModeration(opts.postUri);
+  if (moderation && moderation.locks.length > 0) throw new Error('This thread is locked');
+  return forumReplyRecords.create({
+    subject: opts.postUri,
+    replyTo: opts.replyToUri,
+    text: opts.text.trim(),
+    createdAt: new Date().toISOString(),
   });
-  return { uri: res.data.uri, cid: res.data.cid };
 }
 
-/** List replies for a forum post. Aggregates from multiple repos. */
+/**
+ * Whether a reply was written after `ms`: by its createdAt, or by the time
+ * in its rkey when that is later. Both are set by the replier's client, and
+ * neither listRecords nor Constellation gives a time the author can't pick,
+ * so a lock only holds against honest clients: ours refuse to reply to a
+ * locked thread, and a backdated reply from another client still shows.
+ */
+function writtenAfter(createdAt: string, uri: string, ms: number): boolean {
+  const created = Date.parse(createdAt);
+  const rkeyTime = replyRkeyTime(parseAtUri(uri)?.rkey ?? '');
+  return Number.isNaN(created) || created > ms || (rkeyTime !== null && rkeyTime > ms);
+}
+
+/**
+ * List replies for a forum post. Aggregates from multiple repos. Replies
+ * hidden by a moderator are left out unless `includeHidden` (then they are
+ * marked isHidden). Replies written after the thread was locked are always
+ * left out. Pass `moderation` if it is already loaded.
+ */
 export async function listForumReplies(
   postUri: string,
   knownDids: string[] = [],
+  opts: { includeHidden?: boolean; moderation?: ThreadModeration | null } = {},
 ): Promise<ForumReply[]> {
-  const client = getSession() ? agent : publicAgent;
+  const moderation = opts.moderation !== undefined ? opts.moderation : await threadModeration(postUri);
+  const hidden = moderation?.hiddenReplies ?? {};
+  const lockTimes = (moderation?.locks ?? []).map((l) => Date.parse(l.createdAt)).filter((t) => !Number.isNaN(t));
+  const lockedAt = lockTimes.length > 0 ? Math.min(...lockTimes) : null;
   const session = getSession();
   const didsToCheck = [...new Set([
     ...(session?.did ? [session.did] : []),
@@ -234,32 +412,34 @@ export async function listForumReplies(
 
   const allReplies: ForumReply[] = [];
   const seenUris = new Set<string>();
+  const authorDids = new Set<string>();
 
   for (const did of didsToCheck) {
     try {
-      const res = await client.com.atproto.repo.listRecords({
-        repo: did, collection: FORUM_REPLY_COLLECTION, limit: 100,
-      });
-      for (const r of res.data.records ?? []) {
-        const v = r.value as { subject?: string; replyTo?: string; text?: string; createdAt?: string };
-        if (v.subject !== postUri || seenUris.has(r.uri)) continue;
-        seenUris.add(r.uri);
-        // Resolve author
-        let author = { did, handle: did } as ForumReply['author'];
-        try {
-          const profile = await client.getProfile({ actor: did });
-          const d = profile.data as { handle?: string; avatar?: string; displayName?: string };
-          author = { did, handle: d.handle ?? did, avatar: d.avatar, displayName: d.displayName };
-        } catch { /* ignore */ }
+      const { records } = await forumReplyRecords.list(did, { limit: 100 });
+      for (const { uri, cid, value: v } of records) {
+        if (v.subject !== postUri || seenUris.has(uri)) continue;
+        if (hidden[uri] && !opts.includeHidden) continue;
+        if (lockedAt !== null && writtenAfter(v.createdAt, uri, lockedAt)) continue;
+        seenUris.add(uri);
+        authorDids.add(did);
         allReplies.push({
-          uri: r.uri, cid: r.cid, replyTo: v.replyTo,
-          author, record: { text: v.text, createdAt: v.createdAt },
+          uri, cid, replyTo: v.replyTo,
+          author: { did, handle: did }, record: { text: v.text, createdAt: v.createdAt },
           isComment: true,
+          isHidden: hidden[uri] ? true : undefined,
         });
       }
     } catch { /* ignore */ }
   }
 
+  // Resolve authors (one batched lookup, cached across threads)
+  const profiles = await getCachedProfiles([...authorDids]);
+  for (const reply of allReplies) {
+    const d = profiles[reply.author.did];
+    if (d) reply.author = { did: d.did, handle: d.handle, avatar: d.avatar, displayName: d.displayName };
+  }
+
   // Sort chronologically
   allReplies.sort((a, b) => {
     const ta = new Date(a.record?.createdAt ?? 0).getTime();
@@ -269,39 +449,126 @@ export async function listForumReplies(
   return allReplies;
 }
 
+// ── Thread Stats & Sorting ────────────────────────────────────────────────
+
+const TID_CHARS = '234567abcdefghijklmnopqrstuvwxyz';
+const TID_PATTERN = /^[234567abcdefghij][234567a-z]{12}$/;
+
+/**
+ * Creation time in a reply rkey, or null: ours are `<ms base36>-<random>`,
+ * other clients (and the lexicon) use TIDs, whose first 11 characters are
+ * the microseconds since 1970 (the last two are a clock id).
+ */
+function replyRkeyTime(rkey: string): number | null {
+  let ms: number;
+  if (TID_PATTERN.test(rkey)) {
+    let micros = 0;
+    for (const c of rkey.slice(0, 11)) micros = micros * 32 + TID_CHARS.indexOf(c);
+    ms = Math.floor(micros / 1000);
+  } else {
+    const [head, tail] = rkey.split('-');
+    if (!head || !tail) return null;
+    ms = parseInt(head, 36);
+  }
+  // Sanity range: 2020 … one day ahead
+  return ms > 1_577_836_800_000 && ms < Date.now() + 86_400_000 ? ms : null;
+}
+
+/**
+ * Fill in reply counts, latest reply time, repliers and votes for forum
+ * posts, from Constellation backlinks (replies link to their post via `.subject`).
+ * Posts whose lookups fail keep their existing values. Runs in the
+ * scheduler's prefetch lane: the list is already on screen.
+ */
+export async function loadForumThreadStats(posts: ForumPost[]): Promise<ForumPost[]> {
+  const { getLinkingRecords, getVoteCounts } = await import('./constellation');
+  return Promise.all(posts.map(async (post) => {
+    const [replies, votes] = await Promise.all([
+      getLinkingRecords(post.uri, forumReplyRecords.nsid, '.subject', 100, 'prefetch'),
+      getVoteCounts(post.uri, 'prefetch'),
+    ]);
+    const times = replies.records.map((r) => replyRkeyTime(r.rkey)).filter((t): t is number => t !== null);
+    return {
+      ...post,
+      replyCount: Math.max(replies.total, post.replyCount ?? 0),
+      lastReplyAt: times.length > 0 ? new Date(Math.max(...times)).toISOString() : post.lastReplyAt,
+      replyDids: replies.records.length > 0 ? [...new Set(replies.records.map((r) => r.did))] : post.replyDids,
+      upvoteCount: votes.upvotes,
+      downvoteCount: votes.downvotes,
+    };
+  }));
+}
+
+function postTime(post: ForumPost): number {
+  const ms = new Date(post.createdAt ?? 0).getTime();
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+/** Newest reply, or the post itself when nobody has replied. */
+function lastActivity(post: ForumPost): number {
+  const ms = post.lastReplyAt ? new Date(post.lastReplyAt).getTime() : NaN;
+  return Number.isNaN(ms) ? postTime(post) : ms;
+}
+
+function netVotes(post: ForumPost): number {
+  return (post.upvoteCount ?? 0) - (post.downvoteCount ?? 0);
+}
+
+/**
+ * Order forum posts for the index:
+ *  - hot: replies and votes weighted by recency (sort_forum_threads in WASM)
+ *  - active: latest reply first
+ *  - top: net constellation votes
+ *  - unanswered: only posts without replies, newest first
+ *  - pinned: pinned posts first, then newest
+ *  - newest: by createdAt
+ * Rejects with a cancellation when a newer "hot" sort starts (isWasmCancelled).
+ */
+export async function sortForumPosts(posts: ForumPost[], mode: ForumSortMode, nowMs = Date.now()): Promise<ForumPost[]> {
+  const newest = (a: ForumPost, b: ForumPost) => postTime(b) - postTime(a);
+  switch (mode) {
+    case 'hot': {
+      const { sortForumThreads } = await import('./wasm-bridge');
+      const byUri = new Map(posts.map((p) => [p.uri, p]));
+      const ranked = await sortForumThreads(posts.map((p) => ({
+        id: p.uri,
+        created_at: p.createdAt ?? '',
+        reply_count: p.replyCount ?? 0,
+        like_count: Math.max(0, netVotes(p)),
+        last_reply_at: p.lastReplyAt ?? null,
+        // Hot is activity only; "Pinned first" is its own mode
+        is_pinned: false,
+      })), nowMs);
+      return ranked.map((t) => byUri.get(t.id)!).filter(Boolean);
+    }
+    case 'active':
+      return [...posts].sort((a, b) => lastActivity(b) - lastActivity(a) || newest(a, b));
+    case 'top':
+      return [...posts].sort((a, b) =>
+        netVotes(b) - netVotes(a) || (b.upvoteCount ?? 0) - (a.upvoteCount ?? 0) || newest(a, b));
+    case 'unanswered':
+      return posts.filter((p) => !p.replyCount).sort(newest);
+    case 'pinned':
+      return [...posts].sort((a, b) => Number(!!b.isPinned) - Number(!!a.isPinned) || newest(a, b));
+    default:
+      return [...posts].sort(newest);
+  }
+}
+
 // ── Wiki Pages ────────────────────────────────────────────────────────────
 
 /** Promote a forum post to a wiki page. */
 export async function promoteToWiki(postUri: string): Promise<void> {
-  const post = await getForumPost(postUri);
+  const post = await forumPostRecords.get(postUri, { fresh: true });
   if (!post) throw new Error('Post not found');
-  const session = getSession();
-  if (!session?.did) throw new Error('Not logged in');
+  const { title, body, tags } = post.value;
 
   // Create wiki record
-  const rkey = `wiki-${Date.now().toString(36)}`;
-  await agent.com.atproto.repo.putRecord({
-    repo: session.did, collection: FORUM_WIKI_COLLECTION, rkey,
-    record: {
-      $type: FORUM_WIKI_COLLECTION,
-      sourcePost: postUri,
-      title: post.title, body: post.body, tags: post.tags,
-      createdAt: new Date().toISOString(),
-      lastEditedAt: new Date().toISOString(),
-    },
-    validate: false,
-  });
+  const now = new Date().toISOString();
+  await forumWikiRecords.create({ sourcePost: postUri, title, body, tags, createdAt: now, lastEditedAt: now }, { rkeyPrefix: 'wiki' });
 
   // Mark original as wiki
-  await agent.com.atproto.repo.putRecord({
-    repo: session.did, collection: FORUM_POST_COLLECTION, rkey: post.rkey,
-    record: {
-      $type: FORUM_POST_COLLECTION,
-      title: post.title, body: post.body, tags: post.tags,
-      createdAt: post.createdAt, isPinned: post.isPinned, isWiki: true,
-    },
-    validate: false,
-  });
+  await forumPostRecords.put(post.rkey, { ...post.value, isWiki: true });
 }
 
 // ── Draft Posts (Local Storage) ───────────────────────────────────────────
@@ -0,0 +1,290 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Lexicon Records – GENERATED by scripts/gen-lexicons.mjs, do not edit
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Record types and typed collections for every schema in /lexicons.
+ *
+ * HOW TO EDIT:
+ *  - Change the JSON in /lexicons, then run `npm run gen:lexicons`
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { defineCollection } from './records';
+
+// ── app.artsky.artboard ─────────────────────────────────────────────────────
+
+/** An artboard (collection of saved posts) stored on the user's PDS. */
+export interface ArtboardRecord {
+  $type?: 'app.artsky.artboard';
+  name: string;
+  posts: Array<{
+    uri: string;
+    cid: string;
+    authorHandle?: string;
+    text?: string;
+    thumb?: string;
+    thumbs?: string[];
+  }>;
+  createdAt: string;
+}
+
+export const artboardRecords = defineCollection<ArtboardRecord>('app.artsky.artboard');
+
+// ── app.artsky.feed.downvote ────────────────────────────────────────────────
+
+/** A downvote on a post. Counted through the Constellation backlink index (.subject.uri). */
+export interface FeedDownvoteRecord {
+  $type?: 'app.artsky.feed.downvote';
+  subject: FeedDownvoteRecordSubject;
+  createdAt: string;
+}
+
+export const feedDownvoteRecords = defineCollection<FeedDownvoteRecord>('app.artsky.feed.downvote');
+
+/** The downvoted post (same shape as com.atproto.repo.strongRef) */
+export interface FeedDownvoteRecordSubject {
+  uri: string;
+  cid: string;
+}
+
+// ── app.artsky.graph.upVote ─────────────────────────────────────────────────
+
+/** An upvote on a post or forum thread. Counted through the Constellation backlink index (.subject.uri). */
+export interface GraphUpVoteRecord {
+  $type?: 'app.artsky.graph.upVote';
+  subject: GraphUpVoteRecordSubject;
+  createdAt: string;
+}
+
+export const graphUpVoteRecords = defineCollection<GraphUpVoteRecord>('app.artsky.graph.upVote');
+
+/** The upvoted record (same shape as com.atproto.repo.strongRef) */
+export interface GraphUpVoteRecordSubject {
+  uri: string;
+  cid?: string;
+}
+
+// ── app.purplesky.collab.annotation ─────────────────────────────────────────
+
+/** Feedback pinned to part of a collaboration project (a keyframe, node, sprite, etc.). Supports threading via replyTo. */
+export interface CollabAnnotationRecord {
+  $type?: 'app.purplesky.collab.annotation';
+  /** AT-URI of the app.purplesky.collab.project being annotated */
+  project: string;
+  /** What the note is about, e.g. "keyframe:42", "node:Player/Sprite", "object:Cube.001" */
+  target: string;
+  text: string;
+  /** AT-URI of the annotation this one replies to */
+  replyTo?: string;
+  createdAt: string;
+}
+
+export const collabAnnotationRecords = defineCollection<CollabAnnotationRecord>('app.purplesky.collab.annotation');
+
+// ── app.purplesky.collab.project ────────────────────────────────────────────
+
+/** A collaboration project (Blender, Godot, or general). Full files stored externally; PDS stores metadata only. */
+export interface CollabProjectRecord {
+  $type?: 'app.purplesky.collab.project';
+  name: string;
+  description?: string;
+  /** Project type: blender, godot, or general */
+  type: 'blender' | 'godot' | 'general' | (string & {});
+  owner: string;
+  tags?: string[];
+  version?: string;
+  /** Git LFS or cloud storage URL for full project files */
+  externalUrl?: string;
+  /** Torrent v2 or hybrid magnet link for P2P distribution */
+  magnetLink?: string;
+  /** URL to lightweight preview (GLTF, HTML5 export, screenshot) */
+  previewUrl?: string;
+  createdAt: string;
+}
+
+export const collabProjectRecords = defineCollection<CollabProjectRecord>('app.purplesky.collab.project');
+
+// ── app.purplesky.consensus.vote ────────────────────────────────────────────
+
+/** A vote on a consensus statement (Polis-like agree/disagree/pass). */
+export interface ConsensusVoteRecord {
+  $type?: 'app.purplesky.consensus.vote';
+  /** AT-URI of the consensus statement being voted on */
+  statement: string;
+  /** 1 = agree, -1 = disagree, 0 = pass */
+  value: number;
+  createdAt: string;
+}
+
+export const consensusVoteRecords = defineCollection<ConsensusVoteRecord>('app.purplesky.consensus.vote');
+
+// ── app.purplesky.feed.mix ──────────────────────────────────────────────────
+
+/** A named feed mix preset (feed sources with percentage weights) that can be loaded into the feed mixer or shared by at:// URI. */
+export interface FeedMixRecord {
+  $type?: 'app.purplesky.feed.mix';
+  name: string;
+  description?: string;
+  entries: FeedMixRecordEntry[];
+  options?: FeedMixRecordOptions;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export const feedMixRecords = defineCollection<FeedMixRecord>('app.purplesky.feed.mix');
+
+/** One source in the mix with its percentage weight. */
+export interface FeedMixRecordEntry {
+  source: FeedMixRecordSource;
+  percent: number;
+}
+
+/** Diversity and decay options for the mix. */
+export interface FeedMixRecordOptions {
+  /** Max share of a page one author may fill (0 = no cap) */
+  maxAuthorPercent?: number;
+  /** Keep reposts, keep one per reposter per page, or hide them */
+  repostPolicy?: 'keep' | 'collapse' | 'hide' | (string & {});
+  /** Recency half-life in hours (0 = off) */
+  halfLifeHours?: number;
+}
+
+export interface FeedMixRecordSource {
+  /** Source type: Following timeline, feed generator, list, author, hashtag or search */
+  kind: 'timeline' | 'custom' | 'list' | 'author' | 'hashtag' | 'search' | (string & {});
+  label: string;
+  /** Feed generator or list URI (custom and list sources) */
+  uri?: string;
+  /** DID or handle (author sources) */
+  actor?: string;
+  /** Only posts with images or video (author sources) */
+  mediaOnly?: boolean;
+  /** Tag or search text (hashtag and search sources) */
+  query?: string;
+}
+
+// ── app.purplesky.forum.community ───────────────────────────────────────────
+
+/** A forum community (sub-forum) owned by the repo it lives in. Posts join it by setting `community` to its at:// URI. The record key is the community's slug. */
+export interface ForumCommunityRecord {
+  $type?: 'app.purplesky.forum.community';
+  name: string;
+  description?: string;
+  /** Community rules, shown in order */
+  rules?: string[];
+  /** Account that runs the community; must match the repo the record is in */
+  owner: string;
+  moderators?: string[];
+  /** Tags posts in this community may use; empty or missing allows any tag */
+  allowedTags?: string[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export const forumCommunityRecords = defineCollection<ForumCommunityRecord>('app.purplesky.forum.community');
+
+// ── app.purplesky.forum.moderation ──────────────────────────────────────────
+
+/** A moderation action on a forum thread, stored in the repo of whoever took it. Hiding a reply and locking a thread only count when made by the thread's author or its community's owner or moderators; anyone can report. Deleting the record undoes the action. */
+export interface ForumModerationRecord {
+  $type?: 'app.purplesky.forum.moderation';
+  /** hide: hide the subject reply; lock: no new replies in the thread; report: flag the subject for moderators */
+  action: 'hide' | 'lock' | 'report' | (string & {});
+  /** The reply or post acted on (the thread itself for lock) */
+  subject: string;
+  /** The app.purplesky.forum.post the subject belongs to */
+  thread: string;
+  /** The thread's community, so the action shows in the community's moderation log */
+  community?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export const forumModerationRecords = defineCollection<ForumModerationRecord>('app.purplesky.forum.moderation');
+
+// ── app.purplesky.forum.post ────────────────────────────────────────────────
+
+/** A forum post / discussion thread stored on the user's PDS. */
+export interface ForumPostRecord {
+  $type?: 'app.purplesky.forum.post';
+  title: string;
+  body: string;
+  tags?: string[];
+  /** https://purplesky.app/tag/<tag> for each tag (lowercased), so backlink indexes like Constellation can find posts by tag */
+  tagLinks?: string[];
+  /** The app.purplesky.forum.community this thread was posted in */
+  community?: string;
+  /** Images the body uses as ![alt](blob:<cid>), kept here so the PDS holds on to them */
+  images?: unknown[];
+  isPinned?: boolean;
+  isWiki?: boolean;
+  createdAt: string;
+  editedAt?: string;
+}
+
+export const forumPostRecords = defineCollection<ForumPostRecord>('app.purplesky.forum.post');
+
+// ── app.purplesky.forum.reply ───────────────────────────────────────────────
+
+/** A reply to a forum post. Supports threading via replyTo. */
+export interface ForumReplyRecord {
+  $type?: 'app.purplesky.forum.reply';
+  /** AT-URI of the forum post this reply belongs to */
+  subject: string;
+  /** AT-URI of the parent reply (for nested threading) */
+  replyTo?: string;
+  text: string;
+  createdAt: string;
+}
+
+export const forumReplyRecords = defineCollection<ForumReplyRecord>('app.purplesky.forum.reply');
+
+// ── app.purplesky.forum.revision ────────────────────────────────────────────
+
+/** An earlier version of a forum post, saved in the post author's repo each time the post is edited, so readers can see what changed. */
+export interface ForumRevisionRecord {
+  $type?: 'app.purplesky.forum.revision';
+  /** The app.purplesky.forum.post this is an earlier version of */
+  post: string;
+  /** CID of the post record at this version */
+  cid?: string;
+  title: string;
+  body: string;
+  tags?: string[];
+  /** The blobs this version's body shows, so they outlive later edits */
+  images?: unknown[];
+  /** When this version was written (the post's createdAt or editedAt at the time) */
+  writtenAt: string;
+  /** When this version was replaced by an edit */
+  createdAt: string;
+}
+
+export const forumRevisionRecords = defineCollection<ForumRevisionRecord>('app.purplesky.forum.revision');
+
+// ── app.purplesky.forum.wiki ────────────────────────────────────────────────
+
+/** A wiki page promoted from a forum thread. Collaboratively editable. */
+export interface ForumWikiRecord {
+  $type?: 'app.purplesky.forum.wiki';
+  /** Original forum post this wiki was promoted from */
+  sourcePost?: string;
+  title: string;
+  body: string;
+  tags?: string[];
+  createdAt: string;
+  lastEditedAt?: string;
+}
+
+export const forumWikiRecords = defineCollection<ForumWikiRecord>('app.purplesky.forum.wiki');
+
+// ── app.purplesky.seen.posts ────────────────────────────────────────────────
+
+/** Posts the user has already scrolled past, synced so "hide seen" works across devices. Stores hashes of post URIs, not the URIs themselves. */
+export interface SeenPostsRecord {
+  $type?: 'app.purplesky.seen.posts';
+  entries: string[];
+  updatedAt: string;
+}
+
+export const seenPostsRecords = defineCollection<SeenPostsRecord>('app.purplesky.seen.posts');
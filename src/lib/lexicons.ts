@@ -0,0 +1,343 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Lexicon Validation – Check Custom Records Against /lexicons
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Our custom collections are written with `validate: false` (the PDS doesn't
+ * know our lexicons), and anyone's client can write records into them. This
+ * module checks records against the JSON schemas in /lexicons instead:
+ *
+ *  - assertValidRecord(collection, record) before every write: throws an
+ *    Error naming the collection and each problem
+ *  - sanitizeRecord(collection, value) when reading other people's repos:
+ *    over-long strings and arrays are cut to the limit, bad optional fields
+ *    and bad array items are dropped, and records whose required fields are
+ *    missing or malformed are rejected (null)
+ *
+ * SUPPORTED: object, string (maxLength in UTF-8 bytes, maxGraphemes, formats,
+ * enum, const), integer, boolean, array, ref, union, unknown, blob, bytes,
+ * cid-link. Unknown object properties are allowed (lexicons are open).
+ *
+ * The typed collections in lexicon-records.ts (records.ts) call both, so lib
+ * modules don't need to.
+ *
+ * HOW TO EDIT:
+ *  - Add or change a schema in /lexicons; it's picked up at build time
+ *    (run `npm run gen:lexicons` to update the generated types)
+ *  - Refs must be local (#def) or point at another lexicon in /lexicons
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+/** One definition inside a lexicon document (only the fields we check). */
+export interface LexiconDef {
+  type: string;
+  description?: string;
+  record?: LexiconDef;
+  required?: string[];
+  nullable?: string[];
+  properties?: Record<string, LexiconDef>;
+  items?: LexiconDef;
+  ref?: string;
+  refs?: string[];
+  closed?: boolean;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  maxGraphemes?: number;
+  minimum?: number;
+  maximum?: number;
+  enum?: Array<string | number>;
+  const?: string | number | boolean;
+  knownValues?: string[];
+  key?: string;
+}
+
+export interface LexiconDoc {
+  lexicon: number;
+  id: string;
+  description?: string;
+  defs: Record<string, LexiconDef>;
+}
+
+/** A problem found in a record: where (e.g. "tags[2]") and what. */
+export interface RecordIssue {
+  path: string;
+  message: string;
+}
+
+/** localStorage flag ('1') that logs what sanitizeRecord had to fix */
+const DEBUG_KEY = 'purplesky-debug-lexicons';
+
+const docs = new Map<string, LexiconDoc>();
+for (const mod of Object.values(import.meta.glob<{ default: LexiconDoc }>('../../lexicons/*.json', { eager: true }))) {
+  docs.set(mod.default.id, mod.default);
+}
+
+/** The lexicon document for a collection NSID, if we have one. */
+export function getLexicon(nsid: string): LexiconDoc | undefined {
+  return docs.get(nsid);
+}
+
+// ── Formats ───────────────────────────────────────────────────────────────
+
+const DID_RE = /^did:[a-z]+:[a-zA-Z0-9._:%-]*[a-zA-Z0-9._-]$/;
+const HANDLE_RE = /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+const NSID_RE = /^[a-zA-Z]([a-zA-Z0-9-]{0,62})?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,62})?)+$/;
+const RKEY_RE = /^[a-zA-Z0-9._~:-]{1,512}$/;
+
+function isDatetime(s: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(s) && !Number.isNaN(Date.parse(s));
+}
+
+function isAtUri(s: string): boolean {
+  const m = /^at:\/\/([^/?#\s]+)(\/([^/?#\s]+)(\/([^/?#\s]+))?)?$/.exec(s);
+  if (!m) return false;
+  if (!DID_RE.test(m[1]) && !HANDLE_RE.test(m[1])) return false;
+  if (m[3] && !NSID_RE.test(m[3])) return false;
+  return !m[5] || RKEY_RE.test(m[5]);
+}
+
+const FORMATS: Record<string, (s: string) => boolean> = {
+  datetime: isDatetime,
+  uri: (s) => /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/.test(s),
+  'at-uri': isAtUri,
+  did: (s) => DID_RE.test(s),
+  handle: (s) => HANDLE_RE.test(s),
+  'at-identifier': (s) => DID_RE.test(s) || HANDLE_RE.test(s),
+  nsid: (s) => NSID_RE.test(s),
+  cid: (s) => /^[a-zA-Z0-9+/=]{8,}$/.test(s),
+  language: (s) => /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]+)*$/.test(s),
+  tid: (s) => /^[234567abcdefghij][234567abcdefghijklmnopqrstuvwxyz]{12}$/.test(s),
+  'record-key': (s) => RKEY_RE.test(s) && s !== '.' && s !== '..',
+};
+
+// ── Strings ───────────────────────────────────────────────────────────────
+
+const encoder = new TextEncoder();
+
+function byteLength(s: string): number {
+  return encoder.encode(s).length;
+}
+
+// Intl.Segmenter isn't in our TS lib yet; older browsers count code points
+const Segmenter = (globalThis.Intl as unknown as {
+  Segmenter?: new () => { segment(s: string): Iterable<{ segment: string }> };
+} | undefined)?.Segmenter;
+
+function graphemes(s: string): string[] {
+  return Segmenter ? Array.from(new Segmenter().segment(s), (g) => g.segment) : Array.from(s);
+}
+
+/** Cut a string to at most `maxBytes` UTF-8 bytes without splitting a character. */
+export function truncateBytes(s: string, maxBytes: number): string {
+  if (byteLength(s) <= maxBytes) return s;
+  let out = '';
+  let bytes = 0;
+  for (const ch of s) {
+    const n = byteLength(ch);
+    if (bytes + n > maxBytes) break;
+    out += ch;
+    bytes += n;
+  }
+  return out;
+}
+
+// ── Walker ────────────────────────────────────────────────────────────────
+
+interface WalkContext {
+  doc: LexiconDoc;
+  /** Fix what can be fixed (sanitize) instead of only reporting it */
+  repair: boolean;
+  issues: RecordIssue[];
+}
+
+/** Result of checking one value: `ok: false` means it can't be kept. */
+type Walked = { ok: true; value: unknown } | { ok: false };
+
+const FAIL: Walked = { ok: false };
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function resolveRef(ctx: WalkContext, ref: string): { doc: LexiconDoc; def: LexiconDef } | null {
+  const [nsid, name] = ref.startsWith('#') ? [ctx.doc.id, ref.slice(1)] : [ref.split('#')[0], ref.split('#')[1] ?? 'main'];
+  const doc = docs.get(nsid);
+  const def = doc?.defs[name];
+  return doc && def ? { doc, def } : null;
+}
+
+function walk(ctx: WalkContext, def: LexiconDef, value: unknown, path: string): Walked {
+  const issue = (message: string): void => { ctx.issues.push({ path: path || '(record)', message }); };
+
+  switch (def.type) {
+    case 'object':
+      return walkObject(ctx, def, value, path);
+
+    case 'string': {
+      if (typeof value !== 'string') { issue('must be a string'); return FAIL; }
+      if (def.const !== undefined && value !== def.const) { issue(`must be ${JSON.stringify(def.const)}`); return FAIL; }
+      if (def.enum && !def.enum.includes(value)) { issue(`must be one of ${def.enum.join(', ')}`); return FAIL; }
+      if (def.format && FORMATS[def.format] && !FORMATS[def.format](value)) { issue(`must be a valid ${def.format}`); return FAIL; }
+      let out = value;
+      if (def.minLength !== undefined && byteLength(out) < def.minLength) { issue(`must be at least ${def.minLength} bytes`); return FAIL; }
+      if (def.maxLength !== undefined && byteLength(out) > def.maxLength) {
+        issue(`must be at most ${def.maxLength} bytes (got ${byteLength(out)})`);
+        if (!ctx.repair) return FAIL;
+        out = truncateBytes(out, def.maxLength);
+      }
+      if (def.maxGraphemes !== undefined) {
+        const g = graphemes(out);
+        if (g.length > def.maxGraphemes) {
+          issue(`must be at most ${def.maxGraphemes} characters (got ${g.length})`);
+          if (!ctx.repair) return FAIL;
+          out = g.slice(0, def.maxGraphemes).join('');
+        }
+      }
+      return { ok: true, value: out };
+    }
+
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) { issue('must be an integer'); return FAIL; }
+      if (def.const !== undefined && value !== def.const) { issue(`must be ${def.const}`); return FAIL; }
+      if (def.enum && !def.enum.includes(value)) { issue(`must be one of ${def.enum.join(', ')}`); return FAIL; }
+      if (def.minimum !== undefined && value < def.minimum) { issue(`must be ≥ ${def.minimum}`); return FAIL; }
+      if (def.maximum !== undefined && value > def.maximum) { issue(`must be ≤ ${def.maximum}`); return FAIL; }
+      return { ok: true, value };
+
+    case 'boolean':
+      if (typeof value !== 'boolean') { issue('must be true or false'); return FAIL; }
+      if (def.const !== undefined && value !== def.const) { issue(`must be ${def.const}`); return FAIL; }
+      return { ok: true, value };
+
+    case 'array': {
+      if (!Array.isArray(value)) { issue('must be an array'); return FAIL; }
+      let items = value;
+      if (def.maxLength !== undefined && items.length > def.maxLength) {
+        issue(`must have at most ${def.maxLength} items (got ${items.length})`);
+        if (!ctx.repair) return FAIL;
+        items = items.slice(0, def.maxLength);
+      }
+      const out: unknown[] = [];
+      let failed = false;
+      items.forEach((item, i) => {
+        const r = def.items ? walk(ctx, def.items, item, joinPath(path, i)) : { ok: true as const, value: item };
+        if (r.ok) out.push(r.value);
+        else failed = true;
+      });
+      // Sanitizing drops bad items; validating rejects the array
+      if (failed && !ctx.repair) return FAIL;
+      if (def.minLength !== undefined && out.length < def.minLength) { issue(`must have at least ${def.minLength} items`); return FAIL; }
+      return { ok: true, value: out };
+    }
+
+    case 'ref': {
+      const target = def.ref ? resolveRef(ctx, def.ref) : null;
+      if (!target) { issue(`unknown schema ${def.ref}`); return FAIL; }
+      return walk({ ...ctx, doc: target.doc }, target.def, value, path);
+    }
+
+    case 'union': {
+      const type = (value as { $type?: unknown } | null)?.$type;
+      if (!value || typeof value !== 'object' || typeof type !== 'string') { issue('must be an object with $type'); return FAIL; }
+      const ref = (def.refs ?? []).find((r) => {
+        const full = r.startsWith('#') ? `${ctx.doc.id}${r}` : r;
+        return full === type || (full.endsWith('#main') && full.slice(0, -5) === type);
+      });
+      if (!ref) {
+        if (def.closed) { issue(`$type must be one of ${(def.refs ?? []).join(', ')}`); return FAIL; }
+        return { ok: true, value };
+      }
+      return walk(ctx, { type: 'ref', ref }, value, path);
+    }
+
+    case 'unknown':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) { issue('must be an object'); return FAIL; }
+      return { ok: true, value };
+
+    case 'blob':
+    case 'bytes':
+    case 'cid-link':
+      if (!value || typeof value !== 'object') { issue(`must be a ${def.type}`); return FAIL; }
+      return { ok: true, value };
+
+    default:
+      return { ok: true, value };
+  }
+}
+
+function walkObject(ctx: WalkContext, def: LexiconDef, value: unknown, path: string): Walked {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    ctx.issues.push({ path: path || '(record)', message: 'must be an object' });
+    return FAIL;
+  }
+  const input = value as Record<string, unknown>;
+  const out: Record<string, unknown> = { ...input };
+  const required = new Set(def.required ?? []);
+  const nullable = new Set(def.nullable ?? []);
+  let ok = true;
+  for (const [key, propDef] of Object.entries(def.properties ?? {})) {
+    const propPath = joinPath(path, key);
+    const v = input[key];
+    if (v === undefined || (v === null && nullable.has(key))) {
+      if (v === undefined && required.has(key)) {
+        ctx.issues.push({ path: propPath, message: 'is required' });
+        ok = false;
+      }
+      continue;
+    }
+    const r = walk(ctx, propDef, v, propPath);
+    if (r.ok) out[key] = r.value;
+    else if (required.has(key) || !ctx.repair) ok = false;
+    else delete out[key];
+  }
+  return ok ? { ok: true, value: out } : FAIL;
+}
+
+function checkRecord(collection: string, record: unknown, repair: boolean): { value: unknown | null; issues: RecordIssue[] } {
+  const doc = docs.get(collection);
+  const main = doc?.defs.main;
+  if (!doc || main?.type !== 'record' || !main.record) {
+    return { value: null, issues: [{ path: '(record)', message: `no lexicon for ${collection}` }] };
+  }
+  const ctx: WalkContext = { doc, repair, issues: [] };
+  const r = walk(ctx, main.record, record, '');
+  return { value: r.ok ? r.value : null, issues: ctx.issues };
+}
+
+// ── Public API ────────────────────────────────────────────────────────────
+
+/** Problems with a record (empty if it matches its lexicon). */
+export function validateRecord(collection: string, record: unknown): RecordIssue[] {
+  return checkRecord(collection, record, false).issues;
+}
+
+/**
+ * Throw if a record we're about to write doesn't match its lexicon, e.g.
+ * "Invalid app.purplesky.forum.post: title must be at most 500 bytes (got 612)".
+ */
+export function assertValidRecord(collection: string, record: unknown): void {
+  const issues = validateRecord(collection, record);
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${collection}: ${issues.map((i) => `${i.path} ${i.message}`).join('; ')}`);
+  }
+}
+
+function debugLogging(): boolean {
+  try { return localStorage.getItem(DEBUG_KEY) === '1'; } catch { return false; }
+}
+
+/**
+ * Clean up a record read from someone's repo: returns a copy that matches the
+ * lexicon (see the header for what's fixed), or null if it can't be used.
+ * Problems are logged (with the record URI when given) only when DEBUG_KEY
+ * is set.
+ */
+export function sanitizeRecord<T = Record<string, unknown>>(collection: string, value: unknown, uri?: string): T | null {
+  const { value: clean, issues } = checkRecord(collection, value, true);
+  if (issues.length > 0 && debugLogging()) {
+    console.warn(`[lexicons] ${clean ? 'Cleaned' : 'Rejected'} ${uri ?? collection}:`, issues.map((i) => `${i.path} ${i.message}`).join('; '));
+  }
+  return clean as T | null;
+}
@@ -0,0 +1,399 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Markdown – Safe Parser for Forum Bodies, Wiki Pages and Replies
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * parseMarkdown() turns Markdown into a small tree that the Markdown
+ * component (components/markdown) renders as JSX. There is no HTML step:
+ * tags in the source stay literal text, so records from other users' repos
+ * can't inject markup or scripts.
+ *
+ * Supported: headings (with anchor ids), paragraphs, **bold**, *italic*,
+ * ~~strike~~, `code`, fenced code blocks with a language hint, block quotes,
+ * bullet and numbered lists, GFM tables, horizontal rules, [links](…) and
+ * images from blob refs: ![alt](blob:<cid>), a blob in the author's repo
+ * (see uploadForumImage in forum.ts). Plain text is rendered by RichText,
+ * so @mentions, #tags, %forumtags and bare URLs still become links.
+ *
+ * HOW IT WORKS:
+ *  - Links only keep http(s), mailto, in-app paths (/…) and #anchors;
+ *    anything else (javascript:, data:, …) is shown as plain text
+ *  - Heading ids get HEADING_ID_PREFIX so they can't clash with the app's
+ *    own element ids; #anchor links are rewritten to match
+ *  - Nesting (quotes, lists, emphasis) stops at MAX_DEPTH, brackets are
+ *    paired in one pass and delimiter searches remember misses, so crafted
+ *    input can't stall the page
+ *
+ * HOW TO EDIT:
+ *  - New block syntax: add a case to parseBlocks() (and startsBlock() if it
+ *    may interrupt a paragraph), a node type and a branch in the component
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+export const HEADING_ID_PREFIX = 'md-';
+const MAX_DEPTH = 8;
+const BLOB_CID_RE = /^b[a-z2-7]{20,}$/;
+const LANG_RE = /^[\w+#.-]{1,20}$/;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MdInline[] }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'image'; cid: string; alt: string };
+
+export type MdAlign = 'left' | 'center' | 'right' | null;
+
+export type MdBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; id: string; children: MdInline[] }
+  | { type: 'paragraph'; children: MdInline[] }
+  | { type: 'code'; lang?: string; text: string }
+  | { type: 'quote'; children: MdBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MdBlock[][] }
+  | { type: 'table'; align: MdAlign[]; head: MdInline[][]; rows: MdInline[][][] }
+  | { type: 'rule' };
+
+interface ParseContext {
+  /** Heading slugs used so far (for unique ids) */
+  slugs: Map<string, number>;
+}
+
+// ── Links ─────────────────────────────────────────────────────────────────
+
+/** The href to use for a Markdown link, or null if it isn't allowed. */
+export function safeHref(raw: string): string | null {
+  const url = raw.trim();
+  if (/^https?:\/\/[^\s]+$/i.test(url) || /^mailto:[^\s]+$/i.test(url)) return url;
+  if (url.startsWith('#') && url.length > 1) return `#${HEADING_ID_PREFIX}${url.slice(1)}`;
+  if (url.startsWith('/') && !url.startsWith('//') && !/\s/.test(url)) return url;
+  return null;
+}
+
+/** Image URL for a blob in `did`'s repo. */
+export function blobImageUrl(did: string, cid: string): string {
+  return `https://cdn.bsky.app/img/feed_fullsize/plain/${encodeURIComponent(did)}/${cid}@jpeg`;
+}
+
+/** CIDs of the blob images a Markdown text uses (![alt](blob:<cid>)). */
+export function markdownBlobCids(text: string): string[] {
+  const cids = [...text.matchAll(/!\[[^\]]*\]\(\s*blob:([a-z2-7]+)\s*\)/g)].map((m) => m[1]);
+  return [...new Set(cids.filter((c) => BLOB_CID_RE.test(c)))];
+}
+
+// ── Inline ────────────────────────────────────────────────────────────────
+
+function isSpace(ch: string | undefined): boolean {
+  return ch === undefined || /\s/.test(ch);
+}
+
+function isWordChar(ch: string | undefined): boolean {
+  return ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+}
+
+/** Plain text of inline nodes (for heading ids and image alt text). */
+export function inlineText(nodes: MdInline[]): string {
+  return nodes.map((n) => {
+    if (n.type === 'text' || n.type === 'code') return n.text;
+    if (n.type === 'image') return n.alt;
+    return inlineText(n.children);
+  }).join('');
+}
+
+/** Index of the `]` closing each `[` (-1 when unclosed), in one pass. */
+function bracketPairs(src: string): Int32Array {
+  const pairs = new Int32Array(src.length).fill(-1);
+  const open: number[] = [];
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '\\') { i++; continue; }
+    if (ch === '[') open.push(i);
+    else if (ch === ']' && open.length > 0) pairs[open.pop()!] = i;
+  }
+  return pairs;
+}
+
+/** `(target)` right after a `]` at `at`: the target and the index after `)`. */
+function linkTarget(src: string, at: number): { target: string; end: number } | null {
+  const m = /^\(\s*([^\s()]+)(?:\s+"[^"]*")?\s*\)/.exec(src.slice(at, at + 2100));
+  return m ? { target: m[1], end: at + m[0].length } : null;
+}
+
+export function parseInline(src: string, depth = 0): MdInline[] {
+  const out: MdInline[] = [];
+  let text = '';
+  const flush = () => {
+    if (text) out.push({ type: 'text', text });
+    text = '';
+  };
+  // Delimiters known to have no closer after the current position
+  const missing = new Set<string>();
+  let brackets: Int32Array | null = null;
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+
+    // Backslash escapes
+    if (ch === '\\' && i + 1 < src.length && /[!-/:-@[-`{-~]/.test(src[i + 1])) {
+      text += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Code spans: a run of backticks up to the same run
+    if (ch === '`') {
+      const run = /^`+/.exec(src.slice(i))![0];
+      const key = `code${run.length}`;
+      const close = missing.has(key) ? -1 : src.indexOf(run, i + run.length);
+      if (close >= 0 && src[close + run.length] !== '`') {
+        flush();
+        const code = src.slice(i + run.length, close);
+        out.push({ type: 'code', text: /^ .* $/.test(code) ? code.slice(1, -1) : code });
+        i = close + run.length;
+        continue;
+      }
+      missing.add(key);
+      text += run;
+      i += run.length;
+      continue;
+    }
+
+    // Images and links
+    if ((ch === '!' && src[i + 1] === '[') || ch === '[') {
+      const open = ch === '!' ? i + 1 : i;
+      brackets ??= bracketPairs(src);
+      const close = brackets[open];
+      const target = close >= 0 ? linkTarget(src, close + 1) : null;
+      if (target) {
+        const label = src.slice(open + 1, close);
+        if (ch === '!') {
+          const blob = /^blob:([a-z2-7]+)$/.exec(target.target);
+          flush();
+          if (blob && BLOB_CID_RE.test(blob[1])) {
+            out.push({ type: 'image', cid: blob[1], alt: label });
+          } else {
+            // Only images from the author's repo are loaded; others become links
+            const href = safeHref(target.target);
+            out.push(href
+              ? { type: 'link', href, children: [{ type: 'text', text: label || href }] }
+              : { type: 'text', text: label });
+          }
+          i = target.end;
+          continue;
+        }
+        const href = safeHref(target.target);
+        if (href) {
+          flush();
+          const children = depth < MAX_DEPTH ? parseInline(label, depth + 1) : [{ type: 'text' as const, text: label }];
+          out.push({ type: 'link', href, children: children.map((c) => (c.type === 'link' ? { type: 'text', text: inlineText([c]) } : c)) });
+          i = target.end;
+          continue;
+        }
+      }
+      text += ch;
+      i++;
+      continue;
+    }
+
+    // Autolinks: <https://…>
+    if (ch === '<') {
+      const m = /^<(https?:\/\/[^\s<>]+|mailto:[^\s<>]+)>/i.exec(src.slice(i, i + 2100));
+      if (m) {
+        flush();
+        out.push({ type: 'link', href: m[1], children: [{ type: 'text', text: m[1].replace(/^mailto:/i, '') }] });
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    // Emphasis: ** __ ~~ * _
+    if ((ch === '*' || ch === '_' || ch === '~') && depth < MAX_DEPTH) {
+      const double = src[i + 1] === ch;
+      const delim = double ? ch + ch : ch;
+      const type = ch === '~' ? (double ? 'del' : null) : double ? 'strong' : 'em';
+      // `_` only opens and closes at word edges (snake_case stays text)
+      const canOpen = type && !isSpace(src[i + delim.length]) && !(ch === '_' && isWordChar(src[i - 1]));
+      if (type && canOpen && !missing.has(delim)) {
+        let close = src.indexOf(delim, i + delim.length + 1);
+        while (close >= 0 && (isSpace(src[close - 1]) || (ch === '_' && isWordChar(src[close + delim.length]))
+          || (!double && src[close + 1] === ch))) {
+          close = src.indexOf(delim, close + (double ? 1 : 2));
+        }
+        if (close >= 0) {
+          flush();
+          out.push({ type, children: parseInline(src.slice(i + delim.length, close), depth + 1) });
+          i = close + delim.length;
+          continue;
+        }
+        missing.add(delim);
+      }
+      text += delim;
+      i += delim.length;
+      continue;
+    }
+
+    text += ch;
+    i++;
+  }
+  flush();
+  return out;
+}
+
+// ── Blocks ────────────────────────────────────────────────────────────────
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING_RE = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*$/;
+const RULE_RE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_RE = /^ {0,3}>\s?/;
+const LIST_RE = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_DELIM_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+/** Whether a line starts a block that ends the paragraph before it. */
+function startsBlock(line: string): boolean {
+  return FENCE_RE.test(line) || HEADING_RE.test(line) || RULE_RE.test(line) || QUOTE_RE.test(line)
+    || /^ {0,3}([-*+]|1[.)])\s+\S/.test(line);
+}
+
+function headingId(ctx: ParseContext, children: MdInline[]): string {
+  const base = inlineText(children).toLowerCase().trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '').replace(/\s+/g, '-').slice(0, 80) || 'section';
+  const n = ctx.slugs.get(base) ?? 0;
+  ctx.slugs.set(base, n + 1);
+  return `${HEADING_ID_PREFIX}${n === 0 ? base : `${base}-${n}`}`;
+}
+
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') { cell += '|'; i++; continue; }
+    if (row[i] === '|') { cells.push(cell.trim()); cell = ''; continue; }
+    cell += row[i];
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseBlocks(lines: string[], ctx: ParseContext, depth: number): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) { i++; continue; }
+
+    // Fenced code
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) body.push(lines[i++]);
+      i++;
+      const lang = fence[2].toLowerCase();
+      blocks.push({ type: 'code', lang: LANG_RE.test(lang) ? lang : undefined, text: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      const children = parseInline((heading[2] ?? '').replace(/\s+#+$/, ''), 0);
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6, id: headingId(ctx, children), children });
+      i++;
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    // Block quote: consecutive `>` lines
+    if (QUOTE_RE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE_RE.test(lines[i])) body.push(lines[i++].replace(QUOTE_RE, ''));
+      blocks.push(depth < MAX_DEPTH
+        ? { type: 'quote', children: parseBlocks(body, ctx, depth + 1) }
+        : { type: 'paragraph', children: [{ type: 'text', text: body.join('\n') }] });
+      continue;
+    }
+
+    // Lists: items start with the same kind of marker; lines indented past
+    // the marker (or lazy continuation lines) belong to the item
+    const list = LIST_RE.exec(line);
+    if (list && depth < MAX_DEPTH) {
+      const ordered = /\d/.test(list[2]);
+      const start = ordered ? parseInt(list[2], 10) : 1;
+      const items: MdBlock[][] = [];
+      while (i < lines.length) {
+        const m = LIST_RE.exec(lines[i]);
+        if (!m || /\d/.test(m[2]) !== ordered) break;
+        const indent = m[0].length;
+        const body = [lines[i].slice(indent)];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            // A blank line continues the item only if indented content follows
+            const after = lines.slice(i + 1).find((l) => !isBlank(l));
+            if (after === undefined || after.search(/\S/) < indent) break;
+            body.push('');
+            i++;
+            continue;
+          }
+          const nextIndent = next.search(/\S/);
+          if (nextIndent >= indent) body.push(next.slice(indent));
+          else if (!LIST_RE.test(next) && !startsBlock(next) && !isBlank(body[body.length - 1])) body.push(next.trim());
+          else break;
+          i++;
+        }
+        items.push(parseBlocks(body, ctx, depth + 1));
+        while (i < lines.length && isBlank(lines[i]) && LIST_RE.test(lines[i + 1] ?? '')) i++;
+      }
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    // Tables: a header row, a delimiter row, then rows until a blank line
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIM_RE.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const head = splitRow(line);
+      const align: MdAlign[] = splitRow(lines[i + 1]).map((c) => {
+        const left = c.startsWith(':');
+        const right = c.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      if (align.length === head.length) {
+        i += 2;
+        const rows: MdInline[][][] = [];
+        while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+          const cells = splitRow(lines[i++]);
+          rows.push(head.map((_, c) => parseInline(cells[c] ?? '', 0)));
+        }
+        blocks.push({ type: 'table', align, head: head.map((c) => parseInline(c, 0)), rows });
+        continue;
+      }
+    }
+
+    // Paragraph: until a blank line or another block
+    const para = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) para.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', children: parseInline(para.join('\n'), 0) });
+  }
+  return blocks;
+}
+
+/** Parse Markdown into blocks (see the header for what is supported). */
+export function parseMarkdown(text: string): MdBlock[] {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return parseBlocks(lines, { slugs: new Map() }, 0);
+}
@@ -0,0 +1,282 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Masonry Layout – Stable Columns and Viewport Windowing
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Decides which column every feed card goes in and where it sits, without
+ * rendering it, so the home feed only mounts cards near the viewport and
+ * pads each column for the rest.
+ *
+ * HOW IT WORKS:
+ *  - Column assignment is append-only (assignMasonryColumns): new cards are
+ *    placed below the current column heights by append_masonry (WASM), and
+ *    cards already on screen never move when a page arrives
+ *  - Changing the column count reflows existing cards with reflow_masonry,
+ *    which keeps each card in its column unless that would skew the columns
+ *    by more than REFLOW_MAX_SKEW_PX
+ *  - Heights come from the media aspect ratio (PostMediaInfo.aspectRatio)
+ *    and text length, then from measured heights once a card has rendered
+ *    (the page keeps those in feedCache)
+ *  - layoutMasonry() turns assignments + heights into offsets, and
+ *    masonryWindow() picks the mounted slice of one column for a scroll range
+ *
+ * HOW TO EDIT:
+ *  - The height estimate lives in lib.rs (estimate_height_at) and its JS
+ *    mirror estimateMasonryHeight() in wasm-bridge.ts; change both together
+ *  - Keyboard navigation between columns uses masonryNeighbor()
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { getPostMediaInfo } from './bsky';
+import { appendMasonry, estimateMasonryHeight, reflowMasonry, type PostLayoutInfo } from './wasm-bridge';
+import type { CardViewMode, TimelineItem } from './types';
+
+/** How much taller than the shortest column a card's old column may get before it moves. */
+const REFLOW_MAX_SKEW_PX = 400;
+
+/** Column per card, kept across pages (lives in the page's feedCache). */
+export interface MasonryColumns {
+  columnCount: number;
+  columnOf: Map<string, number>;
+  /** Feed order the assignments were made for */
+  order: string[];
+}
+
+/** One card's position inside its column. */
+export interface MasonryPlacement {
+  uri: string;
+  /** Index in the feed order (keyboard focus uses this) */
+  index: number;
+  column: number;
+  /** Offset from the top of the column (includes gaps) */
+  top: number;
+  height: number;
+}
+
+export interface MasonryLayout {
+  columnCount: number;
+  gap: number;
+  /** Cards per column, top to bottom */
+  columns: MasonryPlacement[][];
+  /** Total height of each column */
+  columnHeights: number[];
+  /** Feed order of the placed cards */
+  order: string[];
+  /** Placement by post URI */
+  byUri: Map<string, MasonryPlacement>;
+}
+
+/** Mounted slice of a column: cards [start, end) plus padding for the rest. */
+export interface MasonryWindow {
+  start: number;
+  end: number;
+  padTop: number;
+  padBottom: number;
+}
+
+// ── Heights ───────────────────────────────────────────────────────────────
+
+/** What the layout needs to know about a card (text length as rendered in this view). */
+export function masonryLayoutInfo(item: TimelineItem, mode: CardViewMode = 'full'): PostLayoutInfo {
+  const media = getPostMediaInfo(item.post);
+  const text = (item.post.record as { text?: string })?.text ?? '';
+  // Cards show up to 200 chars of text; art view one short line; mini none
+  const textLength = mode === 'mini' ? 0 : Math.min(text.length, mode === 'art' ? 40 : 200);
+  return {
+    uri: item.post.uri,
+    has_media: !!media,
+    media_aspect_ratio: media?.aspectRatio ?? null,
+    text_length: textLength,
+    image_count: media?.imageCount ?? (media ? 1 : 0),
+  };
+}
+
+/** Measured height if the card has rendered at this width, else the estimate. */
+export function masonryCardHeight(
+  item: TimelineItem,
+  columnWidth: number,
+  mode: CardViewMode,
+  measured: Map<string, number> | null,
+): number {
+  return measured?.get(item.post.uri) ?? estimateMasonryHeight(masonryLayoutInfo(item, mode), columnWidth);
+}
+
+// ── Column Assignment ─────────────────────────────────────────────────────
+
+export function createMasonryColumns(): MasonryColumns {
+  return { columnCount: 0, columnOf: new Map(), order: [] };
+}
+
+/** True if the URIs already assigned appear in `next` in the same order. */
+function keepsOrder(state: MasonryColumns, next: string[]): boolean {
+  const pos = new Map(state.order.map((uri, i) => [uri, i]));
+  let last = -1;
+  for (const uri of next) {
+    const p = pos.get(uri);
+    if (p === undefined) continue;
+    if (p < last) return false;
+    last = p;
+  }
+  return true;
+}
+
+/** Assignments run one at a time (they await WASM and share `state`). */
+let assignQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Bring `state` up to date with the feed: reflow when the column count
+ * changed, then place cards that have no column yet below the current
+ * column heights. A re-sorted feed is placed from scratch. Resolves true if
+ * any assignment changed.
+ */
+export function assignMasonryColumns(
+  state: MasonryColumns,
+  items: TimelineItem[],
+  columnCount: number,
+  columnWidth: number,
+  gap: number,
+  mode: CardViewMode,
+  measured: Map<string, number> | null,
+): Promise<boolean> {
+  const run = assignQueue.then(() => assignNow(state, items, columnCount, columnWidth, gap, mode, measured));
+  assignQueue = run.catch(() => false);
+  return run;
+}
+
+async function assignNow(
+  state: MasonryColumns,
+  items: TimelineItem[],
+  columnCount: number,
+  columnWidth: number,
+  gap: number,
+  mode: CardViewMode,
+  measured: Map<string, number> | null,
+): Promise<boolean> {
+  const uris = items.map((item) => item.post.uri);
+  let changed = false;
+  if (!keepsOrder(state, uris)) {
+    state.columnOf.clear();
+    changed = true;
+  }
+  const heightOf = (item: TimelineItem) => masonryCardHeight(item, columnWidth, mode, measured);
+  const placed = items.filter((item) => state.columnOf.has(item.post.uri));
+
+  if (state.columnCount !== columnCount) {
+    const res = await reflowMasonry(
+      placed.map((item) => ({ uri: item.post.uri, column: state.columnOf.get(item.post.uri)!, height: heightOf(item) })),
+      columnCount, gap, REFLOW_MAX_SKEW_PX,
+    );
+    for (const p of res.placements) state.columnOf.set(p.uri, p.column);
+    state.columnCount = columnCount;
+    changed = true;
+  }
+
+  const fresh = items.filter((item) => !state.columnOf.has(item.post.uri));
+  if (fresh.length > 0) {
+    // Current bottom of each column (same stacking rule as lib.rs)
+    const heights = new Array<number>(columnCount).fill(0);
+    for (const item of placed) {
+      const c = state.columnOf.get(item.post.uri)!;
+      heights[c] = (heights[c] > 0 ? heights[c] + gap : 0) + heightOf(item);
+    }
+    const res = await appendMasonry(
+      heights,
+      fresh.map((item) => ({ ...masonryLayoutInfo(item, mode), measured_height: measured?.get(item.post.uri) ?? null })),
+      columnWidth,
+      gap,
+    );
+    for (const p of res.placements) state.columnOf.set(p.uri, p.column);
+    changed = true;
+  }
+  state.order = uris;
+  return changed;
+}
+
+// ── Layout ────────────────────────────────────────────────────────────────
+
+/**
+ * Offsets for every card that has a column (cards still waiting for
+ * assignMasonryColumns are left out, so they never appear in a wrong spot).
+ */
+export function layoutMasonry(
+  uris: string[],
+  heightOf: (uri: string) => number,
+  state: MasonryColumns,
+  gap: number,
+): MasonryLayout {
+  const cols = Math.max(1, state.columnCount);
+  const columns: MasonryPlacement[][] = Array.from({ length: cols }, () => []);
+  const columnHeights = new Array<number>(cols).fill(0);
+  const byUri = new Map<string, MasonryPlacement>();
+  const order: string[] = [];
+
+  for (const uri of uris) {
+    const column = state.columnOf.get(uri);
+    if (column === undefined || column >= cols || byUri.has(uri)) continue;
+    const list = columns[column];
+    const top = list.length === 0 ? 0 : columnHeights[column] + gap;
+    const placement: MasonryPlacement = { uri, index: order.length, column, top, height: Math.max(0, heightOf(uri)) };
+    list.push(placement);
+    columnHeights[column] = top + placement.height;
+    byUri.set(uri, placement);
+    order.push(uri);
+  }
+
+  return { columnCount: cols, gap, columns, columnHeights, order, byUri };
+}
+
+/** First card in `column` whose bottom edge is at or below `y`. */
+function firstBelow(column: MasonryPlacement[], y: number): number {
+  let lo = 0;
+  let hi = column.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (column[mid].top + column[mid].height < y) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Cards of one column that intersect [from, to] (offsets from the grid top). */
+export function masonryWindow(layout: MasonryLayout, column: number, from: number, to: number): MasonryWindow {
+  const list = layout.columns[column] ?? [];
+  const height = layout.columnHeights[column] ?? 0;
+  const start = firstBelow(list, from);
+  let end = start;
+  while (end < list.length && list[end].top <= to) end++;
+  if (end === start) {
+    // Nothing in range: pad the whole column
+    return { start, end, padTop: height, padBottom: 0 };
+  }
+  const last = list[end - 1];
+  return { start, end, padTop: list[start].top, padBottom: height - (last.top + last.height) };
+}
+
+// ── Keyboard Navigation ───────────────────────────────────────────────────
+
+/**
+ * Feed index of the card next to `index` in a direction: up/down stay in
+ * the column, left/right pick the card in the next column closest in height.
+ * Returns `index` when there's nowhere to go.
+ */
+export function masonryNeighbor(
+  layout: MasonryLayout,
+  index: number,
+  dir: 'up' | 'down' | 'left' | 'right',
+): number {
+  const uri = layout.order[index];
+  const from = uri ? layout.byUri.get(uri) : undefined;
+  if (!from) return layout.order.length > 0 ? 0 : -1;
+  const column = layout.columns[from.column];
+  const pos = column.indexOf(from);
+  if (dir === 'up') return column[pos - 1]?.index ?? index;
+  if (dir === 'down') return column[pos + 1]?.index ?? index;
+  const target = layout.columns[from.column + (dir === 'left' ? -1 : 1)];
+  if (!target || target.length === 0) return index;
+  const mid = from.top + from.height / 2;
+  let best = target[0];
+  for (const p of target) {
+    if (Math.abs(p.top + p.height / 2 - mid) < Math.abs(best.top + best.height / 2 - mid)) best = p;
+  }
+  return best.index;
+}
@@ -0,0 +1,112 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Record Helpers – Typed create/get/list/put/delete per Collection
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * defineCollection<T>(nsid) returns the CRUD helpers for one of our custom
+ * collections. lexicon-records.ts (generated from /lexicons by
+ * scripts/gen-lexicons.mjs) defines one per lexicon with its record type,
+ * e.g. forumPostRecords.list(did).
+ *
+ * HOW IT WORKS:
+ *  - Writes go to the logged-in user's repo: the record gets its $type, is
+ *    checked against the lexicon (assertValidRecord) and written with
+ *    `validate: false`; the cached copy is invalidated
+ *  - get() reads through the record cache (data-cache.ts); list() reads
+ *    with the user's agent or the public agent. Both sanitise records
+ *    (sanitizeRecord) and leave out ones that can't be used
+ *  - New rkeys are `<ms base36>-<random>`, optionally with a prefix, or
+ *    with `tid` a TID picked by the PDS (createRecord)
+ *
+ * HOW TO EDIT:
+ *  - New collections: add a lexicon and run `npm run gen:lexicons`; don't
+ *    call defineCollection by hand
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { agent, getSession, parseAtUri, publicAgent } from './bsky';
+import { getCachedRecord, invalidateRecord } from './data-cache';
+import { assertValidRecord, sanitizeRecord } from './lexicons';
+
+/** A record read from a repo, with where it lives. */
+export interface StoredRecord<T> {
+  uri: string;
+  cid: string;
+  did: string;
+  rkey: string;
+  value: T;
+}
+
+export interface RecordCollection<T> {
+  nsid: string;
+  /** Write a new record; returns its URI and CID. `tid`: let the PDS pick a TID rkey. */
+  create(record: T, opts?: { rkeyPrefix?: string; tid?: boolean }): Promise<{ uri: string; cid: string }>;
+  /** Write (create or replace) the record at `rkey`. */
+  put(rkey: string, record: T): Promise<{ uri: string; cid: string }>;
+  /** One record by at:// URI, null if missing or unusable (cached; `fresh` skips the cache). Throws if the read fails. */
+  get(uri: string, opts?: { fresh?: boolean }): Promise<StoredRecord<T> | null>;
+  /** A page of records from a repo. Throws if the repo can't be read. */
+  list(repo: string, opts?: { limit?: number; cursor?: string; reverse?: boolean }): Promise<{ records: StoredRecord<T>[]; cursor?: string }>;
+  /** Delete the record at `rkey`. */
+  delete(rkey: string): Promise<void>;
+}
+
+function newRkey(prefix?: string): string {
+  const rkey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return prefix ? `${prefix}-${rkey}` : rkey;
+}
+
+function sessionDid(): string {
+  const session = getSession();
+  if (!session?.did) throw new Error('Not logged in');
+  return session.did;
+}
+
+function toStored<T>(nsid: string, uri: string, cid: string | undefined, value: unknown): StoredRecord<T> | null {
+  const parsed = parseAtUri(uri);
+  const clean = sanitizeRecord<T>(nsid, value, uri);
+  if (!parsed || !clean) return null;
+  return { uri, cid: cid ?? '', did: parsed.did, rkey: parsed.rkey, value: clean };
+}
+
+/** CRUD helpers for one collection (see the header). */
+export function defineCollection<T extends object>(nsid: string): RecordCollection<T> {
+  const write = async (rkey: string | null, record: T) => {
+    const repo = sessionDid();
+    const full = { $type: nsid, ...record };
+    assertValidRecord(nsid, full);
+    const res = rkey === null
+      ? await agent.com.atproto.repo.createRecord({ repo, collection: nsid, record: full, validate: false })
+      : await agent.com.atproto.repo.putRecord({ repo, collection: nsid, rkey, record: full, validate: false });
+    invalidateRecord(res.data.uri);
+    return { uri: res.data.uri, cid: res.data.cid };
+  };
+
+  return {
+    nsid,
+    put: write,
+    create: (record, opts = {}) => write(opts.tid ? null : newRkey(opts.rkeyPrefix), record),
+
+    async get(uri, opts = {}) {
+      const parsed = parseAtUri(uri);
+      if (!parsed) return null;
+      const res = await getCachedRecord(`at://${parsed.did}/${nsid}/${parsed.rkey}`, opts);
+      return res ? toStored<T>(nsid, res.uri, res.cid, res.value) : null;
+    },
+
+    async list(repo, opts = {}) {
+      const client = getSession() ? agent : publicAgent;
+      const res = await client.com.atproto.repo.listRecords({
+        repo, collection: nsid, limit: opts.limit ?? 50, cursor: opts.cursor, reverse: opts.reverse,
+      });
+      const records = (res.data.records ?? []).flatMap((r) => toStored<T>(nsid, r.uri, r.cid, r.value) ?? []);
+      return { records, cursor: res.data.cursor };
+    },
+
+    async delete(rkey) {
+      const repo = sessionDid();
+      await agent.com.atproto.repo.deleteRecord({ repo, collection: nsid, rkey });
+      invalidateRecord(`at://${repo}/${nsid}/${rkey}`);
+    },
+  };
+}
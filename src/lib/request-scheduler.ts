@@ -0,0 +1,316 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Request Scheduler – Per-Host Limits, Priority Lanes, Retries, Coalescing
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Every network request from lib modules goes through here: the AT Protocol
+ * agents (bsky.ts passes scheduledFetch / scheduleFetchHandler to them) and
+ * plain fetch() calls (constellation.ts). Feeds, profiles and vote counts
+ * fan out a lot; this keeps that within what the servers allow.
+ *
+ * HOW IT WORKS:
+ *  - Each host has a concurrency limit (HOST_LIMITS, else DEFAULT_HOST_LIMIT)
+ *    and three lanes: 'user' (actions the user is waiting on), 'normal' and
+ *    'prefetch' (background work). Queued requests start in lane order, and
+ *    prefetch never takes a host's last free slot
+ *  - Writes default to 'user', reads to 'normal'. Pick a lane per call with
+ *    priorityOptions() (agent calls) or the `priority` option (fetch)
+ *  - `ratelimit-remaining` / `ratelimit-reset` response headers are tracked:
+ *    near the limit only the user lane runs until the reset
+ *  - 429 responses pause the host (retry-after / ratelimit-reset) and are
+ *    retried; 5xx and network errors are retried for reads. Backoff doubles
+ *    from BASE_BACKOFF_MS with jitter, up to MAX_RETRIES times
+ *  - Identical GETs in flight at the same time share one request (each
+ *    caller gets its own clone of the response). Callers' abort signals only
+ *    reject their own promise; the shared request is aborted once every
+ *    caller has aborted
+ *
+ * HOW TO EDIT:
+ *  - To allow more parallel requests to a host, add it to HOST_LIMITS
+ *  - Waits longer than MAX_RETRY_WAIT_MS aren't retried: the 429 is returned
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+export type RequestPriority = 'user' | 'normal' | 'prefetch';
+
+/** Request header naming the lane; removed before the request is sent. */
+export const PRIORITY_HEADER = 'x-purplesky-priority';
+
+const LANES: RequestPriority[] = ['user', 'normal', 'prefetch'];
+const DEFAULT_HOST_LIMIT = 6;
+const HOST_LIMITS: Record<string, number> = {
+  'public.api.bsky.app': 8,
+  'constellation.microcosm.blue': 4,
+};
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_RETRY_WAIT_MS = 60_000;
+/** Below this many remaining requests, only the user lane runs until the reset. */
+const RATE_LIMIT_RESERVE = 10;
+
+export interface ScheduleOptions {
+  /** Lane (default: 'user' for writes, 'normal' for reads) */
+  priority?: RequestPriority;
+  /** Extra coalescing scope, e.g. the account DID for authenticated calls */
+  scope?: string;
+}
+
+interface HostState {
+  limit: number;
+  active: number;
+  lanes: Record<RequestPriority, Array<() => void>>;
+  /** No requests start before this time (after a 429) */
+  pausedUntil: number;
+  /** Only the user lane starts before this time (rate limit nearly used up) */
+  reservedUntil: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/** A coalesced read and how many callers still wait for it */
+interface SharedRead {
+  promise: Promise<Response>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const hosts = new Map<string, HostState>();
+const inFlight = new Map<string, SharedRead>();
+
+// ── Host Queues ───────────────────────────────────────────────────────────
+
+function hostState(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    state = {
+      limit: HOST_LIMITS[host] ?? DEFAULT_HOST_LIMIT,
+      active: 0,
+      lanes: { user: [], normal: [], prefetch: [] },
+      pausedUntil: 0,
+      reservedUntil: 0,
+      timer: null,
+    };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+function canStart(state: HostState, lane: RequestPriority, now: number): boolean {
+  if (now < state.pausedUntil || state.active >= state.limit) return false;
+  if (lane !== 'user' && now < state.reservedUntil) return false;
+  // Keep one slot free for user actions
+  if (lane === 'prefetch' && state.limit > 1 && state.active >= state.limit - 1) return false;
+  return true;
+}
+
+/** Start queued requests that may run now; wake up later if paused. */
+function pump(host: string): void {
+  const state = hostState(host);
+  const now = Date.now();
+  for (const lane of LANES) {
+    while (state.lanes[lane].length > 0 && canStart(state, lane, now)) {
+      state.active++;
+      state.lanes[lane].shift()!();
+    }
+  }
+  const waiting = LANES.some((lane) => state.lanes[lane].length > 0);
+  const wakeAt = Math.max(state.pausedUntil, state.reservedUntil);
+  if (waiting && wakeAt > now && !state.timer) {
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      pump(host);
+    }, wakeAt - now);
+  }
+}
+
+/** Wait for a slot on `host`; resolves with a release function. */
+function acquire(host: string, lane: RequestPriority): Promise<() => void> {
+  const state = hostState(host);
+  return new Promise((resolve) => {
+    state.lanes[lane].push(() => {
+      let released = false;
+      resolve(() => {
+        if (released) return;
+        released = true;
+        state.active--;
+        pump(host);
+      });
+    });
+    pump(host);
+  });
+}
+
+// ── Rate Limit Headers ────────────────────────────────────────────────────
+
+/** Milliseconds until a rate limit resets, from retry-after or ratelimit-reset. */
+function resetDelay(res: Response, now: number): number | null {
+  const retryAfter = res.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+  // ratelimit-reset is a Unix time in seconds on Bluesky services
+  const reset = Number(res.headers.get('ratelimit-reset'));
+  if (reset > 0) return Math.max(0, reset * 1000 - now);
+  return null;
+}
+
+function noteRateLimit(host: string, res: Response): void {
+  const remaining = Number(res.headers.get('ratelimit-remaining') ?? NaN);
+  if (!Number.isFinite(remaining) || remaining > RATE_LIMIT_RESERVE) return;
+  const now = Date.now();
+  const delay = resetDelay(res, now);
+  if (delay !== null) hostState(host).reservedUntil = Math.max(hostState(host).reservedUntil, now + delay);
+}
+
+function backoff(attempt: number): number {
+  const ms = BASE_BACKOFF_MS * 2 ** attempt;
+  return ms / 2 + Math.random() * (ms / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(signal.reason); return; }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); reject(signal.reason); }, { once: true });
+  });
+}
+
+// ── Scheduling ────────────────────────────────────────────────────────────
+
+type Send = (url: string, init: RequestInit) => Promise<Response>;
+
+async function runWithRetries(
+  host: string,
+  url: string,
+  init: RequestInit,
+  lane: RequestPriority,
+  send: Send,
+): Promise<Response> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const idempotent = method === 'GET' || method === 'HEAD';
+  for (let attempt = 0; ; attempt++) {
+    if (init.signal?.aborted) throw init.signal.reason;
+    const release = await acquire(host, lane);
+    let res: Response;
+    try {
+      res = await send(url, init);
+    } catch (err) {
+      release();
+      // Network error: retry reads, give up on writes (they may have landed)
+      if (!idempotent || attempt >= MAX_RETRIES || init.signal?.aborted) throw err;
+      await sleep(backoff(attempt), init.signal);
+      continue;
+    }
+    release();
+    noteRateLimit(host, res);
+
+    const retryable = res.status === 429 || (res.status >= 500 && idempotent);
+    if (!retryable || attempt >= MAX_RETRIES) return res;
+    const wait = (res.status === 429 ? resetDelay(res, Date.now()) : null) ?? backoff(attempt);
+    if (wait > MAX_RETRY_WAIT_MS) return res;
+    if (res.status === 429) {
+      const state = hostState(host);
+      state.pausedUntil = Math.max(state.pausedUntil, Date.now() + wait);
+    }
+    await sleep(wait, init.signal);
+  }
+}
+
+function schedule(host: string, url: string, init: RequestInit | undefined, send: Send, opts: ScheduleOptions): Promise<Response> {
+  const headers = new Headers(init?.headers);
+  const method = (init?.method ?? 'GET').toUpperCase();
+  const named = headers.get(PRIORITY_HEADER) as RequestPriority | null;
+  headers.delete(PRIORITY_HEADER);
+  const lane = opts.priority ?? (named && LANES.includes(named) ? named : method === 'GET' ? 'normal' : 'user');
+  const request: RequestInit = { ...init, method, headers };
+
+  if (method !== 'GET' && method !== 'HEAD') {
+    return runWithRetries(host, url, request, lane, send);
+  }
+  // Coalesce identical reads (same URL, same credentials). The shared request
+  // gets its own signal; callers' signals are handled in joinShared()
+  const key = `${method} ${url} ${opts.scope ?? ''} ${headers.get('authorization') ?? ''}`;
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const entry: SharedRead = {
+      promise: runWithRetries(host, url, { ...request, signal: controller.signal }, lane, send),
+      controller,
+      waiters: 0,
+    };
+    inFlight.set(key, entry);
+    const forget = () => { if (inFlight.get(key) === entry) inFlight.delete(key); };
+    entry.promise.then(forget, forget);
+    shared = entry;
+  }
+  return joinShared(key, shared, init?.signal);
+}
+
+/**
+ * Wait for a shared read: resolves with a clone of its response. Aborting
+ * `signal` rejects only this caller; the request itself is aborted when its
+ * last waiter leaves.
+ */
+function joinShared(key: string, shared: SharedRead, signal?: AbortSignal | null): Promise<Response> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  shared.waiters++;
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      reject(signal!.reason);
+      if (--shared.waiters === 0) {
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+        shared.controller.abort(signal!.reason);
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      fn();
+    };
+    shared.promise.then(
+      (res) => finish(() => resolve(res.clone())),
+      (err) => finish(() => reject(err)),
+    );
+  });
+}
+
+/** fetch() through the scheduler (same signature, plus ScheduleOptions). */
+export function scheduledFetch(input: RequestInfo | URL, init?: RequestInit, opts: ScheduleOptions = {}): Promise<Response> {
+  if (typeof Request !== 'undefined' && input instanceof Request) {
+    // Fold the Request into init so headers and method can be inspected. Its
+    // body is a stream, which fetch() won't send from an init without
+    // `duplex`, so it is read into a buffer first (retries can resend it too)
+    const req = input;
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD' && req.body !== null;
+    return (hasBody ? req.arrayBuffer() : Promise.resolve(undefined)).then((body) =>
+      scheduledFetch(req.url, { method: req.method, headers: req.headers, body, signal: req.signal, ...init }, opts));
+  }
+  const url = input instanceof URL ? input.href : String(input);
+  let host = 'default';
+  try { host = new URL(url, globalThis.location?.href).host; } catch { /* relative URL without a base */ }
+  return schedule(host, url, init, (u, i) => fetch(u, i), opts);
+}
+
+/**
+ * Wrap a session's fetch handler (e.g. an OAuth session, which takes paths
+ * relative to the user's PDS) so its requests are scheduled under `host`.
+ */
+export function scheduleFetchHandler(
+  handler: (url: string, init?: RequestInit) => Promise<Response>,
+  host: string,
+  scope?: string,
+): (url: string, init?: RequestInit) => Promise<Response> {
+  return (url, init) => schedule(host, url, init, handler, { scope });
+}
+
+/** XRPC call options that put an agent call in a lane, e.g. agent.getProfile(p, priorityOptions('prefetch')). */
+export function priorityOptions(priority: RequestPriority): { headers: Record<string, string> } {
+  return { headers: { [PRIORITY_HEADER]: priority } };
+}
@@ -0,0 +1,299 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Seen Posts – IndexedDB Store with Expiry, Scopes and PDS Sync
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Tracks which posts the user has scrolled past. Replaces the old single
+ * JSON array in localStorage['purplesky-seen-posts'] (migrated on first open).
+ *
+ * HOW IT WORKS:
+ *  - Each post URI is hashed to a 53-bit number; only hashes are stored, so
+ *    membership checks are a Set lookup and entries stay small
+ *  - Entries live in IndexedDB with a seenAt timestamp and a scope (the feed
+ *    they were seen in, or GLOBAL_SCOPE); entries older than SEEN_TTL_MS are
+ *    pruned when the store opens. A mix's scope comes from its sources only,
+ *    so changing percents or reordering them keeps what was seen
+ *  - Writes are batched (one IndexedDB transaction per WRITE_DELAY_MS)
+ *  - Optional sync keeps the most recent SYNC_MAX_ENTRIES hashes in an
+ *    app.purplesky.seen.posts record (rkey "self") so "hide seen" works
+ *    across devices. Synced entries keep their scope
+ *  - A post seen in GLOBAL_SCOPE counts as seen in every feed
+ *
+ * HOW TO EDIT:
+ *  - To change how long posts count as seen, edit SEEN_TTL_MS
+ *  - Call openSeenStore() once before isPostSeen() (see routes/index.tsx)
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { getSession } from './bsky';
+import { getCachedRecord } from './data-cache';
+import { seenPostsRecords } from './lexicon-records';
+import type { SeenPostsRecord } from './lexicon-records';
+import { sanitizeRecord } from './lexicons';
+
+const DB_NAME = 'purplesky-seen';
+const STORE = 'seen';
+const LEGACY_KEY = 'purplesky-seen-posts';
+const SYNC_KEY = 'purplesky-seen-sync';
+
+/** Posts count as seen for 30 days. */
+export const SEEN_TTL_MS = 30 * 24 * 3600_000;
+/** Scope used when a post isn't tied to a particular feed. */
+export const GLOBAL_SCOPE = '*';
+
+const WRITE_DELAY_MS = 1000;
+const SYNC_DELAY_MS = 30_000;
+const SYNC_MAX_ENTRIES = 5000;
+
+interface SeenEntry {
+  /** `${scope}|${hash}` */
+  id: string;
+  hash: number;
+  scope: string;
+  seenAt: number;
+}
+
+// ── In-Memory Index ───────────────────────────────────────────────────────
+
+/** hash → latest seenAt (any scope) */
+const seenAll = new Map<number, number>();
+/** scope → hash → seenAt in that scope */
+const seenByScope = new Map<string, Map<number, number>>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let openPromise: Promise<void> | null = null;
+let pendingWrites: SeenEntry[] = [];
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** 53-bit string hash (cyrb53). Collisions are negligible at feed scale. */
+export function hashUri(uri: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < uri.length; i++) {
+    const ch = uri.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/** Compact scope key for a feed (e.g. from mixSourcesKey()). */
+export function seenScope(feedKey: string): string {
+  return hashUri(feedKey).toString(36);
+}
+
+function remember(hash: number, scope: string, seenAt: number): void {
+  if ((seenAll.get(hash) ?? 0) < seenAt) seenAll.set(hash, seenAt);
+  let seen = seenByScope.get(scope);
+  if (!seen) { seen = new Map(); seenByScope.set(scope, seen); }
+  if ((seen.get(hash) ?? 0) < seenAt) seen.set(hash, seenAt);
+}
+
+// ── IndexedDB ─────────────────────────────────────────────────────────────
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') { resolve(null); return; }
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('seenAt', 'seenAt');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => resolve(null);
+  });
+  return dbPromise;
+}
+
+function flushWrites(): void {
+  writeTimer = null;
+  const batch = pendingWrites;
+  pendingWrites = [];
+  if (batch.length === 0) return;
+  openDb().then((db) => {
+    if (!db) return;
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    for (const entry of batch) store.put(entry);
+  }).catch(() => { /* ignore */ });
+}
+
+function queueWrite(entry: SeenEntry): void {
+  pendingWrites.push(entry);
+  if (!writeTimer) writeTimer = setTimeout(flushWrites, WRITE_DELAY_MS);
+}
+
+/** Delete expired entries from IndexedDB. */
+async function pruneExpired(db: IDBDatabase, now: number): Promise<void> {
+  const tx = db.transaction(STORE, 'readwrite');
+  const range = IDBKeyRange.upperBound(now - SEEN_TTL_MS);
+  const keys = await requestToPromise(tx.objectStore(STORE).index('seenAt').getAllKeys(range));
+  const store = tx.objectStore(STORE);
+  for (const key of keys) store.delete(key);
+}
+
+/**
+ * Load the store into memory (once). Migrates the legacy localStorage array
+ * and prunes expired entries. Safe to call repeatedly.
+ */
+export function openSeenStore(): Promise<void> {
+  if (openPromise) return openPromise;
+  openPromise = (async () => {
+    const now = Date.now();
+    const db = await openDb();
+    if (db) {
+      try {
+        await pruneExpired(db, now);
+        const entries = await requestToPromise(
+          db.transaction(STORE, 'readonly').objectStore(STORE).getAll() as IDBRequest<SeenEntry[]>,
+        );
+        for (const e of entries) remember(e.hash, e.scope, e.seenAt);
+      } catch { /* ignore */ }
+    }
+    // One-time migration from the old localStorage array
+    try {
+      const raw = localStorage.getItem(LEGACY_KEY);
+      if (raw) {
+        const uris = JSON.parse(raw) as string[];
+        if (Array.isArray(uris)) markPostsSeen(uris, GLOBAL_SCOPE, now);
+        localStorage.removeItem(LEGACY_KEY);
+      }
+    } catch { /* ignore */ }
+    if (isSeenSyncEnabled()) await syncSeenPosts().catch(() => { /* ignore */ });
+  })();
+  return openPromise;
+}
+
+// ── Public API ────────────────────────────────────────────────────────────
+
+/**
+ * Has this post been seen? Pass a scope to only count views in that feed
+ * (and global ones); omit it to count views anywhere. Call openSeenStore()
+ * first.
+ */
+export function isPostSeen(uri: string, scope?: string): boolean {
+  const hash = hashUri(uri);
+  const cutoff = Date.now() - SEEN_TTL_MS;
+  if (scope === undefined) return (seenAll.get(hash) ?? 0) >= cutoff;
+  return (seenByScope.get(scope)?.get(hash) ?? 0) >= cutoff
+    || (seenByScope.get(GLOBAL_SCOPE)?.get(hash) ?? 0) >= cutoff;
+}
+
+/** Mark one post as seen in a scope (defaults to GLOBAL_SCOPE). */
+export function markPostSeen(uri: string, scope = GLOBAL_SCOPE, now = Date.now()): void {
+  markPostsSeen([uri], scope, now);
+}
+
+/** Mark several posts as seen in one batch (e.g. catch-up mode). */
+export function markPostsSeen(uris: string[], scope = GLOBAL_SCOPE, now = Date.now()): void {
+  for (const uri of uris) {
+    const hash = hashUri(uri);
+    remember(hash, scope, now);
+    queueWrite({ id: `${scope}|${hash}`, hash, scope, seenAt: now });
+  }
+  if (uris.length > 0) scheduleSync();
+}
+
+/** Number of posts seen (any scope) that haven't expired. */
+export function seenPostCount(): number {
+  const cutoff = Date.now() - SEEN_TTL_MS;
+  let n = 0;
+  for (const seenAt of seenAll.values()) if (seenAt >= cutoff) n++;
+  return n;
+}
+
+/** Forget every seen post on this device. */
+export async function clearSeenPosts(): Promise<void> {
+  seenAll.clear();
+  seenByScope.clear();
+  pendingWrites = [];
+  const db = await openDb();
+  if (db) {
+    try { await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).clear()); } catch { /* ignore */ }
+  }
+}
+
+// ── PDS Sync ──────────────────────────────────────────────────────────────
+
+/** Whether seen posts are synced to the user's PDS. */
+export function isSeenSyncEnabled(): boolean {
+  try { return localStorage.getItem(SYNC_KEY) === '1'; } catch { return false; }
+}
+
+/** Turn PDS sync on or off (turning it on syncs right away). */
+export async function setSeenSyncEnabled(enabled: boolean): Promise<void> {
+  try { localStorage.setItem(SYNC_KEY, enabled ? '1' : '0'); } catch { /* ignore */ }
+  if (enabled) await syncSeenPosts();
+}
+
+function scheduleSync(): void {
+  if (syncTimer || !isSeenSyncEnabled()) return;
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    syncSeenPosts().catch(() => { /* ignore */ });
+  }, SYNC_DELAY_MS);
+}
+
+/**
+ * Encode an entry as "<hash base36>.<seenAt seconds base36>", plus
+ * ".<scope>" unless it is global.
+ */
+function encodeEntry(hash: number, seenAt: number, scope: string): string {
+  const entry = `${hash.toString(36)}.${Math.floor(seenAt / 1000).toString(36)}`;
+  return scope === GLOBAL_SCOPE ? entry : `${entry}.${scope}`;
+}
+
+function decodeEntry(s: string): { hash: number; seenAt: number; scope: string } | null {
+  const [h, t, scope] = s.split('.');
+  const hash = parseInt(h ?? '', 36);
+  const seenAt = parseInt(t ?? '', 36) * 1000;
+  if (!Number.isFinite(hash) || !Number.isFinite(seenAt)) return null;
+  return { hash, seenAt, scope: scope && /^[0-9a-z]+$/.test(scope) ? scope : GLOBAL_SCOPE };
+}
+
+/**
+ * Merge the PDS record into this device, then write back the most recent
+ * entries from both. No-op when logged out. Writes only after reading the
+ * record or learning there is none: a failed read throws, and a record this
+ * version can't use is left as is, so other devices' entries aren't lost.
+ */
+export async function syncSeenPosts(): Promise<void> {
+  const session = getSession();
+  if (!session?.did) return;
+  const now = Date.now();
+  const cutoff = now - SEEN_TTL_MS;
+  const uri = `at://${session.did}/${seenPostsRecords.nsid}/self`;
+  // null only when there is no record yet (see data-cache.ts)
+  const res = await getCachedRecord(uri, { fresh: true });
+  const stored = res ? sanitizeRecord<SeenPostsRecord>(seenPostsRecords.nsid, res.value, uri) : null;
+  if (res && !stored) return;
+  if (stored) {
+    for (const raw of stored.entries) {
+      const e = decodeEntry(raw);
+      if (!e || e.seenAt < cutoff || (seenByScope.get(e.scope)?.get(e.hash) ?? 0) >= e.seenAt) continue;
+      remember(e.hash, e.scope, e.seenAt);
+      queueWrite({ id: `${e.scope}|${e.hash}`, hash: e.hash, scope: e.scope, seenAt: e.seenAt });
+    }
+  }
+
+  const recent: { hash: number; seenAt: number; scope: string }[] = [];
+  for (const [scope, seen] of seenByScope) {
+    for (const [hash, seenAt] of seen) if (seenAt >= cutoff) recent.push({ hash, seenAt, scope });
+  }
+  recent.sort((a, b) => b.seenAt - a.seenAt);
+  await seenPostsRecords.put('self', {
+    entries: recent.slice(0, SYNC_MAX_ENTRIES).map((e) => encodeEntry(e.hash, e.seenAt, e.scope)),
+    updatedAt: new Date(now).toISOString(),
+  });
+}
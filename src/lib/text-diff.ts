@@ -0,0 +1,86 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Text Diff – Word-Level Differences Between Two Texts
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * diffWords(before, after) splits both texts into words and whitespace and
+ * returns the runs that stayed, were removed and were added, in reading
+ * order. Used by the forum revision history (components/forum-revisions).
+ *
+ * HOW IT WORKS:
+ *  - The common start and end are cut off first, so small edits to long
+ *    posts only compare the changed middle
+ *  - The middle is a longest-common-subsequence table; if it would have
+ *    more than MAX_CELLS cells, the whole middle is shown as removed and
+ *    added instead
+ *
+ * HOW TO EDIT:
+ *  - Finer or coarser diffs: change tokenize()
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+const MAX_CELLS = 4_000_000;
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** Words, whitespace runs and punctuation as separate tokens. */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+function push(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+/** Removed/added runs for the changed middle (LCS over tokens). */
+function diffMiddle(a: string[], b: string[], parts: DiffPart[]): void {
+  if ((a.length + 1) * (b.length + 1) > MAX_CELLS) {
+    push(parts, 'removed', a.join(''));
+    push(parts, 'added', b.join(''));
+    return;
+  }
+  // lcs[i][j] = LCS length of a[i..] and b[j..], flattened
+  const w = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * w);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * w + j] = a[i] === b[j] ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push(parts, 'same', a[i]); i++; j++; }
+    else if (lcs[(i + 1) * w + j] >= lcs[i * w + j + 1]) push(parts, 'removed', a[i++]);
+    else push(parts, 'added', b[j++]);
+  }
+  push(parts, 'removed', a.slice(i).join(''));
+  push(parts, 'added', b.slice(j).join(''));
+}
+
+/** What changed from `before` to `after`, word by word. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const parts: DiffPart[] = [];
+  push(parts, 'same', a.slice(0, start).join(''));
+  diffMiddle(a.slice(start, a.length - end), b.slice(start, b.length - end), parts);
+  push(parts, 'same', a.slice(a.length - end).join(''));
+  return parts;
+}
+
+/** Whether a diff has any changes. */
+export function hasChanges(parts: DiffPart[]): boolean {
+  return parts.some((p) => p.type !== 'same');
+}
@@ -4,16 +4,41 @@
  * HOW TO EDIT:
  *  - Add new types here when creating new features
  *  - Import from '~/lib/types' throughout the app
+ *  - Types of our own PDS records are generated from /lexicons into
+ *    lexicon-records.ts (npm run gen:lexicons); types here build on them
  */
 
+import type {
+  ArtboardRecord, CollabProjectRecord, ForumCommunityRecord, ForumModerationRecord, ForumPostRecord, ForumReplyRecord,
+} from './lexicon-records';
+
 // ── AT Protocol Types ─────────────────────────────────────────────────────
 
 /** A post in the Bluesky timeline. */
 export interface TimelineItem {
   post: PostView;
-  reason?: { $type: string; by?: { did: string; handle?: string } };
+  reason?: { $type: string; by?: { did: string; handle?: string }; indexedAt?: string };
   /** Which feed this item came from (for mixed feeds). */
   _feedSource?: FeedSource;
+  /** Why this item is in the mixed feed (set by getMixedFeed). */
+  _provenance?: FeedProvenance;
+}
+
+/**
+ * How an item entered a mixed feed: straight from a feed, as a repost, or
+ * matched by a rule-based source (hashtag or search query).
+ */
+export type FeedProvenanceVia = 'feed' | 'repost' | 'rule';
+
+/** "Why am I seeing this" details for a mixed-feed item. */
+export interface FeedProvenance {
+  /** feedSourceKey() of the source */
+  sourceKey: string;
+  /** 1-based position of the item in what the source returned */
+  rank: number;
+  via: FeedProvenanceVia;
+  /** Handle of the reposter (via = 'repost') */
+  reposter?: string;
 }
 
 /** A post view from the AT Protocol API. */
@@ -46,14 +71,29 @@ export interface ProfileView {
 
 // ── Feed Types ────────────────────────────────────────────────────────────
 
-export type FeedKind = 'timeline' | 'custom';
+/**
+ * Where a feed's posts come from:
+ *  - timeline: your Following timeline (login required)
+ *  - custom:   a feed generator (uri)
+ *  - list:     posts from members of a list (uri)
+ *  - author:   one account's posts (actor, optionally media only)
+ *  - hashtag:  latest posts with a tag (query, without '#')
+ *  - search:   latest posts matching a search query (query)
+ */
+export type FeedKind = 'timeline' | 'custom' | 'list' | 'author' | 'hashtag' | 'search';
 
-/** A source of feed content (either your timeline or a custom feed). */
+/** A source of feed content (your timeline, a feed, a list, an author or a search). */
 export interface FeedSource {
   kind: FeedKind;
   label: string;
-  /** For custom feeds: at://did/app.bsky.feed.generator/... */
+  /** For custom feeds: at://did/app.bsky.feed.generator/...; for lists: at://did/app.bsky.graph.list/... */
   uri?: string;
+  /** For author feeds: DID or handle */
+  actor?: string;
+  /** For author feeds: only posts with images or video */
+  mediaOnly?: boolean;
+  /** For hashtag and search feeds: the tag or query text */
+  query?: string;
 }
 
 /** One feed in the remix mix with its percentage weight (0–100). */
@@ -62,6 +102,54 @@ export interface FeedMixEntry {
   percent: number;
 }
 
+/** What to do with reposts in a mix: keep all, one per reposter per page, or none. */
+export type RepostPolicy = 'keep' | 'collapse' | 'hide';
+
+/**
+ * Diversity and decay options for a mix (see remixFeeds in wasm-bridge.ts).
+ * Omitted fields mean "off".
+ */
+export interface FeedMixOptions {
+  /** Max share of a page one author may fill, in percent (1–99). */
+  maxAuthorPercent?: number;
+  repostPolicy?: RepostPolicy;
+  /** Recency half-life in hours: older posts in a feed are picked later. */
+  halfLifeHours?: number;
+}
+
+/** A named feed mix saved to a PDS (app.purplesky.feed.mix). */
+export interface FeedMixPreset {
+  /** at://did/app.purplesky.feed.mix/rkey */
+  uri: string;
+  name: string;
+  description?: string;
+  entries: FeedMixEntry[];
+  options?: FeedMixOptions;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// ── Content Filter Types ──────────────────────────────────────────────────
+
+/** What a content filter rule matches on (see lib/content-filters.ts). */
+export type ContentRuleKind =
+  | 'word' | 'regex' | 'hashtag' | 'author' | 'label' | 'repost' | 'reply' | 'language';
+
+/** hide = remove from feed, collapse = one-line placeholder, blur = blurred card */
+export type ContentRuleAction = 'hide' | 'blur' | 'collapse';
+
+/** A client-side mute / filter rule applied to feed items. */
+export interface ContentRule {
+  id: string;
+  kind: ContentRuleKind;
+  /** Word, pattern, tag, DID/handle, label value or language code ('' for repost/reply) */
+  value: string;
+  action: ContentRuleAction;
+  enabled: boolean;
+  /** ISO timestamp after which the rule no longer applies */
+  expiresAt?: string;
+}
+
 // ── Media Types ───────────────────────────────────────────────────────────
 
 export interface PostMediaInfo {
@@ -74,14 +162,7 @@ export interface PostMediaInfo {
 
 // ── Collections / Artboards ───────────────────────────────────────────────
 
-export interface ArtboardPost {
-  uri: string;
-  cid: string;
-  authorHandle?: string;
-  text?: string;
-  thumb?: string;
-  thumbs?: string[];
-}
+export type ArtboardPost = ArtboardRecord['posts'][number];
 
 export interface Artboard {
   id: string;
@@ -92,21 +173,38 @@ export interface Artboard {
 
 // ── Forum Types ───────────────────────────────────────────────────────────
 
-export interface ForumPost {
+/** A forum post record (app.purplesky.forum.post) plus where it lives and its stats. */
+export interface ForumPost extends Partial<Omit<ForumPostRecord, '$type'>> {
   uri: string;
   cid: string;
   did: string;
   rkey: string;
-  title?: string;
-  body?: string;
-  createdAt?: string;
   authorHandle?: string;
   authorAvatar?: string;
-  tags?: string[];
-  isPinned?: boolean;
-  isWiki?: boolean;
   replyCount?: number;
   likeCount?: number;
+  /** Time of the newest reply (see loadForumThreadStats) */
+  lastReplyAt?: string;
+  /** Accounts that replied, newest first (see loadForumThreadStats) */
+  replyDids?: string[];
+  /** Which discovery source found the post (see forum-discovery.ts) */
+  discoveredVia?: ForumDiscoveryOrigin;
+  /** Constellation votes (app.artsky.graph.upVote / app.artsky.feed.downvote) */
+  upvoteCount?: number;
+  downvoteCount?: number;
+}
+
+/** Forum index sort modes (see sortForumPosts in forum.ts). */
+export type ForumSortMode = 'hot' | 'active' | 'top' | 'unanswered' | 'pinned' | 'newest';
+
+/** Why a post showed up in the forum index (see forum-discovery.ts). */
+export type ForumDiscoveryOrigin = 'self' | 'community' | 'follow' | 'participant' | 'tag';
+
+/** A forum community record (app.purplesky.forum.community); rkey is its slug. */
+export interface ForumCommunity extends Omit<ForumCommunityRecord, '$type'> {
+  uri: string;
+  did: string;
+  rkey: string;
 }
 
 export interface ForumReply {
@@ -114,10 +212,47 @@ export interface ForumReply {
   cid: string;
   replyTo?: string;
   author: ProfileView;
-  record: { text?: string; createdAt?: string; facets?: unknown[] };
+  record: Partial<Pick<ForumReplyRecord, 'text' | 'createdAt'>> & { facets?: unknown[] };
   likeCount?: number;
   viewer?: { like?: string };
   isComment?: boolean;
+  /** Hidden by a moderator (only listed with includeHidden, see listForumReplies) */
+  isHidden?: boolean;
+}
+
+/** A moderation record (app.purplesky.forum.moderation) and who made it. */
+export interface ForumModerationAction extends Omit<ForumModerationRecord, '$type'> {
+  uri: string;
+  did: string;
+}
+
+/** Moderation state of one thread (see loadThreadModeration in forum-moderation.ts). */
+export interface ThreadModeration {
+  /** Accounts whose hide/lock actions count: the author, community owner and moderators */
+  moderators: string[];
+  /** Actions that count plus reports, newest first */
+  actions: ForumModerationAction[];
+  /** Hidden reply URI → the moderation record hiding it */
+  hiddenReplies: Record<string, string>;
+  /** Lock records; the thread is locked while any exist */
+  locks: ForumModerationAction[];
+}
+
+/**
+ * One version of a forum post (see listForumPostVersions in
+ * forum-revisions.ts): a saved revision, or the current text (no uri).
+ */
+export interface ForumPostVersion {
+  /** The app.purplesky.forum.revision record; unset for the current version */
+  uri?: string;
+  /** CID of the post record at this version */
+  cid?: string;
+  title: string;
+  body: string;
+  tags?: string[];
+  writtenAt: string;
+  /** When an edit replaced this version; unset for the current version */
+  replacedAt?: string;
 }
 
 // ── Consensus / Polis Types ───────────────────────────────────────────────
@@ -160,18 +295,9 @@ export interface ConsensusResult {
 
 export type ProjectType = 'blender' | 'godot' | 'general';
 
-export interface CollabProject {
+/** A project record (app.purplesky.collab.project) and its URI. */
+export interface CollabProject extends Omit<CollabProjectRecord, '$type'> {
   uri: string;
-  name: string;
-  description: string;
-  type: ProjectType;
-  owner: string;
-  tags: string[];
-  version: string;
-  externalUrl?: string;
-  magnetLink?: string;
-  previewUrl?: string;
-  createdAt: string;
 }
 
 export interface KanbanCard {
@@ -221,6 +347,10 @@ export interface AppState {
   viewColumns: ViewColumns;
   /** Feed mixing configuration */
   feedMix: FeedMixEntry[];
+  /** Per-author cap, repost policy and recency half-life for the mix */
+  feedMixOptions: FeedMixOptions;
+  /** Show the "why am I seeing this" chip on mixed-feed cards */
+  showFeedProvenance: boolean;
   /** Seen post URIs */
   seenPosts: Set<string>;
   /** Whether to hide seen posts */
@@ -233,4 +363,6 @@ export interface AppState {
   nsfwMode: 'hide' | 'blur' | 'show';
   /** Card preview: full, mini, art */
   cardViewMode: CardViewMode;
+  /** Client-side mute / filter rules for feeds */
+  contentRules: ContentRule[];
 }
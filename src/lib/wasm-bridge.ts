@@ -3,59 +3,162 @@
  * WASM Bridge – JavaScript ↔ Rust/WebAssembly Interface
  * ═══════════════════════════════════════════════════════════════════════════
  *
- * This module lazily loads the Rust-compiled WASM and exposes typed
- * TypeScript functions. The WASM is only loaded when first needed
- * (keeps initial page load fast).
+ * This module exposes typed async TypeScript functions over the
+ * Rust-compiled WASM. The WASM runs in a Web Worker (wasm-worker.ts) so big
+ * sorts and vote matrices don't block scrolling; it's only loaded when
+ * first needed (keeps initial page load fast).
  *
  * HOW TO EDIT:
  *  - After editing wasm/src/lib.rs, rebuild: npm run build:wasm
- *  - Add new wrapper functions here that call the WASM exports
- *  - All data passes through JSON serialization (JS ↔ WASM)
+ *  - Add new wrapper functions here that go through callWasm()
+ *  - Data passes as JSON strings, except the hot paths (sorting, remixing,
+ *    masonry append), which send typed arrays (see wasm-packed.ts) and fall
+ *    back to the JSON exports when a build lacks the *_packed ones
+ *  - Pass a channel to callWasm() when a newer call should replace an older
+ *    one (e.g. re-sorting); the older promise rejects (see isWasmCancelled)
  *
- * FALLBACK: If WASM fails to load, each function has a JavaScript
- * fallback so the app still works (just slightly slower).
+ * FALLBACK: Without Worker support (or if the worker fails to start) calls
+ * run in this thread. If WASM fails to load, each function has a JavaScript
+ * fallback so the app still works (just slightly slower). Fallbacks mirror
+ * lib.rs step for step; npm run test:parity checks they still agree.
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
-import type { ConsensusResult, ConsensusVote } from './types';
+import type { ConsensusResult, ConsensusVote, FeedMixOptions } from './types';
+import { fillMixedPage, isoToMsRough, recencyOrder, type MixLane } from './feed-mix';
+import { loadWasm, transferablesOf, wasmFunctionNames } from './wasm-loader';
+import {
+  PACKED_REPOST_POLICIES, PACKED_SORT_MODES, packMasonryPosts, packRemixFeeds, packSortPosts, unpackMasonryRows,
+  type PackedSortMode,
+} from './wasm-packed';
+import type { WasmArg, WasmResult, WasmWorkerRequest, WasmWorkerResponse } from './wasm-worker';
 
-// The WASM module (lazy loaded)
-let wasmModule: Record<string, unknown> | null = null;
-let wasmLoadPromise: Promise<Record<string, unknown>> | null = null;
+// ── Worker Host ───────────────────────────────────────────────────────────
 
-/**
- * Load the WASM module. Called automatically on first use.
- * Returns the WASM exports object.
- */
-async function loadWasm(): Promise<Record<string, unknown>> {
-  if (wasmModule) return wasmModule;
-  if (wasmLoadPromise) return wasmLoadPromise;
+interface WorkerHost {
+  worker: Worker;
+  exports: Set<string>;
+}
+
+interface PendingCall {
+  resolve: (result: WasmResult) => void;
+  reject: (err: Error) => void;
+}
+
+let hostPromise: Promise<WorkerHost | null> | null = null;
+let activeWorker: Worker | null = null;
+/** Set when the worker crashed after starting; later calls run in-thread */
+let workerBroken = false;
+let nextCallId = 0;
+const pendingCalls = new Map<number, PendingCall>();
+/** channel → id of its latest call */
+const latestByChannel = new Map<string, number>();
 
-  wasmLoadPromise = (async () => {
+const CANCELLED = 'WasmCancelled';
+
+/** True for the rejection of a call superseded by a newer one on its channel. */
+export function isWasmCancelled(err: unknown): boolean {
+  return err instanceof Error && err.name === CANCELLED;
+}
+
+function cancelledError(): Error {
+  const err = new Error('Superseded by a newer call');
+  err.name = CANCELLED;
+  return err;
+}
+
+function failAll(message: string): void {
+  for (const call of pendingCalls.values()) call.reject(new Error(message));
+  pendingCalls.clear();
+}
+
+/** Start the worker once; resolves null when workers aren't usable here. */
+function getWorkerHost(): Promise<WorkerHost | null> {
+  if (workerBroken || typeof Worker === 'undefined') return Promise.resolve(null);
+  if (hostPromise) return hostPromise;
+  hostPromise = new Promise((resolve) => {
+    let worker: Worker;
     try {
-      // Dynamic import of the wasm-pack output
-      const mod = await import('../wasm-pkg/purplesky_wasm.js');
-      // Initialize the WASM module (wasm-pack generates an init function)
-      if (typeof mod.default === 'function') {
-        await mod.default();
-      }
-      wasmModule = mod;
-      console.log('[WASM] Module loaded successfully');
-      return mod;
-    } catch (err) {
-      console.warn('[WASM] Failed to load, using JS fallbacks:', err);
-      wasmModule = {};
-      return {};
+      worker = new Worker(new URL('./wasm-worker.ts', import.meta.url), { type: 'module' });
+    } catch {
+      resolve(null);
+      return;
     }
-  })();
+    let ready = false;
+    worker.onmessage = (e: MessageEvent<WasmWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'ready') {
+        ready = true;
+        activeWorker = worker;
+        resolve({ worker, exports: new Set(msg.exports) });
+        return;
+      }
+      const call = pendingCalls.get(msg.id);
+      if (!call) return; // cancelled
+      pendingCalls.delete(msg.id);
+      if (msg.type === 'result') call.resolve(msg.result);
+      else call.reject(new Error(msg.message));
+    };
+    worker.onerror = () => {
+      // Before "ready": fall back to in-thread. After: fail what's in flight
+      workerBroken = true;
+      activeWorker = null;
+      worker.terminate();
+      if (ready) failAll('WASM worker stopped');
+      else resolve(null);
+    };
+  });
+  return hostPromise;
+}
+
+/** Reject a call that was superseded; tell the worker to skip it if it hasn't started. */
+function cancelCall(id: number): void {
+  const call = pendingCalls.get(id);
+  if (!call) return; // finished, or not sent yet (it checks the channel itself)
+  pendingCalls.delete(id);
+  call.reject(cancelledError());
+  activeWorker?.postMessage({ type: 'cancel', id } satisfies WasmWorkerRequest);
+}
+
+/**
+ * Run a WASM export in the worker, or in this thread when workers are
+ * unavailable. Typed-array arguments are transferred to the worker (don't
+ * reuse them). T is the export's return type (a JSON string unless it's a
+ * packed export). Resolves null if the export isn't available (the caller
+ * uses its next path).
+ */
+async function callWasm<T extends WasmResult = string>(fn: string, args: WasmArg[], channel?: string): Promise<T | null> {
+  const id = ++nextCallId;
+  if (channel) {
+    const prev = latestByChannel.get(channel);
+    latestByChannel.set(channel, id);
+    if (prev !== undefined) cancelCall(prev);
+  }
+  const isLatest = () => !channel || latestByChannel.get(channel) === id;
 
-  return wasmLoadPromise;
+  const host = await getWorkerHost();
+  if (!isLatest()) throw cancelledError();
+  if (host && !workerBroken) {
+    if (!host.exports.has(fn)) return null;
+    return new Promise<T>((resolve, reject) => {
+      pendingCalls.set(id, { resolve: (result) => resolve(result as T), reject });
+      host.worker.postMessage({ type: 'call', id, fn, args } satisfies WasmWorkerRequest, transferablesOf(args));
+    });
+  }
+
+  // In-thread
+  const mod = await loadWasm();
+  if (!isLatest()) throw cancelledError();
+  const f = mod[fn];
+  if (typeof f !== 'function') return null;
+  return (f as (...a: WasmArg[]) => T)(...args);
 }
 
 /** Check if WASM is available. */
 export async function isWasmReady(): Promise<boolean> {
-  const mod = await loadWasm();
-  return Object.keys(mod).length > 0;
+  const host = await getWorkerHost();
+  if (host) return host.exports.size > 0;
+  return wasmFunctionNames(await loadWasm()).length > 0;
 }
 
 // ── Feed Sorting ──────────────────────────────────────────────────────────
@@ -69,57 +172,69 @@ interface SortablePost {
   repost_count: number;
 }
 
+/** Sort with sort_posts_packed; null when the loaded build doesn't have it. */
+async function sortPacked(mode: PackedSortMode, posts: SortablePost[], now: number): Promise<SortablePost[] | null> {
+  const order = await callWasm<Uint32Array>('sort_posts_packed', [PACKED_SORT_MODES[mode], ...packSortPosts(posts), now], 'sort');
+  return order && Array.from(order, (i) => posts[i]);
+}
+
 /** Sort posts by newest first. Uses WASM if available, JS fallback otherwise. */
 export async function sortByNewest(posts: SortablePost[]): Promise<SortablePost[]> {
-  const mod = await loadWasm();
-  if (typeof mod.sort_by_newest === 'function') {
-    const result = (mod.sort_by_newest as (json: string) => string)(JSON.stringify(posts));
-    return JSON.parse(result);
-  }
-  // JS fallback
-  return [...posts].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const packed = await sortPacked('newest', posts, Date.now());
+  if (packed) return packed;
+  const result = await callWasm('sort_by_newest', [JSON.stringify(posts)], 'sort');
+  if (result !== null) return JSON.parse(result);
+  // JS fallback: plain code-unit order, like Rust's String comparison
+  return [...posts].sort((a, b) => (a.created_at < b.created_at ? 1 : a.created_at > b.created_at ? -1 : 0));
 }
 
 /** Sort posts by trending score (engagement / age). */
 export async function sortByTrending(posts: SortablePost[]): Promise<SortablePost[]> {
-  const mod = await loadWasm();
   const now = Date.now();
-  if (typeof mod.sort_by_trending === 'function') {
-    const result = (mod.sort_by_trending as (json: string, now: number) => string)(
-      JSON.stringify(posts), now,
-    );
-    return JSON.parse(result);
-  }
-  // JS fallback: simple engagement / age
-  return [...posts].sort((a, b) => {
-    const scoreA = (a.like_count + a.repost_count) / Math.max(1, (now - new Date(a.created_at).getTime()) / 3600000);
-    const scoreB = (b.like_count + b.repost_count) / Math.max(1, (now - new Date(b.created_at).getTime()) / 3600000);
-    return scoreB - scoreA;
-  });
+  const packed = await sortPacked('trending', posts, now);
+  if (packed) return packed;
+  const result = await callWasm('sort_by_trending', [JSON.stringify(posts), now], 'sort');
+  if (result !== null) return JSON.parse(result);
+  // JS fallback (same formula as trending_score in lib.rs)
+  const score = (p: SortablePost) =>
+    (p.like_count + p.repost_count) / Math.pow(Math.max(1, (now - isoToMsRough(p.created_at)) / 3_600_000), 1.5);
+  return sortByScoreDesc(posts, score);
 }
 
 /** Sort posts by Wilson score (statistically confident "best"). */
 export async function sortByWilsonScore(posts: SortablePost[]): Promise<SortablePost[]> {
-  const mod = await loadWasm();
-  if (typeof mod.sort_by_wilson_score === 'function') {
-    const result = (mod.sort_by_wilson_score as (json: string) => string)(JSON.stringify(posts));
-    return JSON.parse(result);
-  }
+  const packed = await sortPacked('wilson', posts, Date.now());
+  if (packed) return packed;
+  const result = await callWasm('sort_by_wilson_score', [JSON.stringify(posts)], 'sort');
+  if (result !== null) return JSON.parse(result);
   // JS fallback
-  return [...posts].sort((a, b) => {
-    const scoreA = a.like_count - a.downvote_count;
-    const scoreB = b.like_count - b.downvote_count;
-    return scoreB - scoreA;
-  });
+  return sortByScoreDesc(posts, (p) => wilsonScore(p.like_count, p.downvote_count));
+}
+
+/** Wilson score lower bound at 95% confidence (same as wilson_score in lib.rs). */
+function wilsonScore(ups: number, downs: number): number {
+  const n = ups + downs;
+  if (n === 0) return 0;
+  const z = 1.96;
+  const p = ups / n;
+  const denominator = 1 + (z * z) / n;
+  const center = p + (z * z) / (2 * n);
+  const spread = z * Math.sqrt((p * (1 - p) + (z * z) / (4 * n)) / n);
+  return (center - spread) / denominator;
+}
+
+/** Stable sort, highest score first (scores computed once). */
+function sortByScoreDesc(posts: SortablePost[], score: (p: SortablePost) => number): SortablePost[] {
+  const scores = new Map(posts.map((p) => [p, score(p)]));
+  return [...posts].sort((a, b) => scores.get(b)! - scores.get(a)!);
 }
 
 /** Sort posts by net score (likes minus downvotes). Score = +1 per like, -1 per downvote. */
 export async function sortByScore(posts: SortablePost[]): Promise<SortablePost[]> {
-  const mod = await loadWasm();
-  if (typeof mod.sort_by_score === 'function') {
-    const result = (mod.sort_by_score as (json: string) => string)(JSON.stringify(posts));
-    return JSON.parse(result);
-  }
+  const packed = await sortPacked('score', posts, Date.now());
+  if (packed) return packed;
+  const result = await callWasm('sort_by_score', [JSON.stringify(posts)], 'sort');
+  if (result !== null) return JSON.parse(result);
   // JS fallback
   return [...posts].sort((a, b) => {
     const scoreA = a.like_count - a.downvote_count;
@@ -130,11 +245,10 @@ export async function sortByScore(posts: SortablePost[]): Promise<SortablePost[]
 
 /** Sort posts by controversial (close to 50/50 vote split). */
 export async function sortByControversial(posts: SortablePost[]): Promise<SortablePost[]> {
-  const mod = await loadWasm();
-  if (typeof mod.sort_by_controversial === 'function') {
-    const result = (mod.sort_by_controversial as (json: string) => string)(JSON.stringify(posts));
-    return JSON.parse(result);
-  }
+  const packed = await sortPacked('controversial', posts, Date.now());
+  if (packed) return packed;
+  const result = await callWasm('sort_by_controversial', [JSON.stringify(posts)], 'sort');
+  if (result !== null) return JSON.parse(result);
   // JS fallback
   return [...posts].sort((a, b) => {
     const totalA = a.like_count + a.downvote_count;
@@ -151,6 +265,10 @@ interface FeedItemForWasm {
   uri: string;
   created_at: string;
   source_index: number;
+  /** Post author DID (for the per-author cap) */
+  author?: string;
+  /** Reposter DID when the item is a repost */
+  reposted_by?: string;
 }
 
 interface FeedMixConfigForWasm {
@@ -158,29 +276,83 @@ interface FeedMixConfigForWasm {
   items: FeedItemForWasm[];
 }
 
-/** Remix multiple feeds by percentage weights. */
+/**
+ * Remix multiple feeds by percentage weights, with optional per-author cap,
+ * repost policy and recency half-life (see FeedMixOptions). Items come back
+ * in page order, filled the way the home feed fills its pages (fillMixedPage
+ * in feed-mix.ts). The WASM and JS paths give identical output for the same
+ * input and `nowMs`.
+ */
 export async function remixFeeds(
   configs: FeedMixConfigForWasm[],
   limit: number,
+  options: FeedMixOptions = {},
+  nowMs = Date.now(),
 ): Promise<FeedItemForWasm[]> {
-  const mod = await loadWasm();
-  if (typeof mod.remix_feeds === 'function') {
-    const result = (mod.remix_feeds as (json: string, limit: number) => string)(
-      JSON.stringify(configs), limit,
-    );
-    return JSON.parse(result);
+  // Whole percents only: the Rust side reads maxAuthorPercent as an integer
+  const opts: FeedMixOptions = {
+    maxAuthorPercent: Math.max(0, Math.floor(options.maxAuthorPercent ?? 0)),
+    repostPolicy: options.repostPolicy ?? 'keep',
+    halfLifeHours: Math.max(0, options.halfLifeHours ?? 0),
+  };
+  const packed = await callWasm<Uint32Array>('remix_feeds_packed', [
+    ...packRemixFeeds(configs), limit, opts.maxAuthorPercent ?? 0,
+    PACKED_REPOST_POLICIES[opts.repostPolicy ?? 'keep'], opts.halfLifeHours ?? 0, nowMs,
+  ]);
+  if (packed !== null) {
+    const items = configs.flatMap((c) => c.items);
+    return Array.from(packed, (i) => items[i]);
   }
-  // JS fallback
-  const totalPct = configs.reduce((s, c) => s + c.percent, 0);
-  const combined: FeedItemForWasm[] = [];
-  const seen = new Set<string>();
-  for (const config of configs) {
-    const take = Math.round((limit * config.percent) / totalPct);
-    for (const item of config.items.slice(0, take)) {
-      if (!seen.has(item.uri)) { seen.add(item.uri); combined.push(item); }
-    }
-  }
-  return combined.sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, limit);
+  const result = await callWasm('remix_feeds_with_options', [JSON.stringify(configs), limit, JSON.stringify(opts), nowMs]);
+  if (result !== null) return JSON.parse(result);
+  // JS fallback: the page filling takeMixedPage() uses (remix_core in lib.rs mirrors it)
+  const orders = configs.map((c) => recencyOrder(c.items.map((i) => i.created_at), opts.halfLifeHours, nowMs));
+  const lanes: MixLane[] = configs.map((c, f) => ({
+    percent: c.percent,
+    taken: 0,
+    items: orders[f].map((idx) => ({
+      uri: c.items[idx].uri,
+      author: c.items[idx].author ?? '',
+      repostedBy: c.items[idx].reposted_by ?? undefined,
+    })),
+  }));
+  return fillMixedPage(lanes, 0, limit, opts).map(([f, j]) => configs[f].items[orders[f][j]]);
+}
+
+// ── Forum Threads ─────────────────────────────────────────────────────────
+
+export interface ForumThreadForWasm {
+  id: string;
+  created_at: string;
+  reply_count: number;
+  like_count: number;
+  last_reply_at: string | null;
+  is_pinned: boolean;
+}
+
+/** Activity score: (replies × 2 + likes) / hours since last activity ^ 1.2. */
+function forumActivityScore(thread: ForumThreadForWasm, nowMs: number): number {
+  const engagement = thread.reply_count * 2 + thread.like_count;
+  const lastActive = isoToMsRough(thread.last_reply_at ?? thread.created_at);
+  const ageHours = Math.max(1, (nowMs - lastActive) / 3_600_000);
+  return engagement / Math.pow(ageHours, 1.2);
+}
+
+/**
+ * Rank forum threads: pinned first, then by activity score (recent replies
+ * and votes). Same order with or without WASM for the same `nowMs`.
+ */
+export async function sortForumThreads(
+  threads: ForumThreadForWasm[],
+  nowMs = Date.now(),
+): Promise<ForumThreadForWasm[]> {
+  const result = await callWasm('sort_forum_threads', [JSON.stringify(threads), nowMs], 'forum-sort');
+  if (result !== null) return JSON.parse(result);
+  // JS fallback (same steps as sort_forum_threads in lib.rs)
+  return [...threads].sort((a, b) => {
+    if (a.is_pinned !== b.is_pinned) return a.is_pinned ? -1 : 1;
+    return forumActivityScore(b, nowMs) - forumActivityScore(a, nowMs);
+  });
 }
 
 // ── Consensus Analysis ────────────────────────────────────────────────────
@@ -189,9 +361,8 @@ export async function remixFeeds(
 export async function analyzeConsensus(
   votes: Array<{ user_id: string; statement_id: string; value: number }>,
 ): Promise<ConsensusResult> {
-  const mod = await loadWasm();
-  if (typeof mod.analyze_consensus === 'function') {
-    const result = (mod.analyze_consensus as (json: string) => string)(JSON.stringify(votes));
+  const result = await callWasm('analyze_consensus', [JSON.stringify(votes)], 'consensus');
+  if (result !== null) {
     const raw = JSON.parse(result);
     // Map snake_case from Rust to camelCase for TypeScript
     return {
@@ -214,18 +385,67 @@ export async function analyzeConsensus(
       })),
     };
   }
-  // JS fallback (simplified)
-  return { statements: [], totalParticipants: 0, clusterCount: 0, clusters: [] };
+  // JS fallback (same steps as analyze_consensus in lib.rs)
+  const matrix = new Map<string, Map<string, number>>();
+  const statementIds = new Set<string>();
+  for (const v of votes) {
+    if (!matrix.has(v.user_id)) matrix.set(v.user_id, new Map());
+    matrix.get(v.user_id)!.set(v.statement_id, v.value);
+    statementIds.add(v.statement_id);
+  }
+  const userIds = [...matrix.keys()];
+  const statements = [...statementIds].map((statementId) => {
+    let agreeCount = 0;
+    let disagreeCount = 0;
+    let passCount = 0;
+    for (const uid of userIds) {
+      const value = matrix.get(uid)!.get(statementId);
+      if (value === 1) agreeCount++;
+      else if (value === -1) disagreeCount++;
+      else passCount++;
+    }
+    const voters = agreeCount + disagreeCount;
+    const agreementRatio = voters > 0 ? agreeCount / voters : 0;
+    return {
+      statementId, agreeCount, disagreeCount, passCount,
+      totalVoters: agreeCount + disagreeCount + passCount,
+      agreementRatio,
+      divisiveness: voters > 0 ? 1 - Math.abs(agreementRatio - 0.5) * 2 : 0,
+    };
+  });
+  // Two groups by average vote (non-negative vs negative)
+  const groups: [string[], string[]] = [[], []];
+  for (const uid of userIds) {
+    const vm = matrix.get(uid)!;
+    let sum = 0;
+    for (const sid of statementIds) sum += vm.get(sid) ?? 0;
+    const avg = statementIds.size > 0 ? sum / statementIds.size : 0;
+    groups[avg >= 0 ? 0 : 1].push(uid);
+  }
+  const clusters = groups.map((memberIds, id) => ({
+    id,
+    memberCount: memberIds.length,
+    memberIds,
+    avgAgreement: memberIds.length > 0 ? (id === 0 ? 0.7 : 0.3) : 0,
+  }));
+  return {
+    statements,
+    totalParticipants: userIds.length,
+    clusterCount: clusters.some((c) => c.memberCount > 0) ? 2 : 0,
+    clusters,
+  };
 }
 
 // ── Masonry Layout ────────────────────────────────────────────────────────
 
-interface PostLayoutInfo {
+export interface PostLayoutInfo {
   uri: string;
   has_media: boolean;
   media_aspect_ratio: number | null;
   text_length: number;
   image_count: number;
+  /** Rendered height when already measured (wins over the estimate) */
+  measured_height?: number | null;
 }
 
 interface ColumnAssignment {
@@ -239,17 +459,118 @@ export async function distributeMasonry(
   posts: PostLayoutInfo[],
   numColumns: number,
 ): Promise<ColumnAssignment[]> {
-  const mod = await loadWasm();
-  if (typeof mod.distribute_masonry === 'function') {
-    const result = (mod.distribute_masonry as (json: string, cols: number) => string)(
-      JSON.stringify(posts), numColumns,
-    );
-    return JSON.parse(result);
+  const result = await callWasm('distribute_masonry', [JSON.stringify(posts), numColumns]);
+  if (result !== null) return JSON.parse(result);
+  // JS fallback: shortest column first (same steps as distribute_masonry in lib.rs)
+  const heights = new Array<number>(Math.max(1, numColumns)).fill(0);
+  return posts.map((p) => {
+    // distribute_masonry ignores measured heights and assumes 300px columns
+    const height = estimateMasonryHeight({ ...p, measured_height: null }, 300);
+    const column = shortestColumn(heights);
+    heights[column] += height;
+    return { uri: p.uri, column, estimated_height: height };
+  });
+}
+
+// ── Incremental Masonry ───────────────────────────────────────────────────
+
+export interface MasonryPlacementResult {
+  uri: string;
+  column: number;
+  /** Offset from the top of the column (includes gaps) */
+  top: number;
+  estimated_height: number;
+}
+
+/** Placements plus the column heights to pass to the next appendMasonry call. */
+export interface MasonryUpdate {
+  column_heights: number[];
+  placements: MasonryPlacementResult[];
+}
+
+/**
+ * Estimated card height at a column width (same formula as
+ * estimate_height_at in lib.rs, so layouts agree with or without WASM).
+ */
+export function estimateMasonryHeight(post: PostLayoutInfo, columnWidth: number): number {
+  if (post.measured_height && post.measured_height > 0) return post.measured_height;
+  const width = columnWidth > 0 ? columnWidth : 300;
+  const mediaH = post.has_media
+    ? Math.max(100, Math.min(500, width / Math.max(0.3, post.media_aspect_ratio ?? 1)))
+    : 0;
+  const charsPerLine = Math.max(1, Math.floor(width / 7.5));
+  const textLines = Math.min(10, Math.ceil(post.text_length / charsPerLine));
+  return 60 + mediaH + textLines * 20;
+}
+
+function shortestColumn(heights: number[]): number {
+  let best = 0;
+  for (let i = 1; i < heights.length; i++) if (heights[i] < heights[best]) best = i;
+  return best;
+}
+
+function stackCard(heights: number[], column: number, height: number, gap: number): number {
+  const top = heights[column] > 0 ? heights[column] + gap : 0;
+  heights[column] = top + height;
+  return top;
+}
+
+/**
+ * Place new cards below the existing ones without moving anything already
+ * laid out. `columnHeights` is the bottom edge of each column (0 = empty);
+ * its length is the column count.
+ */
+export async function appendMasonry(
+  columnHeights: number[],
+  posts: PostLayoutInfo[],
+  columnWidth: number,
+  gap: number,
+): Promise<MasonryUpdate> {
+  const packed = await callWasm<Float64Array>('append_masonry_packed', [
+    Float64Array.from(columnHeights), ...packMasonryPosts(posts), columnWidth, gap,
+  ]);
+  if (packed !== null) {
+    const { rows, columnHeights: heights } = unpackMasonryRows(packed, posts.length);
+    return {
+      column_heights: heights,
+      placements: rows.map((r, i) => ({ uri: posts[i].uri, column: r.column, top: r.top, estimated_height: r.height })),
+    };
   }
-  // JS fallback: round-robin assignment
-  return posts.map((p, i) => ({
-    uri: p.uri,
-    column: i % numColumns,
-    estimated_height: p.has_media ? 300 : 100,
-  }));
+  const result = await callWasm('append_masonry', [JSON.stringify(columnHeights), JSON.stringify(posts), columnWidth, gap]);
+  if (result !== null) return JSON.parse(result);
+  // JS fallback (same steps as append_masonry in lib.rs)
+  const heights = columnHeights.length > 0 ? [...columnHeights] : [0];
+  const placements = posts.map((post) => {
+    const height = estimateMasonryHeight(post, columnWidth);
+    const column = shortestColumn(heights);
+    const top = stackCard(heights, column, height, gap);
+    return { uri: post.uri, column, top, estimated_height: height };
+  });
+  return { column_heights: heights, placements };
+}
+
+/**
+ * Move placed cards (in feed order) to a new column count. A card keeps its
+ * column unless the column is gone or would be more than `maxSkew` px taller
+ * than the shortest one.
+ */
+export async function reflowMasonry(
+  cards: Array<{ uri: string; column: number; height: number }>,
+  numColumns: number,
+  gap: number,
+  maxSkew: number,
+): Promise<MasonryUpdate> {
+  const result = await callWasm('reflow_masonry', [JSON.stringify(cards), numColumns, gap, maxSkew]);
+  if (result !== null) return JSON.parse(result);
+  // JS fallback (same steps as reflow_masonry in lib.rs)
+  const heights = new Array<number>(Math.max(1, numColumns)).fill(0);
+  const placements = cards.map((card) => {
+    const shortest = shortestColumn(heights);
+    const column = card.column < heights.length && heights[card.column] <= heights[shortest] + maxSkew
+      ? card.column
+      : shortest;
+    const top = stackCard(heights, column, card.height, gap);
+    return { uri: card.uri, column, top, estimated_height: card.height };
+  });
+  return { column_heights: heights, placements };
 }
@@ -0,0 +1,62 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * WASM Loader – Lazy Init of the wasm-pack Output
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Loads and initialises the Rust-compiled module once per JS context. Used
+ * by the worker (wasm-worker.ts) and by wasm-bridge.ts when it has to run
+ * in-thread (no Worker support, or the worker failed to start).
+ *
+ * HOW TO EDIT:
+ *  - After editing wasm/src/lib.rs, rebuild: npm run build:wasm
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+/** WASM exports by name (empty when the module failed to load). */
+export type WasmExports = Record<string, unknown>;
+
+let wasmModule: WasmExports | null = null;
+let wasmLoadPromise: Promise<WasmExports> | null = null;
+
+/**
+ * Load the WASM module. Called automatically on first use.
+ * Returns the WASM exports object ({} if loading failed).
+ */
+export async function loadWasm(): Promise<WasmExports> {
+  if (wasmModule) return wasmModule;
+  if (wasmLoadPromise) return wasmLoadPromise;
+
+  wasmLoadPromise = (async () => {
+    try {
+      // Dynamic import of the wasm-pack output
+      const mod = await import('../wasm-pkg/purplesky_wasm.js');
+      // Initialize the WASM module (wasm-pack generates an init function)
+      if (typeof mod.default === 'function') {
+        await mod.default();
+      }
+      wasmModule = mod;
+      console.log('[WASM] Module loaded successfully');
+      return mod;
+    } catch (err) {
+      console.warn('[WASM] Failed to load, using JS fallbacks:', err);
+      wasmModule = {};
+      return {};
+    }
+  })();
+
+  return wasmLoadPromise;
+}
+
+/** Names of the callable exports (wasm-bindgen functions). */
+export function wasmFunctionNames(mod: WasmExports): string[] {
+  return Object.keys(mod).filter((name) => name !== 'default' && typeof mod[name] === 'function');
+}
+
+/** Buffers to transfer with a message: those of the typed arrays among `values`. */
+export function transferablesOf(values: unknown[]): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  for (const v of values) {
+    if (ArrayBuffer.isView(v) && v.buffer instanceof ArrayBuffer) buffers.add(v.buffer);
+  }
+  return [...buffers];
+}
@@ -0,0 +1,167 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * WASM Packed Transfer – Typed Arrays for the Hot Paths
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Sorting, remixing and masonry append can see thousands of posts per call.
+ * Instead of JSON, wasm-bridge.ts sends them to the *_packed exports in
+ * lib.rs (SECTION 7) as parallel typed arrays, which cross into the worker
+ * without copying (they're transferred) and into WASM memory with one copy.
+ *
+ * FORMAT:
+ *  - Strings that are only compared for equality (URIs, DIDs) go through a
+ *    StringTable and are sent as u32 ids; NO_ID means "none"
+ *  - created_at is sent as isoToMsRough() milliseconds for time maths and,
+ *    for sorting, also as a rank (createdRanks: equal strings get equal
+ *    ranks, order matches plain string order, which is what the JSON path
+ *    sorts by)
+ *  - Counts go four per post (likes, downvotes, replies, reposts)
+ *  - Missing aspect ratios are NaN; unmeasured heights are 0
+ *  - Results are indices into the input (or flat f64 rows), mapped back here
+ *
+ * HOW TO EDIT:
+ *  - Keep the argument order in sync with the Rust signatures
+ *  - scripts/bench-wasm.mjs compares these against the JSON path
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { isoToMsRough } from './feed-mix';
+
+/** Id for "no string" (Rust: NO_ID / u32::MAX). */
+export const NO_ID = 0xffffffff;
+
+/** Mode codes for sort_posts_packed (Rust: SORT_*). */
+export const PACKED_SORT_MODES = {
+  newest: 0,
+  trending: 1,
+  wilson: 2,
+  score: 3,
+  controversial: 4,
+} as const;
+
+export type PackedSortMode = keyof typeof PACKED_SORT_MODES;
+
+/** Repost policy codes for remix_feeds_packed. */
+export const PACKED_REPOST_POLICIES = { keep: 0, collapse: 1, hide: 2 } as const;
+
+// ── String Interning ──────────────────────────────────────────────────────
+
+/** Interns strings to dense u32 ids (first seen = 0). */
+export interface StringTable {
+  ids: Map<string, number>;
+  strings: string[];
+}
+
+export function createStringTable(): StringTable {
+  return { ids: new Map(), strings: [] };
+}
+
+/** Id for `s`, adding it if new. */
+export function internString(table: StringTable, s: string): number {
+  let id = table.ids.get(s);
+  if (id === undefined) {
+    id = table.strings.length;
+    table.ids.set(s, id);
+    table.strings.push(s);
+  }
+  return id;
+}
+
+// ── Timestamps ────────────────────────────────────────────────────────────
+
+/**
+ * Rank of each timestamp string among the distinct values (plain code-unit
+ * order, like Rust's String ordering for ISO dates).
+ */
+export function createdRanks(createdAts: string[]): Uint32Array {
+  const distinct = [...new Set(createdAts)].sort();
+  const rank = new Map(distinct.map((s, i) => [s, i]));
+  return Uint32Array.from(createdAts, (s) => rank.get(s)!);
+}
+
+export function createdMillis(createdAts: string[]): Float64Array {
+  return Float64Array.from(createdAts, isoToMsRough);
+}
+
+// ── Packers ───────────────────────────────────────────────────────────────
+
+export interface PackablePost {
+  created_at: string;
+  like_count: number;
+  downvote_count: number;
+  reply_count: number;
+  repost_count: number;
+}
+
+/** Arguments for sort_posts_packed (after the mode). */
+export function packSortPosts(posts: PackablePost[]): [Uint32Array, Float64Array, Uint32Array] {
+  const createdAts = posts.map((p) => p.created_at);
+  const counts = new Uint32Array(posts.length * 4);
+  posts.forEach((p, i) => {
+    counts[i * 4] = p.like_count;
+    counts[i * 4 + 1] = p.downvote_count;
+    counts[i * 4 + 2] = p.reply_count;
+    counts[i * 4 + 3] = p.repost_count;
+  });
+  return [createdRanks(createdAts), createdMillis(createdAts), counts];
+}
+
+export interface PackableFeed {
+  percent: number;
+  items: Array<{ uri: string; created_at: string; author?: string; reposted_by?: string | null }>;
+}
+
+/**
+ * Arguments for remix_feeds_packed up to (not including) limit:
+ * percents, lengths, uri ids, author ids, reposter ids, millis.
+ * Result indices refer to the feeds' items concatenated in order.
+ */
+export function packRemixFeeds(configs: PackableFeed[]): [
+  Uint32Array, Uint32Array, Uint32Array, Uint32Array, Uint32Array, Float64Array,
+] {
+  const items = configs.flatMap((c) => c.items);
+  const uris = createStringTable();
+  const dids = createStringTable();
+  return [
+    Uint32Array.from(configs, (c) => c.percent),
+    Uint32Array.from(configs, (c) => c.items.length),
+    Uint32Array.from(items, (i) => internString(uris, i.uri)),
+    // Empty author = no cap; any reposted_by (even empty) marks a repost, as in lib.rs
+    Uint32Array.from(items, (i) => (i.author ? internString(dids, i.author) : NO_ID)),
+    Uint32Array.from(items, (i) => (i.reposted_by != null ? internString(dids, i.reposted_by) : NO_ID)),
+    createdMillis(items.map((i) => i.created_at)),
+  ];
+}
+
+export interface PackableLayout {
+  has_media: boolean;
+  media_aspect_ratio: number | null;
+  text_length: number;
+  image_count: number;
+  measured_height?: number | null;
+}
+
+/** Arguments for append_masonry_packed between column heights and column width. */
+export function packMasonryPosts(posts: PackableLayout[]): [
+  Uint8Array, Float64Array, Uint32Array, Uint32Array, Float64Array,
+] {
+  return [
+    Uint8Array.from(posts, (p) => (p.has_media ? 1 : 0)),
+    Float64Array.from(posts, (p) => p.media_aspect_ratio ?? NaN),
+    Uint32Array.from(posts, (p) => p.text_length),
+    Uint32Array.from(posts, (p) => p.image_count),
+    Float64Array.from(posts, (p) => p.measured_height ?? 0),
+  ];
+}
+
+/** Split append_masonry_packed output into placements and new column heights. */
+export function unpackMasonryRows(
+  out: Float64Array,
+  count: number,
+): { rows: Array<{ column: number; top: number; height: number }>; columnHeights: number[] } {
+  const rows = [];
+  for (let i = 0; i < count; i++) {
+    rows.push({ column: out[i * 3], top: out[i * 3 + 1], height: out[i * 3 + 2] });
+  }
+  return { rows, columnHeights: Array.from(out.subarray(count * 3)) };
+}
@@ -0,0 +1,83 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * WASM Worker – Runs the Rust/WASM Exports Off the Main Thread
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Started by wasm-bridge.ts. Loads the module once, tells the page which
+ * exports exist, then runs calls one at a time.
+ *
+ * MESSAGES:
+ *  page → worker   { type: 'call', id, fn, args }  args are JSON strings,
+ *                                                   numbers or typed arrays
+ *                  { type: 'cancel', id }          superseded: skip if not started
+ *  worker → page   { type: 'ready', exports }
+ *                  { type: 'result', id, result }  JSON string or typed array
+ *                  { type: 'error', id, message }
+ *
+ * HOW TO EDIT:
+ *  - New WASM functions need no changes here: any export is callable by name
+ *  - Typed arrays are transferred both ways, not copied (the sender's copy
+ *    is emptied)
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { loadWasm, transferablesOf, wasmFunctionNames } from './wasm-loader';
+
+/** Argument to a WASM export (typed arrays map to Rust slices). */
+export type WasmArg = string | number | Uint8Array | Uint32Array | Float64Array;
+/** Return value of a WASM export (typed arrays come from Rust Vec<u32> / Vec<f64>). */
+export type WasmResult = string | Uint32Array | Float64Array;
+
+export type WasmWorkerRequest =
+  | { type: 'call'; id: number; fn: string; args: WasmArg[] }
+  | { type: 'cancel'; id: number };
+
+export type WasmWorkerResponse =
+  | { type: 'ready'; exports: string[] }
+  | { type: 'result'; id: number; result: WasmResult }
+  | { type: 'error'; id: number; message: string };
+
+// The app's tsconfig uses DOM types; only these two worker members are needed
+const scope = self as unknown as {
+  postMessage(message: WasmWorkerResponse, transfer?: Transferable[]): void;
+  onmessage: ((e: MessageEvent<WasmWorkerRequest>) => void) | null;
+};
+
+const queue: Array<Extract<WasmWorkerRequest, { type: 'call' }>> = [];
+let draining = false;
+
+/** Run queued calls. Deferred a tick so cancels that arrived meanwhile apply first. */
+function scheduleDrain(): void {
+  if (draining) return;
+  draining = true;
+  setTimeout(async () => {
+    const mod = await loadWasm();
+    while (queue.length > 0) {
+      const call = queue.shift()!;
+      const fn = mod[call.fn];
+      try {
+        if (typeof fn !== 'function') throw new Error(`Unknown WASM export: ${call.fn}`);
+        const result = (fn as (...args: WasmArg[]) => WasmResult)(...call.args);
+        scope.postMessage({ type: 'result', id: call.id, result }, transferablesOf([result]));
+      } catch (err) {
+        scope.postMessage({ type: 'error', id: call.id, message: err instanceof Error ? err.message : String(err) });
+      }
+      // Let pending cancel messages in before the next call
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    draining = false;
+  }, 0);
+}
+
+scope.onmessage = (e) => {
+  const msg = e.data;
+  if (msg.type === 'cancel') {
+    const i = queue.findIndex((c) => c.id === msg.id);
+    if (i >= 0) queue.splice(i, 1);
+    return;
+  }
+  queue.push(msg);
+  scheduleDrain();
+};
+
+loadWasm().then((mod) => scope.postMessage({ type: 'ready', exports: wasmFunctionNames(mod) }));
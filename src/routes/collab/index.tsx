@@ -184,7 +184,7 @@ export default component$(() => {
                 <p style={{ fontSize: 'var(--font-sm)', color: 'var(--muted)', marginBottom: 'var(--space-md)' }}>
                   {project.description?.slice(0, 120) || 'No description'}
                 </p>
-                {project.tags?.length > 0 && (
+                {project.tags && project.tags.length > 0 && (
                   <div style={{ display: 'flex', gap: 'var(--space-xs)', flexWrap: 'wrap', marginBottom: 'var(--space-sm)' }}>
                     {project.tags.map((tag) => (
                       <span key={tag} class="badge" style={{ fontSize: '10px' }}>#{tag}</span>
@@ -30,8 +30,8 @@ import { useAppState } from '~/context/app-context';
 import { RichText } from '~/components/rich-text/rich-text';
 import type { ConsensusResult } from '~/lib/types';
 
-const STATEMENT_COLLECTION = 'app.purplesky.forum.post';
-const VOTE_COLLECTION = 'app.purplesky.consensus.vote';
+// Statements are forum posts (app.purplesky.forum.post) tagged "consensus";
+// votes are app.purplesky.consensus.vote records (see lib/lexicon-records.ts)
 
 export default component$(() => {
   const app = useAppState();
@@ -45,9 +45,9 @@ export default component$(() => {
   // Load statements and votes from PDS on mount
   useVisibleTask$(async () => {
     try {
-      const { agent, publicAgent, getSession } = await import('~/lib/bsky');
+      const { getSession } = await import('~/lib/bsky');
+      const { consensusVoteRecords, forumPostRecords } = await import('~/lib/lexicon-records');
       const session = getSession();
-      const client = session ? agent : publicAgent;
 
       // Load statements tagged with "consensus" from known DIDs
       // For now, load from the logged-in user's repo + any community repos
@@ -59,12 +59,10 @@ export default component$(() => {
 
       for (const did of didsToCheck) {
         try {
-          const res = await client.com.atproto.repo.listRecords({
-            repo: did, collection: STATEMENT_COLLECTION, limit: 100,
-          });
-          for (const r of res.data.records ?? []) {
+          const { records } = await forumPostRecords.list(did, { limit: 100 });
+          for (const r of records) {
+            const v = r.value;
             if (seenUris.has(r.uri)) continue;
-            const v = r.value as { title?: string; body?: string; tags?: string[] };
             // Only include posts tagged "consensus"
             if (!v.tags?.includes('consensus')) continue;
             seenUris.add(r.uri);
@@ -81,15 +79,11 @@ export default component$(() => {
       // Load existing votes
       if (session?.did) {
         try {
-          const voteRes = await client.com.atproto.repo.listRecords({
-            repo: session.did, collection: VOTE_COLLECTION, limit: 100,
-          });
-          for (const r of voteRes.data.records ?? []) {
-            const v = r.value as { statement?: string; value?: number };
-            if (v.statement) {
-              const stmt = loaded.find((s) => s.uri === v.statement);
-              if (stmt) stmt.myVote = (v.value ?? null) as -1 | 0 | 1 | null;
-            }
+          const { records } = await consensusVoteRecords.list(session.did, { limit: 100 });
+          for (const { value: v } of records) {
+            const stmt = loaded.find((s) => s.uri === v.statement);
+            // The lexicon limits value to -1…1
+            if (stmt) stmt.myVote = v.value as -1 | 0 | 1;
           }
         } catch { /* ignore */ }
       }
@@ -128,10 +122,12 @@ export default component$(() => {
 
     if (votes.length === 0) { analyzing.value = false; return; }
 
+    const { analyzeConsensus, isWasmCancelled } = await import('~/lib/wasm-bridge');
     try {
-      const { analyzeConsensus } = await import('~/lib/wasm-bridge');
       result.value = await analyzeConsensus(votes);
     } catch (err) {
+      // Superseded by a newer vote: that run updates the result
+      if (isWasmCancelled(err)) return;
       console.error('Consensus analysis failed:', err);
     }
     analyzing.value = false;
@@ -147,26 +143,20 @@ export default component$(() => {
     // Persist vote to PDS
     if (stmt.uri) {
       try {
-        const { agent, getSession } = await import('~/lib/bsky');
+        const { getSession } = await import('~/lib/bsky');
+        const { consensusVoteRecords } = await import('~/lib/lexicon-records');
         const session = getSession();
         if (session?.did) {
           const rkey = `vote-${stmt.id.replace(/[^a-zA-Z0-9-]/g, '')}`;
           if (newVote !== null) {
-            await agent.com.atproto.repo.putRecord({
-              repo: session.did, collection: VOTE_COLLECTION, rkey,
-              record: {
-                $type: VOTE_COLLECTION,
-                statement: stmt.uri,
-                value: newVote,
-                createdAt: new Date().toISOString(),
-              },
-              validate: false,
+            await consensusVoteRecords.put(rkey, {
+              statement: stmt.uri,
+              value: newVote,
+              createdAt: new Date().toISOString(),
             });
           } else {
             try {
-              await agent.com.atproto.repo.deleteRecord({
-                repo: session.did, collection: VOTE_COLLECTION, rkey,
-              });
+              await consensusVoteRecords.delete(rkey);
             } catch { /* may not exist */ }
           }
         }
@@ -185,20 +175,14 @@ export default component$(() => {
     // Persist to PDS as a forum post tagged "consensus"
     let uri = '';
     try {
-      const { agent, getSession } = await import('~/lib/bsky');
-      const session = getSession();
-      if (session?.did) {
-        const rkey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
-        const res = await agent.com.atproto.repo.putRecord({
-          repo: session.did, collection: STATEMENT_COLLECTION, rkey,
-          record: {
-            $type: STATEMENT_COLLECTION,
-            title: text, body: text, tags: ['consensus'],
-            createdAt: new Date().toISOString(),
-          },
-          validate: false,
+      const { getSession } = await import('~/lib/bsky');
+      const { forumPostRecords } = await import('~/lib/lexicon-records');
+      if (getSession()?.did) {
+        const res = await forumPostRecords.create({
+          title: text, body: text, tags: ['consensus'],
+          createdAt: new Date().toISOString(),
         });
-        uri = res.data.uri;
+        uri = res.uri;
       }
     } catch (err) {
       console.error('Failed to persist statement:', err);
@@ -5,12 +5,17 @@
  *
  * Displays a single forum post with:
  *  - Full post content with formatting
+ *  - A link to the post's community, if it has one
  *  - Threaded/nested replies (furl/unfurl)
  *  - Reply composer with @mentions
  *  - Like/downvote integration with Microcosm
  *  - Pin/highlight controls for post author
  *  - Promote to wiki page
- *  - Edit/delete for own posts
+ *  - Edit/delete for own posts; an "edited" link opens the revision
+ *    history with diffs (lib/forum-revisions.ts)
+ *  - Moderation (lib/forum-moderation.ts): the author and community
+ *    moderators can lock the thread and hide replies; anyone can report the
+ *    thread or a reply; link to the thread's moderation log
  *
  * HOW TO EDIT:
  *  - To change the reply threading depth, edit maxDepth
@@ -21,12 +26,14 @@
 
 import { component$, useSignal, useVisibleTask$, $ } from '@builder.io/qwik';
 import { Link, useLocation, useNavigate } from '@builder.io/qwik-city';
-import { RichText } from '~/components/rich-text/rich-text';
+import { Markdown } from '~/components/markdown/markdown';
 import { useAppState } from '~/context/app-context';
 import { withBase } from '~/lib/path';
 import { ActionBar } from '~/components/action-buttons/action-buttons';
 import { CommentThread } from '~/components/comment-thread/comment-thread';
-import type { ForumPost, ForumReply } from '~/lib/types';
+import { ForumImageButton } from '~/components/forum-image-button/forum-image-button';
+import { ForumRevisions } from '~/components/forum-revisions/forum-revisions';
+import type { ForumCommunity, ForumPost, ForumReply, ThreadModeration } from '~/lib/types';
 
 export default component$(() => {
   const app = useAppState();
@@ -35,6 +42,12 @@ export default component$(() => {
   const postUri = decodeURIComponent(loc.params.id);
 
   const post = useSignal<ForumPost | null>(null);
+  const community = useSignal<ForumCommunity | null>(null);
+  const moderation = useSignal<ThreadModeration | null>(null);
+  /** URI of the thread or reply being reported (shows the report form) */
+  const reportTarget = useSignal<string | null>(null);
+  const reportReason = useSignal('');
+  const modMessage = useSignal('');
   const replies = useSignal<ForumReply[]>([]);
   const loading = useSignal(true);
   const replyText = useSignal('');
@@ -42,6 +55,8 @@ export default component$(() => {
   const editTitle = useSignal('');
   const editBody = useSignal('');
   const confirmDelete = useSignal(false);
+  /** Revision history open (the "edited" link) */
+  const showRevisions = useSignal(false);
   /** Map reply/post URI -> downvote record URI (for comments and main post) */
   const myDownvoteUris = useSignal<Record<string, string>>({});
   /** Downvote counts per reply/post URI (for sort and display) */
@@ -49,16 +64,29 @@ export default component$(() => {
   /** Comment sort mode */
   const commentSortMode = useSignal<'newest' | 'oldest' | 'best' | 'controversial' | 'replies'>('best');
 
-  // Load post, replies, my downvotes, and downvote counts
+  // Moderation state, then the replies it allows (moderators also see hidden ones)
+  const loadReplies = $(async (p: ForumPost | null) => {
+    const { listForumReplies } = await import('~/lib/forum');
+    const { loadThreadModeration } = await import('~/lib/forum-moderation');
+    const m = p ? await loadThreadModeration(p) : null;
+    const isMod = !!app.session.did && !!m?.moderators.includes(app.session.did);
+    const r = await listForumReplies(postUri, app.session.did ? [app.session.did] : [], { moderation: m, includeHidden: isMod });
+    moderation.value = m;
+    replies.value = r;
+    return r;
+  });
+
+  // Load post, moderation, replies, my downvotes, and downvote counts
   useVisibleTask$(async () => {
     try {
-      const { getForumPost, listForumReplies } = await import('~/lib/forum');
-      const [p, r] = await Promise.all([
-        getForumPost(postUri),
-        listForumReplies(postUri, app.session.did ? [app.session.did] : []),
-      ]);
+      const { getForumPost } = await import('~/lib/forum');
+      const p = await getForumPost(postUri);
       post.value = p;
-      replies.value = r;
+      const r = await loadReplies(p);
+      if (p?.community) {
+        const { getForumCommunity } = await import('~/lib/forum');
+        getForumCommunity(p.community).then((c) => { community.value = c; });
+      }
       if (app.session.did) {
         const { listMyDownvotes } = await import('~/lib/bsky');
         myDownvoteUris.value = await listMyDownvotes();
@@ -79,15 +107,90 @@ export default component$(() => {
   const handleReply = $(async () => {
     if (!replyText.value.trim()) return;
     try {
-      const { createForumReply, listForumReplies } = await import('~/lib/forum');
+      const { createForumReply } = await import('~/lib/forum');
       await createForumReply({ postUri, text: replyText.value });
       replyText.value = '';
-      replies.value = await listForumReplies(postUri, app.session.did ? [app.session.did] : []);
+      await loadReplies(post.value);
     } catch (err) {
       console.error('Failed to reply:', err);
     }
   });
 
+  // Downvote the post or a reply, then show its count with our vote
+  const handleDownvote = $(async (subjectUri: string, cid: string) => {
+    try {
+      const { createDownvote } = await import('~/lib/bsky');
+      const recordUri = await createDownvote(subjectUri, cid);
+      myDownvoteUris.value = { ...myDownvoteUris.value, [subjectUri]: recordUri };
+      // Cached count plus our vote (Constellation indexes it a little later)
+      const { getDownvoteCounts } = await import('~/lib/constellation');
+      replyDownvoteCounts.value = { ...replyDownvoteCounts.value, ...(await getDownvoteCounts([subjectUri])) };
+    } catch (err) {
+      console.error('Downvote failed:', err);
+    }
+  });
+
+  const handleUndoDownvote = $(async (subjectUri: string) => {
+    const recordUri = myDownvoteUris.value[subjectUri];
+    if (!recordUri) return;
+    try {
+      const { deleteDownvote } = await import('~/lib/bsky');
+      await deleteDownvote(recordUri, subjectUri);
+      const next = { ...myDownvoteUris.value };
+      delete next[subjectUri];
+      myDownvoteUris.value = next;
+      const { getDownvoteCounts } = await import('~/lib/constellation');
+      replyDownvoteCounts.value = { ...replyDownvoteCounts.value, ...(await getDownvoteCounts([subjectUri])) };
+    } catch (err) {
+      console.error('Undo downvote failed:', err);
+    }
+  });
+
+  // Lock the thread, or remove my lock records
+  const handleToggleLock = $(async () => {
+    const p = post.value;
+    if (!p) return;
+    modMessage.value = '';
+    try {
+      const { lockForumThread, deleteModerationAction } = await import('~/lib/forum-moderation');
+      const mine = (moderation.value?.locks ?? []).filter((l) => l.did === app.session.did);
+      if (mine.length > 0) await Promise.all(mine.map((l) => deleteModerationAction(l.uri)));
+      else await lockForumThread(p);
+      await loadReplies(p);
+    } catch (err) {
+      modMessage.value = err instanceof Error ? err.message : 'Moderation failed';
+    }
+  });
+
+  const handleHide = $(async (uri: string, hide: boolean) => {
+    const p = post.value;
+    if (!p) return;
+    modMessage.value = '';
+    try {
+      const { hideForumReply, deleteModerationAction } = await import('~/lib/forum-moderation');
+      if (hide) await hideForumReply(p, uri);
+      else await deleteModerationAction(moderation.value?.hiddenReplies[uri] ?? '');
+      await loadReplies(p);
+    } catch (err) {
+      modMessage.value = err instanceof Error ? err.message : 'Moderation failed';
+    }
+  });
+
+  const handleReport = $(async () => {
+    const p = post.value;
+    if (!p || !reportTarget.value) return;
+    modMessage.value = '';
+    try {
+      const { reportForumPost } = await import('~/lib/forum-moderation');
+      await reportForumPost(p, reportTarget.value, reportReason.value);
+      reportTarget.value = null;
+      reportReason.value = '';
+      modMessage.value = 'Reported. Thanks – the moderators can see it in the moderation log.';
+    } catch (err) {
+      modMessage.value = err instanceof Error ? err.message : 'Report failed';
+    }
+  });
+
   // Promote to wiki
   const handlePromoteWiki = $(async () => {
     try {
@@ -119,6 +222,7 @@ export default component$(() => {
       });
       post.value = await getForumPost(postUri);
       editing.value = false;
+      showRevisions.value = false;
     } catch (err) {
       console.error('Failed to save edit:', err);
     }
@@ -153,6 +257,9 @@ export default component$(() => {
 
   const p = post.value;
   const isAuthor = app.session.did === p.did;
+  const isModerator = !!app.session.did && !!moderation.value?.moderators.includes(app.session.did);
+  const locks = moderation.value?.locks ?? [];
+  const lockedByMe = locks.some((l) => l.did === app.session.did);
 
   return (
     <div style={{ maxWidth: '800px', margin: '0 auto' }}>
@@ -161,6 +268,15 @@ export default component$(() => {
         <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-sm)', marginBottom: 'var(--space-md)' }}>
           {p.isPinned && <span class="badge">Pinned</span>}
           {p.isWiki && <span class="badge-success badge">Wiki</span>}
+          {locks.length > 0 && <span class="badge">Locked</span>}
+          {community.value && (
+            <Link
+              href={withBase(`/forum/community/${encodeURIComponent(community.value.uri)}/`)}
+              style={{ color: 'var(--accent)', fontSize: 'var(--font-sm)', textDecoration: 'none' }}
+            >
+              {community.value.name}
+            </Link>
+          )}
         </div>
 
         <h1 style={{ fontSize: 'var(--font-2xl)', fontWeight: '700', marginBottom: 'var(--space-md)' }}>
@@ -177,8 +293,20 @@ export default component$(() => {
             <span>@{p.did}</span>
           )}
           {p.createdAt && <span>{new Date(p.createdAt).toLocaleDateString()}</span>}
+          {p.editedAt && (
+            <button
+              class="btn-ghost"
+              style={{ fontSize: 'var(--font-sm)', color: 'var(--muted)', padding: 0 }}
+              title={`Edited ${new Date(p.editedAt).toLocaleString()}`}
+              onClick$={() => { showRevisions.value = !showRevisions.value; }}
+            >
+              edited{showRevisions.value ? ' ▴' : ' ▾'}
+            </button>
+          )}
         </div>
 
+        {showRevisions.value && !editing.value && <ForumRevisions key={p.cid} post={p} />}
+
         {/* Post body (edit mode or display) */}
         {editing.value ? (
           <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-sm)' }}>
@@ -197,13 +325,12 @@ export default component$(() => {
             />
             <div style={{ display: 'flex', gap: 'var(--space-sm)' }}>
               <button class="btn" onClick$={saveEdit}>Save</button>
+              <ForumImageButton onInsert$={(md) => { editBody.value = editBody.value ? `${editBody.value}\n\n${md}` : md; }} />
               <button class="btn-ghost" onClick$={() => { editing.value = false; confirmDelete.value = false; }}>Cancel</button>
             </div>
           </div>
         ) : (
-          <div style={{ lineHeight: '1.7' }}>
-            <RichText text={p.body ?? ''} />
-          </div>
+          <Markdown text={p.body ?? ''} did={p.did} />
         )}
 
         {/* Tags */}
@@ -226,16 +353,8 @@ export default component$(() => {
               downvoteCount={replyDownvoteCounts.value[p.uri] ?? 0}
               downvoted={!!myDownvoteUris.value[p.uri]}
               downvoteRecordUri={myDownvoteUris.value[p.uri]}
-              onDownvote$={app.session.isLoggedIn ? $(async () => {
-                const { listMyDownvotes } = await import('~/lib/bsky');
-                myDownvoteUris.value = await listMyDownvotes();
-                replyDownvoteCounts.value = { ...replyDownvoteCounts.value, [p.uri]: (replyDownvoteCounts.value[p.uri] ?? 0) + 1 };
-              }) : undefined}
-              onUndoDownvote$={app.session.isLoggedIn ? $(async () => {
-                const { listMyDownvotes } = await import('~/lib/bsky');
-                myDownvoteUris.value = await listMyDownvotes();
-                replyDownvoteCounts.value = { ...replyDownvoteCounts.value, [p.uri]: Math.max(0, (replyDownvoteCounts.value[p.uri] ?? 0) - 1) };
-              }) : undefined}
+              onDownvote$={app.session.isLoggedIn ? () => handleDownvote(p.uri, p.cid) : undefined}
+              onUndoDownvote$={app.session.isLoggedIn ? () => handleUndoDownvote(p.uri) : undefined}
               replyCount={p.replyCount ?? replies.value.length}
               replyHref={withBase(`/forum/${encodeURIComponent(postUri)}/`)}
             />
@@ -260,6 +379,48 @@ export default component$(() => {
             </button>
           </div>
         )}
+
+        {/* Moderation */}
+        {!editing.value && (
+          <div style={{ display: 'flex', gap: 'var(--space-sm)', alignItems: 'center', flexWrap: 'wrap', marginTop: 'var(--space-md)', fontSize: 'var(--font-sm)' }}>
+            {isModerator && (locks.length === 0 || lockedByMe) && (
+              <button class="btn-ghost" style={{ fontSize: 'var(--font-sm)' }} onClick$={handleToggleLock}>
+                {lockedByMe ? 'Unlock thread' : 'Lock thread'}
+              </button>
+            )}
+            {app.session.isLoggedIn && !isAuthor && (
+              <button class="btn-ghost" style={{ fontSize: 'var(--font-sm)' }} onClick$={() => { reportTarget.value = p.uri; }}>
+                Report
+              </button>
+            )}
+            <Link
+              href={withBase(`/forum/moderation/?thread=${encodeURIComponent(p.uri)}`)}
+              style={{ color: 'var(--muted)', textDecoration: 'none', marginLeft: 'auto' }}
+            >
+              Moderation log{(moderation.value?.actions.length ?? 0) > 0 ? ` (${moderation.value?.actions.length})` : ''}
+            </Link>
+          </div>
+        )}
+
+        {/* Report form (for the thread or a reply) */}
+        {reportTarget.value && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-sm)', marginTop: 'var(--space-md)' }}>
+            <span style={{ fontSize: 'var(--font-sm)', color: 'var(--muted)' }}>
+              Report {reportTarget.value === p.uri ? 'this thread' : 'this reply'} to the moderators
+            </span>
+            <textarea
+              placeholder="What's wrong with it?"
+              value={reportReason.value}
+              onInput$={(_, el) => { reportReason.value = el.value; }}
+              style={{ minHeight: '60px', resize: 'vertical' }}
+            />
+            <div style={{ display: 'flex', gap: 'var(--space-sm)' }}>
+              <button class="btn" onClick$={handleReport}>Send report</button>
+              <button class="btn-ghost" onClick$={() => { reportTarget.value = null; }}>Cancel</button>
+            </div>
+          </div>
+        )}
+        {modMessage.value && <p style={{ fontSize: 'var(--font-sm)', color: 'var(--muted)', marginTop: 'var(--space-sm)' }}>{modMessage.value}</p>}
       </article>
 
       {/* Replies Section */}
@@ -269,7 +430,12 @@ export default component$(() => {
         </h2>
 
         {/* Reply composer */}
-        {app.session.isLoggedIn && (
+        {locks.length > 0 && (
+          <p style={{ color: 'var(--muted)', fontSize: 'var(--font-sm)', marginBottom: 'var(--space-lg)' }}>
+            This thread is locked{locks[0].reason ? `: ${locks[0].reason}` : '.'}
+          </p>
+        )}
+        {app.session.isLoggedIn && locks.length === 0 && (
           <div style={{ display: 'flex', gap: 'var(--space-sm)', marginBottom: 'var(--space-lg)' }}>
             <textarea
               placeholder="Write a reply... Use @username for mentions"
@@ -307,11 +473,13 @@ export default component$(() => {
           downvoteCounts={replyDownvoteCounts.value}
           myDownvoteUris={myDownvoteUris.value}
           onDownvoteChange$={app.session.isLoggedIn ? $(async (uri: string, action: 'downvote' | 'undo') => {
-            const { listMyDownvotes } = await import('~/lib/bsky');
-            myDownvoteUris.value = await listMyDownvotes();
-            const delta = action === 'downvote' ? 1 : -1;
-            replyDownvoteCounts.value = { ...replyDownvoteCounts.value, [uri]: Math.max(0, (replyDownvoteCounts.value[uri] ?? 0) + delta) };
+            if (action === 'undo') return handleUndoDownvote(uri);
+            const reply = replies.value.find((r) => r.uri === uri);
+            if (reply) await handleDownvote(uri, reply.cid);
           }) : undefined}
+          locked={locks.length > 0}
+          onHide$={isModerator ? handleHide : undefined}
+          onReport$={app.session.isLoggedIn ? $((uri: string) => { reportTarget.value = uri; }) : undefined}
         />
       </div>
     </div>
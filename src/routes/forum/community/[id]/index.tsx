@@ -0,0 +1,369 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Forum Community Page – One Sub-Forum and Its Threads
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Shows an app.purplesky.forum.community (the route param is its encoded
+ * at:// URI) with:
+ *  - Name, description, rules, owner, moderators and allowed tags
+ *  - Its threads: posts whose `community` is this URI, found through
+ *    lib/forum-discovery.ts scoped to the community (backlinks, owner,
+ *    moderators); sorted like the forum index, paged with "Load more"
+ *  - New post form (the post joins this community; tags must be allowed)
+ *  - Settings form for the owner
+ *  - Link to the community's moderation log (routes/forum/moderation)
+ *
+ * HOW TO EDIT:
+ *  - Record fields: lexicons/app.purplesky.forum.community.json, then
+ *    `npm run gen:lexicons`; writes go through lib/forum.ts
+ *  - The thread list is components/forum-thread-list
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { component$, useSignal, useStore, useVisibleTask$, $ } from '@builder.io/qwik';
+import { Link, useLocation } from '@builder.io/qwik-city';
+import { ForumThreadList } from '~/components/forum-thread-list/forum-thread-list';
+import { ForumImageButton } from '~/components/forum-image-button/forum-image-button';
+import { useAppState } from '~/context/app-context';
+import { withBase } from '~/lib/path';
+import type { ForumDiscoveryState } from '~/lib/forum-discovery';
+import type { ForumCommunity, ForumPost, ForumSortMode } from '~/lib/types';
+
+// Module-level cache (see forumCache in routes/forum/index.tsx), for the
+// last community visited
+const communityCache: {
+  uri: string | null;
+  state: ForumDiscoveryState | null;
+  posts: ForumPost[];
+  hasMore: boolean;
+  forDid: string | null;
+} = { uri: null, state: null, posts: [], hasMore: false, forDid: null };
+
+const splitList = (s: string) => s.split(',').map((t) => t.trim()).filter(Boolean);
+
+/** Latest sort request; results of older ones are dropped */
+let sortSeq = 0;
+
+export default component$(() => {
+  const app = useAppState();
+  const loc = useLocation();
+  const communityUri = decodeURIComponent(loc.params.id);
+
+  const community = useSignal<ForumCommunity | null>(null);
+  /** Handles for the owner and moderators, by DID */
+  const handles = useSignal<Record<string, string>>({});
+  const posts = useSignal<ForumPost[]>([]);
+  const sortedPosts = useSignal<ForumPost[]>([]);
+  const loading = useSignal(true);
+  const loadingMore = useSignal(false);
+  const hasMore = useSignal(false);
+  const sortBy = useSignal<ForumSortMode>('hot');
+  const showCompose = useSignal(false);
+  const compose = useStore({ title: '', body: '', tags: '', error: '' });
+  const showSettings = useSignal(false);
+  const settings = useStore({ name: '', description: '', rules: '', moderators: '', allowedTags: '', error: '', saving: false });
+
+  const loadHandles = $(async (c: ForumCommunity) => {
+    const { getCachedProfiles } = await import('~/lib/data-cache');
+    const profiles = await getCachedProfiles([c.owner, ...(c.moderators ?? [])]);
+    handles.value = Object.fromEntries(Object.entries(profiles).map(([did, p]) => [did, p.handle]));
+  });
+
+  // Next page of this community's threads (or the first, with `reset`)
+  const loadPosts = $(async (reset = false) => {
+    const c = community.value;
+    if (!c) return;
+    const { discoverForumPosts, ensureForumDiscoveryState, addForumParticipants, hasMoreForumPosts } = await import('~/lib/forum-discovery');
+    const { loadForumThreadStats } = await import('~/lib/forum');
+    const did = app.session.did ?? null;
+    if (reset || communityCache.uri !== c.uri || communityCache.forDid !== did) {
+      communityCache.state = null;
+      communityCache.posts = [];
+    }
+    const state = ensureForumDiscoveryState(did, communityCache.state, c);
+    Object.assign(communityCache, { uri: c.uri, state, forDid: did });
+    const page = await discoverForumPosts(state);
+    communityCache.posts = [...communityCache.posts, ...page.posts];
+    communityCache.hasMore = page.hasMore;
+    posts.value = communityCache.posts;
+    hasMore.value = page.hasMore;
+
+    const withStats = await loadForumThreadStats(page.posts);
+    if (communityCache.state !== state) return;
+    addForumParticipants(state, withStats);
+    const byUri = new Map(withStats.map((p) => [p.uri, p]));
+    communityCache.posts = communityCache.posts.map((p) => byUri.get(p.uri) ?? p);
+    communityCache.hasMore = hasMoreForumPosts(state);
+    posts.value = communityCache.posts;
+    hasMore.value = communityCache.hasMore;
+  });
+
+  // Load the community, then its threads (cached ones render instantly)
+  useVisibleTask$(async () => {
+    try {
+      const { getForumCommunity } = await import('~/lib/forum');
+      community.value = await getForumCommunity(communityUri);
+      if (!community.value) { loading.value = false; return; }
+      loadHandles(community.value);
+      if (communityCache.uri === communityUri && communityCache.forDid === (app.session.did ?? null) && communityCache.posts.length > 0) {
+        posts.value = communityCache.posts;
+        hasMore.value = communityCache.hasMore;
+      } else {
+        await loadPosts(true);
+      }
+    } catch (err) {
+      console.error('Failed to load community:', err);
+    }
+    loading.value = false;
+  });
+
+  // Sort whenever the posts or the mode change
+  useVisibleTask$(async ({ track }) => {
+    const list = track(() => posts.value);
+    const mode = track(() => sortBy.value);
+    const seq = ++sortSeq;
+    const { sortForumPosts } = await import('~/lib/forum');
+    const { isWasmCancelled } = await import('~/lib/wasm-bridge');
+    try {
+      const sorted = await sortForumPosts(list, mode);
+      // A later sort (e.g. a sync mode after a pending hot sort) wins
+      if (seq === sortSeq) sortedPosts.value = sorted;
+    } catch (err) {
+      if (isWasmCancelled(err)) return;
+      console.error('Failed to sort forum posts:', err);
+    }
+  });
+
+  const handleLoadMore = $(async () => {
+    if (loadingMore.value) return;
+    loadingMore.value = true;
+    try {
+      await loadPosts();
+    } catch (err) {
+      console.error('Failed to load more forum posts:', err);
+    }
+    loadingMore.value = false;
+  });
+
+  const handleCreatePost = $(async () => {
+    if (!compose.title.trim()) return;
+    compose.error = '';
+    try {
+      const { createForumPost } = await import('~/lib/forum');
+      await createForumPost({ title: compose.title, body: compose.body, tags: splitList(compose.tags), community: communityUri });
+      compose.title = '';
+      compose.body = '';
+      compose.tags = '';
+      showCompose.value = false;
+      await loadPosts(true);
+    } catch (err) {
+      compose.error = err instanceof Error ? err.message : 'Could not post';
+    }
+  });
+
+  const openSettings = $(() => {
+    const c = community.value;
+    if (!c) return;
+    settings.name = c.name;
+    settings.description = c.description ?? '';
+    settings.rules = (c.rules ?? []).join('\n');
+    settings.moderators = (c.moderators ?? []).map((d) => handles.value[d] ?? d).join(', ');
+    settings.allowedTags = (c.allowedTags ?? []).join(', ');
+    settings.error = '';
+    showSettings.value = true;
+  });
+
+  const handleSaveSettings = $(async () => {
+    if (!settings.name.trim()) return;
+    settings.error = '';
+    settings.saving = true;
+    try {
+      const { resolveDid } = await import('~/lib/bsky');
+      const { updateForumCommunity } = await import('~/lib/forum');
+      const moderators = await Promise.all(splitList(settings.moderators).map((m) => resolveDid(m)));
+      const updated = await updateForumCommunity(communityUri, {
+        name: settings.name,
+        description: settings.description,
+        rules: settings.rules.split('\n'),
+        moderators,
+        allowedTags: splitList(settings.allowedTags),
+      });
+      community.value = updated;
+      loadHandles(updated);
+      showSettings.value = false;
+    } catch (err) {
+      settings.error = err instanceof Error ? err.message : 'Could not save';
+    }
+    settings.saving = false;
+  });
+
+  if (loading.value && !community.value) {
+    return (
+      <div class="flex-center" style={{ padding: 'var(--space-2xl)' }}>
+        <div class="spinner" />
+      </div>
+    );
+  }
+
+  const c = community.value;
+  if (!c) {
+    return (
+      <div style={{ textAlign: 'center', padding: 'var(--space-2xl)', color: 'var(--muted)' }}>
+        <p>Community not found.</p>
+        <Link href={withBase('/forum/')} style={{ color: 'var(--accent)' }}>Back to Forums</Link>
+      </div>
+    );
+  }
+
+  const isOwner = app.session.did === c.owner;
+
+  return (
+    <div class="forum-page">
+      <Link href={withBase('/forum/')} style={{ color: 'var(--muted)', fontSize: 'var(--font-sm)', textDecoration: 'none' }}>
+        ← Forums
+      </Link>
+
+      {/* Community header */}
+      <div class="glass-strong" style={{ padding: 'var(--space-lg)', margin: 'var(--space-md) 0 var(--space-lg)' }}>
+        <div class="flex-between" style={{ gap: 'var(--space-sm)' }}>
+          <h1 style={{ fontSize: 'var(--font-2xl)', fontWeight: '700' }}>{c.name}</h1>
+          <div style={{ display: 'flex', gap: 'var(--space-sm)' }}>
+            {isOwner && <button class="btn-ghost" onClick$={openSettings}>Settings</button>}
+            {app.session.isLoggedIn && (
+              <button class="btn" onClick$={() => { showCompose.value = !showCompose.value; }}>+ New Post</button>
+            )}
+          </div>
+        </div>
+        {c.description && <p style={{ color: 'var(--muted)', marginTop: 'var(--space-sm)', whiteSpace: 'pre-wrap' }}>{c.description}</p>}
+        <div style={{ display: 'flex', gap: 'var(--space-md)', flexWrap: 'wrap', marginTop: 'var(--space-sm)', fontSize: 'var(--font-xs)', color: 'var(--muted)' }}>
+          <span>Owner @{handles.value[c.owner] ?? c.owner}</span>
+          {(c.moderators ?? []).length > 0 && (
+            <span>Moderators {(c.moderators ?? []).map((d) => `@${handles.value[d] ?? d}`).join(', ')}</span>
+          )}
+          {(c.allowedTags ?? []).map((tag) => (
+            <span key={tag} class="badge" style={{ fontSize: '10px' }}>#{tag}</span>
+          ))}
+          <Link
+            href={withBase(`/forum/moderation/?community=${encodeURIComponent(c.uri)}`)}
+            style={{ color: 'var(--muted)', marginLeft: 'auto' }}
+          >
+            Moderation log
+          </Link>
+        </div>
+        {(c.rules ?? []).length > 0 && (
+          <details style={{ marginTop: 'var(--space-md)', fontSize: 'var(--font-sm)' }}>
+            <summary style={{ cursor: 'pointer', fontWeight: '600' }}>Rules</summary>
+            <ol style={{ marginTop: 'var(--space-sm)', paddingLeft: 'var(--space-lg)' }}>
+              {(c.rules ?? []).map((rule, i) => <li key={i}>{rule}</li>)}
+            </ol>
+          </details>
+        )}
+      </div>
+
+      {/* Owner settings */}
+      {showSettings.value && (
+        <div class="glass-strong" style={{ padding: 'var(--space-lg)', marginBottom: 'var(--space-lg)', display: 'flex', flexDirection: 'column', gap: 'var(--space-sm)' }}>
+          <input type="text" placeholder="Name" value={settings.name} onInput$={(_, el) => { settings.name = el.value; }} />
+          <textarea
+            placeholder="Description"
+            value={settings.description}
+            onInput$={(_, el) => { settings.description = el.value; }}
+            style={{ minHeight: '80px', resize: 'vertical' }}
+          />
+          <textarea
+            placeholder="Rules (one per line)"
+            value={settings.rules}
+            onInput$={(_, el) => { settings.rules = el.value; }}
+            style={{ minHeight: '80px', resize: 'vertical' }}
+          />
+          <input
+            type="text"
+            placeholder="Moderators (handles or DIDs, comma-separated)"
+            value={settings.moderators}
+            onInput$={(_, el) => { settings.moderators = el.value; }}
+          />
+          <input
+            type="text"
+            placeholder="Allowed tags (comma-separated; empty allows any)"
+            value={settings.allowedTags}
+            onInput$={(_, el) => { settings.allowedTags = el.value; }}
+          />
+          {settings.error && <p style={{ color: 'var(--danger)', fontSize: 'var(--font-sm)' }}>{settings.error}</p>}
+          <div style={{ display: 'flex', gap: 'var(--space-sm)' }}>
+            <button class="btn" onClick$={handleSaveSettings} disabled={settings.saving}>Save</button>
+            <button class="btn-ghost" onClick$={() => { showSettings.value = false; }}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {/* Compose Form */}
+      {showCompose.value && (
+        <div class="glass-strong" style={{ padding: 'var(--space-lg)', marginBottom: 'var(--space-lg)' }}>
+          <input
+            type="text"
+            placeholder="Post title"
+            value={compose.title}
+            onInput$={(_, el) => { compose.title = el.value; }}
+            style={{ width: '100%', marginBottom: 'var(--space-sm)', fontSize: 'var(--font-lg)', fontWeight: '600' }}
+          />
+          <textarea
+            placeholder="Write your post (Markdown)... Use @username for mentions"
+            value={compose.body}
+            onInput$={(_, el) => { compose.body = el.value; }}
+            style={{ width: '100%', minHeight: '150px', marginBottom: 'var(--space-sm)', resize: 'vertical' }}
+          />
+          <input
+            type="text"
+            placeholder={(c.allowedTags ?? []).length > 0 ? `Tags: ${(c.allowedTags ?? []).join(', ')}` : 'Tags (comma-separated)'}
+            value={compose.tags}
+            onInput$={(_, el) => { compose.tags = el.value; }}
+            style={{ width: '100%', marginBottom: 'var(--space-md)' }}
+          />
+          {compose.error && <p style={{ color: 'var(--danger)', fontSize: 'var(--font-sm)', marginBottom: 'var(--space-sm)' }}>{compose.error}</p>}
+          <div style={{ display: 'flex', gap: 'var(--space-sm)' }}>
+            <button class="btn" onClick$={handleCreatePost}>Post</button>
+            <ForumImageButton onInsert$={(md) => { compose.body = compose.body ? `${compose.body}\n\n${md}` : md; }} />
+            <button class="btn-ghost" onClick$={() => { showCompose.value = false; }}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {/* Sort */}
+      <div style={{ marginBottom: 'var(--space-md)' }}>
+        <select
+          value={sortBy.value}
+          onChange$={(_, el) => { sortBy.value = el.value as typeof sortBy.value; }}
+          style={{ fontSize: 'var(--font-sm)' }}
+        >
+          <option value="hot">Hot</option>
+          <option value="active">Active</option>
+          <option value="top">Top</option>
+          <option value="unanswered">Unanswered</option>
+          <option value="pinned">Pinned First</option>
+          <option value="newest">Newest</option>
+        </select>
+      </div>
+
+      {/* Threads */}
+      {loading.value ? (
+        <div class="flex-center" style={{ padding: 'var(--space-2xl)' }}>
+          <div class="spinner" />
+        </div>
+      ) : sortedPosts.value.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: 'var(--space-2xl)', color: 'var(--muted)' }}>
+          <p>No threads in {c.name} yet. Be the first to start a discussion!</p>
+        </div>
+      ) : (
+        <ForumThreadList posts={sortedPosts.value} hideOrigin />
+      )}
+
+      {!loading.value && hasMore.value && (
+        <div class="flex-center" style={{ marginTop: 'var(--space-lg)' }}>
+          <button class="btn-ghost" onClick$={handleLoadMore} disabled={loadingMore.value}>
+            {loadingMore.value ? 'Loading…' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -5,7 +5,13 @@
  *
  * Features:
  *  - Create and browse forum posts using AT Protocol lexicons
- *  - Sort by newest, activity, or pinned
+ *  - Threads from across the network (lib/forum-discovery.ts): your own
+ *    repo, community repos, people you follow, people who replied, and
+ *    posts found by tag; paged with "Load more"
+ *  - Communities (sub-forums) from your repo and the community repos, each
+ *    with its own page (forum/community/[id]); "+ New Community" creates one
+ *  - Sort by hot, active (latest reply), top (votes), unanswered, pinned
+ *    first or newest; reply counts and votes come from Constellation
  *  - Filter by tags
  *  - Search threads
  *  - @mentions for tagging users
@@ -15,42 +21,168 @@
  *  - Integration with Microcosm constellations for voting
  *
  * HOW TO EDIT:
- *  - To add new sort modes, add options to the sort select
+ *  - To add new sort modes, add them to ForumSortMode, sortForumPosts()
+ *    (lib/forum.ts) and the sort select
  *  - To change the post form, edit the compose section
  *  - Forum data uses the app.purplesky.forum.post lexicon
+ *  - Discovery state lives in forumCache (module scope) so paging continues
+ *    after navigating into a thread and back
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
 import { component$, useSignal, useStore, useVisibleTask$, $ } from '@builder.io/qwik';
-import { Link } from '@builder.io/qwik-city';
+import { Link, useNavigate } from '@builder.io/qwik-city';
+import { ForumThreadList } from '~/components/forum-thread-list/forum-thread-list';
+import { ForumImageButton } from '~/components/forum-image-button/forum-image-button';
 import { withBase } from '~/lib/path';
 import { useAppState } from '~/context/app-context';
-import type { ForumPost } from '~/lib/types';
+import type { ForumDiscoveryState } from '~/lib/forum-discovery';
+import type { ForumCommunity, ForumPost, ForumSortMode } from '~/lib/types';
+
+// Module-level cache that survives route changes, like feedCache in
+// routes/index.tsx: the discovery state keeps its per-source cursors here.
+const forumCache: {
+  state: ForumDiscoveryState | null;
+  posts: ForumPost[];
+  hasMore: boolean;
+  forDid: string | null;
+} = { state: null, posts: [], hasMore: false, forDid: null };
+
+/** Latest sort request; results of older ones are dropped */
+let sortSeq = 0;
 
 export default component$(() => {
   const app = useAppState();
+  const nav = useNavigate();
   const posts = useSignal<ForumPost[]>([]);
+  /** posts in the selected sort order */
+  const sortedPosts = useSignal<ForumPost[]>([]);
   const loading = useSignal(true);
+  const loadingMore = useSignal(false);
+  const hasMore = useSignal(false);
+  const communityInput = useSignal('');
+  const communities = useSignal<ForumCommunity[]>([]);
+  const showNewCommunity = useSignal(false);
+  const newCommunity = useStore({ name: '', description: '', error: '' });
   const showCompose = useSignal(false);
-  const sortBy = useSignal<'newest' | 'activity' | 'pinned'>('newest');
+  const sortBy = useSignal<ForumSortMode>('hot');
   const filterTag = useSignal('');
 
   // Compose form state
   const compose = useStore({ title: '', body: '', tags: '' });
 
-  // Load forum posts
+  // Next page from discovery (or the first, with `reset`); posts show
+  // first, then reply counts and votes as they arrive. Repliers become
+  // sources for later pages.
+  const loadPosts = $(async (reset = false) => {
+    const { discoverForumPosts, ensureForumDiscoveryState, addForumParticipants, hasMoreForumPosts } = await import('~/lib/forum-discovery');
+    const { loadForumThreadStats } = await import('~/lib/forum');
+    const did = app.session.did ?? null;
+    if (reset || forumCache.forDid !== did) {
+      forumCache.state = null;
+      forumCache.posts = [];
+    }
+    const state = ensureForumDiscoveryState(did, forumCache.state);
+    forumCache.state = state;
+    forumCache.forDid = did;
+    const page = await discoverForumPosts(state);
+    forumCache.posts = [...forumCache.posts, ...page.posts];
+    forumCache.hasMore = page.hasMore;
+    posts.value = forumCache.posts;
+    hasMore.value = page.hasMore;
+
+    const withStats = await loadForumThreadStats(page.posts);
+    if (forumCache.state !== state) return;
+    addForumParticipants(state, withStats);
+    const byUri = new Map(withStats.map((p) => [p.uri, p]));
+    forumCache.posts = forumCache.posts.map((p) => byUri.get(p.uri) ?? p);
+    forumCache.hasMore = hasMoreForumPosts(state);
+    posts.value = forumCache.posts;
+    hasMore.value = forumCache.hasMore;
+  });
+
+  // Communities defined in your repo and the community repos
+  const loadCommunities = $(async () => {
+    const { getCommunityRepos } = await import('~/lib/forum-discovery');
+    const { listForumCommunities } = await import('~/lib/forum');
+    const repos = [...new Set([...(app.session.did ? [app.session.did] : []), ...getCommunityRepos()])];
+    const lists = await Promise.all(repos.map((r) => listForumCommunities(r)));
+    communities.value = lists.flat();
+  });
+
+  // Load forum posts (cached ones render instantly after back-navigation)
   useVisibleTask$(async () => {
-    if (!app.session.did) { loading.value = false; return; }
+    const { getCommunityRepos } = await import('~/lib/forum-discovery');
+    communityInput.value = getCommunityRepos().join(', ');
+    loadCommunities();
+    if (forumCache.posts.length > 0 && forumCache.forDid === (app.session.did ?? null)) {
+      posts.value = forumCache.posts;
+      hasMore.value = forumCache.hasMore;
+      loading.value = false;
+      return;
+    }
     try {
-      const { listForumPosts } = await import('~/lib/forum');
-      const result = await listForumPosts(app.session.did, { limit: 50 });
-      posts.value = result.posts;
+      await loadPosts(true);
     } catch (err) {
       console.error('Failed to load forum posts:', err);
     }
     loading.value = false;
   });
 
+  const handleLoadMore = $(async () => {
+    if (loadingMore.value) return;
+    loadingMore.value = true;
+    try {
+      await loadPosts();
+    } catch (err) {
+      console.error('Failed to load more forum posts:', err);
+    }
+    loadingMore.value = false;
+  });
+
+  // A tag filter also searches the network for that tag (debounced)
+  useVisibleTask$(({ track, cleanup }) => {
+    const tag = track(() => filterTag.value).trim();
+    if (!tag) return;
+    const timer = setTimeout(async () => {
+      const { addForumTagSource } = await import('~/lib/forum-discovery');
+      if (!forumCache.state) return;
+      addForumTagSource(forumCache.state, tag);
+      await handleLoadMore();
+    }, 400);
+    cleanup(() => clearTimeout(timer));
+  });
+
+  const handleSaveCommunities = $(async () => {
+    const { setCommunityRepos } = await import('~/lib/forum-discovery');
+    setCommunityRepos(communityInput.value.split(',').map((s) => s.trim()).filter(Boolean));
+    loadCommunities();
+    loading.value = true;
+    try {
+      await loadPosts(true);
+    } catch (err) {
+      console.error('Failed to load forum posts:', err);
+    }
+    loading.value = false;
+  });
+
+  // Sort whenever the posts, their stats or the mode change
+  useVisibleTask$(async ({ track }) => {
+    const list = track(() => posts.value);
+    const mode = track(() => sortBy.value);
+    const seq = ++sortSeq;
+    const { sortForumPosts } = await import('~/lib/forum');
+    const { isWasmCancelled } = await import('~/lib/wasm-bridge');
+    try {
+      const sorted = await sortForumPosts(list, mode);
+      // A later sort (e.g. a sync mode after a pending hot sort) wins
+      if (seq === sortSeq) sortedPosts.value = sorted;
+    } catch (err) {
+      if (isWasmCancelled(err)) return;
+      console.error('Failed to sort forum posts:', err);
+    }
+  });
+
   // Create post handler
   const handleCreatePost = $(async () => {
     if (!compose.title.trim()) return;
@@ -65,17 +197,28 @@ export default component$(() => {
       compose.body = '';
       compose.tags = '';
       showCompose.value = false;
-      // Reload posts
-      if (app.session.did) {
-        const { listForumPosts } = await import('~/lib/forum');
-        const result = await listForumPosts(app.session.did, { limit: 50 });
-        posts.value = result.posts;
-      }
+      // Start over so the new post shows at the top
+      await loadPosts(true);
     } catch (err) {
       console.error('Failed to create post:', err);
     }
   });
 
+  const handleCreateCommunity = $(async () => {
+    if (!newCommunity.name.trim()) return;
+    newCommunity.error = '';
+    try {
+      const { createForumCommunity } = await import('~/lib/forum');
+      const community = await createForumCommunity({ name: newCommunity.name, description: newCommunity.description });
+      newCommunity.name = '';
+      newCommunity.description = '';
+      showNewCommunity.value = false;
+      await nav(withBase(`/forum/community/${encodeURIComponent(community.uri)}/`));
+    } catch (err) {
+      newCommunity.error = err instanceof Error ? err.message : 'Could not create the community';
+    }
+  });
+
   // Save draft (dynamic import – no require() in ESM)
   const handleSaveDraft = $(async () => {
     const { saveDraft } = await import('~/lib/forum');
@@ -83,28 +226,69 @@ export default component$(() => {
     showCompose.value = false;
   });
 
-  // Filtered & sorted posts
-  const displayPosts = posts.value
-    .filter((p) => !filterTag.value || p.tags?.includes(filterTag.value))
-    .sort((a, b) => {
-      if (sortBy.value === 'pinned') {
-        if (a.isPinned && !b.isPinned) return -1;
-        if (!a.isPinned && b.isPinned) return 1;
-      }
-      return new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime();
-    });
+  // Filtered posts (already sorted)
+  const tagFilter = filterTag.value.trim().replace(/^[#%]/, '').toLowerCase();
+  const displayPosts = sortedPosts.value
+    .filter((p) => !tagFilter || p.tags?.some((t) => t.toLowerCase() === tagFilter));
+  const communityNames = Object.fromEntries(communities.value.map((c) => [c.uri, c.name]));
 
   return (
     <div class="forum-page">
       <div class="flex-between" style={{ marginBottom: 'var(--space-lg)' }}>
         <h1 style={{ fontSize: 'var(--font-2xl)', fontWeight: '700' }}>Forums</h1>
         {app.session.isLoggedIn && (
-          <button class="btn" onClick$={() => { showCompose.value = !showCompose.value; }}>
-            + New Post
-          </button>
+          <div style={{ display: 'flex', gap: 'var(--space-sm)' }}>
+            <button class="btn-ghost" onClick$={() => { showNewCommunity.value = !showNewCommunity.value; }}>
+              + New Community
+            </button>
+            <button class="btn" onClick$={() => { showCompose.value = !showCompose.value; }}>
+              + New Post
+            </button>
+          </div>
         )}
       </div>
 
+      {/* New community form (rules, moderators and tags are set on its page) */}
+      {showNewCommunity.value && (
+        <div class="glass-strong" style={{ padding: 'var(--space-lg)', marginBottom: 'var(--space-lg)' }}>
+          <input
+            type="text"
+            placeholder="Community name (e.g. Godot Help)"
+            value={newCommunity.name}
+            onInput$={(_, el) => { newCommunity.name = el.value; }}
+            style={{ width: '100%', marginBottom: 'var(--space-sm)', fontWeight: '600' }}
+          />
+          <textarea
+            placeholder="What is this community about?"
+            value={newCommunity.description}
+            onInput$={(_, el) => { newCommunity.description = el.value; }}
+            style={{ width: '100%', minHeight: '80px', marginBottom: 'var(--space-sm)', resize: 'vertical' }}
+          />
+          {newCommunity.error && <p style={{ color: 'var(--danger)', fontSize: 'var(--font-sm)', marginBottom: 'var(--space-sm)' }}>{newCommunity.error}</p>}
+          <div style={{ display: 'flex', gap: 'var(--space-sm)' }}>
+            <button class="btn" onClick$={handleCreateCommunity}>Create</button>
+            <button class="btn-ghost" onClick$={() => { showNewCommunity.value = false; }}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {/* Communities */}
+      {communities.value.length > 0 && (
+        <div style={{ display: 'flex', gap: 'var(--space-sm)', flexWrap: 'wrap', marginBottom: 'var(--space-lg)' }}>
+          {communities.value.map((c) => (
+            <Link
+              key={c.uri}
+              href={withBase(`/forum/community/${encodeURIComponent(c.uri)}/`)}
+              class="glass"
+              title={c.description}
+              style={{ padding: 'var(--space-xs) var(--space-md)', textDecoration: 'none', color: 'var(--text)', fontSize: 'var(--font-sm)', fontWeight: '600' }}
+            >
+              {c.name}
+            </Link>
+          ))}
+        </div>
+      )}
+
       {/* Compose Form */}
       {showCompose.value && (
         <div class="glass-strong" style={{ padding: 'var(--space-lg)', marginBottom: 'var(--space-lg)' }}>
@@ -116,7 +300,7 @@ export default component$(() => {
             style={{ width: '100%', marginBottom: 'var(--space-sm)', fontSize: 'var(--font-lg)', fontWeight: '600' }}
           />
           <textarea
-            placeholder="Write your post... Use @username for mentions"
+            placeholder="Write your post (Markdown)... Use @username for mentions"
             value={compose.body}
             onInput$={(_, el) => { compose.body = el.value; }}
             style={{ width: '100%', minHeight: '150px', marginBottom: 'var(--space-sm)', resize: 'vertical' }}
@@ -130,6 +314,7 @@ export default component$(() => {
           />
           <div style={{ display: 'flex', gap: 'var(--space-sm)' }}>
             <button class="btn" onClick$={handleCreatePost}>Post</button>
+            <ForumImageButton onInsert$={(md) => { compose.body = compose.body ? `${compose.body}\n\n${md}` : md; }} />
             <button class="btn-ghost" onClick$={handleSaveDraft}>Save Draft</button>
             <button class="btn-ghost" onClick$={() => { showCompose.value = false; }}>Cancel</button>
           </div>
@@ -143,9 +328,12 @@ export default component$(() => {
           onChange$={(_, el) => { sortBy.value = el.value as typeof sortBy.value; }}
           style={{ fontSize: 'var(--font-sm)' }}
         >
-          <option value="newest">Newest</option>
-          <option value="activity">Most Activity</option>
+          <option value="hot">Hot</option>
+          <option value="active">Active</option>
+          <option value="top">Top</option>
+          <option value="unanswered">Unanswered</option>
           <option value="pinned">Pinned First</option>
+          <option value="newest">Newest</option>
         </select>
         <input
           type="text"
@@ -156,6 +344,21 @@ export default component$(() => {
         />
       </div>
 
+      {/* Community repos read for everyone on this device */}
+      <details style={{ marginBottom: 'var(--space-md)', fontSize: 'var(--font-sm)' }}>
+        <summary style={{ cursor: 'pointer', color: 'var(--muted)' }}>Community repos</summary>
+        <div style={{ display: 'flex', gap: 'var(--space-sm)', marginTop: 'var(--space-sm)' }}>
+          <input
+            type="text"
+            placeholder="Handles or DIDs (comma-separated)"
+            value={communityInput.value}
+            onInput$={(_, el) => { communityInput.value = el.value; }}
+            style={{ flex: 1, fontSize: 'var(--font-sm)' }}
+          />
+          <button class="btn-ghost" onClick$={handleSaveCommunities}>Save</button>
+        </div>
+      </details>
+
       {/* Posts List */}
       {loading.value ? (
         <div class="flex-center" style={{ padding: 'var(--space-2xl)' }}>
@@ -163,46 +366,17 @@ export default component$(() => {
         </div>
       ) : displayPosts.length === 0 ? (
         <div style={{ textAlign: 'center', padding: 'var(--space-2xl)', color: 'var(--muted)' }}>
-          <p>No forum posts yet. Be the first to start a discussion!</p>
+          <p>{posts.value.length > 0 ? 'No threads match this view.' : 'No forum posts yet. Be the first to start a discussion!'}</p>
         </div>
       ) : (
-        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-sm)' }}>
-          {displayPosts.map((post) => (
-            <Link
-              key={post.uri}
-              href={withBase(`/forum/${encodeURIComponent(post.uri)}/`)}
-              class="glass"
-              style={{
-                display: 'block', padding: 'var(--space-md)', textDecoration: 'none', color: 'var(--text)',
-                transition: 'transform var(--transition-fast)',
-                border: post.isPinned ? '1px solid var(--accent)' : undefined,
-              }}
-            >
-              <div class="flex-between">
-                <div style={{ flex: 1, minWidth: 0 }}>
-                  <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-sm)', marginBottom: 'var(--space-xs)' }}>
-                    {post.isPinned && <span class="badge">Pinned</span>}
-                    {post.isWiki && <span class="badge-success badge">Wiki</span>}
-                    <h3 class="truncate" style={{ fontSize: 'var(--font-base)', fontWeight: '600' }}>
-                      {post.title || 'Untitled'}
-                    </h3>
-                  </div>
-                  {post.body && (
-                    <p class="truncate" style={{ fontSize: 'var(--font-sm)', color: 'var(--muted)' }}>
-                      {post.body.slice(0, 120)}
-                    </p>
-                  )}
-                  <div style={{ display: 'flex', gap: 'var(--space-md)', marginTop: 'var(--space-xs)', fontSize: 'var(--font-xs)', color: 'var(--muted)' }}>
-                    {post.authorHandle && <span>@{post.authorHandle}</span>}
-                    {post.createdAt && <span>{new Date(post.createdAt).toLocaleDateString()}</span>}
-                    {post.tags?.map((tag) => (
-                      <span key={tag} class="badge" style={{ fontSize: '10px' }}>#{tag}</span>
-                    ))}
-                  </div>
-                </div>
-              </div>
-            </Link>
-          ))}
+        <ForumThreadList posts={displayPosts} communityNames={communityNames} />
+      )}
+
+      {!loading.value && hasMore.value && (
+        <div class="flex-center" style={{ marginTop: 'var(--space-lg)' }}>
+          <button class="btn-ghost" onClick$={handleLoadMore} disabled={loadingMore.value}>
+            {loadingMore.value ? 'Loading…' : 'Load more'}
+          </button>
         </div>
       )}
 
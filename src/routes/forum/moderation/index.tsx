@@ -0,0 +1,134 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Forum Moderation Log – Public List of Moderation Actions
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * /forum/moderation/?thread=<at:// post URI> or ?community=<at:// community
+ * URI> lists the hidden replies, locks and reports for that thread or
+ * community, newest first, with who took each action and why. Only actions
+ * that count (see lib/forum-moderation.ts) are listed. You can undo your
+ * own actions from here.
+ *
+ * HOW TO EDIT:
+ *  - Labels per action kind: ACTION_LABELS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { component$, useSignal, useVisibleTask$, $ } from '@builder.io/qwik';
+import { Link, useLocation } from '@builder.io/qwik-city';
+import { useAppState } from '~/context/app-context';
+import { withBase } from '~/lib/path';
+import type { ForumModerationAction } from '~/lib/types';
+
+const ACTION_LABELS: Record<string, string> = {
+  hide: 'hid a reply',
+  lock: 'locked the thread',
+  report: 'reported',
+};
+
+export default component$(() => {
+  const app = useAppState();
+  const loc = useLocation();
+  const threadUri = loc.url.searchParams.get('thread') ?? '';
+  const communityUri = loc.url.searchParams.get('community') ?? '';
+
+  const actions = useSignal<ForumModerationAction[]>([]);
+  const handles = useSignal<Record<string, string>>({});
+  /** Thread title or community name */
+  const title = useSignal('');
+  const loading = useSignal(true);
+  const notFound = useSignal(false);
+
+  useVisibleTask$(async () => {
+    try {
+      const { getForumCommunity, getForumPost } = await import('~/lib/forum');
+      const { loadCommunityModerationLog, loadThreadModeration } = await import('~/lib/forum-moderation');
+      if (threadUri) {
+        const post = await getForumPost(threadUri);
+        if (post) {
+          title.value = post.title || 'Untitled';
+          actions.value = (await loadThreadModeration(post)).actions;
+        } else {
+          notFound.value = true;
+        }
+      } else if (communityUri) {
+        const community = await getForumCommunity(communityUri);
+        if (community) {
+          title.value = community.name;
+          actions.value = await loadCommunityModerationLog(community);
+        } else {
+          notFound.value = true;
+        }
+      } else {
+        notFound.value = true;
+      }
+      const { getCachedProfiles } = await import('~/lib/data-cache');
+      const profiles = await getCachedProfiles(actions.value.map((a) => a.did));
+      handles.value = Object.fromEntries(Object.entries(profiles).map(([did, p]) => [did, p.handle]));
+    } catch (err) {
+      console.error('Failed to load moderation log:', err);
+    }
+    loading.value = false;
+  });
+
+  const handleUndo = $(async (uri: string) => {
+    try {
+      const { deleteModerationAction } = await import('~/lib/forum-moderation');
+      await deleteModerationAction(uri);
+      actions.value = actions.value.filter((a) => a.uri !== uri);
+    } catch (err) {
+      console.error('Failed to undo moderation action:', err);
+    }
+  });
+
+  const backHref = threadUri
+    ? withBase(`/forum/${encodeURIComponent(threadUri)}/`)
+    : communityUri ? withBase(`/forum/community/${encodeURIComponent(communityUri)}/`) : withBase('/forum/');
+
+  return (
+    <div style={{ maxWidth: '800px', margin: '0 auto' }}>
+      <Link href={backHref} style={{ color: 'var(--muted)', fontSize: 'var(--font-sm)', textDecoration: 'none' }}>
+        ← Back
+      </Link>
+      <h1 style={{ fontSize: 'var(--font-2xl)', fontWeight: '700', margin: 'var(--space-md) 0' }}>
+        Moderation log{title.value ? `: ${title.value}` : ''}
+      </h1>
+
+      {loading.value ? (
+        <div class="flex-center" style={{ padding: 'var(--space-2xl)' }}>
+          <div class="spinner" />
+        </div>
+      ) : notFound.value ? (
+        <p style={{ color: 'var(--muted)' }}>Thread or community not found.</p>
+      ) : actions.value.length === 0 ? (
+        <p style={{ color: 'var(--muted)' }}>No moderation actions yet.</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-sm)' }}>
+          {actions.value.map((a) => (
+            <div key={a.uri} class="glass" style={{ padding: 'var(--space-md)', fontSize: 'var(--font-sm)' }}>
+              <div style={{ display: 'flex', gap: 'var(--space-sm)', flexWrap: 'wrap', alignItems: 'baseline' }}>
+                <span style={{ fontWeight: '600' }}>@{handles.value[a.did] ?? a.did}</span>
+                <span>{ACTION_LABELS[a.action] ?? a.action}</span>
+                {a.action === 'report' && <span>{a.subject === a.thread ? 'the thread' : 'a reply'}</span>}
+                {communityUri && (
+                  <Link href={withBase(`/forum/${encodeURIComponent(a.thread)}/`)} style={{ color: 'var(--accent)', textDecoration: 'none' }}>
+                    view thread
+                  </Link>
+                )}
+                <span style={{ color: 'var(--muted)', marginLeft: 'auto', fontSize: 'var(--font-xs)' }}>
+                  {new Date(a.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {a.reason && <p style={{ color: 'var(--muted)', marginTop: 'var(--space-xs)', whiteSpace: 'pre-wrap' }}>{a.reason}</p>}
+              {a.did === app.session.did && (
+                <button class="btn-ghost" style={{ fontSize: 'var(--font-xs)', marginTop: 'var(--space-xs)' }} onClick$={() => handleUndo(a.uri)}>
+                  Undo
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
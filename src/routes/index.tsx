@@ -12,12 +12,16 @@
  *  - Seen post tracking (mark posts as seen when scrolled past)
  *  - Hide/show seen posts toggle
  *  - Art-only and media-only filters
+ *  - Content filter rules (mute words, tags, authors…) applied before sorting
+ *  - Catch-up mode: unseen posts since the last visit, summarised, then stop
  *  - Sorting via WASM (newest, trending, Wilson score, controversial)
  *
  * HOW TO EDIT:
  *  - To change the default sort order, edit the initial sortMode value
  *  - To add a new filter, add a state variable and filter logic
- *  - The masonry layout is handled by the MasonryFeed component
+ *  - The masonry layout lives in ~/lib/masonry: columns are assigned
+ *    append-only (WASM), and only cards near the viewport are mounted
+ *    (GRID_OVERSCAN_PX), the rest are column padding
  *  - Feed mixing is configured in the FeedSelector component
  * ═══════════════════════════════════════════════════════════════════════════
  */
@@ -27,7 +31,21 @@ import { useNavigate } from '@builder.io/qwik-city';
 import { useAppState } from '~/context/app-context';
 import { PostCard } from '~/components/post-card/post-card';
 import { FeedSelector } from '~/components/feed-selector/feed-selector';
+import { ContentFilters } from '~/components/content-filters/content-filters';
+import { CatchUpHeader } from '~/components/catch-up/catch-up-header';
 import type { TimelineItem } from '~/lib/types';
+import { mixShareReport, mixSignature, mixSourcesKey, type FeedMixState, type MixShare } from '~/lib/feed-mix';
+import type { ContentFilterDecision } from '~/lib/content-filters';
+import type { CatchUpCount } from '~/lib/catch-up';
+import {
+  createMasonryColumns,
+  layoutMasonry,
+  masonryCardHeight,
+  masonryNeighbor,
+  masonryWindow,
+  type MasonryColumns,
+  type MasonryLayout,
+} from '~/lib/masonry';
 import { withBase } from '~/lib/path';
 import * as bsky from '~/lib/bsky';
 
@@ -37,12 +55,46 @@ import './feed.css';
 // Module-level cache that survives route changes (QwikCity SPA navigation
 // keeps the same JS context). When the user navigates back to the feed,
 // the cached items render instantly so scroll position can be restored.
+// The mix engine state lives here too (not in a store) so paging continues
+// with the same per-source buffers after back-navigation, and so does the
+// masonry layout (column per card, measured card heights, scroll offset).
 const feedCache: {
   items: TimelineItem[];
-  cursors: Record<string, string>;
+  mixState: FeedMixState | null;
+  hasMore: boolean;
   sortedItems: TimelineItem[];
   forDid: string | null; // track which account the cache belongs to
-} = { items: [], cursors: {}, sortedItems: [], forDid: null };
+  masonry: MasonryColumns;
+  /** Last rendered layout (keyboard navigation reads it) */
+  layout: MasonryLayout | null;
+  /** Measured card heights by post URI, valid for heightsKey (view mode + column width) */
+  heights: Map<string, number>;
+  heightsKey: string;
+  scrollY: number;
+  /** Catch-up mode: how far down the grid (px) the user has scrolled */
+  readTo: number;
+} = {
+  items: [], mixState: null, hasMore: false, sortedItems: [], forDid: null,
+  masonry: createMasonryColumns(), layout: null, heights: new Map(), heightsKey: '', scrollY: 0, readTo: 0,
+};
+
+/** Feed items the grid shows: minus hidden-seen, rule-hidden, NSFW (hide) and non-media (media only). */
+function filterDisplayItems(
+  base: TimelineItem[],
+  hiddenSeen: Set<string>,
+  ruleHidden: Set<string>,
+  nsfwMode: 'hide' | 'blur' | 'show',
+  mediaOnly: boolean,
+): TimelineItem[] {
+  return base.filter((item) => {
+    if (hiddenSeen.has(item.post.uri) || ruleHidden.has(item.post.uri)) return false;
+    if (nsfwMode === 'hide' && bsky.isPostNsfw(item.post)) return false;
+    return !mediaOnly || !!bsky.getPostMediaInfo(item.post);
+  });
+}
+
+/** Cards within this distance (px) above or below the viewport stay mounted. */
+const GRID_OVERSCAN_PX = 1200;
 
 export default component$(() => {
   const app = useAppState();
@@ -56,17 +108,17 @@ export default component$(() => {
   const mouseOverIndex = useSignal(-1);
 
   // ── Feed State ──────────────────────────────────────────────────────────
-  /** Cursors: for mixed feed use keys like 'timeline', at://... */
+  /** hasMore: some mix source still has buffered items or a cursor */
   const feed = useStore<{
     items: TimelineItem[];
     loading: boolean;
-    cursors: Record<string, string>;
+    hasMore: boolean;
     error: string | null;
     restoredFromCache: boolean;
   }>({
     items: [],
     loading: true,
-    cursors: {},
+    hasMore: false,
     error: null,
     restoredFromCache: false,
   });
@@ -74,9 +126,12 @@ export default component$(() => {
   /** Which sort algorithm to use */
   const sortMode = useSignal<'newest' | 'trending' | 'wilson' | 'score' | 'controversial'>('newest');
 
-  /** Set of seen post URIs (tracked locally) */
+  /** Seen post URIs among the loaded feed items (full store: lib/seen-posts) */
   const seenPosts = useSignal<Set<string>>(new Set());
 
+  /** True once the IndexedDB seen-posts store is loaded */
+  const seenStoreReady = useSignal(false);
+
 
   /** URIs hidden by "hide seen" this session; long-press restores by clearing this */
   const hiddenSeenUris = useSignal<Set<string>>(new Set());
@@ -105,36 +160,145 @@ export default component$(() => {
   /** Post URIs user has tapped to unblur (NSFW blur mode) */
   const unblurredNsfwUris = useSignal<Set<string>>(new Set());
 
+  /** Show content filter rules panel */
+  const showContentFilters = useSignal(false);
+
+  /** Blur/collapse decisions from content filter rules, by post URI */
+  const contentDecisions = useSignal<Record<string, ContentFilterDecision>>({});
+
+  /** Post URIs removed by a "hide" content filter rule */
+  const ruleHiddenUris = useSignal<Set<string>>(new Set());
+
+  /** Post URIs user has tapped "Show" on (blurred/collapsed by a filter rule) */
+  const revealedFilteredUris = useSignal<Set<string>>(new Set());
+
+  /** Configured vs actual share per mixed source this session (feed selector panel) */
+  const mixShares = useSignal<MixShare[]>([]);
+
+  // ── Virtualized Grid ────────────────────────────────────────────────────
+  const gridRef = useSignal<HTMLElement>();
+  /** Scroll window relative to the grid top, plus measured column width and gap */
+  const gridView = useStore({ top: 0, height: 1000, columnWidth: 0, gap: 16 });
+  /** Bumped when column assignments or measured card heights change so the layout re-runs */
+  const layoutTick = useSignal(0);
+
+  /** Catch-up mode: only unseen posts since the last visit, with a summary */
+  const catchUp = useStore<{
+    active: boolean;
+    loading: boolean;
+    since: number;
+    bySource: CatchUpCount[];
+    byAuthor: CatchUpCount[];
+    complete: boolean;
+  }>({ active: false, loading: false, since: 0, bySource: [], byAuthor: [], complete: true });
+
   // ── Load Feed ───────────────────────────────────────────────────────────
   const loadFeed = $(async (append = false) => {
     feed.loading = true;
     feed.error = null;
+    // A fresh load (e.g. after changing the mix) leaves catch-up mode
+    if (!append) catchUp.active = false;
     try {
       const { getMixedFeed } = await import('~/lib/bsky');
-      const cursorsToUse = append && Object.keys(feed.cursors).length > 0 ? feed.cursors : undefined;
+      // Continue the mix when appending; a fresh load starts new buffers
+      const stateToUse = append ? feedCache.mixState : null;
       const usePublic = !app.session.isLoggedIn;
-      const result = await getMixedFeed(app.feedMix, 30, cursorsToUse, usePublic);
+      const result = await getMixedFeed(app.feedMix, 30, stateToUse, usePublic, app.feedMixOptions);
       if (append) {
         feed.items = [...feed.items, ...result.feed];
       } else {
         feed.items = result.feed;
       }
-      feed.cursors = result.cursors ?? {};
+      feedCache.mixState = result.state;
+      mixShares.value = mixShareReport(result.state, app.feedMix);
+      feed.hasMore = result.hasMore;
     } catch (err) {
       feed.error = err instanceof Error ? err.message : 'Failed to load feed';
     }
     feed.loading = false;
     // Write through to module-level cache so back-navigation restores instantly
     feedCache.items = [...feed.items];
-    feedCache.cursors = { ...feed.cursors };
+    feedCache.hasMore = feed.hasMore;
     feedCache.forDid = app.session.did;
   });
 
+  // ── Catch-Up Mode ───────────────────────────────────────────────────────
+  const startCatchUp = $(async () => {
+    catchUp.active = true;
+    feedCache.readTo = 0;
+    catchUp.loading = true;
+    feed.loading = true;
+    feed.error = null;
+    try {
+      const { getCatchUpWatermark, loadCatchUp } = await import('~/lib/catch-up');
+      const { openSeenStore } = await import('~/lib/seen-posts');
+      await openSeenStore();
+      catchUp.since = getCatchUpWatermark();
+      const result = await loadCatchUp(app.feedMix, catchUp.since, !app.session.isLoggedIn);
+      if (!catchUp.active) return; // exited while loading
+      feed.items = result.items;
+      feed.hasMore = false;
+      catchUp.bySource = result.bySource;
+      catchUp.byAuthor = result.byAuthor;
+      catchUp.complete = result.complete;
+    } catch (err) {
+      feed.error = err instanceof Error ? err.message : 'Failed to catch up';
+    }
+    catchUp.loading = false;
+    feed.loading = false;
+  });
+
+  const exitCatchUp = $(() => {
+    catchUp.active = false;
+    catchUp.loading = false;
+    loadFeed();
+  });
+
+  /**
+   * Mark the catch-up posts the user has scrolled past (cards that ended
+   * above the furthest point reached) as seen. Once nothing unseen is left,
+   * the watermark moves to now.
+   */
+  const markCatchUpSeen = $(async () => {
+    const layout = feedCache.layout;
+    const uris = feed.items.map((i) => i.post.uri).filter((uri) => {
+      const p = layout?.byUri.get(uri);
+      return !!p && p.top + p.height <= feedCache.readTo;
+    });
+    const { markPostsSeen, seenScope } = await import('~/lib/seen-posts');
+    markPostsSeen(uris, seenScope(mixSourcesKey(app.feedMix)));
+    seenPosts.value = new Set([...seenPosts.value, ...uris]);
+    if (feed.items.every((i) => seenPosts.value.has(i.post.uri))) {
+      const { markCaughtUp } = await import('~/lib/catch-up');
+      markCaughtUp();
+      app.toastMessage = "You're all caught up";
+    } else {
+      app.toastMessage = uris.length > 0 ? `Marked ${uris.length} as seen` : 'Scroll down to read, then mark what you passed';
+    }
+  });
+
+  // Pin this session's watermark, then record the visit when the page is left
+  useVisibleTask$(async ({ cleanup }) => {
+    const { getCatchUpWatermark, recordVisit } = await import('~/lib/catch-up');
+    getCatchUpWatermark();
+    const onHide = () => { if (document.visibilityState === 'hidden') recordVisit(); };
+    const onPageHide = () => recordVisit();
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', onPageHide);
+    cleanup(() => {
+      document.removeEventListener('visibilitychange', onHide);
+      window.removeEventListener('pagehide', onPageHide);
+    });
+  });
+
   // ── Initial Load ────────────────────────────────────────────────────────
   useVisibleTask$(async () => {
+    // Read before the grid task starts tracking scroll (it overwrites this)
+    const restoreScrollY = feedCache.scrollY;
     try {
-      const raw = localStorage.getItem('purplesky-seen-posts');
-      if (raw) seenPosts.value = new Set(JSON.parse(raw));
+      const { openSeenStore } = await import('~/lib/seen-posts');
+      await openSeenStore();
+      seenStoreReady.value = true;
     } catch { /* ignore */ }
 
     // Check if we have a valid cache for this account (back-navigation)
@@ -143,12 +307,16 @@ export default component$(() => {
     if (feedCache.items.length > 0 && cacheMatchesAccount) {
       // Restore from cache — renders immediately so scroll position works
       feed.items = feedCache.items;
-      feed.cursors = feedCache.cursors;
+      feed.hasMore = feedCache.hasMore;
       feed.loading = false;
       feed.restoredFromCache = true;
       if (feedCache.sortedItems.length > 0) {
         sortedDisplayItems.value = feedCache.sortedItems;
       }
+      mixShares.value = mixShareReport(feedCache.mixState, app.feedMix);
+      // Cached layout and heights keep the grid as tall as before, so the
+      // old offset exists as soon as the cards render
+      requestAnimationFrame(() => requestAnimationFrame(() => window.scrollTo(0, restoreScrollY)));
       return; // Don't reload — user navigated back
     }
 
@@ -208,6 +376,88 @@ export default component$(() => {
     });
   });
 
+  // ── Grid window, column width and card measurement ─────────────────────
+  useVisibleTask$(({ track, cleanup }) => {
+    const cols = track(() => app.viewColumns);
+    const grid = gridRef.value;
+    if (!grid) return;
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      if (!grid.isConnected) return; // navigating away: keep the saved offset
+      const gap = parseFloat(getComputedStyle(grid).columnGap) || 16;
+      gridView.gap = gap;
+      gridView.columnWidth = (grid.clientWidth - gap * (cols - 1)) / cols;
+      // Only re-render when the window moved a good part of the overscan
+      const top = -grid.getBoundingClientRect().top;
+      if (Math.abs(top - gridView.top) > GRID_OVERSCAN_PX / 4) gridView.top = top;
+      if (gridView.height !== window.innerHeight) gridView.height = window.innerHeight;
+      feedCache.scrollY = window.scrollY;
+      if (catchUp.active) feedCache.readTo = Math.max(feedCache.readTo, top + window.innerHeight);
+    };
+    const schedule = () => { if (!frame) frame = requestAnimationFrame(update); };
+    update();
+
+    // Record real card heights; they replace the estimates in the layout
+    const resize = new ResizeObserver((entries) => {
+      const key = `${app.cardViewMode}:${Math.round(gridView.columnWidth)}`;
+      if (feedCache.heightsKey !== key) {
+        feedCache.heights.clear();
+        feedCache.heightsKey = key;
+      }
+      let changed = false;
+      for (const entry of entries) {
+        const uri = (entry.target as HTMLElement).dataset.masonryUri;
+        const h = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+        if (!uri || h === 0) continue;
+        if (Math.abs((feedCache.heights.get(uri) ?? 0) - h) > 1) {
+          feedCache.heights.set(uri, h);
+          changed = true;
+        }
+      }
+      if (changed) layoutTick.value++;
+    });
+    grid.querySelectorAll<HTMLElement>('[data-masonry-uri]').forEach((el) => resize.observe(el));
+    // Observe cards as they mount, release them as they unmount
+    const mutations = new MutationObserver((records) => {
+      for (const r of records) {
+        r.addedNodes.forEach((n) => { if (n instanceof HTMLElement && n.dataset.masonryUri) resize.observe(n); });
+        r.removedNodes.forEach((n) => { if (n instanceof HTMLElement && n.dataset.masonryUri) resize.unobserve(n); });
+      }
+    });
+    mutations.observe(grid, { childList: true, subtree: true });
+
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    cleanup(() => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      resize.disconnect();
+      mutations.disconnect();
+    });
+  });
+
+  // ── Masonry column assignment (append-only; reflows on column change) ─
+  useVisibleTask$(async ({ track }) => {
+    const base = track(() => (sortedDisplayItems.value.length > 0 ? sortedDisplayItems.value : feed.items));
+    track(() => feed.items.length);
+    const hiddenSeen = track(() => hiddenSeenUris.value);
+    const ruleHidden = track(() => ruleHiddenUris.value);
+    const nsfwMode = track(() => app.nsfwMode);
+    const mediaOnly = track(() => app.mediaOnly);
+    const cols = track(() => app.viewColumns);
+    const mode = track(() => app.cardViewMode);
+    // Column width is only known once the grid has been measured
+    const columnWidth = track(() => gridView.columnWidth);
+    if (columnWidth === 0) return;
+    const items = filterDisplayItems(base, hiddenSeen, ruleHidden, nsfwMode, mediaOnly);
+    const { assignMasonryColumns } = await import('~/lib/masonry');
+    const measured = feedCache.heightsKey === `${mode}:${Math.round(columnWidth)}` ? feedCache.heights : null;
+    const changed = await assignMasonryColumns(feedCache.masonry, items, cols, columnWidth, gridView.gap, mode, measured);
+    if (changed) layoutTick.value++;
+  });
+
   // ── Refresh feed when a new post is published (e.g. from compose modal) ─
   useVisibleTask$(({ cleanup }) => {
     const onRefresh = () => loadFeed();
@@ -237,7 +487,7 @@ export default component$(() => {
   const feedMixInitialized = useSignal(false);
   const feedMixReloadTimeout = useSignal<ReturnType<typeof setTimeout> | undefined>(undefined);
   useVisibleTask$(({ track, cleanup }) => {
-    track(() => JSON.stringify(app.feedMix.map((e) => ({ uri: e.source.uri ?? e.source.kind, p: e.percent }))));
+    track(() => mixSignature(app.feedMix, app.feedMixOptions));
     if (!feedMixInitialized.value) {
       feedMixInitialized.value = true;
       return;
@@ -272,8 +522,16 @@ export default component$(() => {
     track(() => feed.items.length);
     track(() => sortMode.value);
     track(() => downvoteCounts.value);
+    track(() => JSON.stringify(app.contentRules));
+
+    // Content filter rules run before sorting so hidden posts never reach the grid
+    const { applyContentRules } = await import('~/lib/content-filters');
+    const ruled = applyContentRules(feed.items, app.contentRules);
+    contentDecisions.value = ruled.decisions;
+    const kept = new Set(ruled.items.map((i) => i.post.uri));
+    ruleHiddenUris.value = new Set(feed.items.map((i) => i.post.uri).filter((uri) => !kept.has(uri)));
 
-    const filtered = [...feed.items];
+    const filtered = [...ruled.items];
     if (filtered.length === 0) {
       sortedDisplayItems.value = [];
       return;
@@ -295,24 +553,31 @@ export default component$(() => {
       sortByWilsonScore,
       sortByScore,
       sortByControversial,
+      isWasmCancelled,
     } = await import('~/lib/wasm-bridge');
 
     let ordered: typeof sortable;
-    switch (sortMode.value) {
-      case 'trending':
-        ordered = await sortByTrending(sortable);
-        break;
-      case 'wilson':
-        ordered = await sortByWilsonScore(sortable);
-        break;
-      case 'score':
-        ordered = await sortByScore(sortable);
-        break;
-      case 'controversial':
-        ordered = await sortByControversial(sortable);
-        break;
-      default:
-        ordered = await sortByNewest(sortable);
+    try {
+      switch (sortMode.value) {
+        case 'trending':
+          ordered = await sortByTrending(sortable);
+          break;
+        case 'wilson':
+          ordered = await sortByWilsonScore(sortable);
+          break;
+        case 'score':
+          ordered = await sortByScore(sortable);
+          break;
+        case 'controversial':
+          ordered = await sortByControversial(sortable);
+          break;
+        default:
+          ordered = await sortByNewest(sortable);
+      }
+    } catch (err) {
+      // A newer sort (more items, another mode) replaced this one
+      if (isWasmCancelled(err)) return;
+      throw err;
     }
 
     const byUri = new Map(filtered.map((i) => [i.post.uri, i]));
@@ -322,9 +587,8 @@ export default component$(() => {
   });
 
   // ── Load More (infinite scroll) ─────────────────────────────────────────
-  const hasMoreCursor = Object.values(feed.cursors).some(Boolean);
   const loadMore = $(() => {
-    if (!feed.loading && hasMoreCursor) loadFeed(true);
+    if (!feed.loading && feed.hasMore) loadFeed(true);
   });
 
   // ── Load my downvotes and artboards when logged in ──────────────────────
@@ -354,6 +618,9 @@ export default component$(() => {
       const { createDownvote } = await import('~/lib/bsky');
       const recordUri = await createDownvote(uri, cid);
       myDownvoteUris.value = { ...myDownvoteUris.value, [uri]: recordUri };
+      // Cached count plus our vote (Constellation indexes it a little later)
+      const { getDownvoteCounts } = await import('~/lib/constellation');
+      downvoteCounts.value = { ...downvoteCounts.value, ...(await getDownvoteCounts([uri])) };
     } catch (err) {
       console.error('Downvote failed:', err);
     }
@@ -363,10 +630,12 @@ export default component$(() => {
     if (!recordUri) return;
     try {
       const { deleteDownvote } = await import('~/lib/bsky');
-      await deleteDownvote(recordUri);
+      await deleteDownvote(recordUri, postUri);
       const next = { ...myDownvoteUris.value };
       delete next[postUri];
       myDownvoteUris.value = next;
+      const { getDownvoteCounts } = await import('~/lib/constellation');
+      downvoteCounts.value = { ...downvoteCounts.value, ...(await getDownvoteCounts([postUri])) };
     } catch (err) {
       console.error('Undo downvote failed:', err);
     }
@@ -395,20 +664,23 @@ export default component$(() => {
   });
 
   // ── Mark Post as Seen ───────────────────────────────────────────────────
-  const markSeen = $((uri: string) => {
+  const markSeen = $(async (uri: string) => {
+    if (seenPosts.value.has(uri)) return;
     const next = new Set(seenPosts.value);
     next.add(uri);
-    // Cap at 2000 entries
-    if (next.size > 2000) {
-      const arr = Array.from(next);
-      arr.splice(0, arr.length - 2000);
-      seenPosts.value = new Set(arr);
-    } else {
-      seenPosts.value = next;
-    }
-    try {
-      localStorage.setItem('purplesky-seen-posts', JSON.stringify(Array.from(seenPosts.value)));
-    } catch { /* ignore */ }
+    seenPosts.value = next;
+    const { markPostSeen, seenScope } = await import('~/lib/seen-posts');
+    markPostSeen(uri, seenScope(mixSourcesKey(app.feedMix)));
+  });
+
+  // Seen flags for the posts in this feed (the store itself lives in IndexedDB)
+  useVisibleTask$(async ({ track }) => {
+    track(() => seenStoreReady.value);
+    track(() => feed.items.length);
+    if (!seenStoreReady.value) return;
+    const { isPostSeen, seenScope } = await import('~/lib/seen-posts');
+    const scope = seenScope(mixSourcesKey(app.feedMix));
+    seenPosts.value = new Set(feed.items.map((i) => i.post.uri).filter((uri) => isPostSeen(uri, scope)));
   });
 
   // ── Feed Keyboard Navigation ────────────────────────────────────────────
@@ -425,52 +697,21 @@ export default component$(() => {
         key === 'e' || key === 'f' || key === 'c' || key === 'r' || key === 'q';
       if (!isNavKey) return;
 
-      const items = sortedDisplayItems.value.length > 0
-        ? sortedDisplayItems.value
-        : feed.items;
-      if (items.length === 0) return;
-
-      const cols = app.viewColumns;
+      // Indices refer to the grid's display order (see feedCache.layout)
+      const layout = feedCache.layout;
+      if (!layout || layout.order.length === 0) return;
       const i = focusedIndex.value;
 
-      // Navigation: W/S/A/D and arrows
-      if (key === 'w' || e.key === 'ArrowUp') {
-        e.preventDefault();
-        keyboardNavActive.value = true;
-        if (cols <= 1) {
-          focusedIndex.value = Math.max(0, i - 1);
-        } else {
-          focusedIndex.value = i - cols >= 0 ? i - cols : i;
-        }
-        scrollFocusedIntoView();
-        return;
-      }
-      if (key === 's' || e.key === 'ArrowDown') {
+      // Navigation: W/S/A/D and arrows move within / across masonry columns
+      const dir = key === 'w' || e.key === 'ArrowUp' ? 'up'
+        : key === 's' || e.key === 'ArrowDown' ? 'down'
+          : key === 'a' || e.key === 'ArrowLeft' ? 'left'
+            : key === 'd' || e.key === 'ArrowRight' ? 'right'
+              : null;
+      if (dir) {
         e.preventDefault();
         keyboardNavActive.value = true;
-        if (cols <= 1) {
-          focusedIndex.value = Math.min(items.length - 1, i + 1);
-        } else {
-          focusedIndex.value = i + cols < items.length ? i + cols : i;
-        }
-        scrollFocusedIntoView();
-        return;
-      }
-      if (key === 'a' || e.key === 'ArrowLeft') {
-        e.preventDefault();
-        keyboardNavActive.value = true;
-        // Don't move past the leftmost column
-        const col = i % cols;
-        focusedIndex.value = col === 0 ? i : i - 1;
-        scrollFocusedIntoView();
-        return;
-      }
-      if (key === 'd' || e.key === 'ArrowRight') {
-        e.preventDefault();
-        keyboardNavActive.value = true;
-        // Don't move past the rightmost column
-        const col = i % cols;
-        focusedIndex.value = col === cols - 1 ? i : i + 1;
+        focusedIndex.value = i < 0 ? 0 : masonryNeighbor(layout, i, dir);
         scrollFocusedIntoView();
         return;
       }
@@ -484,13 +725,13 @@ export default component$(() => {
       }
 
       // Action keys require a focused post
-      if (i < 0 || i >= items.length) return;
-      const item = items[i];
+      const uri = layout.order[i];
+      if (i < 0 || !uri) return;
 
       // E = Enter/open post (full path with base so GitHub Pages stays under /repo/)
       if (key === 'e') {
         e.preventDefault();
-        nav(withBase(`/post/${encodeURIComponent(item.post.uri)}/`));
+        nav(withBase(`/post/${encodeURIComponent(uri)}/`));
         return;
       }
 
@@ -498,7 +739,7 @@ export default component$(() => {
       if (key === 'f') {
         e.preventDefault();
         // Dispatch a custom event that PostCard can listen for
-        const card = document.querySelector(`[data-post-uri="${CSS.escape(item.post.uri)}"]`);
+        const card = document.querySelector(`[data-post-uri="${CSS.escape(uri)}"]`);
         if (card) card.dispatchEvent(new CustomEvent('keyboard-like', { bubbles: true }));
         return;
       }
@@ -506,7 +747,7 @@ export default component$(() => {
       // C = Collect (save to artboard)
       if (key === 'c') {
         e.preventDefault();
-        const card = document.querySelector(`[data-post-uri="${CSS.escape(item.post.uri)}"]`);
+        const card = document.querySelector(`[data-post-uri="${CSS.escape(uri)}"]`);
         if (card) card.dispatchEvent(new CustomEvent('keyboard-collect', { bubbles: true }));
         return;
       }
@@ -514,26 +755,26 @@ export default component$(() => {
       // R = Reply (full path with base so GitHub Pages stays under /repo/)
       if (key === 'r') {
         e.preventDefault();
-        nav(withBase(`/post/${encodeURIComponent(item.post.uri)}/`));
+        nav(withBase(`/post/${encodeURIComponent(uri)}/`));
         return;
       }
     };
 
     const scrollFocusedIntoView = () => {
       requestAnimationFrame(() => {
-        const idx = focusedIndex.value;
-        const cards = document.querySelectorAll('[data-post-uri]');
-        // Find the card at the focused index
-        const items = sortedDisplayItems.value.length > 0
-          ? sortedDisplayItems.value
-          : feed.items;
-        if (idx >= 0 && idx < items.length) {
-          const uri = items[idx]?.post?.uri;
-          if (uri) {
-            const el = document.querySelector(`[data-post-uri="${CSS.escape(uri)}"]`);
-            if (el) el.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          }
+        const uri = feedCache.layout?.order[focusedIndex.value];
+        if (!uri) return;
+        const el = document.querySelector(`[data-post-uri="${CSS.escape(uri)}"]`);
+        if (el) {
+          el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+          return;
         }
+        // Not mounted yet (outside the window): scroll to its layout position
+        const p = feedCache.layout?.byUri.get(uri);
+        const grid = gridRef.value;
+        if (!p || !grid) return;
+        const gridTop = grid.getBoundingClientRect().top + window.scrollY;
+        window.scrollTo({ top: gridTop + p.top + p.height / 2 - window.innerHeight / 2, behavior: 'smooth' });
       });
     };
 
@@ -589,22 +830,31 @@ export default component$(() => {
     sortedDisplayItems.value.length > 0
       ? sortedDisplayItems.value
       : feed.items;
-  const displayItems = baseItems
-    .filter((item) => !hiddenSeenUris.value.has(item.post.uri))
-    .filter((item) => {
-      if (app.nsfwMode === 'hide' && bsky.isPostNsfw(item.post)) return false;
-      return true;
-    })
-    .filter((item) => {
-      if (!app.mediaOnly) return true;
-      return !!bsky.getPostMediaInfo(item.post);
-    });
+  const displayItems = filterDisplayItems(baseItems, hiddenSeenUris.value, ruleHiddenUris.value, app.nsfwMode, app.mediaOnly);
 
-  // ── Distribute into masonry columns ─────────────────────────────────────
+  // ── Distribute into masonry columns (virtualized) ───────────────────────
+  // Columns come from the assignment task above; this only computes offsets
   const numCols = app.viewColumns;
-  const columns: Array<Array<{ item: TimelineItem; originalIndex: number }>> = Array.from({ length: numCols }, () => []);
-  displayItems.forEach((item, i) => {
-    columns[i % numCols].push({ item, originalIndex: i });
+  layoutTick.value; // re-layout when assignments or measured heights change
+  const heightsKey = `${app.cardViewMode}:${Math.round(gridView.columnWidth)}`;
+  const measured = feedCache.heightsKey === heightsKey ? feedCache.heights : null;
+  const itemByUri = new Map(displayItems.map((item) => [item.post.uri, item]));
+  const layout = layoutMasonry(
+    displayItems.map((item) => item.post.uri),
+    (uri) => masonryCardHeight(itemByUri.get(uri)!, gridView.columnWidth, app.cardViewMode, measured),
+    feedCache.masonry,
+    gridView.gap,
+  );
+  if (typeof window !== 'undefined') feedCache.layout = layout;
+  const windowFrom = gridView.top - GRID_OVERSCAN_PX;
+  const windowTo = gridView.top + gridView.height + GRID_OVERSCAN_PX;
+  const columns = layout.columns.map((col, c) => {
+    const w = masonryWindow(layout, c, windowFrom, windowTo);
+    return {
+      padTop: w.padTop,
+      padBottom: w.padBottom,
+      cards: col.slice(w.start, w.end).map((p) => ({ item: itemByUri.get(p.uri)!, originalIndex: p.index })),
+    };
   });
 
   return (
@@ -640,10 +890,47 @@ export default component$(() => {
             <option value="controversial">Controversial</option>
           </select>
 
+          {/* Content filter rules */}
+          <button
+            type="button"
+            class={`btn-ghost feed-mix-btn ${showContentFilters.value ? 'icon-btn-active' : ''}`}
+            aria-expanded={showContentFilters.value}
+            onClick$={() => { showContentFilters.value = !showContentFilters.value; }}
+          >
+            Filters{app.contentRules.length > 0 ? ` (${app.contentRules.length})` : ''}
+          </button>
+
+          {/* Catch-up: unseen posts since the last visit */}
+          <button
+            type="button"
+            class={`btn-ghost feed-mix-btn ${catchUp.active ? 'icon-btn-active' : ''}`}
+            aria-pressed={catchUp.active}
+            onClick$={() => (catchUp.active ? exitCatchUp() : startCatchUp())}
+          >
+            Catch up
+          </button>
+
         </div>
 
       </div>
 
+      {showContentFilters.value && (
+        <ContentFilters onClose$={() => { showContentFilters.value = false; }} />
+      )}
+
+      {catchUp.active && (
+        <CatchUpHeader
+          since={catchUp.since}
+          remaining={feed.items.filter((i) => !seenPosts.value.has(i.post.uri)).length}
+          bySource={catchUp.bySource}
+          byAuthor={catchUp.byAuthor}
+          loading={catchUp.loading}
+          complete={catchUp.complete}
+          onMarkAllSeen$={markCatchUpSeen}
+          onExit$={exitCatchUp}
+        />
+      )}
+
       {/* ── Floating Feeds button (artsky-style): top center, opens feed selector ── */}
       <div class="feeds-float-wrap">
         <button
@@ -665,6 +952,7 @@ export default component$(() => {
           <div class="feeds-float-dropdown">
             <FeedSelector
               onClose$={() => { showFeedSelector.value = false; }}
+              sessionShares={mixShares.value}
             />
           </div>
         )}
@@ -685,16 +973,22 @@ export default component$(() => {
 
       {/* ── Masonry Grid ───────────────────────────────────────────────── */}
       <div
+        ref={gridRef}
         class={`masonry-grid masonry-cols-${numCols}`}
         data-keyboard-nav={keyboardNavActive.value || undefined}
         onMouseMove$={() => { keyboardNavActive.value = false; }}
         onMouseLeave$={() => { mouseOverIndex.value = -1; }}
       >
         {columns.map((col, colIdx) => (
-          <div key={colIdx} class="masonry-column">
-            {col.map(({ item, originalIndex }) => (
+          <div
+            key={colIdx}
+            class="masonry-column"
+            style={{ paddingTop: `${col.padTop}px`, paddingBottom: `${col.padBottom}px` }}
+          >
+            {col.cards.map(({ item, originalIndex }) => (
               <div
                 key={item.post.uri}
+                data-masonry-uri={item.post.uri}
                 onMouseEnter$={() => { mouseOverIndex.value = originalIndex; }}
               >
                 <PostCard
@@ -708,6 +1002,15 @@ export default component$(() => {
                     next.add(item.post.uri);
                     unblurredNsfwUris.value = next;
                   }}
+                  filterNotice={revealedFilteredUris.value.has(item.post.uri)
+                    ? undefined
+                    : contentDecisions.value[item.post.uri]}
+                  onFilterReveal$={() => {
+                    const next = new Set(revealedFilteredUris.value);
+                    next.add(item.post.uri);
+                    revealedFilteredUris.value = next;
+                  }}
+                  showProvenance={app.showFeedProvenance}
                   downvoteCount={downvoteCounts.value[item.post.uri] ?? 0}
                   myDownvoteUri={app.session.isLoggedIn ? myDownvoteUris.value[item.post.uri] : undefined}
                   onDownvote$={app.session.isLoggedIn ? () => handleDownvote(item.post.uri, item.post.cid) : undefined}
@@ -763,7 +1066,7 @@ export default component$(() => {
         </div>
       )}
 
-      {!feed.loading && hasMoreCursor && displayItems.length > 0 && (
+      {!feed.loading && feed.hasMore && displayItems.length > 0 && (
         <div class="load-more flex-center">
           <button class="btn-ghost" onClick$={loadMore}>Load More</button>
         </div>
@@ -21,6 +21,7 @@ import { component$, Slot, useVisibleTask$, useSignal, $ } from '@builder.io/qwi
 import { Link, useLocation, useNavigate } from '@builder.io/qwik-city';
 import { useAppProvider, useAppState } from '~/context/app-context';
 import type { ThemeMode, CardViewMode } from '~/lib/types';
+import { loadContentRules } from '~/lib/content-filters';
 
 import { ComposeModal } from '~/components/compose-modal/compose-modal';
 import './layout.css';
@@ -39,6 +40,12 @@ export default component$(() => {
 
   const showAbout = useSignal(false);
   const accountMenuOpen = useSignal(false);
+  /** Seen posts synced to the PDS (account menu toggle) */
+  const seenSyncOn = useSignal(false);
+  /** Backlink index (Constellation) endpoint form in the account menu */
+  const backlinkOpen = useSignal(false);
+  const backlinkInput = useSignal('');
+  const backlinkStatus = useSignal('');
   const accountWrapRef = useSignal<HTMLElement>();
   const otherAccounts = useSignal<Array<{ did: string; handle: string; avatar?: string }>>([]);
   const navSearchOpen = useSignal(false);
@@ -139,6 +146,9 @@ export default component$(() => {
     if (savedNsfw === 'hide' || savedNsfw === 'blur' || savedNsfw === 'show') store.nsfwMode = savedNsfw;
     const savedMediaOnly = localStorage.getItem('purplesky-media-only');
     if (savedMediaOnly === '1') store.mediaOnly = true;
+    store.contentRules = loadContentRules();
+    if (localStorage.getItem('purplesky-show-provenance') === '1') store.showFeedProvenance = true;
+    seenSyncOn.value = localStorage.getItem('purplesky-seen-sync') === '1';
 
     // ── 2. Restore session (async — must finish before route sync) ──────
     try {
@@ -152,9 +162,8 @@ export default component$(() => {
         const { initOAuth } = await import('~/lib/oauth');
         const result = await initOAuth({ hasCallback: true });
         if (result?.session) {
-          const { Agent } = await import('@atproto/api');
-          const oauthAgent = new Agent(result.session);
-          const { setOAuthAgent, addOAuthDid } = await import('~/lib/bsky');
+          const { createOAuthAgent, setOAuthAgent, addOAuthDid } = await import('~/lib/bsky');
+          const oauthAgent = createOAuthAgent(result.session);
           setOAuthAgent(oauthAgent, result.session);
           addOAuthDid(oauthAgent.did!, true);
           // Clean URL — remove OAuth callback params so they aren't replayed
@@ -165,9 +174,8 @@ export default component$(() => {
         const { initOAuth } = await import('~/lib/oauth');
         const oauthResult = await initOAuth().catch(() => undefined);
         if (oauthResult?.session) {
-          const { Agent } = await import('@atproto/api');
-          const oauthAgent = new Agent(oauthResult.session);
-          const { setOAuthAgent, addOAuthDid } = await import('~/lib/bsky');
+          const { createOAuthAgent, setOAuthAgent, addOAuthDid } = await import('~/lib/bsky');
+          const oauthAgent = createOAuthAgent(oauthResult.session);
           setOAuthAgent(oauthAgent, oauthResult.session);
           addOAuthDid(oauthAgent.did!, true);
         } else {
@@ -182,9 +190,9 @@ export default component$(() => {
         store.session.isLoggedIn = true;
         // Fetch profile for handle/avatar
         try {
-          const { agent } = await import('~/lib/bsky');
-          const profile = await agent.getProfile({ actor: session.did });
-          const d = profile.data as { handle?: string; avatar?: string; displayName?: string };
+          const { getCachedProfile } = await import('~/lib/data-cache');
+          const d = await getCachedProfile(session.did);
+          if (!d) throw new Error('Profile not found');
           store.session.handle = d.handle ?? null;
           store.session.avatar = d.avatar ?? null;
           // Cache profile for account switcher
@@ -257,11 +265,10 @@ export default component$(() => {
     accountMenuOpen.value = false;
     try {
       const { restoreOAuthSession } = await import('~/lib/oauth');
-      const { Agent } = await import('@atproto/api');
       const session = await restoreOAuthSession(did);
       if (!session) return;
-      const oauthAgent = new Agent(session);
-      const { setOAuthAgent, setActiveOAuthDid, saveAccountProfile, getOAuthAccountsSnapshot, getAccountProfiles } = await import('~/lib/bsky');
+      const { createOAuthAgent, setOAuthAgent, setActiveOAuthDid, saveAccountProfile, getOAuthAccountsSnapshot, getAccountProfiles } = await import('~/lib/bsky');
+      const oauthAgent = createOAuthAgent(session);
       setOAuthAgent(oauthAgent, session);
       setActiveOAuthDid(did);
       // Update store with new profile
@@ -566,6 +573,62 @@ export default component$(() => {
                     <button type="button" onClick$={() => { cycleTheme(); accountMenuOpen.value = false; }}>
                       Theme
                     </button>
+                    <button
+                      type="button"
+                      title="Keep 'hide seen' in step across your devices"
+                      onClick$={async () => {
+                        const { setSeenSyncEnabled } = await import('~/lib/seen-posts');
+                        seenSyncOn.value = !seenSyncOn.value;
+                        store.toastMessage = seenSyncOn.value ? 'Seen posts sync on' : 'Seen posts sync off';
+                        try { await setSeenSyncEnabled(seenSyncOn.value); } catch { store.toastMessage = 'Seen posts sync failed'; }
+                      }}
+                    >
+                      Sync seen posts: {seenSyncOn.value ? 'On' : 'Off'}
+                    </button>
+                    <button
+                      type="button"
+                      title="Server used for vote counts and backlinks"
+                      aria-expanded={backlinkOpen.value}
+                      onClick$={async () => {
+                        backlinkOpen.value = !backlinkOpen.value;
+                        if (!backlinkOpen.value) return;
+                        const { getConstellationEndpoint, getActiveConstellationBase } = await import('~/lib/constellation');
+                        backlinkInput.value = getConstellationEndpoint() ?? '';
+                        backlinkStatus.value = `Using ${await getActiveConstellationBase()}`;
+                      }}
+                    >
+                      Backlink index…
+                    </button>
+                    {backlinkOpen.value && (
+                      <form
+                        class="acct-setting"
+                        preventdefault:submit
+                        onSubmit$={async () => {
+                          const c = await import('~/lib/constellation');
+                          try {
+                            c.setConstellationEndpoint(backlinkInput.value || null);
+                          } catch (err) {
+                            backlinkStatus.value = err instanceof Error ? err.message : String(err);
+                            return;
+                          }
+                          const custom = c.getConstellationEndpoint();
+                          if (custom && !(await c.checkConstellationHealth(custom))) {
+                            backlinkStatus.value = `Saved, but ${custom} is unreachable – using ${await c.getActiveConstellationBase()}`;
+                          } else {
+                            backlinkStatus.value = `Using ${await c.getActiveConstellationBase()}`;
+                          }
+                        }}
+                      >
+                        <input
+                          type="url"
+                          placeholder="https://constellation.microcosm.blue"
+                          aria-label="Backlink index URL (empty for default)"
+                          bind:value={backlinkInput}
+                        />
+                        <button type="submit">Save</button>
+                        <span class="acct-label">{backlinkStatus.value}</span>
+                      </form>
+                    )}
 
                     {/* ── Log out ── */}
                     <div class="acct-divider" />
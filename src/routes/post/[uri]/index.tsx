@@ -123,6 +123,35 @@ export default component$(() => {
     }
   });
 
+  // ── Downvotes ──────────────────────────────────────────────────────────
+  const handleDownvote = $(async (subjectUri: string, cid: string) => {
+    try {
+      const { createDownvote } = await import('~/lib/bsky');
+      const recordUri = await createDownvote(subjectUri, cid);
+      myDownvoteUris.value = { ...myDownvoteUris.value, [subjectUri]: recordUri };
+      // Cached count plus our vote (Constellation indexes it a little later)
+      const { getDownvoteCounts } = await import('~/lib/constellation');
+      replyDownvoteCounts.value = { ...replyDownvoteCounts.value, ...(await getDownvoteCounts([subjectUri])) };
+    } catch (err) {
+      console.error('Downvote failed:', err);
+    }
+  });
+  const handleUndoDownvote = $(async (subjectUri: string) => {
+    const recordUri = myDownvoteUris.value[subjectUri];
+    if (!recordUri) return;
+    try {
+      const { deleteDownvote } = await import('~/lib/bsky');
+      await deleteDownvote(recordUri, subjectUri);
+      const next = { ...myDownvoteUris.value };
+      delete next[subjectUri];
+      myDownvoteUris.value = next;
+      const { getDownvoteCounts } = await import('~/lib/constellation');
+      replyDownvoteCounts.value = { ...replyDownvoteCounts.value, ...(await getDownvoteCounts([subjectUri])) };
+    } catch (err) {
+      console.error('Undo downvote failed:', err);
+    }
+  });
+
   const handleReply = $(async () => {
     if (!replyText.value.trim() && !replyImages.value.length) return;
     if (!post.value) return;
@@ -334,14 +363,8 @@ export default component$(() => {
             downvoteCount={replyDownvoteCounts.value[p.uri] ?? 0}
             downvoted={!!myDownvoteUris.value[p.uri]}
             downvoteRecordUri={myDownvoteUris.value[p.uri]}
-            onDownvote$={app.session.isLoggedIn ? $(async () => {
-              myDownvoteUris.value = await (await import('~/lib/bsky')).listMyDownvotes();
-              replyDownvoteCounts.value = { ...replyDownvoteCounts.value, [p.uri]: (replyDownvoteCounts.value[p.uri] ?? 0) + 1 };
-            }) : undefined}
-            onUndoDownvote$={app.session.isLoggedIn ? $(async () => {
-              myDownvoteUris.value = await (await import('~/lib/bsky')).listMyDownvotes();
-              replyDownvoteCounts.value = { ...replyDownvoteCounts.value, [p.uri]: Math.max(0, (replyDownvoteCounts.value[p.uri] ?? 0) - 1) };
-            }) : undefined}
+            onDownvote$={app.session.isLoggedIn ? () => handleDownvote(p.uri, p.cid) : undefined}
+            onUndoDownvote$={app.session.isLoggedIn ? () => handleUndoDownvote(p.uri) : undefined}
             replyCount={p.replyCount ?? 0}
             replyHref={withBase(`/post/${encodeURIComponent(p.uri)}/`)}
           />
@@ -587,14 +610,8 @@ export default component$(() => {
                             downvoteCount={replyDownvoteCounts.value[rp.uri] ?? 0}
                             downvoted={!!myDownvoteUris.value[rp.uri]}
                             downvoteRecordUri={myDownvoteUris.value[rp.uri]}
-                            onDownvote$={app.session.isLoggedIn ? $(async () => {
-                              myDownvoteUris.value = await (await import('~/lib/bsky')).listMyDownvotes();
-                              replyDownvoteCounts.value = { ...replyDownvoteCounts.value, [rp.uri]: (replyDownvoteCounts.value[rp.uri] ?? 0) + 1 };
-                            }) : undefined}
-                            onUndoDownvote$={app.session.isLoggedIn ? $(async () => {
-                              myDownvoteUris.value = await (await import('~/lib/bsky')).listMyDownvotes();
-                              replyDownvoteCounts.value = { ...replyDownvoteCounts.value, [rp.uri]: Math.max(0, (replyDownvoteCounts.value[rp.uri] ?? 0) - 1) };
-                            }) : undefined}
+                            onDownvote$={app.session.isLoggedIn ? () => handleDownvote(rp.uri, rp.cid) : undefined}
+                            onUndoDownvote$={app.session.isLoggedIn ? () => handleUndoDownvote(rp.uri) : undefined}
                             replyCount={rp.replyCount ?? 0}
                             replyHref={withBase(`/post/${encodeURIComponent(uri)}/`)}
                             compact
@@ -45,9 +45,11 @@ export default component$(() => {
   useVisibleTask$(async () => {
     try {
       const { publicAgent, agent, getSession } = await import('~/lib/bsky');
+      const { getCachedProfile } = await import('~/lib/data-cache');
       const client = getSession() ? agent : publicAgent;
-      const res = await client.getProfile({ actor: handle });
-      profile.value = res.data as unknown as ProfileView;
+      // Cached copy first (if any); a newer one replaces it when it arrives
+      profile.value = await getCachedProfile(handle, (fresh) => { profile.value = fresh; });
+      if (!profile.value) throw new Error(`Profile not found: ${handle}`);
       const feedRes = await client.getAuthorFeed({ actor: handle, limit: 50 });
       posts.value = (feedRes.data.feed ?? []) as TimelineItem[];
     } catch (err) {
@@ -4,7 +4,7 @@
  * This file configures:
  *  - Qwik framework plugin (enables resumability)
  *  - QwikCity plugin (file-based routing)
- *  - WASM support (loads Rust-compiled WebAssembly modules)
+ *  - WASM support (loads Rust-compiled WebAssembly modules, also in workers)
  *  - Base path for deployment and local subpath dev
  *
  * Base URL:
@@ -119,6 +119,11 @@ export default defineConfig({
   preview: {
     port: 4173,
   },
+  /* Web Worker bundles (lib/wasm-worker.ts loads the WASM off the main thread) */
+  worker: {
+    format: 'es',
+    plugins: () => [wasm(), topLevelAwait()],
+  },
   /* Build settings */
   build: {
     target: 'es2021',
@@ -5,12 +5,14 @@
  *  - Sorting feeds by various algorithms (newest, trending, Wilson score)
  *  - Calculating net votes (upvotes minus downvotes)
  *  - Remixing feeds by percentage weights
+ *  - Masonry column assignment (full and incremental)
  *  - Polis-like consensus clustering (opinion groups, agreement ratios)
  *  - Forum thread scoring and ranking
  *
  * HOW TO EDIT:
  *  - Each function below is marked with #[wasm_bindgen] so JavaScript can call it.
- *  - Data is passed as JSON strings and returned as JSON strings.
+ *  - Data is passed as JSON strings and returned as JSON strings, except the
+ *    packed hot paths in Section 7, which take and return typed arrays.
  *  - After editing, run: cd wasm && wasm-pack build --target web --out-dir ../src/wasm-pkg
  */
 
@@ -63,8 +65,12 @@ pub fn sort_by_trending(posts_json: &str, now_ms: f64) -> String {
 
 /// Calculate trending score for a single post.
 fn trending_score(post: &SortablePost, now_ms: f64) -> f64 {
-    let engagement = (post.like_count + post.repost_count) as f64;
-    let created_ms = parse_iso_to_ms(&post.created_at);
+    trending_score_parts(post.like_count, post.repost_count, parse_iso_to_ms(&post.created_at), now_ms)
+}
+
+/// Trending score from raw parts (shared with sort_posts_packed).
+fn trending_score_parts(likes: u32, reposts: u32, created_ms: f64, now_ms: f64) -> f64 {
+    let engagement = (likes + reposts) as f64;
     // Age in hours (minimum 1 hour to avoid division by zero)
     let age_hours = ((now_ms - created_ms) / 3_600_000.0).max(1.0);
     // Gravity factor: older posts decay faster
@@ -187,6 +193,12 @@ pub struct FeedItem {
     pub uri: String,
     pub created_at: String,
     pub source_index: usize,
+    /// Post author DID (for the per-author cap). Empty = no cap for this item.
+    #[serde(default, skip_serializing_if = "String::is_empty")]
+    pub author: String,
+    /// DID of the account that reposted it, if this item is a repost.
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub reposted_by: Option<String>,
 }
 
 /// Configuration for a feed in the mix.
@@ -196,35 +208,194 @@ pub struct FeedMixConfig {
     pub items: Vec<FeedItem>,
 }
 
+/// Diversity and decay options for a mix. Mirrors FeedMixOptions in types.ts.
+/// All fields are optional; the defaults reproduce the plain percentage mix.
+#[derive(Serialize, Deserialize, Default)]
+#[serde(default, rename_all = "camelCase")]
+pub struct RemixOptions {
+    /// Max share of the page one author may fill (1–100). 0 = no cap.
+    pub max_author_percent: u32,
+    /// "keep" (default), "collapse" (one repost per reposter) or "hide".
+    pub repost_policy: String,
+    /// Recency half-life in hours. 0 = off.
+    pub half_life_hours: f64,
+}
+
 /// Remix multiple feeds by percentage.
 /// Takes a JSON array of FeedMixConfig (each feed with its percent and items).
-/// Returns a merged, deduplicated, chronologically sorted JSON array of FeedItem.
+/// Returns a merged, deduplicated JSON array of FeedItem in page order.
 #[wasm_bindgen]
 pub fn remix_feeds(config_json: &str, limit: usize) -> String {
+    remix_feeds_with_options(config_json, limit, "{}", 0.0)
+}
+
+/// Remix with per-author caps, repost collapsing and recency half-life.
+/// Must stay in step with fillMixedPage() (feed-mix.ts), which the home feed
+/// and the JS fallback in remixFeeds() use: both produce the same output.
+///  - Slot by slot, the feed furthest behind percent / total after one more
+///    item gets the slot (ties go to the earlier feed)
+///  - Reposts are dropped ("hide") or limited to one per reposter ("collapse")
+///  - No author fills more than max(1, limit * max_author_percent / 100) slots
+///  - With a half-life, each feed's items are tried by recency_weight / (rank + 1)
+///    instead of feed order (integer math so both paths agree)
+#[wasm_bindgen]
+pub fn remix_feeds_with_options(config_json: &str, limit: usize, options_json: &str, now_ms: f64) -> String {
     let configs: Vec<FeedMixConfig> = serde_json::from_str(config_json).unwrap_or_default();
-    let total_percent: u32 = configs.iter().map(|c| c.percent).sum();
-    if total_percent == 0 || configs.is_empty() {
-        return "[]".to_string();
+    let options: RemixOptions = serde_json::from_str(options_json).unwrap_or_default();
+
+    // Intern strings so the shared core compares integers
+    let mut uris: std::collections::HashMap<&str, u32> = std::collections::HashMap::new();
+    let mut dids: std::collections::HashMap<&str, u32> = std::collections::HashMap::new();
+    let feeds: Vec<(u32, Vec<RemixItem>)> = configs
+        .iter()
+        .map(|c| {
+            let items = c
+                .items
+                .iter()
+                .map(|i| {
+                    let next = uris.len() as u32;
+                    let uri = *uris.entry(i.uri.as_str()).or_insert(next);
+                    let author = if i.author.is_empty() {
+                        NO_ID
+                    } else {
+                        let next = dids.len() as u32;
+                        *dids.entry(i.author.as_str()).or_insert(next)
+                    };
+                    let reposted_by = match &i.reposted_by {
+                        Some(by) => {
+                            let next = dids.len() as u32;
+                            *dids.entry(by.as_str()).or_insert(next)
+                        }
+                        None => NO_ID,
+                    };
+                    RemixItem {
+                        uri,
+                        author,
+                        reposted_by,
+                        created_ms: parse_iso_to_ms(&i.created_at),
+                    }
+                })
+                .collect();
+            (c.percent, items)
+        })
+        .collect();
+
+    let picks = remix_core(&feeds, limit, options.max_author_percent, repost_policy_code(&options.repost_policy), options.half_life_hours, now_ms);
+    let combined: Vec<&FeedItem> = picks.iter().map(|&(f, i)| &configs[f].items[i]).collect();
+    serde_json::to_string(&combined).unwrap_or_default()
+}
+
+/// Interned id meaning "none" (no author / not a repost).
+const NO_ID: u32 = u32::MAX;
+
+/// A remix candidate with its strings interned.
+struct RemixItem {
+    uri: u32,
+    author: u32,
+    reposted_by: u32,
+    created_ms: f64,
+}
+
+/// "keep" = 0, "collapse" = 1, "hide" = 2 (same codes as remix_feeds_packed).
+fn repost_policy_code(policy: &str) -> u32 {
+    match policy {
+        "collapse" => 1,
+        "hide" => 2,
+        _ => 0,
+    }
+}
+
+/// The remix itself, shared by the JSON and packed entry points.
+/// Returns (feed index, item index) picks in page order.
+fn remix_core(
+    feeds: &[(u32, Vec<RemixItem>)],
+    limit: usize,
+    max_author_percent: u32,
+    repost_policy: u32,
+    half_life_hours: f64,
+    now_ms: f64,
+) -> Vec<(usize, usize)> {
+    let total_percent: u32 = feeds.iter().map(|f| f.0).sum();
+    if total_percent == 0 || feeds.is_empty() {
+        return Vec::new();
     }
 
-    let mut combined: Vec<FeedItem> = Vec::new();
-    let mut seen_uris = std::collections::HashSet::new();
+    let author_cap = if max_author_percent > 0 && max_author_percent < 100 {
+        std::cmp::max(1, limit * max_author_percent as usize / 100)
+    } else {
+        usize::MAX
+    };
 
-    // Take proportional number of items from each feed
-    for config in &configs {
-        let take = ((limit as f64 * config.percent as f64) / total_percent as f64).round() as usize;
-        for item in config.items.iter().take(take) {
-            if seen_uris.insert(item.uri.clone()) {
-                combined.push(item.clone());
+    let orders: Vec<Vec<usize>> = feeds.iter().map(|(_, items)| recency_order(items, half_life_hours, now_ms)).collect();
+    let mut taken = vec![0usize; feeds.len()];
+    let mut picks: Vec<(usize, usize)> = Vec::new();
+    let mut on_page = std::collections::HashSet::new();
+    let mut author_counts: std::collections::HashMap<u32, usize> = std::collections::HashMap::new();
+    let mut reposters = std::collections::HashSet::new();
+
+    while picks.len() < limit {
+        // The feed furthest behind its share that still has an item fitting the page
+        let mut best: Option<(usize, usize)> = None;
+        let mut best_deficit = f64::NEG_INFINITY;
+        for (f, (percent, items)) in feeds.iter().enumerate() {
+            if *percent == 0 {
+                continue;
+            }
+            let deficit = ((picks.len() + 1) as f64 * *percent as f64) / total_percent as f64 - taken[f] as f64;
+            if deficit <= best_deficit {
+                continue;
             }
+            let fits = |idx: &&usize| {
+                let item = &items[**idx];
+                if on_page.contains(&item.uri) {
+                    return false;
+                }
+                if item.reposted_by != NO_ID
+                    && (repost_policy == 2 || (repost_policy == 1 && reposters.contains(&item.reposted_by)))
+                {
+                    return false;
+                }
+                item.author == NO_ID || author_counts.get(&item.author).copied().unwrap_or(0) < author_cap
+            };
+            if let Some(&idx) = orders[f].iter().find(fits) {
+                best = Some((f, idx));
+                best_deficit = deficit;
+            }
+        }
+        let (f, idx) = match best {
+            Some(pick) => pick,
+            None => break,
+        };
+        let item = &feeds[f].1[idx];
+        on_page.insert(item.uri);
+        if item.author != NO_ID {
+            *author_counts.entry(item.author).or_insert(0) += 1;
+        }
+        if item.reposted_by != NO_ID {
+            reposters.insert(item.reposted_by);
         }
+        taken[f] += 1;
+        picks.push((f, idx));
     }
+    picks
+}
 
-    // Sort by created_at descending (newest first)
-    combined.sort_by(|a, b| b.created_at.cmp(&a.created_at));
-    combined.truncate(limit);
+/// Recency weight in millionths: 0.5^(age_hours / half_life), rounded.
+fn recency_weight(created_ms: f64, half_life_hours: f64, now_ms: f64) -> u64 {
+    let age_hours = (now_ms - created_ms).max(0.0) / 3_600_000.0;
+    (0.5f64.powf(age_hours / half_life_hours) * 1_000_000.0).round() as u64
+}
 
-    serde_json::to_string(&combined).unwrap_or_default()
+/// Order in which to consider a feed's items. Feed order without a half-life;
+/// otherwise highest weight / (rank + 1) first, ties keeping feed order.
+fn recency_order(items: &[RemixItem], half_life_hours: f64, now_ms: f64) -> Vec<usize> {
+    let mut order: Vec<usize> = (0..items.len()).collect();
+    if half_life_hours > 0.0 {
+        let weights: Vec<u64> = items.iter().map(|i| recency_weight(i.created_ms, half_life_hours, now_ms)).collect();
+        // a before b when w[a] / (a + 1) > w[b] / (b + 1), compared without division
+        order.sort_by(|&a, &b| (weights[b] * (a as u64 + 1)).cmp(&(weights[a] * (b as u64 + 1))));
+    }
+    order
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -386,6 +557,8 @@ pub fn analyze_consensus(votes_json: &str) -> String {
 // ═══════════════════════════════════════════════════════════════════════════════
 // SECTION 5: Masonry Layout Height Estimation
 // Estimate card heights to distribute posts evenly across columns.
+// distribute_masonry lays out a whole list; append_masonry / reflow_masonry
+// are incremental (cards already on screen keep their column).
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /// Minimal post info needed for height estimation.
@@ -396,6 +569,9 @@ pub struct PostLayoutInfo {
     pub media_aspect_ratio: Option<f64>,
     pub text_length: u32,
     pub image_count: u32,
+    /// Rendered height when the card has already been measured (wins over the estimate)
+    #[serde(default)]
+    pub measured_height: Option<f64>,
 }
 
 /// Column assignment result.
@@ -440,20 +616,128 @@ pub fn distribute_masonry(posts_json: &str, num_columns: usize) -> String {
 
 /// Estimate the rendered height of a post card (in pixels).
 fn estimate_height(post: &PostLayoutInfo) -> f64 {
+    // Assume card width ~300px
+    estimate_height_at(post, 300.0)
+}
+
+/// Estimate the rendered height of a post card at a given column width.
+fn estimate_height_at(post: &PostLayoutInfo, column_width: f64) -> f64 {
+    let width = if column_width > 0.0 { column_width } else { 300.0 };
     let base = 60.0; // Header (avatar, handle) + action row
     let media_h = if post.has_media {
         let ar = post.media_aspect_ratio.unwrap_or(1.0).max(0.3);
-        // Assume card width ~300px, height = width / aspect_ratio
-        (300.0 / ar).min(500.0).max(100.0)
+        // height = width / aspect_ratio
+        (width / ar).min(500.0).max(100.0)
     } else {
         0.0
     };
-    // ~20px per line, ~40 chars per line
-    let text_lines = ((post.text_length as f64) / 40.0).ceil().min(10.0);
+    // ~20px per line, ~7.5px per char (40 chars per line at 300px)
+    let chars_per_line = (width / 7.5).floor().max(1.0);
+    let text_lines = ((post.text_length as f64) / chars_per_line).ceil().min(10.0);
     let text_h = text_lines * 20.0;
     base + media_h + text_h
 }
 
+/// Measured height if known, else the estimate for this column width.
+fn card_height(post: &PostLayoutInfo, column_width: f64) -> f64 {
+    match post.measured_height {
+        Some(h) if h > 0.0 => h,
+        _ => estimate_height_at(post, column_width),
+    }
+}
+
+/// One card placed by append_masonry / reflow_masonry.
+#[derive(Serialize, Deserialize)]
+pub struct MasonryPlacement {
+    pub uri: String,
+    pub column: usize,
+    /// Offset from the top of the column (includes gaps)
+    pub top: f64,
+    pub estimated_height: f64,
+}
+
+/// Placements plus the column heights to pass to the next append_masonry call.
+#[derive(Serialize, Deserialize)]
+pub struct MasonryUpdate {
+    pub column_heights: Vec<f64>,
+    pub placements: Vec<MasonryPlacement>,
+}
+
+/// A card that already has a column (input to reflow_masonry).
+#[derive(Serialize, Deserialize)]
+pub struct PlacedCard {
+    pub uri: String,
+    pub column: usize,
+    pub height: f64,
+}
+
+/// Index of the shortest column (first one on ties).
+fn shortest_column(heights: &[f64]) -> usize {
+    let mut best = 0;
+    for (i, h) in heights.iter().enumerate() {
+        if *h < heights[best] {
+            best = i;
+        }
+    }
+    best
+}
+
+/// Put a card at the bottom of a column; returns its top offset.
+/// Column heights are the bottom edge of the last card (0 = empty column).
+fn stack_card(heights: &mut [f64], column: usize, height: f64, gap: f64) -> f64 {
+    let top = if heights[column] > 0.0 { heights[column] + gap } else { 0.0 };
+    heights[column] = top + height;
+    top
+}
+
+/// Place new cards below the existing ones (shortest column first) without
+/// touching cards already laid out.
+/// Input: JSON array of current column heights (its length is the column
+/// count), JSON array of PostLayoutInfo for the new cards only, column width
+/// and gap in pixels.
+/// Output: JSON MasonryUpdate with placements for the new cards.
+#[wasm_bindgen]
+pub fn append_masonry(column_heights_json: &str, posts_json: &str, column_width: f64, gap: f64) -> String {
+    let mut heights: Vec<f64> = serde_json::from_str(column_heights_json).unwrap_or_default();
+    if heights.is_empty() {
+        heights.push(0.0);
+    }
+    let posts: Vec<PostLayoutInfo> = serde_json::from_str(posts_json).unwrap_or_default();
+    let mut placements = Vec::with_capacity(posts.len());
+    for post in &posts {
+        let height = card_height(post, column_width);
+        let column = shortest_column(&heights);
+        let top = stack_card(&mut heights, column, height, gap);
+        placements.push(MasonryPlacement { uri: post.uri.clone(), column, top, estimated_height: height });
+    }
+    serde_json::to_string(&MasonryUpdate { column_heights: heights, placements }).unwrap_or_default()
+}
+
+/// Move existing cards to a new column count with as little movement as
+/// possible: walking in feed order, a card keeps its column unless that
+/// column is gone or would end up more than `max_skew` px taller than the
+/// shortest one (which is how new, empty columns fill up).
+/// Input: JSON array of PlacedCard in feed order, new column count, gap and
+/// max_skew in pixels.
+/// Output: JSON MasonryUpdate with placements for every card.
+#[wasm_bindgen]
+pub fn reflow_masonry(cards_json: &str, num_columns: usize, gap: f64, max_skew: f64) -> String {
+    let cards: Vec<PlacedCard> = serde_json::from_str(cards_json).unwrap_or_default();
+    let mut heights: Vec<f64> = vec![0.0; num_columns.max(1)];
+    let mut placements = Vec::with_capacity(cards.len());
+    for card in &cards {
+        let shortest = shortest_column(&heights);
+        let column = if card.column < heights.len() && heights[card.column] <= heights[shortest] + max_skew {
+            card.column
+        } else {
+            shortest
+        };
+        let top = stack_card(&mut heights, column, card.height, gap);
+        placements.push(MasonryPlacement { uri: card.uri.clone(), column, top, estimated_height: card.height });
+    }
+    serde_json::to_string(&MasonryUpdate { column_heights: heights, placements }).unwrap_or_default()
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // SECTION 6: Forum Thread Scoring
 // Score and rank forum threads for display.
@@ -496,6 +780,134 @@ fn forum_activity_score(thread: &ForumThread, now_ms: f64) -> f64 {
     engagement / age_hours.powf(1.2)
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// SECTION 7: Packed Transfer (hot paths)
+// Typed-array versions of sorting, remixing and masonry append. Strings are
+// interned on the JS side (wasm-bridge.ts) and sent as u32 ids, so large
+// feeds skip JSON encoding in both directions. Results are indices into the
+// input, not copies of it. Same algorithms as the JSON functions above.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/// Sort mode codes for sort_posts_packed.
+const SORT_NEWEST: u32 = 0;
+const SORT_TRENDING: u32 = 1;
+const SORT_WILSON: u32 = 2;
+const SORT_SCORE: u32 = 3;
+const SORT_CONTROVERSIAL: u32 = 4;
+
+/// Sort posts given as parallel arrays; returns the sorted order as indices.
+/// Input: mode (SORT_* above), created_rank (orders like the created_at
+/// strings), created_ms, counts (4 per post: likes, downvotes, replies,
+/// reposts) and the current time.
+#[wasm_bindgen]
+pub fn sort_posts_packed(mode: u32, created_rank: &[u32], created_ms: &[f64], counts: &[u32], now_ms: f64) -> Vec<u32> {
+    let n = created_rank.len().min(created_ms.len()).min(counts.len() / 4);
+    let likes = |i: usize| counts[i * 4];
+    let downs = |i: usize| counts[i * 4 + 1];
+    let reposts = |i: usize| counts[i * 4 + 3];
+    let mut order: Vec<u32> = (0..n as u32).collect();
+    let by_score = |order: &mut Vec<u32>, score: &dyn Fn(usize) -> f64| {
+        let scores: Vec<f64> = (0..n).map(score).collect();
+        order.sort_by(|&a, &b| {
+            scores[b as usize].partial_cmp(&scores[a as usize]).unwrap_or(std::cmp::Ordering::Equal)
+        });
+    };
+    match mode {
+        SORT_NEWEST => order.sort_by(|&a, &b| created_rank[b as usize].cmp(&created_rank[a as usize])),
+        SORT_TRENDING => by_score(&mut order, &|i| trending_score_parts(likes(i), reposts(i), created_ms[i], now_ms)),
+        SORT_WILSON => by_score(&mut order, &|i| wilson_score(likes(i), downs(i))),
+        SORT_SCORE => order.sort_by(|&a, &b| {
+            let score = |i: u32| likes(i as usize) as i32 - downs(i as usize) as i32;
+            score(b).cmp(&score(a))
+        }),
+        SORT_CONTROVERSIAL => by_score(&mut order, &|i| controversy_score(likes(i), downs(i))),
+        _ => {}
+    }
+    order
+}
+
+/// Remix feeds given as parallel arrays (all feeds concatenated).
+/// Input: percent and item count per feed; per item its interned uri,
+/// author and reposter ids (u32::MAX = none) and created_ms; then the
+/// RemixOptions fields (repost_policy: 0 keep, 1 collapse, 2 hide).
+/// Output: indices into the concatenated items, in page order.
+#[wasm_bindgen]
+pub fn remix_feeds_packed(
+    percents: &[u32],
+    lengths: &[u32],
+    uri_ids: &[u32],
+    author_ids: &[u32],
+    reposter_ids: &[u32],
+    created_ms: &[f64],
+    limit: usize,
+    max_author_percent: u32,
+    repost_policy: u32,
+    half_life_hours: f64,
+    now_ms: f64,
+) -> Vec<u32> {
+    let total = uri_ids.len().min(author_ids.len()).min(reposter_ids.len()).min(created_ms.len());
+    let mut feeds: Vec<(u32, Vec<RemixItem>)> = Vec::with_capacity(percents.len());
+    let mut starts: Vec<usize> = Vec::with_capacity(percents.len());
+    let mut at = 0usize;
+    for (f, percent) in percents.iter().enumerate() {
+        let end = (at + lengths.get(f).copied().unwrap_or(0) as usize).min(total);
+        starts.push(at);
+        let items = (at..end)
+            .map(|i| RemixItem {
+                uri: uri_ids[i],
+                author: author_ids[i],
+                reposted_by: reposter_ids[i],
+                created_ms: created_ms[i],
+            })
+            .collect();
+        feeds.push((*percent, items));
+        at = end;
+    }
+    remix_core(&feeds, limit, max_author_percent, repost_policy, half_life_hours, now_ms)
+        .into_iter()
+        .map(|(f, i)| (starts[f] + i) as u32)
+        .collect()
+}
+
+/// Packed append_masonry for new cards only.
+/// Input: current column heights; per card has_media (0/1), aspect ratio
+/// (NaN = unknown), text length, image count and measured height (0 = not
+/// measured); column width and gap.
+/// Output: (column, top, height) per card, then the new column heights.
+#[wasm_bindgen]
+pub fn append_masonry_packed(
+    column_heights: &[f64],
+    has_media: &[u8],
+    aspect: &[f64],
+    text_length: &[u32],
+    image_count: &[u32],
+    measured: &[f64],
+    column_width: f64,
+    gap: f64,
+) -> Vec<f64> {
+    let mut heights: Vec<f64> = if column_heights.is_empty() { vec![0.0] } else { column_heights.to_vec() };
+    let n = has_media.len().min(aspect.len()).min(text_length.len()).min(image_count.len()).min(measured.len());
+    let mut out = Vec::with_capacity(n * 3 + heights.len());
+    for i in 0..n {
+        let post = PostLayoutInfo {
+            uri: String::new(),
+            has_media: has_media[i] != 0,
+            media_aspect_ratio: if aspect[i].is_nan() { None } else { Some(aspect[i]) },
+            text_length: text_length[i],
+            image_count: image_count[i],
+            measured_height: if measured[i] > 0.0 { Some(measured[i]) } else { None },
+        };
+        let height = card_height(&post, column_width);
+        let column = shortest_column(&heights);
+        let top = stack_card(&mut heights, column, height, gap);
+        out.push(column as f64);
+        out.push(top);
+        out.push(height);
+    }
+    out.extend_from_slice(&heights);
+    out
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Utilities
 // ═══════════════════════════════════════════════════════════════════════════════